@@ -0,0 +1,102 @@
+import { parseQuickAdd } from '../app/utils/QuickAddParser';
+
+// Wednesday 8 January 2025, 10:00 local time
+const NOW = new Date(2025, 0, 8, 10, 0, 0);
+const SUBJECTS = ['Science', 'Computer Science', 'History'];
+
+const dayOf = (date?: Date) => date && [date.getFullYear(), date.getMonth() + 1, date.getDate()];
+const timeOf = (date?: Date) => date && [date.getHours(), date.getMinutes()];
+
+describe('parseQuickAdd', () => {
+  it('reads a date, time, priority and subject out of the title', () => {
+    const parsed = parseQuickAdd('Physics lab report due fri 5pm !high #Science', SUBJECTS, NOW);
+    expect(parsed.title).toBe('Physics lab report');
+    expect(dayOf(parsed.dueDate)).toEqual([2025, 1, 10]);
+    expect(parsed.dueTime).toBe('17:00');
+    expect(timeOf(parsed.dueDate)).toEqual([17, 0]);
+    expect(parsed.priority).toBe('high');
+    expect(parsed.subject).toBe('Science');
+  });
+
+  it('matches subject tags ignoring case and spacing', () => {
+    expect(parseQuickAdd('Essay #computer-science', SUBJECTS, NOW).subject).toBe('Computer Science');
+    expect(parseQuickAdd('Essay #ComputerScience', SUBJECTS, NOW).subject).toBe('Computer Science');
+  });
+
+  it('keeps unknown subject tags and priorities in the title', () => {
+    const parsed = parseQuickAdd('Essay #Art !urgent', SUBJECTS, NOW);
+    expect(parsed.title).toBe('Essay #Art !urgent');
+    expect(parsed.subject).toBeUndefined();
+    expect(parsed.priority).toBeUndefined();
+  });
+
+  describe('weekdays', () => {
+    it('reads an abbreviated weekday after on, by or due', () => {
+      expect(dayOf(parseQuickAdd('Essay on thurs', [], NOW).dueDate)).toEqual([2025, 1, 9]);
+      expect(dayOf(parseQuickAdd('Essay by mon', [], NOW).dueDate)).toEqual([2025, 1, 13]);
+      expect(parseQuickAdd('Essay due sat', [], NOW).title).toBe('Essay');
+    });
+
+    it('reads a full weekday name at the end of the phrase', () => {
+      const parsed = parseQuickAdd('Essay friday 9am !low', [], NOW);
+      expect(parsed.title).toBe('Essay');
+      expect(dayOf(parsed.dueDate)).toEqual([2025, 1, 10]);
+      expect(parsed.dueTime).toBe('09:00');
+    });
+
+    it('takes today for a bare weekday that is today, and a week ahead after next', () => {
+      expect(dayOf(parseQuickAdd('Essay due wed', [], NOW).dueDate)).toEqual([2025, 1, 8]);
+      expect(dayOf(parseQuickAdd('Essay next wed', [], NOW).dueDate)).toEqual([2025, 1, 15]);
+    });
+
+    it('leaves words that only start like a weekday in the title', () => {
+      const sat = parseQuickAdd('Study for SAT', [], NOW);
+      expect(sat.title).toBe('Study for SAT');
+      expect(sat.dueDate).toBeUndefined();
+
+      const sun = parseQuickAdd('Sun protection essay', [], NOW);
+      expect(sun.title).toBe('Sun protection essay');
+      expect(sun.dueDate).toBeUndefined();
+
+      expect(parseQuickAdd('Wedding speech draft', [], NOW).dueDate).toBeUndefined();
+      expect(parseQuickAdd('Monday club notes', [], NOW).dueDate).toBeUndefined();
+    });
+  });
+
+  describe('dates', () => {
+    it('reads relative dates', () => {
+      expect(dayOf(parseQuickAdd('Essay tomorrow', [], NOW).dueDate)).toEqual([2025, 1, 9]);
+      expect(dayOf(parseQuickAdd('Essay in 3 days', [], NOW).dueDate)).toEqual([2025, 1, 11]);
+      expect(dayOf(parseQuickAdd('Essay in a month', [], NOW).dueDate)).toEqual([2025, 2, 8]);
+      expect(dayOf(parseQuickAdd('Essay next week', [], NOW).dueDate)).toEqual([2025, 1, 15]);
+    });
+
+    it('reads month and day in either order, rolling over to next year once passed', () => {
+      expect(dayOf(parseQuickAdd('Exam dec 5', [], NOW).dueDate)).toEqual([2025, 12, 5]);
+      expect(dayOf(parseQuickAdd('Exam 5th jan', [], NOW).dueDate)).toEqual([2026, 1, 5]);
+      expect(dayOf(parseQuickAdd('Exam 2/14', [], NOW).dueDate)).toEqual([2025, 2, 14]);
+    });
+
+    it('rejects days a month does not have', () => {
+      const parsed = parseQuickAdd('Exam feb 30', [], NOW);
+      expect(parsed.dueDate).toBeUndefined();
+      expect(parsed.title).toBe('Exam feb 30');
+    });
+  });
+
+  describe('times', () => {
+    it('reads 12 and 24 hour times', () => {
+      expect(parseQuickAdd('Call at 5:30 pm', [], NOW).dueTime).toBe('17:30');
+      expect(parseQuickAdd('Call 12am', [], NOW).dueTime).toBe('00:00');
+      expect(parseQuickAdd('Call 17:05', [], NOW).dueTime).toBe('17:05');
+      expect(parseQuickAdd('Call noon', [], NOW).dueTime).toBe('12:00');
+    });
+
+    it('moves a time without a date that has passed today to tomorrow', () => {
+      const parsed = parseQuickAdd('Call 9am', [], NOW);
+      expect(parsed.title).toBe('Call');
+      expect(dayOf(parsed.dueDate)).toEqual([2025, 1, 9]);
+      expect(timeOf(parsed.dueDate)).toEqual([9, 0]);
+    });
+  });
+});
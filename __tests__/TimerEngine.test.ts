@@ -0,0 +1,138 @@
+import {
+  createTimerRun,
+  getSavedTimerFields,
+  getTimeLeft,
+  pauseTimerRun,
+  restoreTimerRun,
+  resumeTimerRun,
+  settleTimerRun,
+  startTimerRun
+} from '../app/utils/TimerEngine';
+
+// Every call gets the time passed in, so the clock is just a number moved by hand
+const START = Date.UTC(2025, 0, 6, 9, 0, 0);
+const seconds = (count: number) => count * 1000;
+
+describe('TimerEngine', () => {
+  it('goes from idle to running to paused to running to completed', () => {
+    let now = START;
+    let run = createTimerRun(1500);
+    expect(run.status).toBe('idle');
+    expect(getTimeLeft(run, now)).toBe(1500);
+
+    run = startTimerRun(run, now);
+    expect(run.status).toBe('running');
+    expect(run.endTime).toBe(START + seconds(1500));
+
+    now += seconds(600);
+    run = pauseTimerRun(run, now);
+    expect(run).toEqual({ status: 'paused', endTime: null, remainingMs: seconds(900) });
+
+    now += seconds(60);
+    run = startTimerRun(run, now);
+    expect(run.status).toBe('running');
+    expect(getTimeLeft(run, now)).toBe(900);
+
+    now += seconds(900);
+    run = settleTimerRun(run, now);
+    expect(run.status).toBe('completed');
+    expect(getTimeLeft(run, now)).toBe(0);
+  });
+
+  it('resumes after a pause without drifting', () => {
+    let now = START;
+    let run = startTimerRun(createTimerRun(1500), now);
+
+    // Pause and resume a few times, with ticks arriving late in between
+    for (let i = 0; i < 5; i++) {
+      now += seconds(100) + 250;
+      run = pauseTimerRun(run, now);
+      now += seconds(30);
+      run = startTimerRun(run, now);
+    }
+
+    // 5 x 100.25 seconds counted down, none of it given back by the pauses
+    expect(run.remainingMs).toBe(seconds(1500) - 5 * (seconds(100) + 250));
+    expect(getTimeLeft(run, now)).toBe(999);
+    expect(getTimeLeft(run, now + seconds(250))).toBe(749);
+    expect(settleTimerRun(run, now + seconds(998) + 749).status).toBe('running');
+    expect(settleTimerRun(run, now + seconds(998) + 750).status).toBe('completed');
+  });
+
+  it('picks a paused run up to the millisecond while the timer still shows its time', () => {
+    const paused = pauseTimerRun(startTimerRun(createTimerRun(1500), START), START + seconds(100) + 250);
+    expect(getTimeLeft(paused)).toBe(1400);
+
+    expect(resumeTimerRun(paused, 1400)).toBe(paused);
+    expect(resumeTimerRun(paused, 1500)).toEqual(createTimerRun(1500));
+    expect(resumeTimerRun(null, 1400)).toEqual(createTimerRun(1400));
+  });
+
+  it('counts down off the clock, however late the ticks are', () => {
+    const run = startTimerRun(createTimerRun(1500), START);
+    expect(getTimeLeft(run, START + 1)).toBe(1500);
+    expect(getTimeLeft(run, START + seconds(1))).toBe(1499);
+    expect(getTimeLeft(run, START + seconds(1499) + 1)).toBe(1);
+    expect(getTimeLeft(run, START + seconds(1500))).toBe(0);
+    expect(getTimeLeft(run, START + seconds(3000))).toBe(0);
+  });
+
+  it('completes a run paused after its end time instead of pausing it', () => {
+    const run = startTimerRun(createTimerRun(60), START);
+    expect(pauseTimerRun(run, START + seconds(90))).toEqual({ status: 'completed', endTime: START + seconds(60), remainingMs: 0 });
+  });
+
+  it('completes a restored running run whose end time has passed', () => {
+    const saved = { endTime: START + seconds(1500), timeLeft: 1500, isRunning: true };
+    const run = restoreTimerRun(saved, START + seconds(1800));
+    expect(run).toEqual({ status: 'completed', endTime: START + seconds(1500), remainingMs: 0 });
+  });
+
+  it('keeps a restored running run going when its end time is still ahead', () => {
+    const saved = { endTime: START + seconds(1500), timeLeft: 1500, isRunning: true };
+    const run = restoreTimerRun(saved, START + seconds(1200));
+    expect(run.status).toBe('running');
+    expect(getTimeLeft(run, START + seconds(1200))).toBe(300);
+  });
+
+  it('restores a run the background task stopped at zero as completed', () => {
+    const saved = { endTime: START + seconds(1500), timeLeft: 0, isRunning: false };
+    expect(restoreTimerRun(saved, START + seconds(2000)).status).toBe('completed');
+  });
+
+  it('restores a stopped run with time left as paused', () => {
+    const saved = { endTime: null, timeLeft: 420, isRunning: false };
+    expect(restoreTimerRun(saved, START)).toEqual({ status: 'paused', endTime: null, remainingMs: seconds(420) });
+    expect(restoreTimerRun({ ...saved, remainingMs: seconds(419) + 500 }, START).remainingMs).toBe(seconds(419) + 500);
+  });
+
+  it('round-trips every status through the saved fields', () => {
+    const idle = createTimerRun(1500);
+    const running = startTimerRun(idle, START);
+    const paused = pauseTimerRun(running, START + seconds(600));
+    const completed = settleTimerRun(running, START + seconds(1500));
+    const now = START + seconds(700);
+
+    const restoredRunning = restoreTimerRun(getSavedTimerFields(running, now), now);
+    expect(restoredRunning.status).toBe('running');
+    expect(restoredRunning.endTime).toBe(running.endTime);
+    expect(getTimeLeft(restoredRunning, now + seconds(50))).toBe(getTimeLeft(running, now + seconds(50)));
+
+    expect(restoreTimerRun(getSavedTimerFields(paused, now), now)).toEqual(paused);
+    expect(restoreTimerRun(getSavedTimerFields(completed, START + seconds(1500)), START + seconds(1600))).toEqual(completed);
+    // An idle run saves like a paused one, and comes back ready to start from the same time
+    const restoredIdle = restoreTimerRun(getSavedTimerFields(idle, now), now);
+    expect(getTimeLeft(restoredIdle, now)).toBe(1500);
+    expect(startTimerRun(restoredIdle, now)).toEqual(startTimerRun(idle, now));
+  });
+
+  it('saves a running run with its end time and the time left on the clock', () => {
+    const running = startTimerRun(createTimerRun(1500), START);
+    expect(getSavedTimerFields(running, START + seconds(100))).toEqual({
+      endTime: START + seconds(1500),
+      timeLeft: 1400,
+      remainingMs: seconds(1400),
+      isRunning: true
+    });
+  });
+});
@@ -10,6 +10,7 @@ import { Platform } from 'react-native';
 import { GestureHandlerRootView } from 'react-native-gesture-handler';
 import { SafeAreaProvider } from 'react-native-safe-area-context';
 import { registerBackgroundNotificationHandler } from './services/BackgroundNotificationHandler';
+import { requestLeaveFocus } from './services/FocusLock';
 import { initializeNotifications } from './services/NotificationService';
 import { registerTimerBackgroundTask } from './services/TimerBackgroundTask';
 import { verifyDataIntegrity } from './utils/DataIntegrity';
@@ -18,15 +19,22 @@ import { verifyDataIntegrity } from './utils/DataIntegrity';
 import AchievementsScreen from './screens/AchievementsScreen';
 import AddTaskScreen from './screens/AddTaskScreen';
 import AnalyticsScreen from './screens/AnalyticsScreen';
+import CalendarScreen from './screens/CalendarScreen';
 import DashboardScreen from './screens/DashboardScreen';
 import ExamsScreen from './screens/ExamsScreen';
 import OnboardingScreen from './screens/OnboardingScreen';
 import PermissionsTestScreen from './screens/PermissionsTestScreen';
+import PlannerScreen from './screens/PlannerScreen';
+import RecentChangesScreen from './screens/RecentChangesScreen';
 import ResourcesScreen from './screens/ResourcesScreen';
+import SearchScreen from './screens/SearchScreen';
+import SessionHistoryScreen from './screens/SessionHistoryScreen';
 import SettingsScreen from './screens/SettingsScreen';
+import SmartListsScreen from './screens/SmartListsScreen';
 import StreaksScreen from './screens/StreaksScreen';
 import TaskDetailScreen from './screens/TaskDetailScreen';
 import TasksScreen from './screens/TasksScreen';
+import TemplatesScreen from './screens/TemplatesScreen';
 import TimerScreen from './screens/TimerScreen';
 
 // Context
@@ -34,6 +42,7 @@ import ArchiveTaskInitializer from './components/ArchiveTaskInitializer';
 import DataSyncProvider from './components/DataSyncProvider';
 import NotificationInitializer from './components/NotificationInitializer';
 import PermissionsInitializer from './components/PermissionsInitializer';
+import UndoSnackbar from './components/UndoSnackbar';
 import { AppProvider } from './context/AppContext';
 import { ThemeProvider, useTheme } from './context/ThemeContext';
 
@@ -70,6 +79,16 @@ function TasksStack() {
         component={TaskDetailScreen}
         options={{ title: 'Task Details' }}
       />
+      <Stack.Screen
+        name="SmartLists"
+        component={SmartListsScreen}
+        options={{ title: 'Smart Lists' }}
+      />
+      <Stack.Screen
+        name="Templates"
+        component={TemplatesScreen}
+        options={{ title: 'Task Templates' }}
+      />
     </Stack.Navigator>
   );
 }
@@ -114,6 +133,26 @@ function DashboardStack() {
         component={AchievementsScreen}
         options={{ headerShown: true, title: 'Achievements' }}
       />
+      <Stack.Screen
+        name="Calendar"
+        component={CalendarScreen}
+        options={{ headerShown: true, title: 'Calendar' }}
+      />
+      <Stack.Screen
+        name="Planner"
+        component={PlannerScreen}
+        options={{ headerShown: true, title: 'Study Planner' }}
+      />
+      <Stack.Screen
+        name="Search"
+        component={SearchScreen}
+        options={{ headerShown: true, title: 'Search' }}
+      />
+      <Stack.Screen
+        name="SessionHistory"
+        component={SessionHistoryScreen}
+        options={{ headerShown: true, title: 'Session History' }}
+      />
     </Stack.Navigator>
   );
 }
@@ -143,6 +182,11 @@ function SettingsStack() {
         component={PermissionsTestScreen}
         options={{ headerShown: true, title: 'App Permissions' }}
       />
+      <Stack.Screen
+        name="RecentChanges"
+        component={RecentChangesScreen}
+        options={{ headerShown: true, title: 'Recent Changes' }}
+      />
     </Stack.Navigator>
   );
 }
@@ -178,6 +222,14 @@ function MainTabs() {
         },
         headerShown: false,
       })}
+      screenListeners={({ navigation, route }) => ({
+        // Leaving a focus session in focus mode has to be confirmed on the timer first
+        tabPress: (e) => {
+          if (route.name !== 'Timer' && requestLeaveFocus(() => navigation.navigate(route.name))) {
+            e.preventDefault();
+          }
+        },
+      })}
     >
       <Tab.Screen name="Dashboard" component={DashboardStack} />
       <Tab.Screen name="Tasks" component={TasksStack} />
@@ -273,6 +325,9 @@ export default function App() {
                   <Stack.Screen name="Main" component={MainTabs} />
                 </Stack.Navigator>
 
+                {/* Offer to undo deletes and bulk edits right after they happen */}
+                <UndoSnackbar />
+
                 {/* Initialize all permissions when the app starts */}
                 <PermissionsInitializer
                   onPermissionsInitialized={(statuses) => {
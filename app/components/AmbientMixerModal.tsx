@@ -0,0 +1,203 @@
+import { Ionicons } from '@expo/vector-icons';
+import Slider from '@react-native-community/slider';
+import React, { useState } from 'react';
+import { Modal, ScrollView, StyleSheet, Switch, Text, TouchableOpacity, View } from 'react-native';
+import { useTheme } from '../context/ThemeContext';
+import { AMBIENT_SOUNDS, AmbientMix, DEFAULT_TRACK_VOLUME, setTrackVolume } from '../utils/AmbientSounds';
+
+interface AmbientMixerModalProps {
+  mix: AmbientMix; // Mix playing now
+  profile?: { id: string; name: string; ambientMix?: AmbientMix }; // Active timer profile, the mix can be saved to it
+  onPreview: (mix: AmbientMix) => void; // Called on every change so the mix can be heard while it is set up
+  onSave: (mix: AmbientMix, profileId: string | null) => void;
+  onClose: () => void;
+}
+
+// Sets the volume of each bundled track, and whether the mix is kept for the active profile or every session
+const AmbientMixerModal: React.FC<AmbientMixerModalProps> = ({ mix: initialMix, profile, onPreview, onSave, onClose }) => {
+  const { theme } = useTheme();
+  // Initial values are only read on mount, so render the modal only while it is needed
+  const [mix, setMix] = useState<AmbientMix>(initialMix);
+  const [forProfile, setForProfile] = useState(!!profile?.ambientMix);
+
+  const changeVolume = (id: keyof AmbientMix, volume: number) => {
+    const updated = setTrackVolume(mix, id, volume);
+    setMix(updated);
+    onPreview(updated);
+  };
+
+  const handleSave = () => {
+    onSave(mix, forProfile && profile ? profile.id : null);
+    onClose();
+  };
+
+  return (
+    <Modal visible={true} animationType="slide" transparent={true} onRequestClose={onClose}>
+      <View style={styles.overlay}>
+        <View style={[styles.content, { backgroundColor: theme.card }]}>
+          <View style={[styles.header, { borderBottomColor: theme.border }]}>
+            <Text style={[styles.title, { color: theme.text }]}>Ambient Sounds</Text>
+            <TouchableOpacity onPress={onClose}>
+              <Ionicons name="close" size={24} color={theme.text} />
+            </TouchableOpacity>
+          </View>
+
+          <ScrollView contentContainerStyle={styles.body}>
+            <Text style={[styles.hint, { color: theme.textSecondary }]}>
+              Plays during focus sessions and pauses for breaks.
+            </Text>
+
+            {AMBIENT_SOUNDS.map(sound => {
+              const volume = mix[sound.id] || 0;
+              return (
+                <View key={sound.id} style={[styles.track, { borderBottomColor: theme.border }]}>
+                  <View style={styles.trackHeader}>
+                    <Ionicons name={sound.icon as any} size={22} color={volume > 0 ? theme.primary : theme.textSecondary} />
+                    <View style={styles.trackInfo}>
+                      <Text style={[styles.trackLabel, { color: theme.text }]}>{sound.label}</Text>
+                      <Text style={[styles.trackDescription, { color: theme.textSecondary }]}>{sound.description}</Text>
+                    </View>
+                    <Switch
+                      trackColor={{ false: theme.border, true: theme.primary }}
+                      thumbColor="#FFFFFF"
+                      ios_backgroundColor={theme.border}
+                      onValueChange={on => changeVolume(sound.id, on ? DEFAULT_TRACK_VOLUME : 0)}
+                      value={volume > 0}
+                    />
+                  </View>
+                  {volume > 0 && (
+                    <Slider
+                      minimumValue={0.05}
+                      maximumValue={1}
+                      step={0.05}
+                      value={volume}
+                      onValueChange={value => changeVolume(sound.id, value)}
+                      minimumTrackTintColor={theme.primary}
+                      maximumTrackTintColor={theme.border}
+                      thumbTintColor={theme.primary}
+                    />
+                  )}
+                </View>
+              );
+            })}
+
+            {profile && (
+              <>
+                <Text style={[styles.label, { color: theme.text }]}>Use This Mix For</Text>
+                <View style={styles.chipRow}>
+                  {[{ key: false, label: 'All sessions' }, { key: true, label: profile.name }].map(option => {
+                    const selected = option.key === forProfile;
+                    return (
+                      <TouchableOpacity
+                        key={option.label}
+                        style={[styles.chip, { backgroundColor: selected ? theme.primary : theme.primaryLight }]}
+                        onPress={() => setForProfile(option.key)}
+                      >
+                        <Text style={[styles.chipText, { color: selected ? '#FFFFFF' : theme.primary }]}>{option.label}</Text>
+                      </TouchableOpacity>
+                    );
+                  })}
+                </View>
+              </>
+            )}
+          </ScrollView>
+
+          <View style={styles.footer}>
+            <TouchableOpacity style={[styles.saveButton, { backgroundColor: theme.primary }]} onPress={handleSave}>
+              <Text style={styles.saveButtonText}>Save Mix</Text>
+            </TouchableOpacity>
+          </View>
+        </View>
+      </View>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  overlay: {
+    flex: 1,
+    justifyContent: 'flex-end',
+    backgroundColor: 'rgba(0,0,0,0.3)',
+  },
+  content: {
+    maxHeight: '85%',
+    borderTopLeftRadius: 20,
+    borderTopRightRadius: 20,
+    overflow: 'hidden',
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    padding: 16,
+    borderBottomWidth: StyleSheet.hairlineWidth,
+  },
+  title: {
+    fontSize: 18,
+    fontWeight: '600',
+  },
+  body: {
+    padding: 16,
+  },
+  hint: {
+    fontSize: 14,
+    marginBottom: 8,
+  },
+  track: {
+    paddingVertical: 12,
+    borderBottomWidth: StyleSheet.hairlineWidth,
+  },
+  trackHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  trackInfo: {
+    flex: 1,
+    marginLeft: 12,
+  },
+  trackLabel: {
+    fontSize: 16,
+    fontWeight: '500',
+  },
+  trackDescription: {
+    fontSize: 12,
+    marginTop: 2,
+  },
+  label: {
+    fontSize: 16,
+    fontWeight: '500',
+    marginTop: 16,
+    marginBottom: 8,
+  },
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+  },
+  chip: {
+    borderRadius: 20,
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    margin: 4,
+  },
+  chipText: {
+    fontSize: 14,
+    fontWeight: '500',
+  },
+  footer: {
+    flexDirection: 'row',
+    padding: 16,
+  },
+  saveButton: {
+    flex: 1,
+    borderRadius: 8,
+    padding: 14,
+    alignItems: 'center',
+  },
+  saveButtonText: {
+    color: '#FFFFFF',
+    fontSize: 16,
+    fontWeight: 'bold',
+  },
+});
+
+export default AmbientMixerModal;
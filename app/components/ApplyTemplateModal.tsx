@@ -0,0 +1,224 @@
+import { Ionicons } from '@expo/vector-icons';
+import DateTimePicker from '@react-native-community/datetimepicker';
+import { format, parseISO } from 'date-fns';
+import React, { useState } from 'react';
+import { Modal, ScrollView, StyleSheet, Text, TouchableOpacity, View } from 'react-native';
+import { useTheme } from '../context/ThemeContext';
+import { applyTemplate, TaskTemplate } from '../utils/TaskTemplates';
+
+interface ApplyTemplateModalProps {
+  templates: TaskTemplate[];
+  subjects: string[];
+  title: string;
+  initialTemplateId?: string;
+  initialDate: Date; // Anchor date, e.g. the date of an exam
+  initialSubject?: string;
+  onApply: (templateId: string, anchorDate: Date, subject?: string) => void;
+  onClose: () => void;
+}
+
+const ApplyTemplateModal: React.FC<ApplyTemplateModalProps> = ({
+  templates,
+  subjects,
+  title,
+  initialTemplateId,
+  initialDate,
+  initialSubject,
+  onApply,
+  onClose
+}) => {
+  const { theme } = useTheme();
+  // Initial values are only read on mount, so render the modal only while it is needed
+  const [templateId, setTemplateId] = useState<string | undefined>(initialTemplateId || templates[0]?.id);
+  const [anchorDate, setAnchorDate] = useState(initialDate);
+  const [subject, setSubject] = useState<string | undefined>(initialSubject);
+  const [showDatePicker, setShowDatePicker] = useState(false);
+
+  const template = templates.find(t => t.id === templateId);
+  const effectiveSubject = subject ?? template?.subject;
+  const preview = template ? applyTemplate(template, anchorDate, { subject: effectiveSubject }) : [];
+
+  const onDateChange = (event: any, selectedDate?: Date) => {
+    setShowDatePicker(false);
+    if (selectedDate) {
+      setAnchorDate(selectedDate);
+    }
+  };
+
+  return (
+    <Modal visible={true} animationType="slide" transparent={true} onRequestClose={onClose}>
+      <View style={styles.overlay}>
+        <View style={[styles.content, { backgroundColor: theme.card }]}>
+          <View style={[styles.header, { borderBottomColor: theme.border }]}>
+            <Text style={[styles.title, { color: theme.text }]}>{title}</Text>
+            <TouchableOpacity onPress={onClose}>
+              <Ionicons name="close" size={24} color={theme.text} />
+            </TouchableOpacity>
+          </View>
+
+          <ScrollView contentContainerStyle={styles.body}>
+            <Text style={[styles.label, { color: theme.text }]}>Template</Text>
+            {templates.length === 0 ? (
+              <Text style={[styles.emptyText, { color: theme.textSecondary }]}>
+                No templates yet. Create one from the Tasks screen.
+              </Text>
+            ) : (
+              <View style={styles.chipRow}>
+                {templates.map(t => (
+                  <TouchableOpacity
+                    key={t.id}
+                    style={[styles.chip, { backgroundColor: t.id === templateId ? theme.primary : theme.primaryLight }]}
+                    onPress={() => setTemplateId(t.id)}
+                  >
+                    <Text style={[styles.chipText, { color: t.id === templateId ? '#FFFFFF' : theme.primary }]}>
+                      {t.name}
+                    </Text>
+                  </TouchableOpacity>
+                ))}
+              </View>
+            )}
+
+            <Text style={[styles.label, { color: theme.text }]}>Anchor Date</Text>
+            <TouchableOpacity
+              style={[styles.dateButton, { backgroundColor: theme.primaryLight }]}
+              onPress={() => setShowDatePicker(true)}
+            >
+              <Ionicons name="calendar-outline" size={20} color={theme.primary} />
+              <Text style={[styles.dateText, { color: theme.primary }]}>{format(anchorDate, 'EEEE, MMMM d, yyyy')}</Text>
+            </TouchableOpacity>
+            {showDatePicker && (
+              <DateTimePicker value={anchorDate} mode="date" display="default" onChange={onDateChange} />
+            )}
+
+            <Text style={[styles.label, { color: theme.text }]}>Subject</Text>
+            <View style={styles.chipRow}>
+              {subjects.map(name => (
+                <TouchableOpacity
+                  key={name}
+                  style={[styles.chip, { backgroundColor: name === effectiveSubject ? theme.primary : theme.primaryLight }]}
+                  onPress={() => setSubject(name === effectiveSubject ? '' : name)}
+                >
+                  <Text style={[styles.chipText, { color: name === effectiveSubject ? '#FFFFFF' : theme.primary }]}>
+                    {name}
+                  </Text>
+                </TouchableOpacity>
+              ))}
+            </View>
+
+            {preview.length > 0 && (
+              <>
+                <Text style={[styles.label, { color: theme.text }]}>Tasks to Create</Text>
+                {preview.map((task, index) => (
+                  <View key={index} style={[styles.previewRow, { borderBottomColor: theme.border }]}>
+                    <Text style={[styles.previewTitle, { color: theme.text }]} numberOfLines={1}>{task.title}</Text>
+                    <Text style={[styles.previewDate, { color: theme.textSecondary }]}>
+                      {format(parseISO(task.dueDate), 'EEE, MMM d')}
+                    </Text>
+                  </View>
+                ))}
+              </>
+            )}
+          </ScrollView>
+
+          <TouchableOpacity
+            style={[styles.applyButton, { backgroundColor: preview.length > 0 ? theme.primary : theme.border }]}
+            onPress={() => template && onApply(template.id, anchorDate, effectiveSubject)}
+            disabled={preview.length === 0}
+          >
+            <Text style={styles.applyButtonText}>
+              Create {preview.length} {preview.length === 1 ? 'Task' : 'Tasks'}
+            </Text>
+          </TouchableOpacity>
+        </View>
+      </View>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  overlay: {
+    flex: 1,
+    justifyContent: 'flex-end',
+    backgroundColor: 'rgba(0,0,0,0.3)',
+  },
+  content: {
+    maxHeight: '85%',
+    borderTopLeftRadius: 20,
+    borderTopRightRadius: 20,
+    overflow: 'hidden',
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    padding: 16,
+    borderBottomWidth: StyleSheet.hairlineWidth,
+  },
+  title: {
+    fontSize: 18,
+    fontWeight: '600',
+  },
+  body: {
+    padding: 16,
+  },
+  label: {
+    fontSize: 16,
+    fontWeight: '500',
+    marginTop: 8,
+    marginBottom: 8,
+  },
+  emptyText: {
+    fontSize: 14,
+  },
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+  },
+  chip: {
+    borderRadius: 20,
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    margin: 4,
+  },
+  chipText: {
+    fontSize: 14,
+    fontWeight: '500',
+  },
+  dateButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    borderRadius: 8,
+    padding: 12,
+  },
+  dateText: {
+    fontSize: 16,
+    marginLeft: 8,
+  },
+  previewRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    paddingVertical: 8,
+    borderBottomWidth: StyleSheet.hairlineWidth,
+  },
+  previewTitle: {
+    flex: 1,
+    fontSize: 15,
+    marginRight: 8,
+  },
+  previewDate: {
+    fontSize: 13,
+  },
+  applyButton: {
+    margin: 16,
+    borderRadius: 8,
+    padding: 14,
+    alignItems: 'center',
+  },
+  applyButtonText: {
+    color: '#FFFFFF',
+    fontSize: 16,
+    fontWeight: 'bold',
+  },
+});
+
+export default ApplyTemplateModal;
@@ -0,0 +1,98 @@
+import React, { useEffect, useState } from 'react';
+import { StyleSheet, Text, TextInput, TouchableOpacity, View } from 'react-native';
+import { useTheme } from '../context/ThemeContext';
+import { ESTIMATE_PRESETS, formatMinutes } from '../utils/TimeEstimates';
+
+interface EstimateInputProps {
+  value?: number; // Estimate in minutes
+  onChange: (minutes: number | undefined) => void;
+}
+
+const EstimateInput: React.FC<EstimateInputProps> = ({ value, onChange }) => {
+  const { theme } = useTheme();
+  const [text, setText] = useState(value ? String(value) : '');
+
+  // Keep the text field in step when a preset is picked
+  useEffect(() => {
+    setText(value ? String(value) : '');
+  }, [value]);
+
+  const handleChangeText = (input: string) => {
+    const digits = input.replace(/[^0-9]/g, '');
+    setText(digits);
+
+    const minutes = parseInt(digits, 10);
+    onChange(minutes > 0 ? minutes : undefined);
+  };
+
+  return (
+    <View>
+      <View style={styles.optionRow}>
+        {ESTIMATE_PRESETS.map(preset => {
+          const isSelected = value === preset;
+          return (
+            <TouchableOpacity
+              key={preset}
+              style={[styles.optionChip, { backgroundColor: isSelected ? theme.primary : theme.primaryLight }]}
+              onPress={() => onChange(isSelected ? undefined : preset)}
+            >
+              <Text style={[styles.optionText, { color: isSelected ? '#FFFFFF' : theme.primary }]}>
+                {formatMinutes(preset)}
+              </Text>
+            </TouchableOpacity>
+          );
+        })}
+      </View>
+
+      <View style={styles.customRow}>
+        <TextInput
+          style={[styles.input, { backgroundColor: theme.card, color: theme.text, borderColor: theme.border }]}
+          value={text}
+          onChangeText={handleChangeText}
+          placeholder="Custom"
+          placeholderTextColor={theme.textSecondary}
+          keyboardType="number-pad"
+          maxLength={4}
+        />
+        <Text style={[styles.unitText, { color: theme.textSecondary }]}>minutes</Text>
+      </View>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  optionRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+  },
+  optionChip: {
+    borderRadius: 20,
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    margin: 4,
+  },
+  optionText: {
+    fontSize: 14,
+    fontWeight: '500',
+  },
+  customRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginTop: 8,
+    marginHorizontal: 4,
+  },
+  input: {
+    width: 90,
+    borderRadius: 8,
+    borderWidth: 1,
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    fontSize: 16,
+  },
+  unitText: {
+    fontSize: 14,
+    marginLeft: 8,
+  },
+});
+
+export default EstimateInput;
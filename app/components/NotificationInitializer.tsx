@@ -1,16 +1,72 @@
 import AsyncStorage from '@react-native-async-storage/async-storage';
-import { useContext, useEffect, useRef } from 'react';
+import * as Notifications from 'expo-notifications';
+import { useContext, useEffect, useRef, useState } from 'react';
 import { AppContext } from '../context/AppContext';
 import * as NotificationService from '../services/NotificationService';
+import { SnoozeOption } from '../utils/Snooze';
+
+type PendingSnooze = {
+  taskId: string;
+  option: SnoozeOption;
+};
 
 /**
  * Component that handles notification initialization and permission requests
  * This component doesn't render anything - it just handles the notification setup
  */
 export default function NotificationInitializer() {
-  const { settings, tasks, exams } = useContext(AppContext);
+  const { settings, tasks, exams, snoozeTask } = useContext(AppContext);
   const initializationCompleted = useRef(false);
   const lastDataHash = useRef('');
+  const handledResponses = useRef(new Set<string>());
+  const [pendingSnoozes, setPendingSnoozes] = useState<PendingSnooze[]>([]);
+
+  // Queue presses of the snooze buttons on task reminders
+  useEffect(() => {
+    const handleResponse = (response: Notifications.NotificationResponse | null) => {
+      if (!response) return;
+
+      const option = NotificationService.SNOOZE_ACTIONS[response.actionIdentifier as keyof typeof NotificationService.SNOOZE_ACTIONS];
+      const { taskId } = response.notification.request.content.data || {};
+      const notificationId = response.notification.request.identifier;
+      if (!option || typeof taskId !== 'string' || handledResponses.current.has(notificationId)) return;
+
+      handledResponses.current.add(notificationId);
+      setPendingSnoozes(pending => [...pending, { taskId, option }]);
+      Notifications.dismissNotificationAsync(notificationId).catch(() => {});
+      AsyncStorage.setItem('lastSnoozeResponse', notificationId);
+    };
+
+    // A button pressed while the app was closed is delivered once the app starts,
+    // the same response is returned on every launch so remember the one handled
+    const handleLaunchResponse = async () => {
+      try {
+        const [response, lastHandled] = await Promise.all([
+          Notifications.getLastNotificationResponseAsync(),
+          AsyncStorage.getItem('lastSnoozeResponse')
+        ]);
+        if (response && response.notification.request.identifier !== lastHandled) {
+          handleResponse(response);
+        }
+      } catch (error) {
+        console.error('Error reading last notification response:', error);
+      }
+    };
+
+    handleLaunchResponse();
+
+    const subscription = Notifications.addNotificationResponseReceivedListener(handleResponse);
+    return () => subscription.remove();
+  }, []);
+
+  // Apply queued snoozes once their task has been loaded
+  useEffect(() => {
+    const ready = pendingSnoozes.filter(pending => tasks.some(task => task.id === pending.taskId));
+    if (ready.length === 0) return;
+
+    ready.forEach(pending => snoozeTask(pending.taskId, pending.option));
+    setPendingSnoozes(pending => pending.filter(item => !ready.includes(item)));
+  }, [pendingSnoozes, tasks, snoozeTask]);
 
   // Initialize notifications when settings or related data change
   useEffect(() => {
@@ -0,0 +1,147 @@
+import { Ionicons } from '@expo/vector-icons';
+import { format } from 'date-fns';
+import React, { useMemo, useState } from 'react';
+import { StyleSheet, Text, TextInput, TouchableOpacity, View } from 'react-native';
+import { useTheme } from '../context/ThemeContext';
+import { ParsedQuickAdd, parseQuickAdd } from '../utils/QuickAddParser';
+
+interface QuickAddBarProps {
+  subjects: string[];
+  onSubmit: (parsed: ParsedQuickAdd) => void;
+}
+
+const QuickAddBar: React.FC<QuickAddBarProps> = ({ subjects, onSubmit }) => {
+  const { theme } = useTheme();
+  const [text, setText] = useState('');
+
+  const parsed = useMemo(() => parseQuickAdd(text, subjects), [text, subjects]);
+
+  const getPriorityColor = (priority: string) => {
+    switch (priority) {
+      case 'high':
+        return theme.danger;
+      case 'medium':
+        return theme.warning;
+      default:
+        return theme.success;
+    }
+  };
+
+  const handleSubmit = () => {
+    if (!parsed.title.trim()) return;
+
+    onSubmit(parsed);
+    setText('');
+  };
+
+  return (
+    <View>
+      <View style={styles.inputRow}>
+        <TextInput
+          style={[styles.input, { backgroundColor: theme.background, color: theme.text, borderColor: theme.border }]}
+          value={text}
+          onChangeText={setText}
+          onSubmitEditing={handleSubmit}
+          placeholder='e.g. "Physics lab report due fri 5pm !high #Science"'
+          placeholderTextColor={theme.textSecondary}
+          returnKeyType="done"
+        />
+        <TouchableOpacity
+          style={[styles.addButton, { backgroundColor: parsed.title.trim() ? theme.primary : theme.border }]}
+          onPress={handleSubmit}
+          disabled={!parsed.title.trim()}
+        >
+          <Ionicons name="add" size={22} color="#FFFFFF" />
+        </TouchableOpacity>
+      </View>
+
+      {text.trim().length > 0 && (
+        <View style={styles.preview}>
+          <View style={[styles.chip, { backgroundColor: theme.primaryLight }]}>
+            <Ionicons name="document-text-outline" size={14} color={theme.primary} />
+            <Text style={[styles.chipText, { color: theme.primary }]} numberOfLines={1}>
+              {parsed.title || 'No title'}
+            </Text>
+          </View>
+
+          {parsed.dueDate && (
+            <View style={[styles.chip, { backgroundColor: theme.primaryLight }]}>
+              <Ionicons name="calendar-outline" size={14} color={theme.primary} />
+              <Text style={[styles.chipText, { color: theme.primary }]}>
+                {format(parsed.dueDate, 'EEE, MMM d')}
+              </Text>
+            </View>
+          )}
+
+          {parsed.dueTime && parsed.dueDate && (
+            <View style={[styles.chip, { backgroundColor: theme.primaryLight }]}>
+              <Ionicons name="time-outline" size={14} color={theme.primary} />
+              <Text style={[styles.chipText, { color: theme.primary }]}>
+                {format(parsed.dueDate, 'h:mm a')}
+              </Text>
+            </View>
+          )}
+
+          {parsed.priority && (
+            <View style={[styles.chip, { backgroundColor: `${getPriorityColor(parsed.priority)}20` }]}>
+              <Ionicons name="flag-outline" size={14} color={getPriorityColor(parsed.priority)} />
+              <Text style={[styles.chipText, { color: getPriorityColor(parsed.priority) }]}>
+                {parsed.priority.charAt(0).toUpperCase() + parsed.priority.slice(1)}
+              </Text>
+            </View>
+          )}
+
+          {parsed.subject && (
+            <View style={[styles.chip, { backgroundColor: theme.primaryLight }]}>
+              <Ionicons name="bookmark-outline" size={14} color={theme.primary} />
+              <Text style={[styles.chipText, { color: theme.primary }]}>{parsed.subject}</Text>
+            </View>
+          )}
+        </View>
+      )}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  inputRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  input: {
+    flex: 1,
+    borderRadius: 8,
+    padding: 12,
+    fontSize: 16,
+    borderWidth: 1,
+  },
+  addButton: {
+    width: 44,
+    height: 44,
+    borderRadius: 22,
+    justifyContent: 'center',
+    alignItems: 'center',
+    marginLeft: 8,
+  },
+  preview: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    marginTop: 8,
+  },
+  chip: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    borderRadius: 16,
+    paddingHorizontal: 10,
+    paddingVertical: 4,
+    marginRight: 6,
+    marginBottom: 6,
+    maxWidth: '100%',
+  },
+  chipText: {
+    fontSize: 13,
+    marginLeft: 4,
+  },
+});
+
+export default QuickAddBar;
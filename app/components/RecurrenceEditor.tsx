@@ -0,0 +1,312 @@
+import { Ionicons } from '@expo/vector-icons';
+import DateTimePicker from '@react-native-community/datetimepicker';
+import { parseISO } from 'date-fns';
+import React, { useState } from 'react';
+import { StyleSheet, Text, TouchableOpacity, View } from 'react-native';
+import { useTheme } from '../context/ThemeContext';
+import { describeRecurrence, RecurrenceFrequency, RecurrenceRule } from '../utils/Recurrence';
+
+interface RecurrenceEditorProps {
+  value?: RecurrenceRule;
+  onChange: (rule: RecurrenceRule | undefined) => void;
+  anchorDate: Date; // Due date of the task, used to pick sensible defaults
+}
+
+const FREQUENCY_OPTIONS: { key: RecurrenceFrequency | 'none'; label: string }[] = [
+  { key: 'none', label: 'Never' },
+  { key: 'daily', label: 'Daily' },
+  { key: 'weekdays', label: 'Weekdays' },
+  { key: 'weekly', label: 'Weekly' },
+  { key: 'monthly', label: 'Monthly' },
+];
+
+const WEEKDAY_INITIALS = ['S', 'M', 'T', 'W', 'T', 'F', 'S'];
+
+const RecurrenceEditor: React.FC<RecurrenceEditorProps> = ({ value, onChange, anchorDate }) => {
+  const { theme } = useTheme();
+  const [showUntilPicker, setShowUntilPicker] = useState(false);
+
+  const endMode = value?.count ? 'count' : value?.until ? 'until' : 'never';
+
+  // Switch frequency, seeding weekday/month day from the task's due date
+  const selectFrequency = (frequency: RecurrenceFrequency | 'none') => {
+    if (frequency === 'none') {
+      onChange(undefined);
+      return;
+    }
+
+    onChange({
+      frequency,
+      interval: 1,
+      byWeekday: frequency === 'weekly' ? [anchorDate.getDay()] : undefined,
+      byMonthDay: frequency === 'monthly' ? anchorDate.getDate() : undefined,
+      until: value?.until,
+      count: value?.count,
+    });
+  };
+
+  const update = (updates: Partial<RecurrenceRule>) => {
+    if (!value) return;
+    onChange({ ...value, ...updates });
+  };
+
+  const toggleWeekday = (day: number) => {
+    if (!value) return;
+    const current = value.byWeekday || [];
+    const byWeekday = current.includes(day)
+      ? current.filter(d => d !== day)
+      : [...current, day];
+
+    // Always keep at least one day selected
+    if (byWeekday.length > 0) {
+      update({ byWeekday });
+    }
+  };
+
+  const selectEndMode = (mode: 'never' | 'until' | 'count') => {
+    switch (mode) {
+      case 'never':
+        update({ until: undefined, count: undefined });
+        break;
+      case 'until': {
+        const until = new Date(anchorDate);
+        until.setMonth(until.getMonth() + 1);
+        update({ until: until.toISOString(), count: undefined });
+        break;
+      }
+      case 'count':
+        update({ until: undefined, count: 5 });
+        break;
+    }
+  };
+
+  const onUntilChange = (event: any, selectedDate?: Date) => {
+    setShowUntilPicker(false);
+    if (selectedDate) {
+      update({ until: selectedDate.toISOString() });
+    }
+  };
+
+  const renderStepper = (label: string, amount: number, min: number, max: number, onStep: (next: number) => void) => (
+    <View style={styles.stepperRow}>
+      <Text style={[styles.stepperLabel, { color: theme.text }]}>{label}</Text>
+      <View style={styles.stepper}>
+        <TouchableOpacity
+          style={[styles.stepperButton, { backgroundColor: theme.primaryLight }]}
+          onPress={() => onStep(Math.max(min, amount - 1))}
+        >
+          <Ionicons name="remove" size={18} color={theme.primary} />
+        </TouchableOpacity>
+        <Text style={[styles.stepperValue, { color: theme.text }]}>{amount}</Text>
+        <TouchableOpacity
+          style={[styles.stepperButton, { backgroundColor: theme.primaryLight }]}
+          onPress={() => onStep(Math.min(max, amount + 1))}
+        >
+          <Ionicons name="add" size={18} color={theme.primary} />
+        </TouchableOpacity>
+      </View>
+    </View>
+  );
+
+  const intervalUnit = value?.frequency === 'daily' ? 'days' : value?.frequency === 'weekly' ? 'weeks' : 'months';
+
+  return (
+    <View>
+      <View style={styles.optionRow}>
+        {FREQUENCY_OPTIONS.map(option => {
+          const isSelected = (value?.frequency || 'none') === option.key;
+          return (
+            <TouchableOpacity
+              key={option.key}
+              style={[
+                styles.optionChip,
+                { backgroundColor: isSelected ? theme.primary : theme.primaryLight }
+              ]}
+              onPress={() => selectFrequency(option.key)}
+            >
+              <Text style={[styles.optionText, { color: isSelected ? '#FFFFFF' : theme.primary }]}>
+                {option.label}
+              </Text>
+            </TouchableOpacity>
+          );
+        })}
+      </View>
+
+      {value && value.frequency !== 'weekdays' && renderStepper(
+        `Every (${intervalUnit})`,
+        value.interval || 1,
+        1,
+        30,
+        interval => update({ interval })
+      )}
+
+      {value?.frequency === 'weekly' && (
+        <View style={styles.weekdayRow}>
+          {WEEKDAY_INITIALS.map((initial, day) => {
+            const isSelected = (value.byWeekday || []).includes(day);
+            return (
+              <TouchableOpacity
+                key={day}
+                style={[
+                  styles.weekdayButton,
+                  { backgroundColor: isSelected ? theme.primary : theme.primaryLight }
+                ]}
+                onPress={() => toggleWeekday(day)}
+              >
+                <Text style={[styles.optionText, { color: isSelected ? '#FFFFFF' : theme.primary }]}>{initial}</Text>
+              </TouchableOpacity>
+            );
+          })}
+        </View>
+      )}
+
+      {value?.frequency === 'monthly' && renderStepper(
+        'On day',
+        value.byMonthDay || anchorDate.getDate(),
+        1,
+        31,
+        byMonthDay => update({ byMonthDay })
+      )}
+
+      {value && (
+        <>
+          <Text style={[styles.subLabel, { color: theme.textSecondary }]}>Ends</Text>
+          <View style={styles.optionRow}>
+            {(['never', 'until', 'count'] as const).map(mode => (
+              <TouchableOpacity
+                key={mode}
+                style={[
+                  styles.optionChip,
+                  { backgroundColor: endMode === mode ? theme.primary : theme.primaryLight }
+                ]}
+                onPress={() => selectEndMode(mode)}
+              >
+                <Text style={[styles.optionText, { color: endMode === mode ? '#FFFFFF' : theme.primary }]}>
+                  {mode === 'never' ? 'Never' : mode === 'until' ? 'On date' : 'After'}
+                </Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+
+          {endMode === 'until' && value.until && (
+            <TouchableOpacity
+              style={[styles.untilButton, { backgroundColor: theme.primaryLight }]}
+              onPress={() => setShowUntilPicker(true)}
+            >
+              <Ionicons name="calendar-outline" size={18} color={theme.primary} />
+              <Text style={[styles.untilText, { color: theme.primary }]}>
+                {parseISO(value.until).toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' })}
+              </Text>
+            </TouchableOpacity>
+          )}
+
+          {endMode === 'count' && renderStepper(
+            'Occurrences',
+            value.count || 1,
+            1,
+            365,
+            count => update({ count })
+          )}
+
+          {showUntilPicker && value.until && (
+            <DateTimePicker
+              value={parseISO(value.until)}
+              mode="date"
+              display="default"
+              onChange={onUntilChange}
+              minimumDate={anchorDate}
+            />
+          )}
+
+          <Text style={[styles.summaryText, { color: theme.textSecondary }]}>
+            {describeRecurrence(value)}
+          </Text>
+        </>
+      )}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  optionRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+  },
+  optionChip: {
+    borderRadius: 20,
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    margin: 4,
+  },
+  optionText: {
+    fontSize: 14,
+    fontWeight: '500',
+  },
+  stepperRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    marginTop: 12,
+    marginHorizontal: 4,
+  },
+  stepperLabel: {
+    fontSize: 14,
+  },
+  stepper: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  stepperButton: {
+    width: 32,
+    height: 32,
+    borderRadius: 16,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  stepperValue: {
+    fontSize: 16,
+    fontWeight: 'bold',
+    minWidth: 40,
+    textAlign: 'center',
+  },
+  weekdayRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    marginTop: 12,
+  },
+  weekdayButton: {
+    width: 36,
+    height: 36,
+    borderRadius: 18,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  subLabel: {
+    fontSize: 14,
+    fontWeight: '600',
+    marginTop: 16,
+    marginBottom: 4,
+    marginHorizontal: 4,
+  },
+  untilButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    borderRadius: 8,
+    paddingHorizontal: 16,
+    paddingVertical: 10,
+    marginTop: 8,
+    marginHorizontal: 4,
+  },
+  untilText: {
+    marginLeft: 8,
+    fontSize: 14,
+  },
+  summaryText: {
+    fontSize: 12,
+    marginTop: 12,
+    marginHorizontal: 4,
+    fontStyle: 'italic',
+  },
+});
+
+export default RecurrenceEditor;
@@ -0,0 +1,334 @@
+import { Ionicons } from '@expo/vector-icons';
+import DateTimePicker from '@react-native-community/datetimepicker';
+import Slider from '@react-native-community/slider';
+import { format } from 'date-fns';
+import React, { useState } from 'react';
+import { Alert, Modal, ScrollView, StyleSheet, Text, TextInput, TouchableOpacity, View } from 'react-native';
+import { useTheme } from '../context/ThemeContext';
+import { getSessionStart, ManualSessionInput } from '../utils/SessionHistory';
+
+interface SessionEditorModalProps {
+  session?: { timestamp: string; duration: number; subject?: string; taskId?: string; notes?: string }; // Session being edited, a new one is logged without it
+  subjects: { id: string; name: string }[];
+  tasks: { id: string; title: string; subject?: string }[]; // Tasks the session can be logged against
+  onSave: (input: ManualSessionInput) => void;
+  onDelete?: () => void;
+  onClose: () => void;
+}
+
+const DEFAULT_MANUAL_MINUTES = 60;
+
+const SessionEditorModal: React.FC<SessionEditorModalProps> = ({ session, subjects, tasks, onSave, onDelete, onClose }) => {
+  const { theme } = useTheme();
+  // Initial values are only read on mount, so render the modal only while it is needed
+  const [start, setStart] = useState(() =>
+    session ? getSessionStart(session) : new Date(Date.now() - DEFAULT_MANUAL_MINUTES * 60 * 1000)
+  );
+  const [duration, setDuration] = useState(session?.duration ?? DEFAULT_MANUAL_MINUTES);
+  const [subject, setSubject] = useState(session?.subject);
+  const [taskId, setTaskId] = useState(session?.taskId);
+  const [notes, setNotes] = useState(session?.notes || '');
+  const [showDatePicker, setShowDatePicker] = useState(false);
+  const [showTimePicker, setShowTimePicker] = useState(false);
+
+  const onDateChange = (event: any, selectedDate?: Date) => {
+    setShowDatePicker(false);
+    if (!selectedDate) return;
+    const updated = new Date(start);
+    updated.setFullYear(selectedDate.getFullYear(), selectedDate.getMonth(), selectedDate.getDate());
+    setStart(updated);
+  };
+
+  const onTimeChange = (event: any, selectedTime?: Date) => {
+    setShowTimePicker(false);
+    if (!selectedTime) return;
+    const updated = new Date(start);
+    updated.setHours(selectedTime.getHours(), selectedTime.getMinutes(), 0, 0);
+    setStart(updated);
+  };
+
+  // Picking a task also picks its subject
+  const selectTask = (id: string) => {
+    if (taskId === id) {
+      setTaskId(undefined);
+      return;
+    }
+    setTaskId(id);
+    const task = tasks.find(t => t.id === id);
+    if (task?.subject) setSubject(task.subject);
+  };
+
+  const handleSave = () => {
+    if (start.getTime() + duration * 60 * 1000 > Date.now()) {
+      Alert.alert('Session In The Future', 'Only study that has already happened can be logged.');
+      return;
+    }
+
+    onSave({ start, duration, subject, taskId, notes: notes.trim() || undefined });
+    onClose();
+  };
+
+  const handleDelete = () => {
+    if (!onDelete) return;
+
+    Alert.alert(
+      'Delete Session',
+      'Its study time will be taken off your stats and streak.',
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Delete',
+          style: 'destructive',
+          onPress: () => {
+            onDelete();
+            onClose();
+          }
+        }
+      ]
+    );
+  };
+
+  return (
+    <Modal visible={true} animationType="slide" transparent={true} onRequestClose={onClose}>
+      <View style={styles.overlay}>
+        <View style={[styles.content, { backgroundColor: theme.card }]}>
+          <View style={[styles.header, { borderBottomColor: theme.border }]}>
+            <Text style={[styles.title, { color: theme.text }]}>{session ? 'Edit Session' : 'Log Session'}</Text>
+            <TouchableOpacity onPress={onClose}>
+              <Ionicons name="close" size={24} color={theme.text} />
+            </TouchableOpacity>
+          </View>
+
+          <ScrollView contentContainerStyle={styles.body}>
+            <Text style={[styles.label, { color: theme.text }]}>Started</Text>
+            <View style={styles.pickerRow}>
+              <TouchableOpacity
+                style={[styles.pickerButton, { backgroundColor: theme.background, borderColor: theme.border }]}
+                onPress={() => setShowDatePicker(true)}
+              >
+                <Ionicons name="calendar-outline" size={18} color={theme.textSecondary} />
+                <Text style={[styles.pickerText, { color: theme.text }]}>{format(start, 'EEE, MMM d')}</Text>
+              </TouchableOpacity>
+              <TouchableOpacity
+                style={[styles.pickerButton, { backgroundColor: theme.background, borderColor: theme.border }]}
+                onPress={() => setShowTimePicker(true)}
+              >
+                <Ionicons name="time-outline" size={18} color={theme.textSecondary} />
+                <Text style={[styles.pickerText, { color: theme.text }]}>{format(start, 'h:mm a')}</Text>
+              </TouchableOpacity>
+            </View>
+
+            {showDatePicker && (
+              <DateTimePicker
+                value={start}
+                mode="date"
+                display="default"
+                maximumDate={new Date()}
+                onChange={onDateChange}
+              />
+            )}
+            {showTimePicker && (
+              <DateTimePicker
+                value={start}
+                mode="time"
+                display="default"
+                onChange={onTimeChange}
+              />
+            )}
+
+            <View style={styles.durationRow}>
+              <Text style={[styles.label, { color: theme.text }]}>Duration</Text>
+              <Text style={[styles.durationValue, { color: theme.primary }]}>{duration} min</Text>
+            </View>
+            <Slider
+              minimumValue={5}
+              maximumValue={240}
+              step={5}
+              value={duration}
+              onValueChange={setDuration}
+              minimumTrackTintColor={theme.primary}
+              maximumTrackTintColor={theme.border}
+              thumbTintColor={theme.primary}
+            />
+
+            <Text style={[styles.label, { color: theme.text }]}>Subject</Text>
+            {subjects.length === 0 ? (
+              <Text style={[styles.emptyText, { color: theme.textSecondary }]}>No subjects yet</Text>
+            ) : (
+              <View style={styles.chipRow}>
+                {subjects.map(s => {
+                  const selected = s.name === subject;
+                  return (
+                    <TouchableOpacity
+                      key={s.id}
+                      style={[styles.chip, { backgroundColor: selected ? theme.primary : theme.primaryLight }]}
+                      onPress={() => setSubject(selected ? undefined : s.name)}
+                    >
+                      <Text style={[styles.chipText, { color: selected ? '#FFFFFF' : theme.primary }]}>{s.name}</Text>
+                    </TouchableOpacity>
+                  );
+                })}
+              </View>
+            )}
+
+            <Text style={[styles.label, { color: theme.text }]}>Task</Text>
+            {tasks.length === 0 ? (
+              <Text style={[styles.emptyText, { color: theme.textSecondary }]}>No open tasks</Text>
+            ) : (
+              <View style={styles.chipRow}>
+                {tasks.map(task => {
+                  const selected = task.id === taskId;
+                  return (
+                    <TouchableOpacity
+                      key={task.id}
+                      style={[styles.chip, { backgroundColor: selected ? theme.primary : theme.primaryLight }]}
+                      onPress={() => selectTask(task.id)}
+                    >
+                      <Text style={[styles.chipText, { color: selected ? '#FFFFFF' : theme.primary }]} numberOfLines={1}>
+                        {task.title}
+                      </Text>
+                    </TouchableOpacity>
+                  );
+                })}
+              </View>
+            )}
+
+            <Text style={[styles.label, { color: theme.text }]}>Notes</Text>
+            <TextInput
+              style={[styles.input, { backgroundColor: theme.background, color: theme.text, borderColor: theme.border }]}
+              value={notes}
+              onChangeText={setNotes}
+              placeholder="e.g. Library, chapter 4 review"
+              placeholderTextColor={theme.textSecondary}
+              multiline
+            />
+          </ScrollView>
+
+          <View style={styles.footer}>
+            {onDelete && (
+              <TouchableOpacity style={[styles.deleteButton, { borderColor: theme.danger }]} onPress={handleDelete}>
+                <Text style={[styles.deleteButtonText, { color: theme.danger }]}>Delete</Text>
+              </TouchableOpacity>
+            )}
+            <TouchableOpacity style={[styles.saveButton, { backgroundColor: theme.primary }]} onPress={handleSave}>
+              <Text style={styles.saveButtonText}>{session ? 'Save Changes' : 'Log Session'}</Text>
+            </TouchableOpacity>
+          </View>
+        </View>
+      </View>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  overlay: {
+    flex: 1,
+    justifyContent: 'flex-end',
+    backgroundColor: 'rgba(0,0,0,0.3)',
+  },
+  content: {
+    maxHeight: '85%',
+    borderTopLeftRadius: 20,
+    borderTopRightRadius: 20,
+    overflow: 'hidden',
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    padding: 16,
+    borderBottomWidth: StyleSheet.hairlineWidth,
+  },
+  title: {
+    fontSize: 18,
+    fontWeight: '600',
+  },
+  body: {
+    padding: 16,
+  },
+  label: {
+    fontSize: 16,
+    fontWeight: '500',
+    marginTop: 8,
+    marginBottom: 8,
+  },
+  pickerRow: {
+    flexDirection: 'row',
+  },
+  pickerButton: {
+    flex: 1,
+    flexDirection: 'row',
+    alignItems: 'center',
+    borderWidth: 1,
+    borderRadius: 8,
+    padding: 12,
+    marginRight: 8,
+  },
+  pickerText: {
+    fontSize: 16,
+    marginLeft: 8,
+  },
+  durationRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  durationValue: {
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  emptyText: {
+    fontSize: 14,
+  },
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+  },
+  chip: {
+    borderRadius: 20,
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    margin: 4,
+    maxWidth: '100%',
+  },
+  chipText: {
+    fontSize: 14,
+    fontWeight: '500',
+  },
+  input: {
+    borderWidth: 1,
+    borderRadius: 8,
+    padding: 12,
+    fontSize: 16,
+    minHeight: 80,
+    textAlignVertical: 'top',
+  },
+  footer: {
+    flexDirection: 'row',
+    padding: 16,
+  },
+  deleteButton: {
+    borderWidth: 1,
+    borderRadius: 8,
+    padding: 14,
+    alignItems: 'center',
+    marginRight: 8,
+  },
+  deleteButtonText: {
+    fontSize: 16,
+    fontWeight: 'bold',
+  },
+  saveButton: {
+    flex: 1,
+    borderRadius: 8,
+    padding: 14,
+    alignItems: 'center',
+  },
+  saveButtonText: {
+    color: '#FFFFFF',
+    fontSize: 16,
+    fontWeight: 'bold',
+  },
+});
+
+export default SessionEditorModal;
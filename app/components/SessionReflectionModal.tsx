@@ -0,0 +1,214 @@
+import { Ionicons } from '@expo/vector-icons';
+import React, { useState } from 'react';
+import { Modal, ScrollView, StyleSheet, Text, TextInput, TouchableOpacity, View } from 'react-native';
+import { useTheme } from '../context/ThemeContext';
+import { DEFAULT_PROGRESS_BUMP, FOCUS_RATINGS, PROGRESS_BUMPS, SessionReflection } from '../utils/SessionReflection';
+
+interface SessionReflectionModalProps {
+  minutes: number;
+  task?: { title: string; progress?: number; completed: boolean };
+  onSave: (reflection: SessionReflection) => void;
+  onSkip: () => void;
+}
+
+// Asked after a focus session: how focused it was, what got done and how far the task moved
+const SessionReflectionModal: React.FC<SessionReflectionModalProps> = ({ minutes, task, onSave, onSkip }) => {
+  const { theme } = useTheme();
+  const [focusRating, setFocusRating] = useState<number | null>(null);
+  const [notes, setNotes] = useState('');
+  const [progressBump, setProgressBump] = useState(task && !task.completed ? DEFAULT_PROGRESS_BUMP : 0);
+
+  const selectedRating = FOCUS_RATINGS.find(rating => rating.value === focusRating);
+
+  const handleSave = () => {
+    if (focusRating === null) return;
+    onSave({ focusRating, notes: notes.trim() || undefined, progressBump });
+  };
+
+  return (
+    <Modal visible={true} animationType="slide" transparent={true} onRequestClose={onSkip}>
+      <View style={styles.overlay}>
+        <View style={[styles.content, { backgroundColor: theme.card }]}>
+          <View style={[styles.header, { borderBottomColor: theme.border }]}>
+            <View>
+              <Text style={[styles.title, { color: theme.text }]}>How did it go?</Text>
+              <Text style={[styles.subtitle, { color: theme.textSecondary }]}>
+                {minutes} min{task ? ` on ${task.title}` : ''}
+              </Text>
+            </View>
+            <TouchableOpacity onPress={onSkip}>
+              <Ionicons name="close" size={24} color={theme.text} />
+            </TouchableOpacity>
+          </View>
+
+          <ScrollView contentContainerStyle={styles.body}>
+            <Text style={[styles.label, { color: theme.text }]}>Focus</Text>
+            <View style={styles.ratingRow}>
+              {FOCUS_RATINGS.map(rating => (
+                <TouchableOpacity key={rating.value} onPress={() => setFocusRating(rating.value)} style={styles.ratingButton}>
+                  <Ionicons
+                    name={focusRating !== null && rating.value <= focusRating ? 'star' : 'star-outline'}
+                    size={32}
+                    color={theme.warning}
+                  />
+                </TouchableOpacity>
+              ))}
+            </View>
+            <Text style={[styles.ratingLabel, { color: theme.textSecondary }]}>
+              {selectedRating ? selectedRating.label : 'Tap to rate your focus'}
+            </Text>
+
+            <Text style={[styles.label, { color: theme.text }]}>What did you get done?</Text>
+            <TextInput
+              style={[styles.input, { backgroundColor: theme.background, color: theme.text, borderColor: theme.border }]}
+              value={notes}
+              onChangeText={setNotes}
+              placeholder="Optional"
+              placeholderTextColor={theme.textSecondary}
+              multiline
+            />
+
+            {task && !task.completed && (
+              <>
+                <Text style={[styles.label, { color: theme.text }]}>Task Progress</Text>
+                <View style={styles.chipRow}>
+                  {PROGRESS_BUMPS.map(bump => {
+                    const selected = bump === progressBump;
+                    return (
+                      <TouchableOpacity
+                        key={bump}
+                        style={[styles.chip, { backgroundColor: selected ? theme.primary : theme.primaryLight }]}
+                        onPress={() => setProgressBump(bump)}
+                      >
+                        <Text style={[styles.chipText, { color: selected ? '#FFFFFF' : theme.primary }]}>
+                          {bump === 0 ? 'No change' : `+${bump}%`}
+                        </Text>
+                      </TouchableOpacity>
+                    );
+                  })}
+                </View>
+                <Text style={[styles.ratingLabel, { color: theme.textSecondary }]}>
+                  {task.progress || 0}% → {Math.min(100, (task.progress || 0) + progressBump)}%
+                </Text>
+              </>
+            )}
+          </ScrollView>
+
+          <View style={styles.footer}>
+            <TouchableOpacity style={[styles.skipButton, { borderColor: theme.border }]} onPress={onSkip}>
+              <Text style={[styles.skipButtonText, { color: theme.textSecondary }]}>Skip</Text>
+            </TouchableOpacity>
+            <TouchableOpacity
+              style={[styles.saveButton, { backgroundColor: focusRating === null ? theme.border : theme.primary }]}
+              onPress={handleSave}
+              disabled={focusRating === null}
+            >
+              <Text style={styles.saveButtonText}>Save</Text>
+            </TouchableOpacity>
+          </View>
+        </View>
+      </View>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  overlay: {
+    flex: 1,
+    justifyContent: 'flex-end',
+    backgroundColor: 'rgba(0,0,0,0.3)',
+  },
+  content: {
+    maxHeight: '85%',
+    borderTopLeftRadius: 20,
+    borderTopRightRadius: 20,
+    overflow: 'hidden',
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    padding: 16,
+    borderBottomWidth: StyleSheet.hairlineWidth,
+  },
+  title: {
+    fontSize: 18,
+    fontWeight: '600',
+  },
+  subtitle: {
+    fontSize: 14,
+    marginTop: 2,
+  },
+  body: {
+    padding: 16,
+  },
+  label: {
+    fontSize: 16,
+    fontWeight: '500',
+    marginTop: 8,
+    marginBottom: 8,
+  },
+  ratingRow: {
+    flexDirection: 'row',
+    justifyContent: 'center',
+  },
+  ratingButton: {
+    padding: 4,
+  },
+  ratingLabel: {
+    fontSize: 14,
+    textAlign: 'center',
+    marginTop: 4,
+    marginBottom: 8,
+  },
+  input: {
+    borderWidth: 1,
+    borderRadius: 8,
+    padding: 12,
+    fontSize: 16,
+    minHeight: 80,
+    textAlignVertical: 'top',
+  },
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+  },
+  chip: {
+    borderRadius: 20,
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    margin: 4,
+  },
+  chipText: {
+    fontSize: 14,
+    fontWeight: '500',
+  },
+  footer: {
+    flexDirection: 'row',
+    padding: 16,
+  },
+  skipButton: {
+    borderWidth: 1,
+    borderRadius: 8,
+    padding: 14,
+    alignItems: 'center',
+    marginRight: 8,
+  },
+  skipButtonText: {
+    fontSize: 16,
+    fontWeight: 'bold',
+  },
+  saveButton: {
+    flex: 1,
+    borderRadius: 8,
+    padding: 14,
+    alignItems: 'center',
+  },
+  saveButtonText: {
+    color: '#FFFFFF',
+    fontSize: 16,
+    fontWeight: 'bold',
+  },
+});
+
+export default SessionReflectionModal;
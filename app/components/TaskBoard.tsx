@@ -0,0 +1,303 @@
+import { Ionicons } from '@expo/vector-icons';
+import { format, isPast, isToday, parseISO } from 'date-fns';
+import React, { useState } from 'react';
+import { StyleSheet, Text, View } from 'react-native';
+import { Gesture, GestureDetector } from 'react-native-gesture-handler';
+import Animated, { runOnJS, SharedValue, useAnimatedScrollHandler, useAnimatedStyle, useSharedValue, withSpring } from 'react-native-reanimated';
+import { useTheme } from '../context/ThemeContext';
+import { BoardColumn, BoardGrouping, getBoardColumns } from '../utils/TaskBoard';
+
+const COLUMN_WIDTH = 260;
+const COLUMN_GAP = 12;
+const BOARD_PADDING = 16;
+
+interface BoardCardProps {
+  task: any;
+  columnIndex: number;
+  columnCount: number;
+  scrollX: SharedValue<number>; // Horizontal scroll offset of the board
+  onDragStart: (columnIndex: number) => void;
+  onDragEnd: (taskId: string, targetColumnIndex: number) => void;
+  onPress: (taskId: string) => void;
+}
+
+// A single card, long press and drag it sideways to move it to another column
+const BoardCard: React.FC<BoardCardProps> = ({ task, columnIndex, columnCount, scrollX, onDragStart, onDragEnd, onPress }) => {
+  const { theme } = useTheme();
+  const translateX = useSharedValue(0);
+  const translateY = useSharedValue(0);
+  const isDragging = useSharedValue(false);
+
+  const pan = Gesture.Pan()
+    .activateAfterLongPress(250)
+    .onStart(() => {
+      isDragging.value = true;
+      runOnJS(onDragStart)(columnIndex);
+    })
+    .onUpdate(event => {
+      translateX.value = event.translationX;
+      translateY.value = event.translationY;
+    })
+    .onEnd(event => {
+      // Columns have a fixed width, so the drop column follows from where the finger is on the scrolled board
+      const boardX = event.absoluteX + scrollX.value - BOARD_PADDING;
+      const dropColumnIndex = Math.floor(boardX / (COLUMN_WIDTH + COLUMN_GAP));
+      const targetColumnIndex = Math.min(columnCount - 1, Math.max(0, dropColumnIndex));
+      runOnJS(onDragEnd)(task.id, targetColumnIndex);
+    })
+    .onFinalize(() => {
+      isDragging.value = false;
+      translateX.value = withSpring(0);
+      translateY.value = withSpring(0);
+    });
+
+  const tap = Gesture.Tap().onEnd(() => {
+    runOnJS(onPress)(task.id);
+  });
+
+  const animatedStyle = useAnimatedStyle(() => ({
+    transform: [
+      { translateX: translateX.value },
+      { translateY: translateY.value },
+      { scale: isDragging.value ? 1.03 : 1 }
+    ],
+    zIndex: isDragging.value ? 10 : 0,
+    opacity: isDragging.value ? 0.9 : 1,
+  }));
+
+  const getPriorityColor = () => {
+    switch (task.priority) {
+      case 'high':
+        return theme.danger;
+      case 'medium':
+        return theme.warning;
+      case 'low':
+        return theme.success;
+      default:
+        return theme.border;
+    }
+  };
+
+  const dueDate = task.dueDate ? parseISO(task.dueDate) : null;
+  const isOverdue = !!dueDate && !task.completed && isPast(dueDate) && !isToday(dueDate);
+
+  return (
+    <GestureDetector gesture={Gesture.Exclusive(pan, tap)}>
+      <Animated.View style={[styles.card, { backgroundColor: theme.card, borderLeftColor: getPriorityColor() }, animatedStyle]}>
+        <Text
+          style={[
+            styles.cardTitle,
+            { color: task.completed ? theme.textSecondary : theme.text },
+            task.completed && styles.cardTitleDone
+          ]}
+          numberOfLines={2}
+        >
+          {task.title}
+        </Text>
+
+        <View style={styles.cardMeta}>
+          {dueDate && (
+            <View style={styles.cardMetaItem}>
+              <Ionicons name="calendar-outline" size={12} color={isOverdue ? theme.danger : theme.textSecondary} />
+              <Text style={[styles.cardMetaText, { color: isOverdue ? theme.danger : theme.textSecondary }]}>
+                {isToday(dueDate) ? 'Today' : format(dueDate, 'MMM d')}
+              </Text>
+            </View>
+          )}
+
+          {task.checklist && task.checklist.length > 0 && (
+            <View style={styles.cardMetaItem}>
+              <Ionicons name="checkbox-outline" size={12} color={theme.textSecondary} />
+              <Text style={[styles.cardMetaText, { color: theme.textSecondary }]}>
+                {task.checklist.filter((item: { done: boolean }) => item.done).length}/{task.checklist.length}
+              </Text>
+            </View>
+          )}
+        </View>
+
+        {task.progress > 0 && task.progress < 100 && !task.completed && (
+          <View style={[styles.progressTrack, { backgroundColor: theme.border }]}>
+            <View style={[styles.progressFill, { width: `${task.progress}%`, backgroundColor: theme.primary }]} />
+          </View>
+        )}
+      </Animated.View>
+    </GestureDetector>
+  );
+};
+
+interface TaskBoardProps {
+  tasks: any[];
+  grouping: BoardGrouping;
+  subjects: string[];
+  onMoveTask: (task: any, column: BoardColumn<any>) => void;
+  onPressTask: (task: any) => void;
+}
+
+const TaskBoard: React.FC<TaskBoardProps> = ({ tasks, grouping, subjects, onMoveTask, onPressTask }) => {
+  const { theme } = useTheme();
+  const [draggingColumnIndex, setDraggingColumnIndex] = useState<number | null>(null);
+  const scrollX = useSharedValue(0);
+
+  const handleScroll = useAnimatedScrollHandler(event => {
+    scrollX.value = event.contentOffset.x;
+  });
+
+  const columns = getBoardColumns(tasks, grouping, subjects);
+
+  const handleDragEnd = (taskId: string, targetColumnIndex: number) => {
+    setDraggingColumnIndex(null);
+
+    const task = tasks.find(t => t.id === taskId);
+    const targetColumn = columns[targetColumnIndex];
+    if (task && targetColumn && !targetColumn.tasks.some(t => t.id === taskId)) {
+      onMoveTask(task, targetColumn);
+    }
+  };
+
+  const handlePress = (taskId: string) => {
+    const task = tasks.find(t => t.id === taskId);
+    if (task) onPressTask(task);
+  };
+
+  return (
+    <Animated.ScrollView
+      horizontal
+      showsHorizontalScrollIndicator={false}
+      scrollEnabled={draggingColumnIndex === null}
+      onScroll={handleScroll}
+      scrollEventThrottle={16}
+      contentContainerStyle={styles.board}
+    >
+      {columns.map((column, columnIndex) => (
+        <View
+          key={column.key}
+          style={[
+            styles.column,
+            { backgroundColor: theme.backgroundAlt },
+            // Keep the dragged card above the neighbouring columns
+            draggingColumnIndex === columnIndex && styles.columnDragging
+          ]}
+        >
+          <View style={styles.columnHeader}>
+            <Text style={[styles.columnTitle, { color: theme.text }]} numberOfLines={1}>{column.title}</Text>
+            <View style={[styles.columnCount, { backgroundColor: theme.primaryLight }]}>
+              <Text style={[styles.columnCountText, { color: theme.primary }]}>{column.tasks.length}</Text>
+            </View>
+          </View>
+
+          {column.tasks.length > 0 ? (
+            column.tasks.map(task => (
+              <BoardCard
+                key={task.id}
+                task={task}
+                columnIndex={columnIndex}
+                columnCount={columns.length}
+                scrollX={scrollX}
+                onDragStart={setDraggingColumnIndex}
+                onDragEnd={handleDragEnd}
+                onPress={handlePress}
+              />
+            ))
+          ) : (
+            <View style={[styles.emptyColumn, { borderColor: theme.border }]}>
+              <Text style={[styles.emptyColumnText, { color: theme.textSecondary }]}>Drop tasks here</Text>
+            </View>
+          )}
+        </View>
+      ))}
+    </Animated.ScrollView>
+  );
+};
+
+const styles = StyleSheet.create({
+  board: {
+    paddingHorizontal: BOARD_PADDING,
+    paddingBottom: 24,
+    alignItems: 'flex-start',
+  },
+  column: {
+    width: COLUMN_WIDTH,
+    marginRight: COLUMN_GAP,
+    borderRadius: 12,
+    padding: 10,
+  },
+  columnDragging: {
+    zIndex: 10,
+    elevation: 10,
+  },
+  columnHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    marginBottom: 10,
+  },
+  columnTitle: {
+    fontSize: 16,
+    fontWeight: 'bold',
+    flex: 1,
+  },
+  columnCount: {
+    borderRadius: 10,
+    paddingHorizontal: 8,
+    paddingVertical: 2,
+    marginLeft: 8,
+  },
+  columnCountText: {
+    fontSize: 12,
+    fontWeight: 'bold',
+  },
+  card: {
+    borderRadius: 8,
+    padding: 12,
+    marginBottom: 8,
+    borderLeftWidth: 4,
+    elevation: 2,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 1 },
+    shadowOpacity: 0.1,
+    shadowRadius: 2,
+  },
+  cardTitle: {
+    fontSize: 15,
+    fontWeight: '500',
+  },
+  cardTitleDone: {
+    textDecorationLine: 'line-through',
+  },
+  cardMeta: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginTop: 6,
+  },
+  cardMetaItem: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginRight: 12,
+  },
+  cardMetaText: {
+    fontSize: 12,
+    marginLeft: 4,
+  },
+  progressTrack: {
+    height: 4,
+    borderRadius: 2,
+    marginTop: 8,
+    overflow: 'hidden',
+  },
+  progressFill: {
+    height: '100%',
+    borderRadius: 2,
+  },
+  emptyColumn: {
+    borderWidth: 1,
+    borderStyle: 'dashed',
+    borderRadius: 8,
+    padding: 16,
+    alignItems: 'center',
+  },
+  emptyColumnText: {
+    fontSize: 13,
+  },
+});
+
+export default TaskBoard;
@@ -0,0 +1,150 @@
+import { Ionicons } from '@expo/vector-icons';
+import React, { useState } from 'react';
+import { StyleSheet, Text, TextInput, TouchableOpacity, View } from 'react-native';
+import { useTheme } from '../context/ThemeContext';
+import { ChecklistItem, createChecklistItem } from '../utils/Checklist';
+
+interface TaskChecklistProps {
+  items: ChecklistItem[];
+  onChange: (items: ChecklistItem[], toggledItemId?: string) => void;
+  disabled?: boolean;
+}
+
+const TaskChecklist: React.FC<TaskChecklistProps> = ({ items, onChange, disabled = false }) => {
+  const { theme } = useTheme();
+  const [newItemTitle, setNewItemTitle] = useState('');
+
+  const doneCount = items.filter(item => item.done).length;
+
+  const handleToggle = (id: string) => {
+    const updatedItems = items.map(item =>
+      item.id === id ? { ...item, done: !item.done } : item
+    );
+    onChange(updatedItems, id);
+  };
+
+  const handleRemove = (id: string) => {
+    onChange(items.filter(item => item.id !== id));
+  };
+
+  const handleAdd = () => {
+    if (!newItemTitle.trim()) return;
+
+    onChange([...items, createChecklistItem(newItemTitle)]);
+    setNewItemTitle('');
+  };
+
+  return (
+    <View>
+      {items.length > 0 && (
+        <Text style={[styles.summaryText, { color: theme.textSecondary }]}>
+          {doneCount} of {items.length} done
+        </Text>
+      )}
+
+      {items.map(item => (
+        <View key={item.id} style={[styles.itemRow, { borderBottomColor: theme.border }]}>
+          <TouchableOpacity
+            style={styles.itemToggle}
+            onPress={() => handleToggle(item.id)}
+            disabled={disabled}
+          >
+            <Ionicons
+              name={item.done ? 'checkbox' : 'square-outline'}
+              size={22}
+              color={item.done ? theme.success : theme.textSecondary}
+            />
+            <Text
+              style={[
+                styles.itemTitle,
+                { color: item.done ? theme.textSecondary : theme.text },
+                item.done && styles.itemTitleDone
+              ]}
+            >
+              {item.title}
+            </Text>
+          </TouchableOpacity>
+
+          {!disabled && (
+            <TouchableOpacity style={styles.removeButton} onPress={() => handleRemove(item.id)}>
+              <Ionicons name="close" size={18} color={theme.textSecondary} />
+            </TouchableOpacity>
+          )}
+        </View>
+      ))}
+
+      {!disabled && (
+        <View style={styles.addRow}>
+          <TextInput
+            style={[styles.addInput, { backgroundColor: theme.card, color: theme.text, borderColor: theme.border }]}
+            value={newItemTitle}
+            onChangeText={setNewItemTitle}
+            onSubmitEditing={handleAdd}
+            placeholder="Add a step"
+            placeholderTextColor={theme.textSecondary}
+            returnKeyType="done"
+          />
+          <TouchableOpacity
+            style={[styles.addButton, { backgroundColor: theme.primary }]}
+            onPress={handleAdd}
+          >
+            <Ionicons name="add" size={20} color="#FFFFFF" />
+          </TouchableOpacity>
+        </View>
+      )}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  summaryText: {
+    fontSize: 12,
+    marginBottom: 8,
+  },
+  itemRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 8,
+    borderBottomWidth: StyleSheet.hairlineWidth,
+  },
+  itemToggle: {
+    flex: 1,
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  itemTitle: {
+    fontSize: 16,
+    marginLeft: 10,
+    flex: 1,
+  },
+  itemTitleDone: {
+    textDecorationLine: 'line-through',
+  },
+  removeButton: {
+    padding: 4,
+    marginLeft: 8,
+  },
+  addRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginTop: 12,
+  },
+  addInput: {
+    flex: 1,
+    borderRadius: 8,
+    borderWidth: 1,
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    fontSize: 14,
+  },
+  addButton: {
+    width: 36,
+    height: 36,
+    borderRadius: 18,
+    justifyContent: 'center',
+    alignItems: 'center',
+    marginLeft: 8,
+  },
+});
+
+export default TaskChecklist;
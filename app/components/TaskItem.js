@@ -1,13 +1,27 @@
 import { Ionicons } from '@expo/vector-icons';
+import DateTimePicker from '@react-native-community/datetimepicker';
 import { addDays, format, isPast, isToday, parseISO } from 'date-fns';
 import { useState } from 'react';
 import { Modal, StyleSheet, Text, TouchableOpacity, View } from 'react-native';
 import { useTheme } from '../context/ThemeContext';
+import { getDeferralCount, SNOOZE_OPTIONS } from '../utils/Snooze';
 
-const TaskItem = ({ task, onPress, updateTask, toggleCompletion }) => {
+const TaskItem = ({
+  task,
+  onPress,
+  updateTask,
+  toggleCompletion,
+  isBlocked = false,
+  selectionMode = false,
+  selected = false,
+  onToggleSelect = () => {},
+  onSnooze
+}) => {
   const { theme } = useTheme();
   const { title, subject, dueDate, completed, priority, progress, archived } = task;
   const [menuVisible, setMenuVisible] = useState(false);
+  const [showSnoozePicker, setShowSnoozePicker] = useState(false);
+  const deferralCount = getDeferralCount(task);
 
   // Format the due date
   const formatDueDate = (dateString) => {
@@ -105,30 +119,61 @@ const TaskItem = ({ task, onPress, updateTask, toggleCompletion }) => {
     closeMenu();
   };
 
+  // Snooze the task, "pickDate" asks for the day first
+  const handleSnooze = (option) => {
+    if (option === 'pickDate') {
+      setShowSnoozePicker(true);
+      return;
+    }
+
+    onSnooze(option);
+    closeMenu();
+  };
+
+  const onSnoozeDateChange = (event, selectedDate) => {
+    setShowSnoozePicker(false);
+    if (event.type === 'dismissed' || !selectedDate) return;
+
+    onSnooze('pickDate', selectedDate);
+    closeMenu();
+  };
+
   return (
     <>
       <TouchableOpacity
         style={[
           styles.container,
           { backgroundColor: theme.card },
-          task.aiGenerated && styles.aiResourceItem
+          task.aiGenerated && styles.aiResourceItem,
+          selected && [styles.selectedItem, { borderColor: theme.primary }]
         ]}
-        onPress={onPress}
-        onLongPress={openMenu}
+        // In selection mode a tap selects the task instead of opening it
+        onPress={selectionMode ? onToggleSelect : onPress}
+        onLongPress={selectionMode ? undefined : openMenu}
         delayLongPress={500}
       >
         <View style={styles.checkboxContainer}>
-          <TouchableOpacity onPress={handleToggleCompletion}>
-            <View style={[
-              styles.checkbox,
-              { borderColor: theme.primary },
-              completed && [styles.checkboxChecked, { backgroundColor: theme.primary }]
-            ]}>
-              {completed && (
-                <Ionicons name="checkmark" size={18} color="#FFFFFF" />
-              )}
-            </View>
-          </TouchableOpacity>
+          {selectionMode ? (
+            <TouchableOpacity onPress={onToggleSelect}>
+              <Ionicons
+                name={selected ? 'checkmark-circle' : 'ellipse-outline'}
+                size={26}
+                color={selected ? theme.primary : theme.textSecondary}
+              />
+            </TouchableOpacity>
+          ) : (
+            <TouchableOpacity onPress={handleToggleCompletion}>
+              <View style={[
+                styles.checkbox,
+                { borderColor: theme.primary },
+                completed && [styles.checkboxChecked, { backgroundColor: theme.primary }]
+              ]}>
+                {completed && (
+                  <Ionicons name="checkmark" size={18} color="#FFFFFF" />
+                )}
+              </View>
+            </TouchableOpacity>
+          )}
         </View>
 
         <View style={styles.content}>
@@ -151,12 +196,21 @@ const TaskItem = ({ task, onPress, updateTask, toggleCompletion }) => {
               </View>
             )}
 
-            <TouchableOpacity
-              style={styles.quickActionButton}
-              onPress={openMenu}
-            >
-              <Ionicons name="ellipsis-vertical" size={20} color={theme.textSecondary} />
-            </TouchableOpacity>
+            {isBlocked && !completed && !archived && (
+              <View style={[styles.statusTag, styles.blockedTag, { backgroundColor: `${theme.warning || '#FF9800'}20` }]}>
+                <Ionicons name="lock-closed" size={10} color={theme.warning || '#FF9800'} />
+                <Text style={[styles.statusTagText, styles.blockedTagText, { color: theme.warning || '#FF9800' }]}>Blocked</Text>
+              </View>
+            )}
+
+            {!selectionMode && (
+              <TouchableOpacity
+                style={styles.quickActionButton}
+                onPress={openMenu}
+              >
+                <Ionicons name="ellipsis-vertical" size={20} color={theme.textSecondary} />
+              </TouchableOpacity>
+            )}
           </View>
 
           {progress > 0 && progress < 100 && !completed && (
@@ -197,6 +251,31 @@ const TaskItem = ({ task, onPress, updateTask, toggleCompletion }) => {
                 </Text>
               </View>
             )}
+
+            {task.checklist && task.checklist.length > 0 && (
+              <View style={styles.checklistContainer}>
+                <Ionicons name="checkbox-outline" size={12} color={theme.textSecondary} />
+                <Text style={[styles.date, { color: theme.textSecondary }]}>
+                  {task.checklist.filter(item => item.done).length}/{task.checklist.length}
+                </Text>
+              </View>
+            )}
+
+            {task.recurrence && (
+              <Ionicons
+                name="repeat"
+                size={14}
+                color={theme.textSecondary}
+                style={styles.metaIcon}
+              />
+            )}
+
+            {deferralCount > 0 && !completed && (
+              <View style={styles.checklistContainer}>
+                <Ionicons name="alarm-outline" size={12} color={theme.textSecondary} />
+                <Text style={[styles.date, { color: theme.textSecondary }]}>{deferralCount}</Text>
+              </View>
+            )}
           </View>
         </View>
 
@@ -224,6 +303,34 @@ const TaskItem = ({ task, onPress, updateTask, toggleCompletion }) => {
           <View style={[styles.modalContent, { backgroundColor: theme.card }]}>
             <Text style={[styles.modalTitle, { color: theme.text }]}>Change Task Status</Text>
 
+            {onSnooze && !completed && (
+              <View style={styles.snoozeSection}>
+                <Text style={[styles.snoozeLabel, { color: theme.textSecondary }]}>Snooze</Text>
+                <View style={styles.snoozeOptions}>
+                  {SNOOZE_OPTIONS.map(option => (
+                    <TouchableOpacity
+                      key={option.key}
+                      style={[styles.snoozeChip, { backgroundColor: theme.primaryLight }]}
+                      onPress={() => handleSnooze(option.key)}
+                    >
+                      <Ionicons name={option.icon} size={16} color={theme.primary} />
+                      <Text style={[styles.snoozeChipText, { color: theme.primary }]}>{option.label}</Text>
+                    </TouchableOpacity>
+                  ))}
+                </View>
+              </View>
+            )}
+
+            {showSnoozePicker && (
+              <DateTimePicker
+                value={addDays(new Date(), 1)}
+                mode="date"
+                display="default"
+                onChange={onSnoozeDateChange}
+                minimumDate={new Date()}
+              />
+            )}
+
             <View style={styles.modalItems}>
               <TouchableOpacity
                 style={[styles.modalItem, { borderBottomColor: theme.border }]}
@@ -310,6 +417,9 @@ const styles = StyleSheet.create({
     shadowOpacity: 0.1,
     shadowRadius: 2,
   },
+  selectedItem: {
+    borderWidth: 2,
+  },
   checkboxContainer: {
     marginRight: 12,
   },
@@ -353,6 +463,13 @@ const styles = StyleSheet.create({
   statusTagText: {
     fontSize: 10,
   },
+  blockedTag: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  blockedTagText: {
+    marginLeft: 3,
+  },
   progressBarContainer: {
     height: 10,
     borderRadius: 5,
@@ -393,6 +510,14 @@ const styles = StyleSheet.create({
     fontSize: 12,
     marginLeft: 4,
   },
+  checklistContainer: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginLeft: 8,
+  },
+  metaIcon: {
+    marginLeft: 8,
+  },
   overdueDate: {
     color: '#F44336',
   },
@@ -434,6 +559,32 @@ const styles = StyleSheet.create({
   modalItems: {
     marginBottom: 20,
   },
+  snoozeSection: {
+    marginBottom: 8,
+  },
+  snoozeLabel: {
+    fontSize: 14,
+    fontWeight: '500',
+    marginBottom: 4,
+  },
+  snoozeOptions: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    marginHorizontal: -4,
+  },
+  snoozeChip: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    borderRadius: 20,
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    margin: 4,
+  },
+  snoozeChipText: {
+    fontSize: 14,
+    fontWeight: '500',
+    marginLeft: 4,
+  },
   modalItem: {
     flexDirection: 'row',
     alignItems: 'center',
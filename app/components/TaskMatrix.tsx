@@ -0,0 +1,264 @@
+import { Ionicons } from '@expo/vector-icons';
+import { format, isPast, isToday, parseISO } from 'date-fns';
+import React, { useRef, useState } from 'react';
+import { ScrollView, StyleSheet, Text, View } from 'react-native';
+import { Gesture, GestureDetector } from 'react-native-gesture-handler';
+import Animated, { runOnJS, useAnimatedStyle, useSharedValue, withSpring } from 'react-native-reanimated';
+import { useTheme } from '../context/ThemeContext';
+import { getMatrixCells, MatrixCell, MatrixQuadrant } from '../utils/EisenhowerMatrix';
+
+interface MatrixCardProps {
+  task: any;
+  quadrantIndex: number;
+  onDragStart: (quadrantIndex: number) => void;
+  onDragEnd: (taskId: string, x: number, y: number) => void;
+  onPress: (taskId: string) => void;
+}
+
+// A single task, long press and drag it onto another quadrant to move it
+const MatrixCard: React.FC<MatrixCardProps> = ({ task, quadrantIndex, onDragStart, onDragEnd, onPress }) => {
+  const { theme } = useTheme();
+  const translateX = useSharedValue(0);
+  const translateY = useSharedValue(0);
+  const isDragging = useSharedValue(false);
+
+  const pan = Gesture.Pan()
+    .activateAfterLongPress(250)
+    .onStart(() => {
+      isDragging.value = true;
+      runOnJS(onDragStart)(quadrantIndex);
+    })
+    .onUpdate(event => {
+      translateX.value = event.translationX;
+      translateY.value = event.translationY;
+    })
+    .onEnd(event => {
+      // Quadrants differ in height, so the drop target is found from the pointer position
+      runOnJS(onDragEnd)(task.id, event.absoluteX, event.absoluteY);
+    })
+    .onFinalize(() => {
+      isDragging.value = false;
+      translateX.value = withSpring(0);
+      translateY.value = withSpring(0);
+    });
+
+  const tap = Gesture.Tap().onEnd(() => {
+    runOnJS(onPress)(task.id);
+  });
+
+  const animatedStyle = useAnimatedStyle(() => ({
+    transform: [
+      { translateX: translateX.value },
+      { translateY: translateY.value },
+      { scale: isDragging.value ? 1.05 : 1 }
+    ],
+    zIndex: isDragging.value ? 10 : 0,
+    opacity: isDragging.value ? 0.9 : 1,
+  }));
+
+  const dueDate = parseISO(task.dueDate);
+  const isOverdue = isPast(dueDate) && !isToday(dueDate);
+
+  return (
+    <GestureDetector gesture={Gesture.Exclusive(pan, tap)}>
+      <Animated.View style={[styles.card, { backgroundColor: theme.card }, animatedStyle]}>
+        <Text style={[styles.cardTitle, { color: theme.text }]} numberOfLines={2}>{task.title}</Text>
+        <View style={styles.cardMeta}>
+          <Ionicons name="calendar-outline" size={11} color={isOverdue ? theme.danger : theme.textSecondary} />
+          <Text style={[styles.cardMetaText, { color: isOverdue ? theme.danger : theme.textSecondary }]}>
+            {isToday(dueDate) ? 'Today' : format(dueDate, 'MMM d')}
+          </Text>
+        </View>
+      </Animated.View>
+    </GestureDetector>
+  );
+};
+
+interface TaskMatrixProps {
+  tasks: any[];
+  urgentWithinDays: number;
+  onMoveTask: (task: any, quadrant: MatrixQuadrant) => void;
+  onPressTask: (task: any) => void;
+}
+
+const TaskMatrix: React.FC<TaskMatrixProps> = ({ tasks, urgentWithinDays, onMoveTask, onPressTask }) => {
+  const { theme } = useTheme();
+  const [draggingQuadrantIndex, setDraggingQuadrantIndex] = useState<number | null>(null);
+  const quadrantRefs = useRef<(View | null)[]>([]);
+
+  const cells = getMatrixCells(tasks, urgentWithinDays);
+
+  const getAccentColor = (cell: MatrixCell<any>) => {
+    if (cell.urgent && cell.important) return theme.danger;
+    if (cell.important) return theme.primary;
+    if (cell.urgent) return theme.warning;
+    return theme.textSecondary;
+  };
+
+  const handleDragEnd = (taskId: string, x: number, y: number) => {
+    setDraggingQuadrantIndex(null);
+
+    const task = tasks.find(t => t.id === taskId);
+    if (!task) return;
+
+    // Find the quadrant under the pointer
+    cells.forEach((cell, index) => {
+      quadrantRefs.current[index]?.measureInWindow((left, top, width, height) => {
+        const isInside = x >= left && x <= left + width && y >= top && y <= top + height;
+        if (isInside && !cell.tasks.some(t => t.id === taskId)) {
+          onMoveTask(task, cell.key);
+        }
+      });
+    });
+  };
+
+  const handlePress = (taskId: string) => {
+    const task = tasks.find(t => t.id === taskId);
+    if (task) onPressTask(task);
+  };
+
+  const renderCell = (cell: MatrixCell<any>, index: number) => (
+    <View
+      key={cell.key}
+      ref={view => {
+        quadrantRefs.current[index] = view;
+      }}
+      style={[
+        styles.quadrant,
+        { backgroundColor: theme.backgroundAlt, borderTopColor: getAccentColor(cell) },
+        // Keep the dragged card above the neighbouring quadrants
+        draggingQuadrantIndex === index && styles.quadrantDragging
+      ]}
+    >
+      <View style={styles.quadrantHeader}>
+        <View style={styles.quadrantTitleContainer}>
+          <Text style={[styles.quadrantTitle, { color: getAccentColor(cell) }]}>{cell.title}</Text>
+          <Text style={[styles.quadrantSubtitle, { color: theme.textSecondary }]}>{cell.subtitle}</Text>
+        </View>
+        <View style={[styles.quadrantCount, { backgroundColor: theme.primaryLight }]}>
+          <Text style={[styles.quadrantCountText, { color: theme.primary }]}>{cell.tasks.length}</Text>
+        </View>
+      </View>
+
+      {cell.tasks.length > 0 ? (
+        cell.tasks.map(task => (
+          <MatrixCard
+            key={task.id}
+            task={task}
+            quadrantIndex={index}
+            onDragStart={setDraggingQuadrantIndex}
+            onDragEnd={handleDragEnd}
+            onPress={handlePress}
+          />
+        ))
+      ) : (
+        <View style={[styles.emptyQuadrant, { borderColor: theme.border }]}>
+          <Text style={[styles.emptyQuadrantText, { color: theme.textSecondary }]}>Drop tasks here</Text>
+        </View>
+      )}
+    </View>
+  );
+
+  return (
+    <ScrollView scrollEnabled={draggingQuadrantIndex === null} contentContainerStyle={styles.matrix}>
+      {/* Rows are raised while dragging so the card isn't hidden behind the other row */}
+      <View style={[styles.row, draggingQuadrantIndex !== null && draggingQuadrantIndex < 2 && styles.quadrantDragging]}>
+        {cells.slice(0, 2).map((cell, index) => renderCell(cell, index))}
+      </View>
+      <View style={styles.row}>
+        {cells.slice(2).map((cell, index) => renderCell(cell, index + 2))}
+      </View>
+      <Text style={[styles.legend, { color: theme.textSecondary }]}>
+        High priority tasks are important. Tasks due within {urgentWithinDays} {urgentWithinDays === 1 ? 'day' : 'days'} are urgent.
+      </Text>
+    </ScrollView>
+  );
+};
+
+const styles = StyleSheet.create({
+  matrix: {
+    paddingHorizontal: 12,
+    paddingBottom: 24,
+  },
+  row: {
+    flexDirection: 'row',
+  },
+  quadrant: {
+    flex: 1,
+    minHeight: 180,
+    margin: 4,
+    borderRadius: 12,
+    borderTopWidth: 4,
+    padding: 8,
+  },
+  quadrantDragging: {
+    zIndex: 10,
+    elevation: 10,
+  },
+  quadrantHeader: {
+    flexDirection: 'row',
+    alignItems: 'flex-start',
+    marginBottom: 8,
+  },
+  quadrantTitleContainer: {
+    flex: 1,
+  },
+  quadrantTitle: {
+    fontSize: 15,
+    fontWeight: 'bold',
+  },
+  quadrantSubtitle: {
+    fontSize: 11,
+    marginTop: 2,
+  },
+  quadrantCount: {
+    borderRadius: 10,
+    paddingHorizontal: 8,
+    paddingVertical: 2,
+    marginLeft: 4,
+  },
+  quadrantCountText: {
+    fontSize: 12,
+    fontWeight: 'bold',
+  },
+  card: {
+    borderRadius: 8,
+    padding: 8,
+    marginBottom: 6,
+    elevation: 2,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 1 },
+    shadowOpacity: 0.1,
+    shadowRadius: 2,
+  },
+  cardTitle: {
+    fontSize: 13,
+    fontWeight: '500',
+  },
+  cardMeta: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginTop: 4,
+  },
+  cardMetaText: {
+    fontSize: 11,
+    marginLeft: 4,
+  },
+  emptyQuadrant: {
+    borderWidth: 1,
+    borderStyle: 'dashed',
+    borderRadius: 8,
+    padding: 12,
+    alignItems: 'center',
+  },
+  emptyQuadrantText: {
+    fontSize: 12,
+  },
+  legend: {
+    fontSize: 12,
+    textAlign: 'center',
+    marginTop: 8,
+  },
+});
+
+export default TaskMatrix;
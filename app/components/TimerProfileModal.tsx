@@ -0,0 +1,251 @@
+import { Ionicons } from '@expo/vector-icons';
+import Slider from '@react-native-community/slider';
+import React, { useState } from 'react';
+import { Alert, Modal, ScrollView, StyleSheet, Text, TextInput, TouchableOpacity, View } from 'react-native';
+import { useTheme } from '../context/ThemeContext';
+import { TimerDurations, TimerProfile } from '../utils/TimerProfiles';
+
+interface TimerProfileModalProps {
+  profile?: TimerProfile; // Profile being edited, a new profile is created without one
+  initialDurations: TimerDurations; // Starting values for a new profile
+  subjects: { id: string; name: string; color: string; timerProfileId?: string }[];
+  onSave: (profile: Omit<TimerProfile, 'id'> & { id?: string }, subjectIds: string[]) => void;
+  onDelete?: (id: string) => void;
+  onClose: () => void;
+}
+
+// Slider ranges match the global timer settings
+const DURATION_FIELDS: { key: keyof TimerDurations; label: string; unit: string; min: number; max: number; step: number }[] = [
+  { key: 'pomodoroLength', label: 'Focus Duration', unit: 'min', min: 5, max: 120, step: 5 },
+  { key: 'shortBreakLength', label: 'Short Break Duration', unit: 'min', min: 1, max: 30, step: 1 },
+  { key: 'longBreakLength', label: 'Long Break Duration', unit: 'min', min: 5, max: 45, step: 5 },
+  { key: 'longBreakInterval', label: 'Long Break After', unit: 'sessions', min: 2, max: 6, step: 1 }
+];
+
+const TimerProfileModal: React.FC<TimerProfileModalProps> = ({
+  profile,
+  initialDurations,
+  subjects,
+  onSave,
+  onDelete,
+  onClose
+}) => {
+  const { theme } = useTheme();
+  // Initial values are only read on mount, so render the modal only while it is needed
+  const [name, setName] = useState(profile?.name || '');
+  const [durations, setDurations] = useState<TimerDurations>({
+    pomodoroLength: profile?.pomodoroLength ?? initialDurations.pomodoroLength,
+    shortBreakLength: profile?.shortBreakLength ?? initialDurations.shortBreakLength,
+    longBreakLength: profile?.longBreakLength ?? initialDurations.longBreakLength,
+    longBreakInterval: profile?.longBreakInterval ?? initialDurations.longBreakInterval
+  });
+  const [subjectIds, setSubjectIds] = useState<string[]>(
+    profile ? subjects.filter(subject => subject.timerProfileId === profile.id).map(subject => subject.id) : []
+  );
+
+  const toggleSubject = (id: string) => {
+    setSubjectIds(prev => (prev.includes(id) ? prev.filter(subjectId => subjectId !== id) : [...prev, id]));
+  };
+
+  const handleSave = () => {
+    if (!name.trim()) {
+      Alert.alert('Missing Name', 'Please give the profile a name.');
+      return;
+    }
+
+    onSave({ id: profile?.id, name: name.trim(), ...durations, ambientMix: profile?.ambientMix }, subjectIds);
+    onClose();
+  };
+
+  const handleDelete = () => {
+    if (!profile || !onDelete) return;
+
+    Alert.alert(
+      'Delete Profile',
+      `Delete "${profile.name}"? Subjects using it will fall back to the selected profile.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Delete',
+          style: 'destructive',
+          onPress: () => {
+            onDelete(profile.id);
+            onClose();
+          }
+        }
+      ]
+    );
+  };
+
+  return (
+    <Modal visible={true} animationType="slide" transparent={true} onRequestClose={onClose}>
+      <View style={styles.overlay}>
+        <View style={[styles.content, { backgroundColor: theme.card }]}>
+          <View style={[styles.header, { borderBottomColor: theme.border }]}>
+            <Text style={[styles.title, { color: theme.text }]}>{profile ? 'Edit Profile' : 'New Profile'}</Text>
+            <TouchableOpacity onPress={onClose}>
+              <Ionicons name="close" size={24} color={theme.text} />
+            </TouchableOpacity>
+          </View>
+
+          <ScrollView contentContainerStyle={styles.body}>
+            <Text style={[styles.label, { color: theme.text }]}>Name</Text>
+            <TextInput
+              style={[styles.input, { backgroundColor: theme.background, color: theme.text, borderColor: theme.border }]}
+              value={name}
+              onChangeText={setName}
+              placeholder="e.g. Deep work"
+              placeholderTextColor={theme.textSecondary}
+            />
+
+            {DURATION_FIELDS.map(field => (
+              <View key={field.key}>
+                <View style={styles.durationRow}>
+                  <Text style={[styles.label, { color: theme.text }]}>{field.label}</Text>
+                  <Text style={[styles.durationValue, { color: theme.primary }]}>
+                    {durations[field.key]} {field.unit}
+                  </Text>
+                </View>
+                <Slider
+                  minimumValue={field.min}
+                  maximumValue={field.max}
+                  step={field.step}
+                  value={durations[field.key]}
+                  onValueChange={value => setDurations(prev => ({ ...prev, [field.key]: value }))}
+                  minimumTrackTintColor={theme.primary}
+                  maximumTrackTintColor={theme.border}
+                  thumbTintColor={theme.primary}
+                />
+              </View>
+            ))}
+
+            <Text style={[styles.label, { color: theme.text }]}>Default for Subjects</Text>
+            {subjects.length === 0 ? (
+              <Text style={[styles.emptyText, { color: theme.textSecondary }]}>No subjects yet</Text>
+            ) : (
+              <View style={styles.chipRow}>
+                {subjects.map(subject => {
+                  const selected = subjectIds.includes(subject.id);
+                  return (
+                    <TouchableOpacity
+                      key={subject.id}
+                      style={[styles.chip, { backgroundColor: selected ? theme.primary : theme.primaryLight }]}
+                      onPress={() => toggleSubject(subject.id)}
+                    >
+                      <Text style={[styles.chipText, { color: selected ? '#FFFFFF' : theme.primary }]}>{subject.name}</Text>
+                    </TouchableOpacity>
+                  );
+                })}
+              </View>
+            )}
+          </ScrollView>
+
+          <View style={styles.footer}>
+            {profile && onDelete && (
+              <TouchableOpacity style={[styles.deleteButton, { borderColor: theme.danger }]} onPress={handleDelete}>
+                <Text style={[styles.deleteButtonText, { color: theme.danger }]}>Delete</Text>
+              </TouchableOpacity>
+            )}
+            <TouchableOpacity style={[styles.saveButton, { backgroundColor: theme.primary }]} onPress={handleSave}>
+              <Text style={styles.saveButtonText}>Save Profile</Text>
+            </TouchableOpacity>
+          </View>
+        </View>
+      </View>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  overlay: {
+    flex: 1,
+    justifyContent: 'flex-end',
+    backgroundColor: 'rgba(0,0,0,0.3)',
+  },
+  content: {
+    maxHeight: '85%',
+    borderTopLeftRadius: 20,
+    borderTopRightRadius: 20,
+    overflow: 'hidden',
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    padding: 16,
+    borderBottomWidth: StyleSheet.hairlineWidth,
+  },
+  title: {
+    fontSize: 18,
+    fontWeight: '600',
+  },
+  body: {
+    padding: 16,
+  },
+  label: {
+    fontSize: 16,
+    fontWeight: '500',
+    marginTop: 8,
+    marginBottom: 8,
+  },
+  input: {
+    borderWidth: 1,
+    borderRadius: 8,
+    padding: 12,
+    fontSize: 16,
+  },
+  durationRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  durationValue: {
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  emptyText: {
+    fontSize: 14,
+  },
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+  },
+  chip: {
+    borderRadius: 20,
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    margin: 4,
+  },
+  chipText: {
+    fontSize: 14,
+    fontWeight: '500',
+  },
+  footer: {
+    flexDirection: 'row',
+    padding: 16,
+  },
+  deleteButton: {
+    borderWidth: 1,
+    borderRadius: 8,
+    padding: 14,
+    alignItems: 'center',
+    marginRight: 8,
+  },
+  deleteButtonText: {
+    fontSize: 16,
+    fontWeight: 'bold',
+  },
+  saveButton: {
+    flex: 1,
+    borderRadius: 8,
+    padding: 14,
+    alignItems: 'center',
+  },
+  saveButtonText: {
+    color: '#FFFFFF',
+    fontSize: 16,
+    fontWeight: 'bold',
+  },
+});
+
+export default TimerProfileModal;
@@ -0,0 +1,93 @@
+import React, { useContext, useEffect, useState } from 'react';
+import { StyleSheet, Text, TouchableOpacity, View } from 'react-native';
+import { AppContext } from '../context/AppContext';
+import { useTheme } from '../context/ThemeContext';
+import { describeJournalEntry } from '../utils/ChangeJournal';
+
+// How long the snackbar stays up after a change, in milliseconds
+const SNACKBAR_DURATION = 5000;
+
+const UndoSnackbar: React.FC = () => {
+  const { theme } = useTheme();
+  const { journal, undoChange } = useContext(AppContext);
+  const latestEntry = journal.undo[0];
+  const [visibleEntryId, setVisibleEntryId] = useState<string | null>(null);
+
+  // Show each new change briefly, entries loaded from storage at startup are too old to show
+  useEffect(() => {
+    if (!latestEntry || Date.now() - new Date(latestEntry.timestamp).getTime() > SNACKBAR_DURATION) {
+      setVisibleEntryId(null);
+      return;
+    }
+
+    setVisibleEntryId(latestEntry.id);
+    const timeout = setTimeout(() => setVisibleEntryId(null), SNACKBAR_DURATION);
+    return () => clearTimeout(timeout);
+  }, [latestEntry]);
+
+  if (!latestEntry || latestEntry.id !== visibleEntryId) {
+    return null;
+  }
+
+  return (
+    <View style={[styles.container, { backgroundColor: theme.text }]}>
+      <View style={styles.textContainer}>
+        <Text style={[styles.label, { color: theme.background }]} numberOfLines={1}>
+          {latestEntry.label}
+        </Text>
+        <Text style={[styles.summary, { color: theme.background }]}>{describeJournalEntry(latestEntry)}</Text>
+      </View>
+      <TouchableOpacity
+        style={styles.undoButton}
+        onPress={() => {
+          setVisibleEntryId(null);
+          undoChange();
+        }}
+      >
+        <Text style={[styles.undoText, { color: theme.primaryLight }]}>UNDO</Text>
+      </TouchableOpacity>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    position: 'absolute',
+    left: 16,
+    right: 16,
+    bottom: 90,
+    flexDirection: 'row',
+    alignItems: 'center',
+    borderRadius: 8,
+    paddingVertical: 10,
+    paddingHorizontal: 16,
+    elevation: 6,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.2,
+    shadowRadius: 4,
+  },
+  textContainer: {
+    flex: 1,
+    marginRight: 12,
+  },
+  label: {
+    fontSize: 14,
+    fontWeight: '500',
+  },
+  summary: {
+    fontSize: 12,
+    opacity: 0.8,
+    marginTop: 2,
+  },
+  undoButton: {
+    paddingVertical: 6,
+    paddingHorizontal: 8,
+  },
+  undoText: {
+    fontSize: 14,
+    fontWeight: 'bold',
+  },
+});
+
+export default UndoSnackbar;
@@ -1,12 +1,64 @@
 import AsyncStorage from '@react-native-async-storage/async-storage';
 import { differenceInDays, format } from 'date-fns';
-import React, { createContext, useCallback, useEffect, useMemo, useReducer } from 'react';
+import React, { createContext, useCallback, useEffect, useMemo, useReducer, useRef } from 'react';
 import { Alert, AppState as RNAppState } from 'react-native';
 import * as NotificationService from '../services/NotificationService';
-import { syncSettingsToStorage } from '../utils/StorageSync';
+import { scheduleDailyGoalReminder, scheduleStreakReminder, sendAchievementNotification } from '../services/NotificationUtils';
+import { AmbientMix } from '../utils/AmbientSounds';
+import { BulkTaskAction, describeBulkAction, getBulkTaskUpdates } from '../utils/BulkTaskActions';
+import {
+  applyJournalChange,
+  ChangeJournal,
+  createJournalEntry,
+  EMPTY_JOURNAL,
+  JournalChange,
+  JournalEntry,
+  recordJournalEntry
+} from '../utils/ChangeJournal';
+import { ChecklistItem, getChecklistProgress } from '../utils/Checklist';
+import { DEFAULT_URGENT_WITHIN_DAYS } from '../utils/EisenhowerMatrix';
+import { DEFAULT_FLOWTIME_BREAK_RATIO } from '../utils/Flowtime';
+import { addSessionToInterruptionStats, Interruption, InterruptionStats, rebuildInterruptionStats } from '../utils/Interruptions';
+import { createNextOccurrence, RecurrenceRule } from '../utils/Recurrence';
+import {
+  createSearchIndex,
+  SearchIndex,
+  searchIndex,
+  SearchOptions,
+  SearchResult,
+  syncSearchIndex
+} from '../utils/SearchIndex';
+import { getStudyTimeSince, getTaskMinuteChanges, rebuildSessionTotals, rebuildStreaks } from '../utils/SessionHistory';
+import { addFocusRating, FocusRatingStats, getReflectionTaskUpdates, SessionReflection } from '../utils/SessionReflection';
+import { SmartList } from '../utils/SmartListQuery';
+import {
+  addTimerSession,
+  loadAllTimerSessions,
+  removeTimerSession,
+  syncSettingsToStorage,
+  updateTimerSession
+} from '../utils/StorageSync';
+import {
+  BlockedPeriod,
+  DEFAULT_PLANNER_DAY_END,
+  DEFAULT_PLANNER_DAY_START,
+  DEFAULT_PLANNER_DAYS,
+  generateStudyPlan,
+  getPlanSignature,
+  movePlanBlock,
+  PlannerOptions,
+  skipPlanBlock,
+  StudyPlan
+} from '../utils/StudyPlanner';
+import { getTasksUnblockedBy } from '../utils/TaskDependencies';
+import { getSnoozeTarget, getSnoozeUpdates, SnoozeOption } from '../utils/Snooze';
+import { getReorderSortKeys, TaskSortMode } from '../utils/TaskOrdering';
+import { getActualMinutesByTask } from '../utils/TimeEstimates';
+import { applyTemplate, ApplyTemplateOptions, TaskTemplate } from '../utils/TaskTemplates';
+import { DEFAULT_TIMER_PROFILES, TimerProfile } from '../utils/TimerProfiles';
 
 // Define types
-type Task = {
+export type Task = {
   id: string;
   title: string;
   description?: string;
@@ -20,11 +72,21 @@ type Task = {
   priority?: 'low' | 'medium' | 'high';
   progress?: number;
   lastModified?: string;
+  recurrence?: RecurrenceRule; // Repeat rule, the next instance is created on completion
+  recurringFromId?: string; // Id of the previous instance in a recurring series
+  checklist?: ChecklistItem[]; // Subtasks, progress is derived from checked items
+  blockedBy?: string[]; // Ids of prerequisite tasks that must be completed first
+  estimatedMinutes?: number; // How long the user expects the task to take
+  actualMinutes?: number; // Study time recorded against the task
+  sortKey?: number; // Manual list position, tasks without one are ordered by creation time
   history?: Array<{
     timestamp: string;
     changes: string;
     progress?: number;
     completed?: boolean;
+    deferredTo?: string; // New due date when the entry records a snooze
+    notes?: string; // What was accomplished, from a session reflection
+    focusRating?: number; // 1-5, from a session reflection
   }>;
 };
 
@@ -40,12 +102,17 @@ type Settings = {
   shortBreakLength: number;
   longBreakLength: number;
   longBreakInterval: number;
+  flowtimeBreakRatio: number; // Minutes studied per minute of break after a Flowtime session
+  autoCycle: boolean; // Run focus sessions and breaks back to back until the long break
+  timerProfiles: TimerProfile[];
+  activeTimerProfileId: string | null; // Null uses the durations above
+  ambientMix: AmbientMix; // Sounds played during focus sessions, unless the profile has its own mix
   dailyGoalMinutes: number;
   weeklyTaskGoal: number;
   notifications: boolean;
   taskReminderMinutes: number; // Minutes before task time to send reminder
   theme: 'light' | 'dark' | 'system';
-  focusMode: boolean;
+  focusMode: boolean; // Hold the user on a running focus session until its break
   autoArchive: boolean;
   archiveDays: number;
   taskRetentionWeeks: number;
@@ -59,8 +126,15 @@ type Settings = {
     priority: boolean;
     completed: boolean;
     archived: boolean;
+    blocked: boolean;
   };
   prioritizeOverdue?: boolean;
+  matrixUrgentDays: number; // Tasks due within this many days count as urgent in the Eisenhower matrix
+  taskSortModes: Record<string, TaskSortMode>; // Sort mode picked for each task filter
+  notifyUnblockedTasks: boolean; // Notify when a task's prerequisites are all completed
+  plannerDayStart: string; // HH:mm, earliest time the planner schedules study blocks
+  plannerDayEnd: string; // HH:mm, latest time a study block may end
+  plannerBlockedHours: BlockedPeriod[]; // Daily periods the planner keeps free
   productivityByHour: Record<string, number>;
   weeklyStudyTime: number[];
   weeklyTasksCompleted: number;
@@ -76,6 +150,7 @@ type Subject = {
   id: string;
   name: string;
   color: string;
+  timerProfileId?: string; // Timer profile loaded when one of the subject's tasks is picked
 };
 
 type Resource = {
@@ -94,6 +169,8 @@ type Exam = {
   subject?: string;
   date: string;
   time?: string;
+  startTime?: string; // HH:mm
+  endTime?: string; // HH:mm
   location?: string;
   completed: boolean;
   createdAt: string;
@@ -111,6 +188,12 @@ type TimerSession = {
   subject?: string;
   taskId?: string;
   isComplete: boolean;
+  interruptions?: Interruption[]; // Logged while the session was running
+  pausedSeconds?: number; // Total time the session spent paused
+  leftFocus?: boolean; // Abandoned by leaving the timer in focus mode
+  focusRating?: number; // 1-5, added when the user reflects on the session
+  notes?: string;
+  manual?: boolean; // Logged by hand from the session history
 };
 
 type Stats = {
@@ -131,6 +214,8 @@ type Stats = {
   sessionsCompleted?: number;
   recentSessions?: TimerSession[]; // Store recent timer sessions
   dailySessionCount?: Record<string, number>; // Store daily session counts
+  interruptionStats?: InterruptionStats; // Interruption totals by hour and subject
+  focusRatingStats?: FocusRatingStats; // Focus rating totals by hour and subject
 };
 
 // Define state type
@@ -142,28 +227,46 @@ type AppState = {
   subjects: Subject[];
   resources: Resource[];
   exams: Exam[];
+  smartLists: SmartList[];
+  studyPlan: StudyPlan | null;
+  taskTemplates: TaskTemplate[];
   achievements: Achievement;
   lastBackup: string | null;
+  journal: ChangeJournal;
 };
 
 // Define action types
 type AppAction =
-  | { type: 'SET_TASKS'; payload: Task[] }
+  | { type: 'SET_TASKS'; payload: Task[]; journal?: string }
   | { type: 'SET_STREAKS'; payload: Streak }
   | { type: 'SET_SETTINGS'; payload: Settings }
   | { type: 'SET_STATS'; payload: Stats }
-  | { type: 'SET_SUBJECTS'; payload: Subject[] }
-  | { type: 'SET_RESOURCES'; payload: Resource[] }
-  | { type: 'SET_EXAMS'; payload: Exam[] }
+  | { type: 'SET_SUBJECTS'; payload: Subject[]; journal?: string }
+  | { type: 'SET_RESOURCES'; payload: Resource[]; journal?: string }
+  | { type: 'SET_EXAMS'; payload: Exam[]; journal?: string }
+  | { type: 'SET_SMART_LISTS'; payload: SmartList[] }
+  | { type: 'SET_STUDY_PLAN'; payload: StudyPlan | null }
+  | { type: 'SET_TASK_TEMPLATES'; payload: TaskTemplate[] }
   | { type: 'SET_ACHIEVEMENTS'; payload: Achievement }
   | { type: 'SET_LAST_BACKUP'; payload: string | null }
+  | { type: 'SET_JOURNAL'; payload: ChangeJournal }
+  | { type: 'UNDO_CHANGE' }
+  | { type: 'REDO_CHANGE' }
   | { type: 'ADD_TASK'; payload: Task }
+  | { type: 'ADD_TASKS'; payload: Task[] }
   | { type: 'UPDATE_TASK'; payload: { id: string; updates: Partial<Task> } }
-  | { type: 'DELETE_TASK'; payload: string }
+  | { type: 'DELETE_TASK'; payload: string; journal?: string }
   | { type: 'TOGGLE_TASK_COMPLETION'; payload: string }
+  | { type: 'REORDER_TASKS'; payload: Record<string, number> }
+  | { type: 'BULK_UPDATE_TASKS'; payload: { ids: string[]; action: BulkTaskAction; occurrences?: Task[] }; journal?: string }
+  | { type: 'BULK_DELETE_TASKS'; payload: string[]; journal?: string }
   | { type: 'RECORD_STUDY_SESSION'; payload: { minutes: number; subject?: string; taskId?: string; sessionData?: TimerSession } }
+  | { type: 'RECORD_ABANDONED_SESSION'; payload: TimerSession }
+  | { type: 'RECORD_SESSION_REFLECTION'; payload: { sessionId: string; focusRating: number; notes?: string } }
+  | { type: 'SET_ACTUAL_MINUTES'; payload: Record<string, number> }
+  | { type: 'REBUILD_SESSION_STATS'; payload: { sessions: TimerSession[]; taskMinutes: Record<string, number> } }
   | { type: 'UPDATE_SETTINGS'; payload: Partial<Settings> }
-  | { type: 'ARCHIVE_OLD_TASKS'; payload: number };
+  | { type: 'ARCHIVE_OLD_TASKS'; payload: number; journal?: string };
 
 // Initial state
 const initialState: AppState = {
@@ -179,6 +282,11 @@ const initialState: AppState = {
     shortBreakLength: 5,
     longBreakLength: 15,
     longBreakInterval: 4,
+    flowtimeBreakRatio: DEFAULT_FLOWTIME_BREAK_RATIO,
+    autoCycle: false,
+    timerProfiles: DEFAULT_TIMER_PROFILES,
+    activeTimerProfileId: null,
+    ambientMix: {},
     dailyGoalMinutes: 120,
     weeklyTaskGoal: 15,
     notifications: true,
@@ -197,8 +305,15 @@ const initialState: AppState = {
       thisWeek: true,
       priority: true,
       completed: true,
-      archived: false
+      archived: false,
+      blocked: true
     },
+    matrixUrgentDays: DEFAULT_URGENT_WITHIN_DAYS,
+    taskSortModes: {},
+    notifyUnblockedTasks: true,
+    plannerDayStart: DEFAULT_PLANNER_DAY_START,
+    plannerDayEnd: DEFAULT_PLANNER_DAY_END,
+    plannerBlockedHours: [],
     productivityByHour: {},
     weeklyStudyTime: [0, 0, 0, 0, 0, 0, 0],
     weeklyTasksCompleted: 0,
@@ -234,13 +349,88 @@ const initialState: AppState = {
   ],
   resources: [],
   exams: [],
+  smartLists: [],
+  studyPlan: null,
+  taskTemplates: [],
   achievements: {
     unlocked: [],
     progress: {}
   },
-  lastBackup: null
+  lastBackup: null,
+  journal: EMPTY_JOURNAL
 };
 
+// Adjust completion stats for tasks completed or un-completed together
+function adjustCompletionStats(stats: Stats, tasks: Task[], isCompleting: boolean): Stats {
+  const change = isCompleting ? tasks.length : -tasks.length;
+  const subjectDistribution = { ...(stats.subjectDistribution || {}) };
+
+  tasks.forEach(task => {
+    if (task.subject) {
+      subjectDistribution[task.subject] = Math.max(0, (subjectDistribution[task.subject] || 0) + (isCompleting ? 1 : -1));
+    }
+  });
+
+  return {
+    ...stats,
+    tasksCompleted: Math.max(0, stats.tasksCompleted + change),
+    weeklyTasksCompleted: Math.max(0, (stats.weeklyTasksCompleted || 0) + change),
+    goalProgress: {
+      ...stats.goalProgress,
+      weeklyTasksCompleted: Math.max(0, stats.goalProgress.weeklyTasksCompleted + change)
+    },
+    subjectDistribution
+  };
+}
+
+// The journal only knows items by id, the entries recorded here hold the app's own items
+type AppJournalChanges = {
+  tasks?: JournalChange<Task>;
+  exams?: JournalChange<Exam>;
+  resources?: JournalChange<Resource>;
+  subjects?: JournalChange<Subject>;
+};
+
+const getJournalChanges = (entry: JournalEntry) => entry.changes as AppJournalChanges;
+
+// Swap the items of a journal entry back in, undoing or redoing it
+function applyJournalEntry(state: AppState, entry: JournalEntry, direction: 'undo' | 'redo'): AppState {
+  const { tasks: taskChange, exams: examChange, resources: resourceChange, subjects: subjectChange } = getJournalChanges(entry);
+  const swap = <T extends { id: string }>(items: T[], change?: JournalChange<T>) => {
+    if (!change) return items;
+    return direction === 'undo'
+      ? applyJournalChange(items, change.after, change.before)
+      : applyJournalChange(items, change.before, change.after);
+  };
+
+  const tasks = swap(state.tasks, taskChange);
+  let stats = state.stats;
+
+  // Keep completion stats in step with tasks whose completion is reverted
+  if (taskChange) {
+    const restored = direction === 'undo' ? taskChange.before : taskChange.after;
+    const replaced = new Map<string, Task>(state.tasks.map(task => [task.id, task]));
+    const flipped = restored.filter(task => {
+      const current = replaced.get(task.id);
+      return current && current.completed !== task.completed;
+    });
+
+    const completing = flipped.filter(task => task.completed);
+    const uncompleting = flipped.filter(task => !task.completed);
+    if (completing.length > 0) stats = adjustCompletionStats(stats, completing, true);
+    if (uncompleting.length > 0) stats = adjustCompletionStats(stats, uncompleting, false);
+  }
+
+  return {
+    ...state,
+    tasks,
+    stats,
+    exams: swap(state.exams, examChange),
+    resources: swap(state.resources, resourceChange),
+    subjects: swap(state.subjects, subjectChange)
+  };
+}
+
 // Reducer function
 function appReducer(state: AppState, action: AppAction): AppState {
   switch (action.type) {
@@ -258,10 +448,36 @@ function appReducer(state: AppState, action: AppAction): AppState {
       return { ...state, resources: action.payload };
     case 'SET_EXAMS':
       return { ...state, exams: action.payload };
+    case 'SET_SMART_LISTS':
+      return { ...state, smartLists: action.payload };
+    case 'SET_STUDY_PLAN':
+      return { ...state, studyPlan: action.payload };
+    case 'SET_TASK_TEMPLATES':
+      return { ...state, taskTemplates: action.payload };
     case 'SET_ACHIEVEMENTS':
       return { ...state, achievements: action.payload };
     case 'SET_LAST_BACKUP':
       return { ...state, lastBackup: action.payload };
+    case 'SET_JOURNAL':
+      return { ...state, journal: action.payload };
+    case 'UNDO_CHANGE': {
+      const [entry, ...remaining] = state.journal.undo;
+      if (!entry) return state;
+
+      return {
+        ...applyJournalEntry(state, entry, 'undo'),
+        journal: { undo: remaining, redo: [entry, ...state.journal.redo] }
+      };
+    }
+    case 'REDO_CHANGE': {
+      const [entry, ...remaining] = state.journal.redo;
+      if (!entry) return state;
+
+      return {
+        ...applyJournalEntry(state, entry, 'redo'),
+        journal: { undo: [entry, ...state.journal.undo], redo: remaining }
+      };
+    }
     case 'ADD_TASK':
       return {
         ...state,
@@ -271,13 +487,34 @@ function appReducer(state: AppState, action: AppAction): AppState {
           tasksCreated: state.stats.tasksCreated + 1
         }
       };
+    case 'ADD_TASKS':
+      return {
+        ...state,
+        tasks: [...state.tasks, ...action.payload],
+        stats: {
+          ...state.stats,
+          tasksCreated: state.stats.tasksCreated + action.payload.length
+        }
+      };
     case 'UPDATE_TASK': {
       const { id, updates } = action.payload;
       return {
         ...state,
-        tasks: state.tasks.map(task =>
-          task.id === id ? { ...task, ...updates } : task
-        )
+        tasks: state.tasks.map(task => {
+          if (task.id !== id) return task;
+
+          const updatedTask = { ...task, ...updates };
+
+          // Keep progress in sync with the checklist when it changes
+          if (updates.checklist) {
+            const checklistProgress = getChecklistProgress(updates.checklist);
+            if (checklistProgress !== undefined && !updatedTask.completed) {
+              updatedTask.progress = checklistProgress;
+            }
+          }
+
+          return updatedTask;
+        })
       };
     }
     case 'DELETE_TASK':
@@ -354,6 +591,50 @@ function appReducer(state: AppState, action: AppAction): AppState {
         stats: updatedStats
       };
     }
+    case 'BULK_UPDATE_TASKS': {
+      const { ids, action: bulkAction, occurrences = [] } = action.payload;
+      const now = new Date().toISOString();
+      const changedTasks: Task[] = [];
+
+      const updatedTasks = state.tasks.map(task => {
+        if (!ids.includes(task.id)) return task;
+
+        const updates = getBulkTaskUpdates(task, bulkAction, now);
+        if (!updates) return task;
+
+        changedTasks.push(task);
+        return { ...task, ...updates };
+      });
+
+      if (changedTasks.length === 0) return state;
+
+      // Stats are adjusted once for the whole selection
+      const isCompletionChange = bulkAction.type === 'complete' || bulkAction.type === 'uncomplete';
+      const updatedStats = isCompletionChange
+        ? adjustCompletionStats(state.stats, changedTasks, bulkAction.type === 'complete')
+        : state.stats;
+
+      // Next occurrences of completed recurring tasks are part of the same change, so undo removes them too
+      return {
+        ...state,
+        tasks: [...updatedTasks, ...occurrences],
+        stats: occurrences.length > 0
+          ? { ...updatedStats, tasksCreated: updatedStats.tasksCreated + occurrences.length }
+          : updatedStats
+      };
+    }
+    case 'BULK_DELETE_TASKS':
+      return {
+        ...state,
+        tasks: state.tasks.filter(task => !action.payload.includes(task.id))
+      };
+    case 'REORDER_TASKS':
+      return {
+        ...state,
+        tasks: state.tasks.map(task =>
+          action.payload[task.id] !== undefined ? { ...task, sortKey: action.payload[task.id] } : task
+        )
+      };
     case 'RECORD_STUDY_SESSION': {
       const { minutes, subject, taskId, sessionData } = action.payload;
       const today = format(new Date(), 'yyyy-MM-dd');
@@ -395,18 +676,22 @@ function appReducer(state: AppState, action: AppAction): AppState {
       // Store session data for recent sessions
       if (sessionData) {
         const session = {
-          id: Date.now().toString(),
+          id: sessionData.id || Date.now().toString(), // Kept so a reflection can find the session later
           timestamp: sessionData.timestamp || now.toISOString(),
           duration: minutes,
           subject: subject,
           taskId: taskId,
-          isComplete: sessionData.isComplete || true
+          isComplete: sessionData.isComplete || true,
+          interruptions: sessionData.interruptions,
+          pausedSeconds: sessionData.pausedSeconds
         };
 
         // Keep only the most recent sessions (last 30)
         const recentSessions = [...(updatedStats.recentSessions || [])];
         recentSessions.unshift(session);
         updatedStats.recentSessions = recentSessions.slice(0, 30);
+
+        updatedStats.interruptionStats = addSessionToInterruptionStats(updatedStats.interruptionStats, session);
       }
 
       // Update goal progress
@@ -462,6 +747,7 @@ function appReducer(state: AppState, action: AppAction): AppState {
 
             return {
               ...task,
+              actualMinutes: (task.actualMinutes || 0) + minutes,
               lastModified: now.toISOString(),
               history: history.slice(-10) // Keep only last 10 entries
             };
@@ -491,6 +777,76 @@ function appReducer(state: AppState, action: AppAction): AppState {
         }
       };
     }
+    case 'RECORD_ABANDONED_SESSION':
+      // Only the interruptions are kept, the time doesn't count as study time
+      return {
+        ...state,
+        stats: {
+          ...state.stats,
+          interruptionStats: addSessionToInterruptionStats(state.stats.interruptionStats, action.payload, true)
+        }
+      };
+    case 'RECORD_SESSION_REFLECTION': {
+      const { sessionId, focusRating, notes } = action.payload;
+      const session = (state.stats.recentSessions || []).find(s => s.id === sessionId);
+      if (!session) return state;
+
+      return {
+        ...state,
+        stats: {
+          ...state.stats,
+          recentSessions: (state.stats.recentSessions || []).map(s =>
+            s.id === sessionId ? { ...s, focusRating, notes } : s
+          ),
+          focusRatingStats: addFocusRating(state.stats.focusRatingStats, session, focusRating)
+        }
+      };
+    }
+    case 'SET_ACTUAL_MINUTES': {
+      // Study time per task, added up from every recorded session
+      let changed = false;
+      const tasks = state.tasks.map(task => {
+        const actualMinutes = action.payload[task.id];
+        if ((actualMinutes || 0) === (task.actualMinutes || 0)) return task;
+        changed = true;
+        return { ...task, actualMinutes };
+      });
+      return changed ? { ...state, tasks } : state;
+    }
+    case 'REBUILD_SESSION_STATS': {
+      // The session history changed, so everything derived from it is counted again
+      const { sessions, taskMinutes } = action.payload;
+      const { studyDays, weeklyStudyTime, ...totals } = rebuildSessionTotals(sessions, state.tasks);
+      const weekStart = state.stats.weekStartDate ? new Date(state.stats.weekStartDate) : new Date();
+      const goalProgress = {
+        dailyStudyTime: studyDays[format(new Date(), 'yyyy-MM-dd')] || 0,
+        weeklyStudyTime: getStudyTimeSince(studyDays, weekStart)
+      };
+
+      return {
+        ...state,
+        tasks: state.tasks.map(task =>
+          taskMinutes[task.id]
+            ? { ...task, actualMinutes: Math.max(0, (task.actualMinutes || 0) + taskMinutes[task.id]) }
+            : task
+        ),
+        streaks: {
+          ...rebuildStreaks(studyDays),
+          studyDays
+        },
+        stats: {
+          ...state.stats,
+          ...totals,
+          interruptionStats: rebuildInterruptionStats(sessions, state.stats.interruptionStats),
+          goalProgress: { ...state.stats.goalProgress, ...goalProgress }
+        },
+        settings: {
+          ...state.settings,
+          weeklyStudyTime,
+          goalProgress: { ...state.settings.goalProgress, ...goalProgress }
+        }
+      };
+    }
     case 'UPDATE_SETTINGS':
       return {
         ...state,
@@ -557,6 +913,51 @@ function appReducer(state: AppState, action: AppAction): AppState {
   }
 }
 
+// Fill in the fields every new task starts with
+function createTask(task: Omit<Task, 'id' | 'createdAt' | 'completed' | 'archived'>): Task {
+  return {
+    // Random suffix keeps ids unique when several tasks are added at once
+    id: `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+    createdAt: new Date().toISOString(),
+    completed: false,
+    archived: false,
+    ...task,
+  };
+}
+
+// Move task notifications over when undoing or redoing swaps tasks
+function rescheduleSwappedTasks(removed: Task[], restored: Task[], reminderMinutes: number) {
+  removed.forEach(task => NotificationService.cancelTaskNotification(task.id));
+  restored
+    .filter(task => !task.completed && !task.archived && task.dueDate)
+    .forEach(task => NotificationService.scheduleTaskNotification(task, reminderMinutes));
+}
+
+// Move exam reminders over when undoing or redoing swaps exams
+function rescheduleSwappedExams(removed: Exam[], restored: Exam[]) {
+  // Scheduling replaces an exam's old reminder itself, so only cancel the ones not scheduled again
+  const scheduled = restored.filter(exam => !exam.completed && exam.date);
+  removed
+    .filter(exam => !scheduled.some(restoredExam => restoredExam.id === exam.id))
+    .forEach(exam => NotificationService.cancelExamReminder(exam.id));
+  scheduled.forEach(exam => NotificationService.scheduleExamReminder(exam));
+}
+
+// Run the reducer and record actions carrying a journal label so they can be undone
+function journalingReducer(state: AppState, action: AppAction): AppState {
+  const nextState = appReducer(state, action);
+  if (!('journal' in action) || !action.journal || nextState === state) return nextState;
+
+  const entry = createJournalEntry(action.journal, {
+    tasks: [state.tasks, nextState.tasks],
+    exams: [state.exams, nextState.exams],
+    resources: [state.resources, nextState.resources],
+    subjects: [state.subjects, nextState.subjects]
+  });
+
+  return entry ? { ...nextState, journal: recordJournalEntry(nextState.journal, entry) } : nextState;
+}
+
 // Create context
 type AppContextType = {
   tasks: Task[];
@@ -566,13 +967,35 @@ type AppContextType = {
   subjects: Subject[];
   resources: Resource[];
   exams: Exam[];
+  smartLists: SmartList[];
+  studyPlan: StudyPlan | null;
+  taskTemplates: TaskTemplate[];
   achievements: Achievement;
   lastBackup: string | null;
+  journal: ChangeJournal;
   addTask: (task: Omit<Task, 'id' | 'createdAt' | 'completed' | 'archived'>) => void;
   updateTask: (id: string, updates: Partial<Task>) => void;
   deleteTask: (id: string) => void;
   toggleTaskCompletion: (id: string) => void;
+  snoozeTask: (id: string, option: SnoozeOption, pickedDate?: Date) => void;
+  reorderTasks: (orderedIds: string[], movedId: string) => void;
+  setTaskSortMode: (filter: string, mode: TaskSortMode) => void;
+  saveTimerProfile: (profile: Omit<TimerProfile, 'id'> & { id?: string }, subjectIds: string[]) => string;
+  deleteTimerProfile: (id: string) => void;
+  saveAmbientMix: (mix: AmbientMix, profileId: string | null) => void;
+  bulkUpdateTasks: (ids: string[], action: BulkTaskAction) => void;
+  bulkDeleteTasks: (ids: string[]) => void;
+  undoChange: () => void;
+  redoChange: () => void;
+  clearJournal: () => void;
+  search: (query: string, options?: SearchOptions) => SearchResult[];
   recordStudySession: (minutes: number, subject?: string, taskId?: string, sessionData?: TimerSession) => void;
+  recordAbandonedSession: (session: TimerSession) => void;
+  reflectOnSession: (sessionId: string, reflection: SessionReflection) => void;
+  loadSessionHistory: () => Promise<TimerSession[]>;
+  logManualSession: (session: TimerSession) => Promise<TimerSession[]>;
+  editSession: (original: TimerSession, updated: TimerSession) => Promise<TimerSession[]>;
+  deleteSession: (session: TimerSession) => Promise<TimerSession[]>;
   addExam: (exam: Omit<Exam, 'id' | 'createdAt' | 'completed'>) => void;
   updateExam: (id: string, updates: Partial<Exam>) => void;
   deleteExam: (id: string) => void;
@@ -582,6 +1005,18 @@ type AppContextType = {
   addSubject: (subject: Omit<Subject, 'id'>) => void;
   updateSubject: (id: string, updates: Partial<Subject>) => void;
   deleteSubject: (id: string) => void;
+  addSmartList: (smartList: Omit<SmartList, 'id' | 'createdAt'>) => void;
+  updateSmartList: (id: string, updates: Partial<SmartList>) => void;
+  deleteSmartList: (id: string) => void;
+  moveSmartList: (id: string, direction: -1 | 1) => void;
+  refreshStudyPlan: (force?: boolean) => void;
+  moveStudyBlock: (blockId: string, date: string, startTime: string) => void;
+  skipStudyBlock: (blockId: string) => void;
+  setStudyBlockPinned: (blockId: string, pinned: boolean) => void;
+  addTaskTemplate: (template: Omit<TaskTemplate, 'id' | 'createdAt'>) => void;
+  updateTaskTemplate: (id: string, updates: Partial<TaskTemplate>) => void;
+  deleteTaskTemplate: (id: string) => void;
+  applyTaskTemplate: (id: string, anchorDate: Date | string, options?: ApplyTemplateOptions) => number;
   updateSettings: (newSettings: Partial<Settings>) => void;
   exportData: () => Promise<boolean>;
   importData: () => Promise<boolean>;
@@ -593,7 +1028,7 @@ export const AppContext = createContext<AppContextType>({} as AppContextType);
 
 // Provider component
 export const AppProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
-  const [state, dispatch] = useReducer(appReducer, initialState);
+  const [state, dispatch] = useReducer(journalingReducer, initialState);
 
   // Load data from AsyncStorage on app start
   useEffect(() => {
@@ -608,8 +1043,12 @@ export const AppProvider: React.FC<{ children: React.ReactNode }> = ({ children
           subjectsData,
           resourcesData,
           examsData,
+          smartListsData,
+          studyPlanData,
+          taskTemplatesData,
           achievementsData,
-          lastBackupData
+          lastBackupData,
+          journalData
         ] = await Promise.all([
           AsyncStorage.getItem('tasks'),
           AsyncStorage.getItem('streaks'),
@@ -618,8 +1057,12 @@ export const AppProvider: React.FC<{ children: React.ReactNode }> = ({ children
           AsyncStorage.getItem('subjects'),
           AsyncStorage.getItem('resources'),
           AsyncStorage.getItem('exams'),
+          AsyncStorage.getItem('smartLists'),
+          AsyncStorage.getItem('studyPlan'),
+          AsyncStorage.getItem('taskTemplates'),
           AsyncStorage.getItem('achievements'),
-          AsyncStorage.getItem('lastBackup')
+          AsyncStorage.getItem('lastBackup'),
+          AsyncStorage.getItem('changeJournal')
         ]);
 
         // Process each data type with its own try-catch to handle corrupted data
@@ -646,6 +1089,11 @@ export const AppProvider: React.FC<{ children: React.ReactNode }> = ({ children
                 weeklyTasksCompleted: 0
               };
             }
+            // Filters added since the settings were saved start out with their defaults
+            parsedSettings.enabledFilters = {
+              ...initialState.settings.enabledFilters,
+              ...parsedSettings.enabledFilters
+            };
             dispatch({ type: 'SET_SETTINGS', payload: parsedSettings });
           }
         } catch (e) {
@@ -694,6 +1142,24 @@ export const AppProvider: React.FC<{ children: React.ReactNode }> = ({ children
           console.error('Error parsing exams data:', e);
         }
 
+        try {
+          if (smartListsData) dispatch({ type: 'SET_SMART_LISTS', payload: JSON.parse(smartListsData) });
+        } catch (e) {
+          console.error('Error parsing smart lists data:', e);
+        }
+
+        try {
+          if (studyPlanData) dispatch({ type: 'SET_STUDY_PLAN', payload: JSON.parse(studyPlanData) });
+        } catch (e) {
+          console.error('Error parsing study plan data:', e);
+        }
+
+        try {
+          if (taskTemplatesData) dispatch({ type: 'SET_TASK_TEMPLATES', payload: JSON.parse(taskTemplatesData) });
+        } catch (e) {
+          console.error('Error parsing task templates data:', e);
+        }
+
         try {
           if (achievementsData) dispatch({ type: 'SET_ACHIEVEMENTS', payload: JSON.parse(achievementsData) });
         } catch (e) {
@@ -706,6 +1172,20 @@ export const AppProvider: React.FC<{ children: React.ReactNode }> = ({ children
           console.error('Error parsing lastBackup data:', e);
         }
 
+        try {
+          if (journalData) dispatch({ type: 'SET_JOURNAL', payload: JSON.parse(journalData) });
+        } catch (e) {
+          console.error('Error parsing change journal data:', e);
+        }
+
+        // Sessions recorded before tasks counted their study time are included too
+        try {
+          const sessions = await loadAllTimerSessions();
+          dispatch({ type: 'SET_ACTUAL_MINUTES', payload: getActualMinutesByTask(sessions) });
+        } catch (e) {
+          console.error('Error adding up task study time:', e);
+        }
+
         // Auto-archive old tasks if enabled (do this after data is loaded)
         if (state.settings.autoArchive) {
           archiveOldTasks();
@@ -784,12 +1264,36 @@ export const AppProvider: React.FC<{ children: React.ReactNode }> = ({ children
           console.error('Error saving exams:', e);
         }
 
+        try {
+          await AsyncStorage.setItem('smartLists', JSON.stringify(state.smartLists));
+        } catch (e) {
+          console.error('Error saving smart lists:', e);
+        }
+
+        try {
+          await AsyncStorage.setItem('studyPlan', JSON.stringify(state.studyPlan));
+        } catch (e) {
+          console.error('Error saving study plan:', e);
+        }
+
+        try {
+          await AsyncStorage.setItem('taskTemplates', JSON.stringify(state.taskTemplates));
+        } catch (e) {
+          console.error('Error saving task templates:', e);
+        }
+
         try {
           await AsyncStorage.setItem('achievements', JSON.stringify(state.achievements));
         } catch (e) {
           console.error('Error saving achievements:', e);
         }
 
+        try {
+          await AsyncStorage.setItem('changeJournal', JSON.stringify(state.journal));
+        } catch (e) {
+          console.error('Error saving change journal:', e);
+        }
+
         console.log('All data saved to AsyncStorage');
       } catch (error) {
         console.error('Error in saveData:', error);
@@ -812,26 +1316,109 @@ export const AppProvider: React.FC<{ children: React.ReactNode }> = ({ children
     updateGoalProgress();
   }, [state.streaks.studyDays, state.tasks, state.settings.weeklyTaskGoal]);
 
+  // Check and update achievements
+  const checkAchievements = useCallback((action: string, value?: number) => {
+    const newAchievements = { ...state.achievements };
+
+    // Define achievement criteria
+    const achievementCriteria = {
+      streak_3: { type: 'streak', threshold: 3 },
+      streak_7: { type: 'streak', threshold: 7 },
+      streak_14: { type: 'streak', threshold: 14 },
+      streak_30: { type: 'streak', threshold: 30 },
+      study_time_10h: { type: 'study_time', threshold: 600 }, // 10 hours in minutes
+      study_time_50h: { type: 'study_time', threshold: 3000 }, // 50 hours in minutes
+      tasks_completed_50: { type: 'tasks_completed', threshold: 50 },
+      tasks_completed_100: { type: 'tasks_completed', threshold: 100 },
+      sessions_completed_20: { type: 'sessions_completed', threshold: 20 },
+      sessions_completed_50: { type: 'sessions_completed', threshold: 50 },
+    };
+
+    // Check each achievement
+    Object.entries(achievementCriteria).forEach(([achievementId, criteria]) => {
+      // Skip if already unlocked
+      if (newAchievements.unlocked.includes(achievementId)) {
+        return;
+      }
+
+      let shouldUnlock = false;
+      let progress = 0;
+
+      // Update progress based on action type
+      switch (criteria.type) {
+        case 'streak':
+          if (action === 'streak_reached' || action === 'study_session') {
+            progress = state.streaks.current;
+            shouldUnlock = progress >= criteria.threshold;
+          }
+          break;
+
+        case 'study_time':
+          if (action === 'study_time_reached' || action === 'study_session') {
+            // Calculate total study time
+            progress = Object.values(state.streaks.studyDays).reduce((sum, time) => sum + time, 0);
+            shouldUnlock = progress >= criteria.threshold;
+          }
+          break;
+
+        case 'tasks_completed':
+          if (action === 'task_completed') {
+            progress = state.stats.tasksCompleted + 1;
+            shouldUnlock = progress >= criteria.threshold;
+          }
+          break;
+
+        case 'sessions_completed':
+          if (action === 'sessions_completed' || action === 'study_session') {
+            progress = (state.stats.sessionsCompleted || 0) + (action === 'study_session' ? 1 : 0);
+            shouldUnlock = progress >= criteria.threshold;
+          }
+          break;
+      }
+
+      // Update progress
+      newAchievements.progress[achievementId] = progress;
+
+      // Unlock if criteria met
+      if (shouldUnlock) {
+        newAchievements.unlocked.push(achievementId);
+
+        // Format achievement name for display
+        const achievementName = achievementId
+          .replace(/_/g, ' ')
+          .replace(/\b\w/g, char => char.toUpperCase());
+
+        // Show in-app notification
+        Alert.alert(
+          'Achievement Unlocked! 🏆',
+          `You've unlocked the "${achievementName}" achievement!`,
+          [{ text: 'OK' }]
+        );
+
+        // Send system notification if enabled
+        if (state.settings.notifications) {
+          sendAchievementNotification(achievementName);
+        }
+      }
+    });
+
+    dispatch({ type: 'SET_ACHIEVEMENTS', payload: newAchievements });
+  }, [state.achievements, state.streaks, state.stats]);
+
   // Add a new task
   const addTask = useCallback((task: Omit<Task, 'id' | 'createdAt' | 'completed' | 'archived'>) => {
-    const newTask: Task = {
-      id: Date.now().toString(),
-      createdAt: new Date().toISOString(),
-      completed: false,
-      archived: false,
-      ...task,
-    };
+    const newTask = createTask(task);
 
     dispatch({ type: 'ADD_TASK', payload: newTask });
 
     // Schedule notification for task due date if notifications are enabled
     if (state.settings.notifications && newTask.dueDate) {
-      NotificationService.scheduleTaskDueNotification(newTask);
+      NotificationService.scheduleTaskNotification(newTask, state.settings.taskReminderMinutes);
     }
 
     // Check for achievements
     checkAchievements('task_created');
-  }, [state.settings.notifications]);
+  }, [state.settings.notifications, state.settings.taskReminderMinutes, checkAchievements]);
 
   // Update an existing task
   const updateTask = useCallback((id: string, updatedTask: Partial<Task>) => {
@@ -850,12 +1437,12 @@ export const AppProvider: React.FC<{ children: React.ReactNode }> = ({ children
 
           // If task is not completed and has a due date, schedule a new notification
           if (!mergedTask.completed && mergedTask.dueDate) {
-            NotificationService.scheduleTaskDueNotification(mergedTask);
+            NotificationService.scheduleTaskNotification(mergedTask, state.settings.taskReminderMinutes);
           }
         }
       }
     }
-  }, [state.settings.notifications, state.tasks]);
+  }, [state.settings.notifications, state.settings.taskReminderMinutes, state.tasks]);
 
   // Delete a task
   const deleteTask = useCallback((id: string) => {
@@ -864,8 +1451,9 @@ export const AppProvider: React.FC<{ children: React.ReactNode }> = ({ children
       NotificationService.cancelTaskNotification(id);
     }
 
-    dispatch({ type: 'DELETE_TASK', payload: id });
-  }, [state.settings.notifications]);
+    const task = state.tasks.find(t => t.id === id);
+    dispatch({ type: 'DELETE_TASK', payload: id, journal: `Deleted "${task?.title || 'task'}"` });
+  }, [state.tasks, state.settings.notifications]);
 
   // Toggle task completion
   const toggleTaskCompletion = useCallback((id: string) => {
@@ -875,9 +1463,165 @@ export const AppProvider: React.FC<{ children: React.ReactNode }> = ({ children
     const task = state.tasks.find(t => t.id === id);
     if (task && !task.completed) {
       checkAchievements('task_completed');
+
+      // Generate the next instance of a recurring task
+      const nextTask = createNextOccurrence(task, state.tasks);
+      if (nextTask) {
+        dispatch({ type: 'ADD_TASK', payload: nextTask });
+
+        if (state.settings.notifications) {
+          NotificationService.scheduleTaskNotification(nextTask, state.settings.taskReminderMinutes);
+        }
+      }
+
+      // Let the user know which tasks are now ready to start
+      if (state.settings.notifications && state.settings.notifyUnblockedTasks !== false) {
+        getTasksUnblockedBy(id, state.tasks).forEach(unblockedTask => {
+          NotificationService.sendTaskUnblockedNotification(unblockedTask, task.title);
+        });
+      }
+    }
+  }, [state.tasks, state.settings.notifications, state.settings.taskReminderMinutes, state.settings.notifyUnblockedTasks]);
+
+  // Push a task back and move its reminders with it
+  const snoozeTask = useCallback((id: string, option: SnoozeOption, pickedDate?: Date) => {
+    const task = state.tasks.find(t => t.id === id);
+    if (!task || task.completed) return;
+
+    const updates = getSnoozeUpdates(task, getSnoozeTarget(option, task, new Date(), pickedDate));
+    dispatch({ type: 'UPDATE_TASK', payload: { id, updates } });
+
+    if (state.settings.notifications) {
+      NotificationService.cancelTaskNotification(id);
+      NotificationService.scheduleTaskNotification({ ...task, ...updates }, state.settings.taskReminderMinutes);
+    }
+  }, [state.tasks, state.settings.notifications, state.settings.taskReminderMinutes]);
+
+  // Save a new manual position for a task dragged within a list
+  const reorderTasks = useCallback((orderedIds: string[], movedId: string) => {
+    const orderedTasks = orderedIds
+      .map(id => state.tasks.find(task => task.id === id))
+      .filter((task): task is Task => !!task);
+
+    const sortKeys = getReorderSortKeys(orderedTasks, movedId);
+    if (Object.keys(sortKeys).length > 0) {
+      dispatch({ type: 'REORDER_TASKS', payload: sortKeys });
     }
   }, [state.tasks]);
 
+  // Apply one action to several tasks in a single dispatch
+  const bulkUpdateTasks = useCallback((ids: string[], action: BulkTaskAction) => {
+    const selectedTasks = state.tasks.filter(task => ids.includes(task.id));
+    if (selectedTasks.length === 0) return;
+
+    const completingTasks = action.type === 'complete' ? selectedTasks.filter(task => !task.completed) : [];
+
+    // Generate the next instance of each recurring task, added in the same dispatch
+    const occurrences = completingTasks.flatMap((task, index) => {
+      const nextTask = createNextOccurrence(task, state.tasks);
+      // Occurrences created in the same millisecond need distinct ids
+      return nextTask ? [{ ...nextTask, id: `${nextTask.id}-${index}` }] : [];
+    });
+
+    dispatch({
+      type: 'BULK_UPDATE_TASKS',
+      payload: { ids, action, occurrences },
+      journal: `Bulk edit: ${describeBulkAction(action)}`
+    });
+
+    if (action.type === 'complete') {
+      if (completingTasks.length === 0) return;
+
+      checkAchievements('task_completed');
+
+      if (state.settings.notifications) {
+        occurrences.forEach(nextTask => {
+          NotificationService.scheduleTaskNotification(nextTask, state.settings.taskReminderMinutes);
+        });
+      }
+
+      if (state.settings.notifications) {
+        completingTasks.forEach(task => NotificationService.cancelTaskNotification(task.id));
+
+        // Let the user know which tasks are now ready to start, counting the whole selection as done
+        if (state.settings.notifyUnblockedTasks !== false) {
+          const tasksAfterCompletion = state.tasks.map(task => (ids.includes(task.id) ? { ...task, completed: true } : task));
+          const notified = new Set<string>();
+
+          completingTasks.forEach(task => {
+            getTasksUnblockedBy(task.id, tasksAfterCompletion).forEach(unblockedTask => {
+              if (notified.has(unblockedTask.id)) return;
+              notified.add(unblockedTask.id);
+              NotificationService.sendTaskUnblockedNotification(unblockedTask, task.title);
+            });
+          });
+        }
+      }
+      return;
+    }
+
+    // Reschedule due date notifications when the due date or completion changed
+    if (state.settings.notifications && (action.type === 'uncomplete' || action.type === 'shiftDueDate')) {
+      selectedTasks.forEach(task => {
+        NotificationService.cancelTaskNotification(task.id);
+
+        const updates = getBulkTaskUpdates(task, action);
+        const mergedTask = updates ? { ...task, ...updates } : task;
+        if (!mergedTask.completed && mergedTask.dueDate) {
+          NotificationService.scheduleTaskNotification(mergedTask, state.settings.taskReminderMinutes);
+        }
+      });
+    }
+  }, [state.tasks, state.settings.notifications, state.settings.taskReminderMinutes, state.settings.notifyUnblockedTasks, checkAchievements]);
+
+  // Delete several tasks in a single dispatch
+  const bulkDeleteTasks = useCallback((ids: string[]) => {
+    if (state.settings.notifications) {
+      ids.forEach(id => NotificationService.cancelTaskNotification(id));
+    }
+
+    dispatch({ type: 'BULK_DELETE_TASKS', payload: ids, journal: 'Deleted tasks' });
+  }, [state.settings.notifications]);
+
+  // Undo the most recent journaled change
+  const undoChange = useCallback(() => {
+    const entry = state.journal.undo[0];
+    if (!entry) return;
+
+    dispatch({ type: 'UNDO_CHANGE' });
+
+    const { tasks: taskChange, exams: examChange } = getJournalChanges(entry);
+    if (taskChange && state.settings.notifications) {
+      rescheduleSwappedTasks(taskChange.after, taskChange.before, state.settings.taskReminderMinutes);
+    }
+
+    if (examChange && state.settings.notifications) {
+      rescheduleSwappedExams(examChange.after, examChange.before);
+    }
+  }, [state.journal, state.settings.notifications, state.settings.taskReminderMinutes]);
+
+  // Redo the most recently undone change
+  const redoChange = useCallback(() => {
+    const entry = state.journal.redo[0];
+    if (!entry) return;
+
+    dispatch({ type: 'REDO_CHANGE' });
+
+    const { tasks: taskChange, exams: examChange } = getJournalChanges(entry);
+    if (taskChange && state.settings.notifications) {
+      rescheduleSwappedTasks(taskChange.before, taskChange.after, state.settings.taskReminderMinutes);
+    }
+
+    if (examChange && state.settings.notifications) {
+      rescheduleSwappedExams(examChange.before, examChange.after);
+    }
+  }, [state.journal, state.settings.notifications, state.settings.taskReminderMinutes]);
+
+  // Forget all journaled changes
+  const clearJournal = useCallback(() => {
+    dispatch({ type: 'SET_JOURNAL', payload: EMPTY_JOURNAL });
+  }, []);
+
   // Record study session
   const recordStudySession = useCallback(
     (minutes: number, subject?: string, taskId?: string, sessionData?: TimerSession) => {
@@ -891,9 +1635,6 @@ export const AppProvider: React.FC<{ children: React.ReactNode }> = ({ children
         isComplete: true
       };
 
-      // Import the storage utility functions at the top of the file - this will be needed!
-      const { addTimerSession } = require('../utils/StorageSync');
-
       // Execute the AsyncStorage save using the utility function
       addTimerSession(validSessionData).catch((error: Error) =>
         console.error('Error saving timer session:', error)
@@ -912,7 +1653,7 @@ export const AppProvider: React.FC<{ children: React.ReactNode }> = ({ children
 
         if (currentDailyStudyTime < goalMinutes) {
           // We're still behind on the daily goal, schedule a reminder
-          NotificationService.scheduleDailyGoalReminder(
+          scheduleDailyGoalReminder(
             currentDailyStudyTime,
             goalMinutes
           );
@@ -920,15 +1661,76 @@ export const AppProvider: React.FC<{ children: React.ReactNode }> = ({ children
 
         // Schedule streak reminder if there's an active streak
         const updatedStreak = state.streaks.current > 0 ? state.streaks.current : 1;
-        NotificationService.scheduleStreakReminder(updatedStreak);
+        scheduleStreakReminder(updatedStreak);
       }
 
       // Check for achievements
       checkAchievements('study_session', minutes);
     },
-    []
+    [
+      state.settings.notifications,
+      state.settings.dailyGoalMinutes,
+      state.stats.goalProgress.dailyStudyTime,
+      state.streaks,
+      checkAchievements
+    ]
   );
 
+  // Keep the interruptions of a focus session that was reset or skipped
+  const recordAbandonedSession = useCallback((session: TimerSession) => {
+    dispatch({ type: 'RECORD_ABANDONED_SESSION', payload: session });
+  }, []);
+
+  // Save the user's reflection on a recorded session, and note it on the session's task
+  const reflectOnSession = useCallback((sessionId: string, reflection: SessionReflection) => {
+    const session = (state.stats.recentSessions || []).find(s => s.id === sessionId);
+    if (!session) return;
+
+    dispatch({
+      type: 'RECORD_SESSION_REFLECTION',
+      payload: { sessionId, focusRating: reflection.focusRating, notes: reflection.notes }
+    });
+
+    updateTimerSession({ ...session, focusRating: reflection.focusRating, notes: reflection.notes }).catch((error: Error) =>
+      console.error('Error saving session reflection:', error)
+    );
+
+    const task = session.taskId ? state.tasks.find(t => t.id === session.taskId) : undefined;
+    if (task) {
+      updateTask(task.id, getReflectionTaskUpdates(task, reflection, session.duration));
+    }
+  }, [state.stats.recentSessions, state.tasks, updateTask]);
+
+  // Load every saved session, newest first is up to the caller
+  const loadSessionHistory = useCallback(() => loadAllTimerSessions(), []);
+
+  // Rebuild stats and streaks from the saved sessions after the history changed
+  const rebuildSessionStats = useCallback(async (taskMinutes: Record<string, number>) => {
+    const sessions = await loadAllTimerSessions();
+    dispatch({ type: 'REBUILD_SESSION_STATS', payload: { sessions, taskMinutes } });
+    return sessions;
+  }, []);
+
+  // Log study done away from the timer
+  const logManualSession = useCallback(async (session: TimerSession) => {
+    await addTimerSession(session);
+    return rebuildSessionStats(getTaskMinuteChanges(undefined, session));
+  }, [rebuildSessionStats]);
+
+  // Correct a saved session, it may have moved to another day
+  const editSession = useCallback(async (original: TimerSession, updated: TimerSession) => {
+    // Removing throws on failure, so the edited copy is only added once the old one is gone
+    await removeTimerSession(original);
+    await addTimerSession(updated);
+    return rebuildSessionStats(getTaskMinuteChanges(original, updated));
+  }, [rebuildSessionStats]);
+
+  // Delete a saved session and the study time it counted for
+  const deleteSession = useCallback(async (session: TimerSession) => {
+    await removeTimerSession(session);
+    return rebuildSessionStats(getTaskMinuteChanges(session, undefined));
+  }, [rebuildSessionStats]);
+
   // Add a new exam
   const addExam = useCallback((exam: Omit<Exam, 'id' | 'createdAt' | 'completed'>) => {
     const newExam: Exam = {
@@ -980,8 +1782,9 @@ export const AppProvider: React.FC<{ children: React.ReactNode }> = ({ children
       NotificationService.cancelExamReminders(id);
     }
 
-    const updatedExams = state.exams.filter(exam => exam.id !== id);
-    dispatch({ type: 'SET_EXAMS', payload: updatedExams });
+    const exam = state.exams.find(e => e.id === id);
+    const updatedExams = state.exams.filter(e => e.id !== id);
+    dispatch({ type: 'SET_EXAMS', payload: updatedExams, journal: `Deleted exam "${exam?.title || ''}"` });
   }, [state.exams, state.settings.notifications]);
 
   // Add a new study resource
@@ -1007,8 +1810,9 @@ export const AppProvider: React.FC<{ children: React.ReactNode }> = ({ children
 
   // Delete a resource
   const deleteResource = useCallback((id: string) => {
-    const updatedResources = state.resources.filter(resource => resource.id !== id);
-    dispatch({ type: 'SET_RESOURCES', payload: updatedResources });
+    const resource = state.resources.find(r => r.id === id);
+    const updatedResources = state.resources.filter(r => r.id !== id);
+    dispatch({ type: 'SET_RESOURCES', payload: updatedResources, journal: `Deleted resource "${resource?.title || ''}"` });
   }, [state.resources]);
 
   // Add a new subject
@@ -1033,10 +1837,166 @@ export const AppProvider: React.FC<{ children: React.ReactNode }> = ({ children
 
   // Delete a subject
   const deleteSubject = useCallback((id: string) => {
-    const updatedSubjects = state.subjects.filter(subject => subject.id !== id);
-    dispatch({ type: 'SET_SUBJECTS', payload: updatedSubjects });
+    const subject = state.subjects.find(s => s.id === id);
+    const updatedSubjects = state.subjects.filter(s => s.id !== id);
+    dispatch({ type: 'SET_SUBJECTS', payload: updatedSubjects, journal: `Deleted subject "${subject?.name || ''}"` });
   }, [state.subjects]);
 
+  // Add a new smart list
+  const addSmartList = useCallback((smartList: Omit<SmartList, 'id' | 'createdAt'>) => {
+    const newSmartList: SmartList = {
+      id: Date.now().toString(),
+      createdAt: new Date().toISOString(),
+      ...smartList,
+    };
+
+    dispatch({ type: 'SET_SMART_LISTS', payload: [...state.smartLists, newSmartList] });
+  }, [state.smartLists]);
+
+  // Update an existing smart list
+  const updateSmartList = useCallback((id: string, updates: Partial<SmartList>) => {
+    const updatedSmartLists = state.smartLists.map(smartList =>
+      smartList.id === id ? { ...smartList, ...updates } : smartList
+    );
+
+    dispatch({ type: 'SET_SMART_LISTS', payload: updatedSmartLists });
+  }, [state.smartLists]);
+
+  // Delete a smart list
+  const deleteSmartList = useCallback((id: string) => {
+    const updatedSmartLists = state.smartLists.filter(smartList => smartList.id !== id);
+    dispatch({ type: 'SET_SMART_LISTS', payload: updatedSmartLists });
+  }, [state.smartLists]);
+
+  // Move a smart list one place up (-1) or down (1)
+  const moveSmartList = useCallback((id: string, direction: -1 | 1) => {
+    const index = state.smartLists.findIndex(smartList => smartList.id === id);
+    const targetIndex = index + direction;
+    if (index === -1 || targetIndex < 0 || targetIndex >= state.smartLists.length) return;
+
+    const updatedSmartLists = [...state.smartLists];
+    [updatedSmartLists[index], updatedSmartLists[targetIndex]] = [updatedSmartLists[targetIndex], updatedSmartLists[index]];
+    dispatch({ type: 'SET_SMART_LISTS', payload: updatedSmartLists });
+  }, [state.smartLists]);
+
+  // Global search, the index is synced incrementally whenever searchable data changes
+  // so each keystroke only queries it
+  const searchIndexRef = useRef<SearchIndex>(createSearchIndex());
+  const search = useMemo(() => {
+    syncSearchIndex(searchIndexRef.current, {
+      tasks: state.tasks,
+      exams: state.exams,
+      resources: state.resources,
+      subjects: state.subjects
+    });
+
+    return (query: string, options?: SearchOptions) => searchIndex(searchIndexRef.current, query, options);
+  }, [state.tasks, state.exams, state.resources, state.subjects]);
+
+  // Planner options come from settings, older saved settings may not have the planner fields yet
+  const plannerOptions = useMemo<PlannerOptions>(() => ({
+    pomodoroLength: state.settings.pomodoroLength,
+    shortBreakLength: state.settings.shortBreakLength,
+    dailyGoalMinutes: state.settings.dailyGoalMinutes,
+    dayStart: state.settings.plannerDayStart || DEFAULT_PLANNER_DAY_START,
+    dayEnd: state.settings.plannerDayEnd || DEFAULT_PLANNER_DAY_END,
+    blockedHours: state.settings.plannerBlockedHours || [],
+    days: DEFAULT_PLANNER_DAYS
+  }), [
+    state.settings.pomodoroLength,
+    state.settings.shortBreakLength,
+    state.settings.dailyGoalMinutes,
+    state.settings.plannerDayStart,
+    state.settings.plannerDayEnd,
+    state.settings.plannerBlockedHours
+  ]);
+
+  // Rebuild the study plan, only when its inputs changed unless forced
+  const refreshStudyPlan = useCallback((force: boolean = false) => {
+    if (!force && state.studyPlan &&
+      state.studyPlan.signature === getPlanSignature(state.tasks, state.exams, plannerOptions)) {
+      return;
+    }
+
+    dispatch({
+      type: 'SET_STUDY_PLAN',
+      payload: generateStudyPlan(state.tasks, state.exams, plannerOptions, state.studyPlan)
+    });
+  }, [state.tasks, state.exams, state.studyPlan, plannerOptions]);
+
+  // Keep an existing plan in step with task, exam and settings changes
+  useEffect(() => {
+    if (state.studyPlan) {
+      refreshStudyPlan();
+    }
+  }, [state.studyPlan, refreshStudyPlan]);
+
+  // Move a study block to another time, the block is pinned there
+  const moveStudyBlock = useCallback((blockId: string, date: string, startTime: string) => {
+    if (!state.studyPlan) return;
+    dispatch({ type: 'SET_STUDY_PLAN', payload: movePlanBlock(state.studyPlan, blockId, date, startTime) });
+  }, [state.studyPlan]);
+
+  // Remove a study block, its task is left off that day when the plan is rebuilt
+  const skipStudyBlock = useCallback((blockId: string) => {
+    if (!state.studyPlan) return;
+    dispatch({ type: 'SET_STUDY_PLAN', payload: skipPlanBlock(state.studyPlan, blockId) });
+  }, [state.studyPlan]);
+
+  // Pin or unpin a study block
+  const setStudyBlockPinned = useCallback((blockId: string, pinned: boolean) => {
+    if (!state.studyPlan) return;
+
+    const blocks = state.studyPlan.blocks.map(block => (block.id === blockId ? { ...block, pinned } : block));
+    dispatch({ type: 'SET_STUDY_PLAN', payload: { ...state.studyPlan, blocks } });
+  }, [state.studyPlan]);
+
+  // Add a new task template
+  const addTaskTemplate = useCallback((template: Omit<TaskTemplate, 'id' | 'createdAt'>) => {
+    const newTemplate: TaskTemplate = {
+      id: Date.now().toString(),
+      createdAt: new Date().toISOString(),
+      ...template,
+    };
+
+    dispatch({ type: 'SET_TASK_TEMPLATES', payload: [...state.taskTemplates, newTemplate] });
+  }, [state.taskTemplates]);
+
+  // Update an existing task template
+  const updateTaskTemplate = useCallback((id: string, updates: Partial<TaskTemplate>) => {
+    const updatedTemplates = state.taskTemplates.map(template =>
+      template.id === id ? { ...template, ...updates } : template
+    );
+
+    dispatch({ type: 'SET_TASK_TEMPLATES', payload: updatedTemplates });
+  }, [state.taskTemplates]);
+
+  // Delete a task template, tasks already created from it are kept
+  const deleteTaskTemplate = useCallback((id: string) => {
+    const updatedTemplates = state.taskTemplates.filter(template => template.id !== id);
+    dispatch({ type: 'SET_TASK_TEMPLATES', payload: updatedTemplates });
+  }, [state.taskTemplates]);
+
+  // Create every task of a template relative to an anchor date, returns how many were created
+  const applyTaskTemplate = useCallback((id: string, anchorDate: Date | string, options?: ApplyTemplateOptions) => {
+    const template = state.taskTemplates.find(t => t.id === id);
+    if (!template) return 0;
+
+    const newTasks = applyTemplate(template, anchorDate, options).map(createTask);
+    if (newTasks.length === 0) return 0;
+
+    dispatch({ type: 'ADD_TASKS', payload: newTasks });
+
+    if (state.settings.notifications) {
+      newTasks
+        .filter(task => task.dueDate)
+        .forEach(task => NotificationService.scheduleTaskNotification(task, state.settings.taskReminderMinutes));
+    }
+
+    checkAchievements('task_created');
+    return newTasks.length;
+  }, [state.taskTemplates, state.settings.notifications, state.settings.taskReminderMinutes, checkAchievements]);
+
   // Update settings
   const updateSettings = useCallback((newSettings: Partial<Settings>) => {
     // Handle notification system changes
@@ -1067,6 +2027,65 @@ export const AppProvider: React.FC<{ children: React.ReactNode }> = ({ children
     }, 0);
   }, [state.settings, state.tasks, state.exams, state.streaks, state.stats.goalProgress.dailyStudyTime]);
 
+  // Remember the sort mode picked for a task filter
+  const setTaskSortMode = useCallback((filter: string, mode: TaskSortMode) => {
+    updateSettings({ taskSortModes: { ...(state.settings.taskSortModes || {}), [filter]: mode } });
+  }, [state.settings.taskSortModes, updateSettings]);
+
+  // Add or update a timer profile and make it the default for the given subjects
+  const saveTimerProfile = useCallback((profile: Omit<TimerProfile, 'id'> & { id?: string }, subjectIds: string[]): string => {
+    const profiles = state.settings.timerProfiles ?? DEFAULT_TIMER_PROFILES;
+    const id = profile.id || Date.now().toString();
+    const savedProfile: TimerProfile = { ...profile, id };
+
+    const exists = profiles.some(p => p.id === id);
+    updateSettings({
+      timerProfiles: exists ? profiles.map(p => (p.id === id ? savedProfile : p)) : [...profiles, savedProfile]
+    });
+
+    // A subject has one default profile, unbind subjects that were dropped from this one
+    const updatedSubjects = state.subjects.map(subject => {
+      if (subjectIds.includes(subject.id)) return { ...subject, timerProfileId: id };
+      if (subject.timerProfileId === id) return { ...subject, timerProfileId: undefined };
+      return subject;
+    });
+    dispatch({ type: 'SET_SUBJECTS', payload: updatedSubjects });
+
+    return id;
+  }, [state.settings.timerProfiles, state.subjects, updateSettings]);
+
+  // Delete a timer profile, subjects using it fall back to the active profile
+  const deleteTimerProfile = useCallback((id: string) => {
+    const profiles = state.settings.timerProfiles ?? DEFAULT_TIMER_PROFILES;
+    updateSettings({
+      timerProfiles: profiles.filter(profile => profile.id !== id),
+      activeTimerProfileId: state.settings.activeTimerProfileId === id ? null : state.settings.activeTimerProfileId ?? null
+    });
+
+    const updatedSubjects = state.subjects.map(subject =>
+      subject.timerProfileId === id ? { ...subject, timerProfileId: undefined } : subject
+    );
+    dispatch({ type: 'SET_SUBJECTS', payload: updatedSubjects });
+  }, [state.settings.timerProfiles, state.settings.activeTimerProfileId, state.subjects, updateSettings]);
+
+  // Save the ambient sound mix for a timer profile, or for every session when no profile is given.
+  // Saving it for every session takes the active profile's own mix off, so the new mix is what plays.
+  const saveAmbientMix = useCallback((mix: AmbientMix, profileId: string | null) => {
+    const profiles = state.settings.timerProfiles ?? DEFAULT_TIMER_PROFILES;
+    if (profileId) {
+      updateSettings({
+        timerProfiles: profiles.map(profile => (profile.id === profileId ? { ...profile, ambientMix: mix } : profile))
+      });
+      return;
+    }
+
+    const activeId = state.settings.activeTimerProfileId;
+    updateSettings({
+      ambientMix: mix,
+      timerProfiles: profiles.map(profile => (profile.id === activeId ? { ...profile, ambientMix: undefined } : profile))
+    });
+  }, [state.settings.timerProfiles, state.settings.activeTimerProfileId, updateSettings]);
+
   /**
    * Archive old tasks based on the following rules:
    * 1. Tasks must be completed for at least 24 hours before being eligible for archiving
@@ -1092,7 +2111,7 @@ export const AppProvider: React.FC<{ children: React.ReactNode }> = ({ children
         const tasksData = await AsyncStorage.getItem('tasks');
         if (tasksData) {
           const updatedTasks = JSON.parse(tasksData);
-          dispatch({ type: 'SET_TASKS', payload: updatedTasks });
+          dispatch({ type: 'SET_TASKS', payload: updatedTasks, journal: 'Archived old tasks' });
         }
       }
 
@@ -1102,7 +2121,7 @@ export const AppProvider: React.FC<{ children: React.ReactNode }> = ({ children
 
       // Fall back to the original implementation if there's an error
       const archiveDays = days || state.settings.archiveDays;
-      dispatch({ type: 'ARCHIVE_OLD_TASKS', payload: archiveDays });
+      dispatch({ type: 'ARCHIVE_OLD_TASKS', payload: archiveDays, journal: 'Archived old tasks' });
 
       // Count how many tasks were archived
       const now = new Date();
@@ -1205,95 +2224,6 @@ export const AppProvider: React.FC<{ children: React.ReactNode }> = ({ children
     dispatch({ type: 'SET_STATS', payload: updatedStats });
   }, [state.streaks.studyDays, state.stats]);
 
-  // Check and update achievements
-  const checkAchievements = useCallback((action: string, value?: number) => {
-    const newAchievements = { ...state.achievements };
-
-    // Define achievement criteria
-    const achievementCriteria = {
-      streak_3: { type: 'streak', threshold: 3 },
-      streak_7: { type: 'streak', threshold: 7 },
-      streak_14: { type: 'streak', threshold: 14 },
-      streak_30: { type: 'streak', threshold: 30 },
-      study_time_10h: { type: 'study_time', threshold: 600 }, // 10 hours in minutes
-      study_time_50h: { type: 'study_time', threshold: 3000 }, // 50 hours in minutes
-      tasks_completed_50: { type: 'tasks_completed', threshold: 50 },
-      tasks_completed_100: { type: 'tasks_completed', threshold: 100 },
-      sessions_completed_20: { type: 'sessions_completed', threshold: 20 },
-      sessions_completed_50: { type: 'sessions_completed', threshold: 50 },
-    };
-
-    // Check each achievement
-    Object.entries(achievementCriteria).forEach(([achievementId, criteria]) => {
-      // Skip if already unlocked
-      if (newAchievements.unlocked.includes(achievementId)) {
-        return;
-      }
-
-      let shouldUnlock = false;
-      let progress = 0;
-
-      // Update progress based on action type
-      switch (criteria.type) {
-        case 'streak':
-          if (action === 'streak_reached' || action === 'study_session') {
-            progress = state.streaks.current;
-            shouldUnlock = progress >= criteria.threshold;
-          }
-          break;
-
-        case 'study_time':
-          if (action === 'study_time_reached' || action === 'study_session') {
-            // Calculate total study time
-            progress = Object.values(state.streaks.studyDays).reduce((sum, time) => sum + time, 0);
-            shouldUnlock = progress >= criteria.threshold;
-          }
-          break;
-
-        case 'tasks_completed':
-          if (action === 'task_completed') {
-            progress = state.stats.tasksCompleted + 1;
-            shouldUnlock = progress >= criteria.threshold;
-          }
-          break;
-
-        case 'sessions_completed':
-          if (action === 'sessions_completed' || action === 'study_session') {
-            progress = (state.stats.sessionsCompleted || 0) + (action === 'study_session' ? 1 : 0);
-            shouldUnlock = progress >= criteria.threshold;
-          }
-          break;
-      }
-
-      // Update progress
-      newAchievements.progress[achievementId] = progress;
-
-      // Unlock if criteria met
-      if (shouldUnlock) {
-        newAchievements.unlocked.push(achievementId);
-
-        // Format achievement name for display
-        const achievementName = achievementId
-          .replace(/_/g, ' ')
-          .replace(/\b\w/g, char => char.toUpperCase());
-
-        // Show in-app notification
-        Alert.alert(
-          'Achievement Unlocked! 🏆',
-          `You've unlocked the "${achievementName}" achievement!`,
-          [{ text: 'OK' }]
-        );
-
-        // Send system notification if enabled
-        if (state.settings.notifications) {
-          NotificationService.sendAchievementNotification(achievementName);
-        }
-      }
-    });
-
-    dispatch({ type: 'SET_ACHIEVEMENTS', payload: newAchievements });
-  }, [state.achievements, state.streaks, state.stats]);
-
   // Export data as a backup file
   const exportData = async () => {
     try {
@@ -1305,6 +2235,8 @@ export const AppProvider: React.FC<{ children: React.ReactNode }> = ({ children
         subjects: state.subjects,
         resources: state.resources,
         exams: state.exams,
+        smartLists: state.smartLists,
+        taskTemplates: state.taskTemplates,
         achievements: state.achievements,
         exportDate: new Date().toISOString()
       };
@@ -1353,13 +2285,35 @@ export const AppProvider: React.FC<{ children: React.ReactNode }> = ({ children
     subjects: state.subjects,
     resources: state.resources,
     exams: state.exams,
+    smartLists: state.smartLists,
+    studyPlan: state.studyPlan,
+    taskTemplates: state.taskTemplates,
     achievements: state.achievements,
     lastBackup: state.lastBackup,
+    journal: state.journal,
     addTask,
     updateTask,
     deleteTask,
     toggleTaskCompletion,
+    snoozeTask,
+    reorderTasks,
+    setTaskSortMode,
+    saveTimerProfile,
+    deleteTimerProfile,
+    saveAmbientMix,
+    bulkUpdateTasks,
+    bulkDeleteTasks,
+    undoChange,
+    redoChange,
+    clearJournal,
+    search,
     recordStudySession,
+    recordAbandonedSession,
+    reflectOnSession,
+    loadSessionHistory,
+    logManualSession,
+    editSession,
+    deleteSession,
     addExam,
     updateExam,
     deleteExam,
@@ -1369,6 +2323,18 @@ export const AppProvider: React.FC<{ children: React.ReactNode }> = ({ children
     addSubject,
     updateSubject,
     deleteSubject,
+    addSmartList,
+    updateSmartList,
+    deleteSmartList,
+    moveSmartList,
+    refreshStudyPlan,
+    moveStudyBlock,
+    skipStudyBlock,
+    setStudyBlockPinned,
+    addTaskTemplate,
+    updateTaskTemplate,
+    deleteTaskTemplate,
+    applyTaskTemplate,
     updateSettings,
     exportData,
     importData,
@@ -1380,7 +2346,25 @@ export const AppProvider: React.FC<{ children: React.ReactNode }> = ({ children
     updateTask,
     deleteTask,
     toggleTaskCompletion,
+    snoozeTask,
+    reorderTasks,
+    setTaskSortMode,
+    saveTimerProfile,
+    deleteTimerProfile,
+    saveAmbientMix,
+    bulkUpdateTasks,
+    bulkDeleteTasks,
+    undoChange,
+    redoChange,
+    clearJournal,
+    search,
     recordStudySession,
+    recordAbandonedSession,
+    reflectOnSession,
+    loadSessionHistory,
+    logManualSession,
+    editSession,
+    deleteSession,
     addExam,
     updateExam,
     deleteExam,
@@ -1390,6 +2374,18 @@ export const AppProvider: React.FC<{ children: React.ReactNode }> = ({ children
     addSubject,
     updateSubject,
     deleteSubject,
+    addSmartList,
+    updateSmartList,
+    deleteSmartList,
+    moveSmartList,
+    refreshStudyPlan,
+    moveStudyBlock,
+    skipStudyBlock,
+    setStudyBlockPinned,
+    addTaskTemplate,
+    updateTaskTemplate,
+    deleteTaskTemplate,
+    applyTaskTemplate,
     updateSettings,
     exportData,
     importData,
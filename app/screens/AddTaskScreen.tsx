@@ -1,7 +1,7 @@
 import { Ionicons } from '@expo/vector-icons';
 import DateTimePicker from '@react-native-community/datetimepicker';
-import { useNavigation } from '@react-navigation/native';
-import { useContext, useState } from 'react';
+import { useNavigation, useRoute } from '@react-navigation/native';
+import { useContext, useMemo, useState } from 'react';
 import {
   ScrollView,
   StyleSheet,
@@ -11,11 +11,17 @@ import {
   View
 } from 'react-native';
 import { SafeAreaView } from 'react-native-safe-area-context';
+import EstimateInput from '../components/EstimateInput';
+import QuickAddBar from '../components/QuickAddBar';
+import RecurrenceEditor from '../components/RecurrenceEditor';
 import { AppContext } from '../context/AppContext';
 import { useTheme } from '../context/ThemeContext';
+import { ParsedQuickAdd } from '../utils/QuickAddParser';
+import { RecurrenceRule } from '../utils/Recurrence';
 
 const AddTaskScreen = () => {
   const navigation = useNavigation();
+  const route = useRoute();
   const { addTask, subjects } = useContext(AppContext);
   const { theme, isDark } = useTheme(); // Get isDark separately to avoid theme.isDark issues
 
@@ -24,10 +30,15 @@ const AddTaskScreen = () => {
   const [description, setDescription] = useState('');
   const [subject, setSubject] = useState('');
   const [priority, setPriority] = useState('medium');
-  const [dueDate, setDueDate] = useState(new Date());
-  const [dueTime, setDueTime] = useState('');
+  // The calendar can open this screen with a day and time already picked
+  const { initialDate, initialTime } = (route.params as { initialDate?: string; initialTime?: string } | undefined) || {};
+
+  const [dueDate, setDueDate] = useState(initialDate ? new Date(initialDate) : new Date());
+  const [dueTime, setDueTime] = useState(initialTime || '');
   const [showDatePicker, setShowDatePicker] = useState(false);
   const [showTimePicker, setShowTimePicker] = useState(false);
+  const [recurrence, setRecurrence] = useState<RecurrenceRule | undefined>(undefined);
+  const [estimatedMinutes, setEstimatedMinutes] = useState<number | undefined>(undefined);
 
   // Subject options
   const subjectOptions = [
@@ -40,6 +51,9 @@ const AddTaskScreen = () => {
     'Other'
   ];
 
+  // Subject names the quick-add parser can match #tags against
+  const subjectNames = useMemo(() => subjects.map(item => item.name), [subjects]);
+
   // Handle date change
   const onDateChange = (event: any, selectedDate?: Date) => {
     const currentDate = selectedDate || dueDate;
@@ -93,6 +107,23 @@ const AddTaskScreen = () => {
       priority,
       dueDate: dueDate.toISOString(),
       dueTime: dueTime || undefined, // Include due time if set
+      recurrence: recurrence ? { ...recurrence, occurrence: 1 } : undefined,
+      estimatedMinutes,
+    };
+
+    addTask(newTask);
+    navigation.goBack();
+  };
+
+  // Create a task straight from a quick-add phrase
+  const handleQuickAdd = (parsed: ParsedQuickAdd) => {
+    const newTask = {
+      title: parsed.title,
+      description: '',
+      subject: parsed.subject || '',
+      priority: parsed.priority || 'medium',
+      dueDate: (parsed.dueDate || new Date()).toISOString(),
+      dueTime: parsed.dueTime,
     };
 
     addTask(newTask);
@@ -101,7 +132,15 @@ const AddTaskScreen = () => {
 
   return (
     <SafeAreaView style={[styles.container, { backgroundColor: theme.card }]}>
-      <ScrollView>
+      <ScrollView keyboardShouldPersistTaps="handled">
+        <View style={styles.formGroup}>
+          <Text style={[styles.label, { color: theme.text }]}>Quick Add</Text>
+          <QuickAddBar subjects={subjectNames} onSubmit={handleQuickAdd} />
+          <Text style={[styles.infoText, { color: theme.textSecondary }]}>
+            Type a date, time, !priority and #subject, or fill in the form below
+          </Text>
+        </View>
+
         <View style={styles.formGroup}>
           <Text style={[styles.label, { color: theme.text }]}>Task Title *</Text>
           <TextInput
@@ -305,6 +344,20 @@ const AddTaskScreen = () => {
           )}
         </View>
 
+        <View style={styles.formGroup}>
+          <Text style={[styles.label, { color: theme.text }]}>Time Estimate (Optional)</Text>
+          <EstimateInput value={estimatedMinutes} onChange={setEstimatedMinutes} />
+        </View>
+
+        <View style={styles.formGroup}>
+          <Text style={[styles.label, { color: theme.text }]}>Repeat</Text>
+          <RecurrenceEditor
+            value={recurrence}
+            onChange={setRecurrence}
+            anchorDate={dueDate}
+          />
+        </View>
+
         <TouchableOpacity
           style={[styles.createButton, { backgroundColor: theme.primary }]}
           onPress={handleCreateTask}
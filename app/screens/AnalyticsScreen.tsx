@@ -1,10 +1,15 @@
 import { Ionicons } from '@expo/vector-icons';
+import { format, parseISO } from 'date-fns';
 import { useContext } from 'react';
 import { Dimensions, ScrollView, StyleSheet, Text, View } from 'react-native';
 import { BarChart, PieChart } from 'react-native-chart-kit';
 import { SafeAreaView } from 'react-native-safe-area-context';
 import { AppContext } from '../context/AppContext';
 import { useTheme } from '../context/ThemeContext';
+import { EMPTY_INTERRUPTION_STATS, getInterruptionRates, InterruptionStats } from '../utils/Interruptions';
+import { EMPTY_FOCUS_RATING_STATS, FocusRatingStats, getAverageFocus } from '../utils/SessionReflection';
+import { CHRONIC_DEFERRAL_COUNT, getChronicallyDeferredTasks } from '../utils/Snooze';
+import { describeEstimateBias, formatMinutes, getEstimateAccuracyBySubject } from '../utils/TimeEstimates';
 
 const { width } = Dimensions.get('window');
 
@@ -23,8 +28,25 @@ const AnalyticsScreen = () => {
     sessionsCompleted: 0,
   };
   const subjects = context?.subjects || [];
+  const tasks = context?.tasks || [];
   const { theme } = useTheme();
 
+  // Estimated vs actual time on completed tasks, per subject
+  const estimateAccuracy = getEstimateAccuracyBySubject(tasks);
+
+  // Open tasks that keep getting snoozed
+  const deferredTasks = getChronicallyDeferredTasks(tasks);
+
+  // Interruptions per hour of focus, by time of day and by subject
+  const interruptionStats: InterruptionStats = (stats as any).interruptionStats || EMPTY_INTERRUPTION_STATS;
+  const interruptedHours = getInterruptionRates(interruptionStats.byHour).slice(0, 3);
+  const interruptedSubjects = getInterruptionRates(interruptionStats.bySubject);
+
+  // Average focus rating from session reflections, by time of day and by subject
+  const focusRatingStats: FocusRatingStats = (stats as any).focusRatingStats || EMPTY_FOCUS_RATING_STATS;
+  const focusByHour = getAverageFocus(focusRatingStats.byHour).slice(0, 3);
+  const focusBySubject = getAverageFocus(focusRatingStats.bySubject);
+
   // Prepare data for weekly study time chart
   const weeklyStudyTime = (stats as any).weeklyStudyTime || [0, 0, 0, 0, 0, 0, 0];
   const weeklyData = {
@@ -152,6 +174,59 @@ const AnalyticsScreen = () => {
             style={styles.chart}
           />
         </View>
+        <View style={[styles.section, { backgroundColor: theme.card }]}>
+          <Text style={[styles.sectionTitle, { color: theme.text }]}>Estimation Accuracy</Text>
+          <Text style={[styles.sectionSubtitle, { color: theme.textSecondary }]}>
+            Estimated vs actual study time on completed tasks
+          </Text>
+          {estimateAccuracy.length > 0 ? (
+            estimateAccuracy.map(item => (
+              <View key={item.subject} style={[styles.estimateRow, { borderBottomColor: theme.border }]}>
+                <View style={styles.estimateHeader}>
+                  <Text style={[styles.estimateSubject, { color: theme.text }]}>{item.subject}</Text>
+                  <Text style={[styles.estimateAccuracy, { color: item.accuracy >= 75 ? theme.success : item.accuracy >= 50 ? theme.warning : theme.danger }]}>
+                    {item.accuracy}% accurate
+                  </Text>
+                </View>
+                <Text style={[styles.insightText, { color: theme.textSecondary }]}>
+                  {formatMinutes(item.actualMinutes)} spent vs {formatMinutes(item.estimatedMinutes)} estimated across {item.taskCount} {item.taskCount === 1 ? 'task' : 'tasks'}
+                </Text>
+                <Text style={[styles.insightText, { color: item.ratio > 1.1 ? theme.danger : theme.textSecondary }]}>
+                  {describeEstimateBias(item.ratio)}
+                </Text>
+              </View>
+            ))
+          ) : (
+            <Text style={[styles.insightText, { color: theme.textSecondary }]}>
+              Add time estimates to tasks and study them with the timer to see how accurate your estimates are.
+            </Text>
+          )}
+        </View>
+        <View style={[styles.section, { backgroundColor: theme.card }]}>
+          <Text style={[styles.sectionTitle, { color: theme.text }]}>Chronically Deferred Tasks</Text>
+          <Text style={[styles.sectionSubtitle, { color: theme.textSecondary }]}>
+            Open tasks snoozed {CHRONIC_DEFERRAL_COUNT} or more times
+          </Text>
+          {deferredTasks.length > 0 ? (
+            deferredTasks.map(({ task, deferrals }) => (
+              <View key={task.id} style={[styles.estimateRow, { borderBottomColor: theme.border }]}>
+                <View style={styles.estimateHeader}>
+                  <Text style={[styles.deferredTitle, { color: theme.text }]} numberOfLines={1}>{task.title}</Text>
+                  <Text style={[styles.estimateAccuracy, { color: deferrals >= CHRONIC_DEFERRAL_COUNT * 2 ? theme.danger : theme.warning }]}>
+                    Snoozed {deferrals}×
+                  </Text>
+                </View>
+                <Text style={[styles.insightText, { color: theme.textSecondary }]}>
+                  {task.subject ? `${task.subject} · ` : ''}Now due {format(parseISO(task.dueDate), 'MMM d')}
+                </Text>
+              </View>
+            ))
+          ) : (
+            <Text style={[styles.insightText, { color: theme.textSecondary }]}>
+              No tasks are being put off repeatedly.
+            </Text>
+          )}
+        </View>
         <View style={[styles.section, { backgroundColor: theme.card }]}>
           <Text style={[styles.sectionTitle, { color: theme.text }]}>Productivity by Time of Day</Text>
           <Text style={[styles.sectionSubtitle, { color: theme.textSecondary }]}>When you're most productive</Text>
@@ -167,6 +242,88 @@ const AnalyticsScreen = () => {
             yAxisSuffix={'m'}
           />
         </View>
+        <View style={[styles.section, { backgroundColor: theme.card }]}>
+          <Text style={[styles.sectionTitle, { color: theme.text }]}>Interruptions</Text>
+          <Text style={[styles.sectionSubtitle, { color: theme.textSecondary }]}>
+            Interruptions per hour of focus
+          </Text>
+          {(interruptionStats.leftFocus || 0) > 0 && (
+            <Text style={[styles.insightText, { color: theme.warning }]}>
+              Left the timer during {interruptionStats.leftFocus} focus mode {interruptionStats.leftFocus === 1 ? 'session' : 'sessions'}
+            </Text>
+          )}
+          {interruptionStats.internal + interruptionStats.external > 0 ? (
+            <>
+              <Text style={[styles.insightText, { color: theme.textSecondary }]}>
+                {interruptionStats.internal} internal, {interruptionStats.external} external across {interruptionStats.sessions} {interruptionStats.sessions === 1 ? 'session' : 'sessions'}
+                {interruptionStats.abandoned > 0 ? `, ${interruptionStats.abandoned} abandoned` : ''}
+              </Text>
+              <Text style={[styles.insightText, { color: theme.textSecondary }]}>
+                {formatMinutes(interruptionStats.pausedSeconds / 60 / interruptionStats.sessions)} paused per session on average
+              </Text>
+              {interruptedHours.map(rate => (
+                <View key={`hour-${rate.key}`} style={[styles.estimateRow, { borderBottomColor: theme.border }]}>
+                  <View style={styles.estimateHeader}>
+                    <Text style={[styles.estimateSubject, { color: theme.text }]}>{rate.key}:00 - {Number(rate.key) + 1}:00</Text>
+                    <Text style={[styles.estimateAccuracy, { color: theme.warning }]}>{rate.perHour.toFixed(1)} / hr</Text>
+                  </View>
+                </View>
+              ))}
+              {interruptedSubjects.map(rate => (
+                <View key={`subject-${rate.key}`} style={[styles.estimateRow, { borderBottomColor: theme.border }]}>
+                  <View style={styles.estimateHeader}>
+                    <Text style={[styles.estimateSubject, { color: theme.text }]}>{rate.key}</Text>
+                    <Text style={[styles.estimateAccuracy, { color: theme.warning }]}>{rate.perHour.toFixed(1)} / hr</Text>
+                  </View>
+                  <Text style={[styles.insightText, { color: theme.textSecondary }]}>
+                    {rate.interruptions} in {formatMinutes(rate.focusMinutes)} of focus
+                  </Text>
+                </View>
+              ))}
+            </>
+          ) : (
+            <Text style={[styles.insightText, { color: theme.textSecondary }]}>
+              Log interruptions during a focus session to see when and where your focus breaks.
+            </Text>
+          )}
+        </View>
+        <View style={[styles.section, { backgroundColor: theme.card }]}>
+          <Text style={[styles.sectionTitle, { color: theme.text }]}>Focus Quality</Text>
+          <Text style={[styles.sectionSubtitle, { color: theme.textSecondary }]}>
+            Average focus rating from your session reflections
+          </Text>
+          {focusBySubject.length > 0 ? (
+            <>
+              {focusByHour.map(item => (
+                <View key={`hour-${item.key}`} style={[styles.estimateRow, { borderBottomColor: theme.border }]}>
+                  <View style={styles.estimateHeader}>
+                    <Text style={[styles.estimateSubject, { color: theme.text }]}>{item.key}:00 - {Number(item.key) + 1}:00</Text>
+                    <Text style={[styles.estimateAccuracy, { color: item.average >= 4 ? theme.success : item.average >= 3 ? theme.warning : theme.danger }]}>
+                      {item.average.toFixed(1)} / 5
+                    </Text>
+                  </View>
+                </View>
+              ))}
+              {focusBySubject.map(item => (
+                <View key={`subject-${item.key}`} style={[styles.estimateRow, { borderBottomColor: theme.border }]}>
+                  <View style={styles.estimateHeader}>
+                    <Text style={[styles.estimateSubject, { color: theme.text }]}>{item.key}</Text>
+                    <Text style={[styles.estimateAccuracy, { color: item.average >= 4 ? theme.success : item.average >= 3 ? theme.warning : theme.danger }]}>
+                      {item.average.toFixed(1)} / 5
+                    </Text>
+                  </View>
+                  <Text style={[styles.insightText, { color: theme.textSecondary }]}>
+                    {item.count} rated {item.count === 1 ? 'session' : 'sessions'}
+                  </Text>
+                </View>
+              ))}
+            </>
+          ) : (
+            <Text style={[styles.insightText, { color: theme.textSecondary }]}>
+              Rate your focus after a timer session to see when and what you focus on best.
+            </Text>
+          )}
+        </View>
         <View style={[styles.section, { backgroundColor: theme.card }]}>
           <Text style={[styles.sectionTitle, { color: theme.text }]}>Insights</Text>
           <View style={[styles.insightCard, { backgroundColor: theme.background }]}>
@@ -288,6 +445,30 @@ const styles = StyleSheet.create({
   insightText: {
     fontSize: 14,
   },
+  estimateRow: {
+    paddingVertical: 10,
+    borderBottomWidth: StyleSheet.hairlineWidth,
+  },
+  estimateHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 4,
+  },
+  estimateSubject: {
+    fontSize: 16,
+    fontWeight: 'bold',
+  },
+  estimateAccuracy: {
+    fontSize: 14,
+    fontWeight: '500',
+  },
+  deferredTitle: {
+    flex: 1,
+    fontSize: 16,
+    fontWeight: 'bold',
+    marginRight: 8,
+  },
   privacyNote: {
     flexDirection: 'row',
     alignItems: 'center',
@@ -0,0 +1,560 @@
+import { Ionicons } from '@expo/vector-icons';
+import { useNavigation } from '@react-navigation/native';
+import { NativeStackNavigationProp } from '@react-navigation/native-stack';
+import { addDays, addMonths, addWeeks, format, isSameDay, isSameMonth, isToday, parseISO } from 'date-fns';
+import { useContext, useEffect, useMemo, useState } from 'react';
+import {
+  ScrollView,
+  StyleSheet,
+  Text,
+  TouchableOpacity,
+  View
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { AppContext } from '../context/AppContext';
+import { useTheme } from '../context/ThemeContext';
+import {
+  buildCalendarEvents,
+  CalendarEvent,
+  CalendarEventKind,
+  getEventMinutes,
+  getEventsForDay,
+  getMonthGrid,
+  getSessionsInMonthGrid,
+  getWeekDays,
+  layoutDayEvents
+} from '../utils/CalendarEvents';
+
+// Define the navigation param list for type safety
+type RootStackParamList = {
+  Tasks: { screen?: string; params?: any };
+  Exams: { examId?: string };
+};
+
+type CalendarMode = 'month' | 'week' | 'day';
+
+type LoggedSession = {
+  id?: string;
+  timestamp: string;
+  duration: number;
+  subject?: string;
+  taskId?: string;
+};
+
+const HOUR_HEIGHT = 48;
+const HOUR_GUTTER_WIDTH = 44;
+const WEEKDAY_LABELS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+const CalendarScreen = () => {
+  const navigation = useNavigation<NativeStackNavigationProp<RootStackParamList>>();
+  const { theme } = useTheme();
+  const { tasks, exams, stats, loadSessionHistory } = useContext(AppContext);
+
+  const [mode, setMode] = useState<CalendarMode>('month');
+  const [selectedDate, setSelectedDate] = useState(new Date());
+  const [sessions, setSessions] = useState<LoggedSession[]>([]);
+
+  // Every view fits inside the month grid, so sessions are loaded per month
+  const visibleMonth = format(selectedDate, 'yyyy-MM');
+
+  // Recent sessions only cover the last few, so the month comes from the full history.
+  // They still trigger a reload, as they change whenever a session is recorded.
+  useEffect(() => {
+    let cancelled = false;
+
+    loadSessionHistory()
+      .then(history => {
+        if (!cancelled) setSessions(getSessionsInMonthGrid(history, parseISO(`${visibleMonth}-01`)));
+      })
+      .catch(error => {
+        console.error('Error loading calendar sessions:', error);
+        if (!cancelled) setSessions([]);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [loadSessionHistory, visibleMonth, stats.recentSessions]);
+
+  const events = useMemo(
+    () => buildCalendarEvents(tasks, exams, sessions),
+    [tasks, exams, sessions]
+  );
+
+  const getEventColor = (kind: CalendarEventKind) => {
+    switch (kind) {
+      case 'exam':
+        return theme.danger;
+      case 'session':
+        return theme.success;
+      default:
+        return theme.primary;
+    }
+  };
+
+  // Move the visible range back or forward
+  const handleStep = (direction: -1 | 1) => {
+    switch (mode) {
+      case 'month':
+        setSelectedDate(addMonths(selectedDate, direction));
+        break;
+      case 'week':
+        setSelectedDate(addWeeks(selectedDate, direction));
+        break;
+      default:
+        setSelectedDate(addDays(selectedDate, direction));
+    }
+  };
+
+  const getRangeTitle = () => {
+    switch (mode) {
+      case 'month':
+        return format(selectedDate, 'MMMM yyyy');
+      case 'week': {
+        const weekDays = getWeekDays(selectedDate);
+        return `${format(weekDays[0], 'MMM d')} - ${format(weekDays[6], 'MMM d')}`;
+      }
+      default:
+        return format(selectedDate, 'EEEE, MMM d');
+    }
+  };
+
+  // Open the task or exam behind an event
+  const handleOpenEvent = (event: CalendarEvent) => {
+    if (!event.sourceId) return;
+
+    if (event.kind === 'exam') {
+      navigation.navigate('Exams', { examId: event.sourceId });
+    } else {
+      navigation.navigate('Tasks', { screen: 'TaskDetail', params: { taskId: event.sourceId } });
+    }
+  };
+
+  // Start a new task due on the given day, optionally at a specific time
+  const handleCreateTask = (date: Date, time?: string) => {
+    navigation.navigate('Tasks', {
+      screen: 'AddTask',
+      params: { initialDate: date.toISOString(), initialTime: time }
+    });
+  };
+
+  const renderEventRow = (event: CalendarEvent) => (
+    <TouchableOpacity
+      key={event.id}
+      style={[styles.eventRow, { backgroundColor: theme.card, borderLeftColor: getEventColor(event.kind) }]}
+      onPress={() => handleOpenEvent(event)}
+      disabled={!event.sourceId}
+    >
+      <Text
+        style={[
+          styles.eventRowTitle,
+          { color: event.completed && event.kind !== 'session' ? theme.textSecondary : theme.text },
+          event.completed && event.kind === 'task' && styles.completedText
+        ]}
+        numberOfLines={1}
+      >
+        {event.title}
+      </Text>
+      <Text style={[styles.eventRowTime, { color: theme.textSecondary }]}>
+        {event.allDay ? 'All day' : `${format(event.start, 'h:mm a')} - ${format(event.end, 'h:mm a')}`}
+      </Text>
+    </TouchableOpacity>
+  );
+
+  const renderMonthView = () => {
+    const selectedDayEvents = getEventsForDay(events, selectedDate);
+
+    return (
+      <ScrollView>
+        <View style={styles.weekdayHeader}>
+          {WEEKDAY_LABELS.map(label => (
+            <Text key={label} style={[styles.weekdayLabel, { color: theme.textSecondary }]}>{label}</Text>
+          ))}
+        </View>
+
+        {getMonthGrid(selectedDate).map(week => (
+          <View key={week[0].toISOString()} style={styles.monthWeek}>
+            {week.map(day => {
+              const dayEvents = getEventsForDay(events, day);
+              const isSelected = isSameDay(day, selectedDate);
+
+              return (
+                <TouchableOpacity
+                  key={day.toISOString()}
+                  style={[
+                    styles.monthDay,
+                    { borderColor: theme.border },
+                    isSelected && { backgroundColor: theme.primaryLight }
+                  ]}
+                  onPress={() => setSelectedDate(day)}
+                  onLongPress={() => handleCreateTask(day)}
+                >
+                  <View style={[styles.dayNumber, isToday(day) && { backgroundColor: theme.primary }]}>
+                    <Text style={[
+                      styles.dayNumberText,
+                      { color: isSameMonth(day, selectedDate) ? theme.text : theme.border },
+                      isToday(day) && styles.todayText
+                    ]}>
+                      {format(day, 'd')}
+                    </Text>
+                  </View>
+
+                  <View style={styles.dayDots}>
+                    {dayEvents.slice(0, 4).map(event => (
+                      <View key={event.id} style={[styles.dayDot, { backgroundColor: getEventColor(event.kind) }]} />
+                    ))}
+                  </View>
+                  {dayEvents.length > 4 && (
+                    <Text style={[styles.moreText, { color: theme.textSecondary }]}>+{dayEvents.length - 4}</Text>
+                  )}
+                </TouchableOpacity>
+              );
+            })}
+          </View>
+        ))}
+
+        <View style={styles.agenda}>
+          <Text style={[styles.agendaTitle, { color: theme.text }]}>{format(selectedDate, 'EEEE, MMMM d')}</Text>
+          {selectedDayEvents.length > 0 ? (
+            selectedDayEvents.map(renderEventRow)
+          ) : (
+            <Text style={[styles.emptyText, { color: theme.textSecondary }]}>
+              Nothing scheduled. Long press a day to add a task.
+            </Text>
+          )}
+        </View>
+      </ScrollView>
+    );
+  };
+
+  // Shared hour grid for the week and day views
+  const renderTimeGrid = (days: Date[]) => {
+    const hasAllDayEvents = days.some(day => getEventsForDay(events, day).some(event => event.allDay));
+
+    return (
+      <View style={styles.timeGridContainer}>
+        <View style={[styles.timeGridHeader, { borderBottomColor: theme.border }]}>
+          <View style={{ width: HOUR_GUTTER_WIDTH }} />
+          {days.map(day => (
+            <TouchableOpacity
+              key={day.toISOString()}
+              style={styles.timeGridHeaderDay}
+              onPress={() => {
+                setSelectedDate(day);
+                setMode('day');
+              }}
+              disabled={days.length === 1}
+            >
+              <Text style={[styles.weekdayLabel, { color: theme.textSecondary }]}>{format(day, 'EEE')}</Text>
+              <View style={[styles.dayNumber, isToday(day) && { backgroundColor: theme.primary }]}>
+                <Text style={[styles.dayNumberText, { color: theme.text }, isToday(day) && styles.todayText]}>
+                  {format(day, 'd')}
+                </Text>
+              </View>
+            </TouchableOpacity>
+          ))}
+        </View>
+
+        {hasAllDayEvents && (
+          <View style={[styles.allDayRow, { borderBottomColor: theme.border }]}>
+            <Text style={[styles.hourLabel, { width: HOUR_GUTTER_WIDTH, color: theme.textSecondary }]}>all day</Text>
+            {days.map(day => (
+              <View key={day.toISOString()} style={styles.allDayColumn}>
+                {getEventsForDay(events, day).filter(event => event.allDay).map(event => (
+                  <TouchableOpacity
+                    key={event.id}
+                    style={[styles.allDayEvent, { backgroundColor: getEventColor(event.kind) }]}
+                    onPress={() => handleOpenEvent(event)}
+                  >
+                    <Text style={styles.eventBlockText} numberOfLines={1}>{event.title}</Text>
+                  </TouchableOpacity>
+                ))}
+              </View>
+            ))}
+          </View>
+        )}
+
+        <ScrollView contentOffset={{ x: 0, y: 8 * HOUR_HEIGHT }}>
+          <View style={styles.timeGridBody}>
+            <View style={{ width: HOUR_GUTTER_WIDTH }}>
+              {Array.from({ length: 24 }, (_, hour) => (
+                <Text key={hour} style={[styles.hourLabel, { height: HOUR_HEIGHT, color: theme.textSecondary }]}>
+                  {format(new Date(2000, 0, 1, hour), 'h a')}
+                </Text>
+              ))}
+            </View>
+
+            {days.map(day => (
+              <TouchableOpacity
+                key={day.toISOString()}
+                activeOpacity={1}
+                style={[styles.dayColumn, { borderLeftColor: theme.border }]}
+                onLongPress={event => {
+                  const hour = Math.min(23, Math.floor(event.nativeEvent.locationY / HOUR_HEIGHT));
+                  handleCreateTask(day, `${hour < 10 ? '0' : ''}${hour}:00`);
+                }}
+              >
+                {Array.from({ length: 24 }, (_, hour) => (
+                  <View key={hour} style={[styles.hourLine, { height: HOUR_HEIGHT, borderTopColor: theme.border }]} />
+                ))}
+
+                {layoutDayEvents(getEventsForDay(events, day)).map(event => {
+                  const minutesFromMidnight = event.start.getHours() * 60 + event.start.getMinutes();
+                  const width = 100 / event.laneCount;
+
+                  return (
+                    <TouchableOpacity
+                      key={event.id}
+                      style={[
+                        styles.eventBlock,
+                        {
+                          top: (minutesFromMidnight / 60) * HOUR_HEIGHT,
+                          height: (getEventMinutes(event) / 60) * HOUR_HEIGHT,
+                          left: `${event.lane * width}%`,
+                          width: `${width}%`,
+                          backgroundColor: getEventColor(event.kind),
+                          opacity: event.completed && event.kind === 'task' ? 0.6 : 1
+                        }
+                      ]}
+                      onPress={() => handleOpenEvent(event)}
+                    >
+                      <Text style={styles.eventBlockText} numberOfLines={2}>{event.title}</Text>
+                    </TouchableOpacity>
+                  );
+                })}
+              </TouchableOpacity>
+            ))}
+          </View>
+        </ScrollView>
+      </View>
+    );
+  };
+
+  return (
+    <SafeAreaView style={[styles.container, { backgroundColor: theme.background }]} edges={['bottom']}>
+      <View style={styles.toolbar}>
+        <TouchableOpacity style={styles.stepButton} onPress={() => handleStep(-1)}>
+          <Ionicons name="chevron-back" size={22} color={theme.primary} />
+        </TouchableOpacity>
+        <TouchableOpacity onPress={() => setSelectedDate(new Date())}>
+          <Text style={[styles.rangeTitle, { color: theme.text }]}>{getRangeTitle()}</Text>
+        </TouchableOpacity>
+        <TouchableOpacity style={styles.stepButton} onPress={() => handleStep(1)}>
+          <Ionicons name="chevron-forward" size={22} color={theme.primary} />
+        </TouchableOpacity>
+      </View>
+
+      <View style={[styles.modeSelector, { backgroundColor: theme.card }]}>
+        {(['month', 'week', 'day'] as CalendarMode[]).map(option => (
+          <TouchableOpacity
+            key={option}
+            style={[styles.modeOption, mode === option && { backgroundColor: theme.primary }]}
+            onPress={() => setMode(option)}
+          >
+            <Text style={[styles.modeOptionText, { color: mode === option ? '#FFFFFF' : theme.text }]}>
+              {option.charAt(0).toUpperCase() + option.slice(1)}
+            </Text>
+          </TouchableOpacity>
+        ))}
+      </View>
+
+      <View style={styles.legend}>
+        {(['task', 'exam', 'session'] as CalendarEventKind[]).map(kind => (
+          <View key={kind} style={styles.legendItem}>
+            <View style={[styles.dayDot, { backgroundColor: getEventColor(kind) }]} />
+            <Text style={[styles.legendText, { color: theme.textSecondary }]}>
+              {kind === 'task' ? 'Tasks' : kind === 'exam' ? 'Exams' : 'Study sessions'}
+            </Text>
+          </View>
+        ))}
+      </View>
+
+      {mode === 'month' && renderMonthView()}
+      {mode === 'week' && renderTimeGrid(getWeekDays(selectedDate))}
+      {mode === 'day' && renderTimeGrid([selectedDate])}
+    </SafeAreaView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  toolbar: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 8,
+    paddingVertical: 8,
+  },
+  stepButton: {
+    padding: 8,
+  },
+  rangeTitle: {
+    fontSize: 18,
+    fontWeight: 'bold',
+  },
+  modeSelector: {
+    flexDirection: 'row',
+    marginHorizontal: 16,
+    borderRadius: 8,
+    padding: 4,
+  },
+  modeOption: {
+    flex: 1,
+    paddingVertical: 8,
+    borderRadius: 6,
+    alignItems: 'center',
+  },
+  modeOptionText: {
+    fontWeight: '500',
+  },
+  legend: {
+    flexDirection: 'row',
+    justifyContent: 'center',
+    paddingVertical: 8,
+  },
+  legendItem: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginHorizontal: 8,
+  },
+  legendText: {
+    fontSize: 12,
+    marginLeft: 4,
+  },
+  weekdayHeader: {
+    flexDirection: 'row',
+    paddingHorizontal: 8,
+  },
+  weekdayLabel: {
+    flex: 1,
+    textAlign: 'center',
+    fontSize: 12,
+    marginBottom: 4,
+  },
+  monthWeek: {
+    flexDirection: 'row',
+    paddingHorizontal: 8,
+  },
+  monthDay: {
+    flex: 1,
+    height: 64,
+    alignItems: 'center',
+    paddingTop: 4,
+    borderWidth: StyleSheet.hairlineWidth,
+  },
+  dayNumber: {
+    width: 26,
+    height: 26,
+    borderRadius: 13,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  dayNumberText: {
+    fontSize: 14,
+  },
+  todayText: {
+    color: '#FFFFFF',
+    fontWeight: 'bold',
+  },
+  dayDots: {
+    flexDirection: 'row',
+    marginTop: 4,
+  },
+  dayDot: {
+    width: 6,
+    height: 6,
+    borderRadius: 3,
+    marginHorizontal: 1,
+  },
+  moreText: {
+    fontSize: 10,
+    marginTop: 2,
+  },
+  agenda: {
+    padding: 16,
+  },
+  agendaTitle: {
+    fontSize: 16,
+    fontWeight: 'bold',
+    marginBottom: 8,
+  },
+  eventRow: {
+    borderRadius: 8,
+    borderLeftWidth: 4,
+    padding: 12,
+    marginBottom: 8,
+  },
+  eventRowTitle: {
+    fontSize: 15,
+    fontWeight: '500',
+  },
+  eventRowTime: {
+    fontSize: 12,
+    marginTop: 2,
+  },
+  completedText: {
+    textDecorationLine: 'line-through',
+  },
+  emptyText: {
+    fontSize: 14,
+  },
+  timeGridContainer: {
+    flex: 1,
+  },
+  timeGridHeader: {
+    flexDirection: 'row',
+    borderBottomWidth: StyleSheet.hairlineWidth,
+    paddingBottom: 4,
+  },
+  timeGridHeaderDay: {
+    flex: 1,
+    alignItems: 'center',
+  },
+  allDayRow: {
+    flexDirection: 'row',
+    borderBottomWidth: StyleSheet.hairlineWidth,
+    paddingVertical: 4,
+  },
+  allDayColumn: {
+    flex: 1,
+    paddingHorizontal: 1,
+  },
+  allDayEvent: {
+    borderRadius: 4,
+    paddingHorizontal: 4,
+    paddingVertical: 2,
+    marginBottom: 2,
+  },
+  timeGridBody: {
+    flexDirection: 'row',
+  },
+  hourLabel: {
+    fontSize: 10,
+    textAlign: 'right',
+    paddingRight: 6,
+  },
+  dayColumn: {
+    flex: 1,
+    borderLeftWidth: StyleSheet.hairlineWidth,
+  },
+  hourLine: {
+    borderTopWidth: StyleSheet.hairlineWidth,
+  },
+  eventBlock: {
+    position: 'absolute',
+    borderRadius: 4,
+    padding: 2,
+    borderWidth: 1,
+    borderColor: '#FFFFFF',
+    overflow: 'hidden',
+  },
+  eventBlockText: {
+    color: '#FFFFFF',
+    fontSize: 11,
+    fontWeight: '500',
+  },
+});
+
+export default CalendarScreen;
@@ -15,15 +15,21 @@ import { SafeAreaView } from 'react-native-safe-area-context';
 import ProgressRing from '../components/ProgressRing';
 import { AppContext } from '../context/AppContext';
 import { useTheme } from '../context/ThemeContext';
+import { DEFAULT_URGENT_WITHIN_DAYS, getDoFirstCount } from '../utils/EisenhowerMatrix';
+import { filterTasksByQuery } from '../utils/SmartListQuery';
 
 // Define the navigation param list for type safety
 type RootStackParamList = {
   Tasks: { screen?: string; params?: any };
   Timer: undefined;
-  Exams: { params?: { examId: string } };
+  Exams: { examId?: string } | undefined;
   Resources: undefined;
   Analytics: undefined;
   Achievements: undefined;
+  Calendar: undefined;
+  Planner: undefined;
+  Search: undefined;
+  SessionHistory: undefined;
 };
 
 const DashboardScreen = () => {
@@ -34,7 +40,8 @@ const DashboardScreen = () => {
     streaks,
     settings,
     stats,
-    exams
+    exams,
+    smartLists
   } = useContext(AppContext);
 
   // Get today's date
@@ -47,15 +54,18 @@ const DashboardScreen = () => {
   );
 
   // Filter tasks for today
-  const todayTasks = tasks.filter(task => {
-    if (!task.dueDate) return false;
-    const dueDate = new Date(task.dueDate);
-    return (
-      format(dueDate, 'yyyy-MM-dd') === format(today, 'yyyy-MM-dd') &&
-      !task.completed &&
-      !task.archived
-    );
-  });
+  const todayTasks = filterTasksByQuery(tasks, 'due:today is:open', today);
+
+  // Urgent and important tasks from the Eisenhower matrix
+  const doFirstCount = getDoFirstCount(tasks, settings.matrixUrgentDays ?? DEFAULT_URGENT_WITHIN_DAYS);
+
+  // Pinned smart lists with their current task counts
+  const pinnedSmartLists = smartLists
+    .filter(smartList => smartList.pinned)
+    .map(smartList => ({
+      ...smartList,
+      count: filterTasksByQuery(tasks, smartList.query, today).length
+    }));
 
   // Get upcoming exams (in the next 7 days)
   const upcomingExams = exams.filter(exam => {
@@ -74,9 +84,17 @@ const DashboardScreen = () => {
             <Text style={[styles.dateText, { color: theme.textSecondary }]}>{format(today, 'EEEE, MMMM d')}</Text>
             <Text style={[styles.title, { color: theme.text }]}>Dashboard</Text>
           </View>
-          <View style={[styles.streakBadge, { backgroundColor: theme.primary }]}>
-            <Ionicons name="flame" size={16} color="#FFFFFF" />
-            <Text style={styles.streakText}>{streaks.current}</Text>
+          <View style={styles.headerActions}>
+            <TouchableOpacity
+              style={[styles.searchButton, { backgroundColor: theme.primaryLight }]}
+              onPress={() => navigation.navigate('Search')}
+            >
+              <Ionicons name="search" size={20} color={theme.primary} />
+            </TouchableOpacity>
+            <View style={[styles.streakBadge, { backgroundColor: theme.primary }]}>
+              <Ionicons name="flame" size={16} color="#FFFFFF" />
+              <Text style={styles.streakText}>{streaks.current}</Text>
+            </View>
           </View>
         </View>
 
@@ -183,6 +201,19 @@ const DashboardScreen = () => {
             </TouchableOpacity>
           </View>
 
+          <TouchableOpacity
+            style={[styles.taskItem, { backgroundColor: doFirstCount > 0 ? `${theme.danger}15` : theme.background }]}
+            onPress={() => navigation.navigate('Tasks', { screen: 'TasksList', params: { view: 'matrix' } })}
+          >
+            <View style={styles.taskCheckbox}>
+              <Ionicons name="flash-outline" size={20} color={doFirstCount > 0 ? theme.danger : theme.primary} />
+            </View>
+            <Text style={[styles.taskTitle, { color: theme.text }]} numberOfLines={1}>
+              Do First
+            </Text>
+            <Text style={[styles.smartListCount, { color: doFirstCount > 0 ? theme.danger : theme.primary }]}>{doFirstCount}</Text>
+          </TouchableOpacity>
+
           <View style={styles.taskList}>
             {todayTasks.length > 0 ? (
               todayTasks.map(task => (
@@ -226,6 +257,30 @@ const DashboardScreen = () => {
           </View>
         </View>
 
+        {pinnedSmartLists.length > 0 && (
+          <View style={[styles.section, { backgroundColor: theme.card }]}>
+            <View style={styles.sectionHeader}>
+              <Text style={[styles.sectionTitle, { color: theme.text }]}>Smart Lists</Text>
+            </View>
+
+            {pinnedSmartLists.map(smartList => (
+              <TouchableOpacity
+                key={smartList.id}
+                style={[styles.taskItem, { backgroundColor: theme.background }]}
+                onPress={() => navigation.navigate('Tasks', { screen: 'TasksList', params: { smartListId: smartList.id } })}
+              >
+                <View style={styles.taskCheckbox}>
+                  <Ionicons name="funnel-outline" size={20} color={theme.primary} />
+                </View>
+                <Text style={[styles.taskTitle, { color: theme.text }]} numberOfLines={1}>
+                  {smartList.name}
+                </Text>
+                <Text style={[styles.smartListCount, { color: theme.primary }]}>{smartList.count}</Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+        )}
+
         <View style={[styles.section, { backgroundColor: theme.card }]}>
           <View style={styles.sectionHeader}>
             <Text style={[styles.sectionTitle, { color: theme.text }]}>Upcoming Exams</Text>
@@ -243,9 +298,7 @@ const DashboardScreen = () => {
                 <TouchableOpacity
                   key={exam.id}
                   style={[styles.examItem, { backgroundColor: theme.background }]}
-                  onPress={() => navigation.navigate('Exams', {
-                    params: { examId: exam.id }
-                  })}
+                  onPress={() => navigation.navigate('Exams', { examId: exam.id })}
                 >
                   <View style={styles.examContent}>
                     <Text style={[styles.examTitle, { color: theme.text }]}>{exam.title}</Text>
@@ -341,6 +394,34 @@ const DashboardScreen = () => {
             </TouchableOpacity>
           </View>
 
+          <View style={styles.quickActions}>
+            <TouchableOpacity
+              style={[styles.quickAction, { backgroundColor: theme.primaryLight }]}
+              onPress={() => navigation.navigate('Calendar')}
+            >
+              <Ionicons name="calendar-number-outline" size={24} color={theme.primary} />
+              <Text style={[styles.quickActionText, { color: theme.primary }]}>Open Calendar</Text>
+            </TouchableOpacity>
+
+            <TouchableOpacity
+              style={[styles.quickAction, { backgroundColor: theme.primaryLight }]}
+              onPress={() => navigation.navigate('Planner')}
+            >
+              <Ionicons name="git-network-outline" size={24} color={theme.primary} />
+              <Text style={[styles.quickActionText, { color: theme.primary }]}>Study Planner</Text>
+            </TouchableOpacity>
+          </View>
+
+          <View style={styles.quickActions}>
+            <TouchableOpacity
+              style={[styles.quickAction, { backgroundColor: theme.primaryLight }]}
+              onPress={() => navigation.navigate('SessionHistory')}
+            >
+              <Ionicons name="list-outline" size={24} color={theme.primary} />
+              <Text style={[styles.quickActionText, { color: theme.primary }]}>Session History</Text>
+            </TouchableOpacity>
+          </View>
+
           {/* Health section removed */}
         </View>
       </ScrollView>
@@ -367,6 +448,18 @@ const styles = StyleSheet.create({
     fontSize: 24,
     fontWeight: 'bold',
   },
+  headerActions: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  searchButton: {
+    width: 36,
+    height: 36,
+    borderRadius: 18,
+    justifyContent: 'center',
+    alignItems: 'center',
+    marginRight: 8,
+  },
   streakBadge: {
     flexDirection: 'row',
     borderRadius: 16,
@@ -511,6 +604,11 @@ const styles = StyleSheet.create({
     height: '100%',
     borderRadius: 2,
   },
+  smartListCount: {
+    fontSize: 16,
+    fontWeight: 'bold',
+    marginLeft: 8,
+  },
   examList: {
     marginTop: 8,
   },
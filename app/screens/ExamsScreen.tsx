@@ -1,9 +1,11 @@
 import { Ionicons } from '@expo/vector-icons';
 import DateTimePicker from '@react-native-community/datetimepicker';
+import { useRoute } from '@react-navigation/native';
 import { differenceInDays, format, isPast } from 'date-fns';
-import { useContext, useEffect, useState } from 'react';
+import { useCallback, useContext, useEffect, useRef, useState } from 'react';
 import { Alert, FlatList, Modal, ScrollView, StyleSheet, Text, TextInput, TouchableOpacity, View } from 'react-native';
 import { SafeAreaView } from 'react-native-safe-area-context';
+import ApplyTemplateModal from '../components/ApplyTemplateModal';
 import { AppContext } from '../context/AppContext';
 import { useTheme } from '../context/ThemeContext';
 import * as NotificationService from '../services/NotificationService';
@@ -23,9 +25,18 @@ interface Exam {
   createdAt?: string;
 }
 
+// Helper function to parse time string to Date object
+const parseTimeString = (timeStr: string): Date => {
+  const date = new Date();
+  const [hours, minutes] = timeStr.split(':').map(Number);
+  date.setHours(hours, minutes, 0, 0);
+  return date;
+};
+
 const ExamsScreen = () => {
+  const route = useRoute();
   const { theme, isDark } = useTheme();
-  const { exams, subjects, addExam, updateExam, deleteExam, settings } = useContext(AppContext);
+  const { exams, subjects, addExam, updateExam, deleteExam, settings, taskTemplates, applyTaskTemplate } = useContext(AppContext);
   const [notificationsEnabled, setNotificationsEnabled] = useState(false);
 
   // Check if notifications are enabled
@@ -39,6 +50,7 @@ const ExamsScreen = () => {
   }, [settings.notifications]);
 
   const [modalVisible, setModalVisible] = useState(false);
+  const [templateExam, setTemplateExam] = useState<Exam | null>(null); // Exam the template picker is open for
   const [showDatePicker, setShowDatePicker] = useState(false);
   const [showStartTimePicker, setShowStartTimePicker] = useState(false);
   const [showEndTimePicker, setShowEndTimePicker] = useState(false);
@@ -288,7 +300,7 @@ const ExamsScreen = () => {
   };
 
   // Set up edit exam with time pickers
-  const editExam = (item: Exam) => {
+  const editExam = useCallback((item: Exam) => {
     // Parse the times to create Date objects
     const startTimeDate = item.startTime ? parseTimeString(item.startTime) : new Date();
     const endTimeDate = item.endTime ? parseTimeString(item.endTime) : new Date(new Date().getTime() + 60 * 60 * 1000);
@@ -302,15 +314,21 @@ const ExamsScreen = () => {
       endTime: item.endTime || format(endTimeDate, 'HH:mm'),
     });
     setModalVisible(true);
-  };
+  }, []);
 
-  // Helper function to parse time string to Date object
-  const parseTimeString = (timeStr: string): Date => {
-    const date = new Date();
-    const [hours, minutes] = timeStr.split(':').map(Number);
-    date.setHours(hours, minutes, 0, 0);
-    return date;
-  };
+  // Open the editor straight away when navigated to with an exam id, e.g. from the calendar
+  const requestedExamId = (route.params as { examId?: string } | undefined)?.examId;
+  const handledParamRef = useRef<string | undefined>(undefined);
+  useEffect(() => {
+    // Only open the editor once for each requested exam
+    if (!requestedExamId || handledParamRef.current === requestedExamId) return;
+
+    const requestedExam = exams.find(exam => exam.id === requestedExamId);
+    if (requestedExam) {
+      editExam(requestedExam as Exam);
+    }
+    handledParamRef.current = requestedExamId;
+  }, [requestedExamId, exams, editExam]);
 
   // Render an exam item
   const renderExamItem = ({ item }: { item: Exam }) => {
@@ -390,6 +408,12 @@ const ExamsScreen = () => {
           )}
         </View>
         <View style={styles.examActions}>
+          <TouchableOpacity
+            style={styles.examAction}
+            onPress={() => setTemplateExam(item)}
+          >
+            <Ionicons name="duplicate-outline" size={20} color={theme.primary} />
+          </TouchableOpacity>
           <TouchableOpacity
             style={styles.examAction}
             onPress={() => editExam(item)}
@@ -437,6 +461,26 @@ const ExamsScreen = () => {
         )}
       </View>
 
+      {/* Create study tasks for an exam from a template */}
+      {templateExam && (
+        <ApplyTemplateModal
+          templates={taskTemplates}
+          subjects={subjects.map(s => s.name)}
+          title={`Prepare for ${templateExam.title}`}
+          initialDate={new Date(templateExam.date)}
+          initialSubject={templateExam.subject || undefined}
+          onApply={(templateId, anchorDate, subject) => {
+            const created = applyTaskTemplate(templateId, anchorDate, {
+              subject,
+              titleSuffix: ` (${templateExam.title})`
+            });
+            setTemplateExam(null);
+            Alert.alert('Tasks Created', `${created} study ${created === 1 ? 'task was' : 'tasks were'} added for ${templateExam.title}.`);
+          }}
+          onClose={() => setTemplateExam(null)}
+        />
+      )}
+
       {/* Add/Edit Exam Modal */}
       <Modal
         visible={modalVisible}
@@ -0,0 +1,455 @@
+import { Ionicons } from '@expo/vector-icons';
+import DateTimePicker from '@react-native-community/datetimepicker';
+import { useNavigation } from '@react-navigation/native';
+import { NativeStackNavigationProp } from '@react-navigation/native-stack';
+import { format, isToday, isTomorrow, parseISO } from 'date-fns';
+import { useContext, useEffect, useMemo, useState } from 'react';
+import {
+  Alert,
+  ScrollView,
+  StyleSheet,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  View
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { AppContext } from '../context/AppContext';
+import { useTheme } from '../context/ThemeContext';
+import {
+  addMinutesToTime,
+  DEFAULT_PLANNER_DAY_END,
+  DEFAULT_PLANNER_DAY_START,
+  getPlannedMinutesByDay,
+  PlanBlock
+} from '../utils/StudyPlanner';
+
+// Define the navigation param list for type safety
+type RootStackParamList = {
+  Timer: { taskId: string; requestedAt: number };
+  Tasks: { screen?: string; params?: any };
+};
+
+// Which time the picker is currently editing
+type TimePickerTarget =
+  | { kind: 'block'; block: PlanBlock }
+  | { kind: 'dayStart' }
+  | { kind: 'dayEnd' }
+  | { kind: 'blockedStart' }
+  | { kind: 'blockedEnd' };
+
+const toDate = (time: string) => {
+  const [hours, minutes] = time.split(':').map(Number);
+  const date = new Date();
+  date.setHours(hours || 0, minutes || 0, 0, 0);
+  return date;
+};
+
+const PlannerScreen = () => {
+  const navigation = useNavigation<NativeStackNavigationProp<RootStackParamList>>();
+  const { theme } = useTheme();
+  const {
+    settings,
+    studyPlan,
+    refreshStudyPlan,
+    moveStudyBlock,
+    skipStudyBlock,
+    setStudyBlockPinned,
+    updateSettings
+  } = useContext(AppContext);
+
+  const [timePicker, setTimePicker] = useState<TimePickerTarget | null>(null);
+  const [showSettings, setShowSettings] = useState(false);
+  const [blockedLabel, setBlockedLabel] = useState('');
+  const [blockedStart, setBlockedStart] = useState('12:00');
+  const [blockedEnd, setBlockedEnd] = useState('13:00');
+
+  const dayStart = settings.plannerDayStart || DEFAULT_PLANNER_DAY_START;
+  const dayEnd = settings.plannerDayEnd || DEFAULT_PLANNER_DAY_END;
+  const blockedHours = settings.plannerBlockedHours || [];
+
+  // Create the plan on first visit and bring it up to date, e.g. on a new day
+  useEffect(() => {
+    refreshStudyPlan();
+  }, [refreshStudyPlan]);
+
+  const blocksByDay = useMemo(() => {
+    const groups: { date: string; blocks: PlanBlock[] }[] = [];
+    (studyPlan?.blocks || []).forEach(block => {
+      const group = groups.find(g => g.date === block.date);
+      if (group) {
+        group.blocks.push(block);
+      } else {
+        groups.push({ date: block.date, blocks: [block] });
+      }
+    });
+    return groups;
+  }, [studyPlan]);
+
+  const plannedMinutesByDay = useMemo(
+    () => (studyPlan ? getPlannedMinutesByDay(studyPlan) : {}),
+    [studyPlan]
+  );
+
+  const getDayTitle = (dateKey: string) => {
+    const date = parseISO(dateKey);
+    if (isToday(date)) return 'Today';
+    if (isTomorrow(date)) return 'Tomorrow';
+    return format(date, 'EEEE, MMM d');
+  };
+
+  const handleStartBlock = (block: PlanBlock) => {
+    // requestedAt makes the timer pick the task again even if it was opened for it before
+    navigation.navigate('Timer', { taskId: block.taskId, requestedAt: Date.now() });
+  };
+
+  const handleRemoveBlock = (block: PlanBlock) => {
+    Alert.alert(
+      'Remove Block',
+      `Remove "${block.title}" from ${getDayTitle(block.date).toLowerCase()}? It will not be planned on this day again.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        { text: 'Remove', style: 'destructive', onPress: () => skipStudyBlock(block.id) }
+      ]
+    );
+  };
+
+  const handleTimeChange = (event: any, selectedTime?: Date) => {
+    const target = timePicker;
+    setTimePicker(null);
+    if (!selectedTime || !target) return;
+
+    const time = format(selectedTime, 'HH:mm');
+    switch (target.kind) {
+      case 'block':
+        moveStudyBlock(target.block.id, target.block.date, time);
+        break;
+      case 'dayStart':
+        updateSettings({ plannerDayStart: time });
+        break;
+      case 'dayEnd':
+        updateSettings({ plannerDayEnd: time });
+        break;
+      case 'blockedStart':
+        setBlockedStart(time);
+        break;
+      case 'blockedEnd':
+        setBlockedEnd(time);
+        break;
+    }
+  };
+
+  const getPickerValue = () => {
+    switch (timePicker?.kind) {
+      case 'block':
+        return toDate(timePicker.block.startTime);
+      case 'dayStart':
+        return toDate(dayStart);
+      case 'dayEnd':
+        return toDate(dayEnd);
+      case 'blockedStart':
+        return toDate(blockedStart);
+      case 'blockedEnd':
+        return toDate(blockedEnd);
+      default:
+        return new Date();
+    }
+  };
+
+  const handleAddBlockedPeriod = () => {
+    if (blockedStart === blockedEnd) {
+      Alert.alert('Error', 'The blocked period must end after it starts');
+      return;
+    }
+
+    updateSettings({
+      plannerBlockedHours: [
+        ...blockedHours,
+        {
+          id: Date.now().toString(),
+          label: blockedLabel.trim() || 'Busy',
+          start: blockedStart,
+          end: blockedEnd
+        }
+      ]
+    });
+    setBlockedLabel('');
+  };
+
+  const handleRemoveBlockedPeriod = (id: string) => {
+    updateSettings({ plannerBlockedHours: blockedHours.filter(period => period.id !== id) });
+  };
+
+  const renderBlock = (block: PlanBlock) => (
+    <View key={block.id} style={[styles.blockRow, { borderBottomColor: theme.border }]}>
+      <TouchableOpacity style={styles.blockTime} onPress={() => setTimePicker({ kind: 'block', block })}>
+        <Text style={[styles.blockTimeText, { color: theme.primary }]}>{block.startTime}</Text>
+        <Text style={[styles.blockTimeEnd, { color: theme.textSecondary }]}>
+          {addMinutesToTime(block.startTime, block.minutes)}
+        </Text>
+      </TouchableOpacity>
+
+      <TouchableOpacity
+        style={styles.blockInfo}
+        onPress={() => navigation.navigate('Tasks', { screen: 'TaskDetail', params: { taskId: block.taskId } })}
+      >
+        <Text style={[styles.blockTitle, { color: theme.text }]} numberOfLines={1}>{block.title}</Text>
+        <Text style={[styles.blockMeta, { color: theme.textSecondary }]}>
+          {block.minutes} min{block.subject ? ` · ${block.subject}` : ''}
+        </Text>
+      </TouchableOpacity>
+
+      <TouchableOpacity style={styles.iconButton} onPress={() => setStudyBlockPinned(block.id, !block.pinned)}>
+        <Ionicons
+          name={block.pinned ? 'pin' : 'pin-outline'}
+          size={20}
+          color={block.pinned ? theme.primary : theme.textSecondary}
+        />
+      </TouchableOpacity>
+      <TouchableOpacity style={styles.iconButton} onPress={() => handleRemoveBlock(block)}>
+        <Ionicons name="close-circle-outline" size={20} color={theme.danger} />
+      </TouchableOpacity>
+      <TouchableOpacity style={styles.iconButton} onPress={() => handleStartBlock(block)}>
+        <Ionicons name="play-circle" size={28} color={theme.primary} />
+      </TouchableOpacity>
+    </View>
+  );
+
+  return (
+    <SafeAreaView style={[styles.container, { backgroundColor: theme.background }]} edges={['bottom']}>
+      <ScrollView contentContainerStyle={styles.content} keyboardShouldPersistTaps="handled">
+        <View style={[styles.section, { backgroundColor: theme.card }]}>
+          <View style={styles.sectionHeader}>
+            <Text style={[styles.sectionTitle, { color: theme.text }]}>Study Plan</Text>
+            <TouchableOpacity onPress={() => setShowSettings(!showSettings)}>
+              <Ionicons name="options-outline" size={22} color={theme.primary} />
+            </TouchableOpacity>
+          </View>
+          <Text style={[styles.helpText, { color: theme.textSecondary }]}>
+            Open tasks are split into {settings.pomodoroLength} minute blocks, earliest deadline first, up to your
+            daily goal of {settings.dailyGoalMinutes} minutes between {dayStart} and {dayEnd}.
+            Tap a time to move a block. Pinned blocks stay put when the plan updates.
+          </Text>
+          <TouchableOpacity
+            style={[styles.primaryButton, { backgroundColor: theme.primary }]}
+            onPress={() => refreshStudyPlan(true)}
+          >
+            <Ionicons name="refresh" size={18} color="#FFFFFF" />
+            <Text style={styles.primaryButtonText}>Rebuild Plan</Text>
+          </TouchableOpacity>
+        </View>
+
+        {showSettings && (
+          <View style={[styles.section, { backgroundColor: theme.card }]}>
+            <Text style={[styles.sectionTitle, { color: theme.text }]}>Study Hours</Text>
+            <View style={styles.timeRangeRow}>
+              <TouchableOpacity
+                style={[styles.timeButton, { backgroundColor: theme.primaryLight }]}
+                onPress={() => setTimePicker({ kind: 'dayStart' })}
+              >
+                <Text style={[styles.timeButtonText, { color: theme.primary }]}>From {dayStart}</Text>
+              </TouchableOpacity>
+              <TouchableOpacity
+                style={[styles.timeButton, { backgroundColor: theme.primaryLight }]}
+                onPress={() => setTimePicker({ kind: 'dayEnd' })}
+              >
+                <Text style={[styles.timeButtonText, { color: theme.primary }]}>Until {dayEnd}</Text>
+              </TouchableOpacity>
+            </View>
+
+            <Text style={[styles.subTitle, { color: theme.text }]}>Blocked Hours</Text>
+            {blockedHours.length === 0 && (
+              <Text style={[styles.helpText, { color: theme.textSecondary }]}>
+                Add classes, work or meals so no study blocks are planned over them.
+              </Text>
+            )}
+            {blockedHours.map(period => (
+              <View key={period.id} style={[styles.blockedRow, { borderBottomColor: theme.border }]}>
+                <Text style={[styles.blockedLabel, { color: theme.text }]}>{period.label}</Text>
+                <Text style={[styles.blockMeta, { color: theme.textSecondary }]}>{period.start} - {period.end}</Text>
+                <TouchableOpacity style={styles.iconButton} onPress={() => handleRemoveBlockedPeriod(period.id)}>
+                  <Ionicons name="trash-outline" size={18} color={theme.danger} />
+                </TouchableOpacity>
+              </View>
+            ))}
+
+            <TextInput
+              style={[styles.input, { backgroundColor: theme.background, color: theme.text, borderColor: theme.border }]}
+              value={blockedLabel}
+              onChangeText={setBlockedLabel}
+              placeholder="Label, e.g. Classes"
+              placeholderTextColor={theme.textSecondary}
+            />
+            <View style={styles.timeRangeRow}>
+              <TouchableOpacity
+                style={[styles.timeButton, { backgroundColor: theme.primaryLight }]}
+                onPress={() => setTimePicker({ kind: 'blockedStart' })}
+              >
+                <Text style={[styles.timeButtonText, { color: theme.primary }]}>From {blockedStart}</Text>
+              </TouchableOpacity>
+              <TouchableOpacity
+                style={[styles.timeButton, { backgroundColor: theme.primaryLight }]}
+                onPress={() => setTimePicker({ kind: 'blockedEnd' })}
+              >
+                <Text style={[styles.timeButtonText, { color: theme.primary }]}>Until {blockedEnd}</Text>
+              </TouchableOpacity>
+              <TouchableOpacity style={styles.iconButton} onPress={handleAddBlockedPeriod}>
+                <Ionicons name="add-circle" size={28} color={theme.primary} />
+              </TouchableOpacity>
+            </View>
+          </View>
+        )}
+
+        {studyPlan && blocksByDay.length === 0 && (
+          <View style={[styles.section, { backgroundColor: theme.card }]}>
+            <Text style={[styles.helpText, { color: theme.textSecondary }]}>
+              Nothing to plan. Add some tasks or free up study hours.
+            </Text>
+          </View>
+        )}
+
+        {blocksByDay.map(day => (
+          <View key={day.date} style={[styles.section, { backgroundColor: theme.card }]}>
+            <View style={styles.sectionHeader}>
+              <Text style={[styles.dayTitle, { color: theme.text }]}>{getDayTitle(day.date)}</Text>
+              <Text style={[styles.blockMeta, { color: theme.textSecondary }]}>
+                {plannedMinutesByDay[day.date] || 0} / {settings.dailyGoalMinutes} min
+              </Text>
+            </View>
+            {day.blocks.map(renderBlock)}
+          </View>
+        ))}
+      </ScrollView>
+
+      {timePicker && (
+        <DateTimePicker
+          value={getPickerValue()}
+          mode="time"
+          display="default"
+          onChange={handleTimeChange}
+        />
+      )}
+    </SafeAreaView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  content: {
+    padding: 16,
+  },
+  section: {
+    borderRadius: 12,
+    padding: 16,
+    marginBottom: 16,
+    elevation: 2,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 1 },
+    shadowOpacity: 0.1,
+    shadowRadius: 2,
+  },
+  sectionHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 8,
+  },
+  sectionTitle: {
+    fontSize: 18,
+    fontWeight: 'bold',
+  },
+  subTitle: {
+    fontSize: 16,
+    fontWeight: '500',
+    marginTop: 16,
+    marginBottom: 8,
+  },
+  dayTitle: {
+    fontSize: 16,
+    fontWeight: 'bold',
+  },
+  helpText: {
+    fontSize: 13,
+    lineHeight: 20,
+    marginBottom: 12,
+  },
+  primaryButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    borderRadius: 8,
+    paddingVertical: 10,
+  },
+  primaryButtonText: {
+    color: '#FFFFFF',
+    fontWeight: 'bold',
+    marginLeft: 6,
+  },
+  blockRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 10,
+    borderBottomWidth: StyleSheet.hairlineWidth,
+  },
+  blockTime: {
+    width: 52,
+  },
+  blockTimeText: {
+    fontSize: 15,
+    fontWeight: 'bold',
+  },
+  blockTimeEnd: {
+    fontSize: 12,
+  },
+  blockInfo: {
+    flex: 1,
+    marginHorizontal: 8,
+  },
+  blockTitle: {
+    fontSize: 15,
+    fontWeight: '500',
+  },
+  blockMeta: {
+    fontSize: 12,
+    marginTop: 2,
+  },
+  iconButton: {
+    padding: 6,
+  },
+  timeRangeRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  timeButton: {
+    flex: 1,
+    borderRadius: 8,
+    paddingVertical: 10,
+    alignItems: 'center',
+    marginRight: 8,
+  },
+  timeButtonText: {
+    fontWeight: '500',
+  },
+  blockedRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 6,
+    borderBottomWidth: StyleSheet.hairlineWidth,
+  },
+  blockedLabel: {
+    flex: 1,
+    fontSize: 15,
+  },
+  input: {
+    borderRadius: 8,
+    padding: 12,
+    fontSize: 16,
+    borderWidth: 1,
+    marginTop: 12,
+    marginBottom: 8,
+  },
+});
+
+export default PlannerScreen;
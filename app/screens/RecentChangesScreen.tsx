@@ -0,0 +1,181 @@
+import { Ionicons } from '@expo/vector-icons';
+import { format, isToday, parseISO } from 'date-fns';
+import { useContext } from 'react';
+import {
+  Alert,
+  ScrollView,
+  StyleSheet,
+  Text,
+  TouchableOpacity,
+  View
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { AppContext } from '../context/AppContext';
+import { useTheme } from '../context/ThemeContext';
+import { describeJournalEntry, JournalEntry, MAX_JOURNAL_ENTRIES } from '../utils/ChangeJournal';
+
+const RecentChangesScreen = () => {
+  const { theme } = useTheme();
+  const { journal, undoChange, redoChange, clearJournal } = useContext(AppContext);
+
+  const formatTimestamp = (timestamp: string) => {
+    const date = parseISO(timestamp);
+    return isToday(date) ? format(date, 'h:mm a') : format(date, 'MMM d, h:mm a');
+  };
+
+  const handleClear = () => {
+    Alert.alert(
+      'Clear Recent Changes',
+      'Changes in this list will no longer be undoable.',
+      [
+        { text: 'Cancel', style: 'cancel' },
+        { text: 'Clear', style: 'destructive', onPress: clearJournal }
+      ]
+    );
+  };
+
+  const renderEntry = (entry: JournalEntry, undone: boolean) => (
+    <View key={entry.id} style={[styles.entry, { borderBottomColor: theme.border }]}>
+      <Ionicons
+        name={undone ? 'arrow-undo-outline' : 'time-outline'}
+        size={20}
+        color={undone ? theme.textSecondary : theme.primary}
+      />
+      <View style={styles.entryContent}>
+        <Text style={[styles.entryLabel, { color: undone ? theme.textSecondary : theme.text }]} numberOfLines={1}>
+          {entry.label}
+        </Text>
+        <Text style={[styles.entryMeta, { color: theme.textSecondary }]}>
+          {describeJournalEntry(entry)} · {formatTimestamp(entry.timestamp)}{undone ? ' · Undone' : ''}
+        </Text>
+      </View>
+    </View>
+  );
+
+  return (
+    <SafeAreaView style={[styles.container, { backgroundColor: theme.background }]} edges={['bottom']}>
+      <ScrollView contentContainerStyle={styles.content}>
+        <View style={styles.actions}>
+          <TouchableOpacity
+            style={[styles.actionButton, { backgroundColor: journal.undo.length > 0 ? theme.primary : theme.border }]}
+            onPress={undoChange}
+            disabled={journal.undo.length === 0}
+          >
+            <Ionicons name="arrow-undo" size={18} color="#FFFFFF" />
+            <Text style={styles.actionButtonText}>Undo</Text>
+          </TouchableOpacity>
+          <TouchableOpacity
+            style={[styles.actionButton, { backgroundColor: journal.redo.length > 0 ? theme.primary : theme.border }]}
+            onPress={redoChange}
+            disabled={journal.redo.length === 0}
+          >
+            <Ionicons name="arrow-redo" size={18} color="#FFFFFF" />
+            <Text style={styles.actionButtonText}>Redo</Text>
+          </TouchableOpacity>
+        </View>
+
+        <View style={[styles.section, { backgroundColor: theme.card }]}>
+          <Text style={[styles.sectionTitle, { color: theme.text }]}>Recent Changes</Text>
+          <Text style={[styles.infoText, { color: theme.textSecondary }]}>
+            Deletes, bulk edits and archive runs can be undone, newest first. The last {MAX_JOURNAL_ENTRIES} changes are kept.
+          </Text>
+
+          {journal.undo.length === 0 && journal.redo.length === 0 ? (
+            <Text style={[styles.emptyText, { color: theme.textSecondary }]}>No recent changes</Text>
+          ) : (
+            <>
+              {journal.redo.slice().reverse().map(entry => renderEntry(entry, true))}
+              {journal.undo.map(entry => renderEntry(entry, false))}
+            </>
+          )}
+        </View>
+
+        {(journal.undo.length > 0 || journal.redo.length > 0) && (
+          <TouchableOpacity style={[styles.clearButton, { borderColor: theme.danger }]} onPress={handleClear}>
+            <Text style={[styles.clearButtonText, { color: theme.danger }]}>Clear History</Text>
+          </TouchableOpacity>
+        )}
+      </ScrollView>
+    </SafeAreaView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  content: {
+    padding: 16,
+  },
+  actions: {
+    flexDirection: 'row',
+    marginBottom: 16,
+  },
+  actionButton: {
+    flex: 1,
+    flexDirection: 'row',
+    justifyContent: 'center',
+    alignItems: 'center',
+    borderRadius: 8,
+    paddingVertical: 12,
+    marginHorizontal: 4,
+  },
+  actionButtonText: {
+    color: '#FFFFFF',
+    fontWeight: 'bold',
+    marginLeft: 6,
+  },
+  section: {
+    borderRadius: 12,
+    padding: 16,
+    marginBottom: 16,
+    elevation: 2,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 1 },
+    shadowOpacity: 0.1,
+    shadowRadius: 2,
+  },
+  sectionTitle: {
+    fontSize: 18,
+    fontWeight: 'bold',
+    marginBottom: 8,
+  },
+  infoText: {
+    fontSize: 13,
+    marginBottom: 8,
+  },
+  emptyText: {
+    fontSize: 14,
+    textAlign: 'center',
+    paddingVertical: 16,
+  },
+  entry: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 10,
+    borderBottomWidth: StyleSheet.hairlineWidth,
+  },
+  entryContent: {
+    flex: 1,
+    marginLeft: 12,
+  },
+  entryLabel: {
+    fontSize: 15,
+    fontWeight: '500',
+  },
+  entryMeta: {
+    fontSize: 12,
+    marginTop: 2,
+  },
+  clearButton: {
+    borderRadius: 8,
+    borderWidth: 1,
+    paddingVertical: 10,
+    alignItems: 'center',
+  },
+  clearButtonText: {
+    fontWeight: 'bold',
+  },
+});
+
+export default RecentChangesScreen;
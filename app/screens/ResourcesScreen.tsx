@@ -1,8 +1,9 @@
 import { Ionicons } from '@expo/vector-icons';
+import { useRoute } from '@react-navigation/native';
 import * as DocumentPicker from 'expo-document-picker';
 import * as FileSystem from 'expo-file-system';
 import * as Sharing from 'expo-sharing';
-import React, { useContext, useState } from 'react';
+import React, { useCallback, useContext, useEffect, useRef, useState } from 'react';
 import { Alert, FlatList, Image, Modal, ScrollView, StyleSheet, Text, TextInput, TouchableOpacity, View } from 'react-native';
 import { SafeAreaView } from 'react-native-safe-area-context';
 import AIResourceGenerator from '../components/AIResourceGenerator';
@@ -11,6 +12,7 @@ import { AppContext } from '../context/AppContext';
 import { useTheme } from '../context/ThemeContext';
 
 const ResourcesScreen = () => {
+  const route = useRoute();
   const { theme } = useTheme();
   const { resources, subjects, addResource, updateResource, deleteResource } = useContext(AppContext);
 
@@ -128,7 +130,7 @@ const ResourcesScreen = () => {
   };
 
   // Open a resource
-  const openResource = async (resource, mode = 'preview') => {
+  const openResource = useCallback(async (resource, mode = 'preview') => {
     if (resource.type === 'document' && resource.uri) {
       if (await Sharing.isAvailableAsync()) {
         await Sharing.shareAsync(resource.uri);
@@ -146,7 +148,21 @@ const ResourcesScreen = () => {
         setPreviewModalVisible(true);
       }
     }
-  };
+  }, []);
+
+  // Open a resource when navigated to from search
+  const requestedResourceId = (route.params as { resourceId?: string } | undefined)?.resourceId;
+  const handledParamRef = useRef<string | undefined>(undefined);
+  useEffect(() => {
+    // Only open each requested resource once
+    if (!requestedResourceId || handledParamRef.current === requestedResourceId) return;
+
+    const requestedResource = resources.find(resource => resource.id === requestedResourceId);
+    if (requestedResource) {
+      openResource(requestedResource);
+    }
+    handledParamRef.current = requestedResourceId;
+  }, [requestedResourceId, resources, openResource]);
 
   // Edit resource
   const editResource = (resource) => {
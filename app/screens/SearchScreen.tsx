@@ -0,0 +1,312 @@
+import { Ionicons } from '@expo/vector-icons';
+import { useNavigation } from '@react-navigation/native';
+import { NativeStackNavigationProp } from '@react-navigation/native-stack';
+import { format, parseISO } from 'date-fns';
+import { useContext, useMemo, useState } from 'react';
+import {
+  FlatList,
+  ScrollView,
+  StyleSheet,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  View
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { AppContext } from '../context/AppContext';
+import { useTheme } from '../context/ThemeContext';
+import { HighlightRange, SearchResult, SearchResultType, splitHighlights } from '../utils/SearchIndex';
+
+// Define the navigation param list for type safety
+type RootStackParamList = {
+  Tasks: { screen?: string; params?: any };
+  Exams: { examId?: string };
+  Resources: { resourceId?: string };
+};
+
+type ResultTypeInfo = {
+  type: SearchResultType;
+  name: string;
+  label: string;
+  icon: keyof typeof Ionicons.glyphMap;
+};
+
+const RESULT_TYPES: ResultTypeInfo[] = [
+  { type: 'task', name: 'Task', label: 'Tasks', icon: 'checkbox-outline' },
+  { type: 'exam', name: 'Exam', label: 'Exams', icon: 'school-outline' },
+  { type: 'resource', name: 'Resource', label: 'Resources', icon: 'document-text-outline' },
+  { type: 'subject', name: 'Subject', label: 'Subjects', icon: 'pricetag-outline' },
+];
+
+// Results fetched per query, the type filter is applied on top of these
+const RESULT_LIMIT = 200;
+
+const SearchScreen = () => {
+  const navigation = useNavigation<NativeStackNavigationProp<RootStackParamList>>();
+  const { theme } = useTheme();
+  const { search } = useContext(AppContext);
+  const [query, setQuery] = useState('');
+  const [typeFilter, setTypeFilter] = useState<SearchResultType | null>(null);
+  const [subjectScope, setSubjectScope] = useState<string | null>(null);
+
+  const results = useMemo(
+    () => search(query, { subject: subjectScope || undefined, limit: RESULT_LIMIT }),
+    [search, query, subjectScope]
+  );
+
+  const countsByType = useMemo(() => {
+    const counts: Partial<Record<SearchResultType, number>> = {};
+    results.forEach(result => {
+      counts[result.document.type] = (counts[result.document.type] || 0) + 1;
+    });
+    return counts;
+  }, [results]);
+
+  const visibleResults = typeFilter ? results.filter(result => result.document.type === typeFilter) : results;
+
+  const openResult = (result: SearchResult) => {
+    const { type, id, title } = result.document;
+
+    switch (type) {
+      case 'task':
+        navigation.navigate('Tasks', { screen: 'TaskDetail', params: { taskId: id } });
+        break;
+      case 'exam':
+        navigation.navigate('Exams', { examId: id });
+        break;
+      case 'resource':
+        navigation.navigate('Resources', { resourceId: id });
+        break;
+      case 'subject':
+        // Narrow the search to everything in the subject
+        setSubjectScope(title);
+        setTypeFilter(null);
+        break;
+    }
+  };
+
+  const renderHighlighted = (text: string, highlights: HighlightRange[]) => {
+    return splitHighlights(text, highlights).map((part, index) => (
+      <Text
+        key={index}
+        style={part.highlighted ? [styles.highlight, { backgroundColor: `${theme.primary}30`, color: theme.text }] : undefined}
+      >
+        {part.text}
+      </Text>
+    ));
+  };
+
+  const renderResult = ({ item }: { item: SearchResult }) => {
+    const { document, titleHighlights, match } = item;
+    const typeInfo = RESULT_TYPES.find(resultType => resultType.type === document.type);
+    const meta = [
+      typeInfo?.name,
+      document.type !== 'subject' ? document.subject : undefined,
+      document.date ? format(parseISO(document.date), 'MMM d, yyyy') : undefined,
+      document.completed ? 'Completed' : undefined
+    ].filter(Boolean).join(' · ');
+
+    return (
+      <TouchableOpacity
+        style={[styles.resultItem, { backgroundColor: theme.card }]}
+        onPress={() => openResult(item)}
+      >
+        <View style={[styles.resultIcon, { backgroundColor: theme.primaryLight }]}>
+          <Ionicons name={typeInfo?.icon || 'search'} size={20} color={theme.primary} />
+        </View>
+        <View style={styles.resultContent}>
+          <Text style={[styles.resultTitle, { color: theme.text }]} numberOfLines={1}>
+            {renderHighlighted(document.title, titleHighlights)}
+          </Text>
+          <Text style={[styles.resultMeta, { color: theme.textSecondary }]} numberOfLines={1}>{meta}</Text>
+          {match && (
+            <Text style={[styles.resultSnippet, { color: theme.textSecondary }]} numberOfLines={2}>
+              <Text style={styles.snippetLabel}>{match.label}: </Text>
+              {renderHighlighted(match.snippet, match.highlights)}
+            </Text>
+          )}
+        </View>
+        <Ionicons name="chevron-forward" size={18} color={theme.textSecondary} />
+      </TouchableOpacity>
+    );
+  };
+
+  return (
+    <SafeAreaView style={[styles.container, { backgroundColor: theme.background }]} edges={['bottom']}>
+      <View style={[styles.searchContainer, { backgroundColor: theme.card, borderColor: theme.border }]}>
+        <Ionicons name="search" size={20} color={theme.textSecondary} />
+        <TextInput
+          style={[styles.searchInput, { color: theme.text }]}
+          value={query}
+          onChangeText={setQuery}
+          placeholder="Search tasks, exams, resources and notes"
+          placeholderTextColor={theme.textSecondary}
+          autoFocus={true}
+          autoCorrect={false}
+          returnKeyType="search"
+        />
+        {query.length > 0 && (
+          <TouchableOpacity onPress={() => setQuery('')}>
+            <Ionicons name="close-circle" size={20} color={theme.textSecondary} />
+          </TouchableOpacity>
+        )}
+      </View>
+
+      <View>
+        <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={styles.filterRow}>
+          {subjectScope && (
+            <TouchableOpacity
+              style={[styles.filterChip, { backgroundColor: theme.primary }]}
+              onPress={() => setSubjectScope(null)}
+            >
+              <Text style={[styles.filterChipText, { color: '#FFFFFF' }]}>{subjectScope}</Text>
+              <Ionicons name="close" size={14} color="#FFFFFF" style={styles.filterChipIcon} />
+            </TouchableOpacity>
+          )}
+
+          <TouchableOpacity
+            style={[styles.filterChip, { backgroundColor: typeFilter === null ? theme.primary : theme.primaryLight }]}
+            onPress={() => setTypeFilter(null)}
+          >
+            <Text style={[styles.filterChipText, { color: typeFilter === null ? '#FFFFFF' : theme.primary }]}>
+              All{query ? ` (${results.length})` : ''}
+            </Text>
+          </TouchableOpacity>
+
+          {RESULT_TYPES.map(({ type, label }) => (
+            <TouchableOpacity
+              key={type}
+              style={[styles.filterChip, { backgroundColor: typeFilter === type ? theme.primary : theme.primaryLight }]}
+              onPress={() => setTypeFilter(typeFilter === type ? null : type)}
+            >
+              <Text style={[styles.filterChipText, { color: typeFilter === type ? '#FFFFFF' : theme.primary }]}>
+                {label}{query ? ` (${countsByType[type] || 0})` : ''}
+              </Text>
+            </TouchableOpacity>
+          ))}
+        </ScrollView>
+      </View>
+
+      {visibleResults.length > 0 ? (
+        <FlatList
+          data={visibleResults}
+          keyExtractor={item => item.document.key}
+          renderItem={renderResult}
+          contentContainerStyle={styles.resultList}
+          keyboardShouldPersistTaps="handled"
+        />
+      ) : (
+        <View style={styles.emptyState}>
+          <Ionicons name="search" size={56} color={theme.border} />
+          <Text style={[styles.emptyStateText, { color: theme.textSecondary }]}>
+            {query.trim()
+              ? `No results for "${query.trim()}"`
+              : subjectScope
+                ? `Type to search in ${subjectScope}`
+                : 'Search titles, descriptions, notes, locations and task history'}
+          </Text>
+        </View>
+      )}
+    </SafeAreaView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  searchContainer: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    margin: 16,
+    marginBottom: 8,
+    paddingHorizontal: 12,
+    borderRadius: 8,
+    borderWidth: 1,
+  },
+  searchInput: {
+    flex: 1,
+    fontSize: 16,
+    paddingVertical: 10,
+    marginHorizontal: 8,
+  },
+  filterRow: {
+    paddingHorizontal: 12,
+    paddingBottom: 8,
+  },
+  filterChip: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    borderRadius: 20,
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    margin: 4,
+  },
+  filterChipText: {
+    fontSize: 14,
+    fontWeight: '500',
+  },
+  filterChipIcon: {
+    marginLeft: 4,
+  },
+  resultList: {
+    paddingHorizontal: 16,
+    paddingBottom: 16,
+  },
+  resultItem: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    borderRadius: 8,
+    padding: 12,
+    marginBottom: 8,
+    elevation: 1,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 1 },
+    shadowOpacity: 0.1,
+    shadowRadius: 2,
+  },
+  resultIcon: {
+    width: 36,
+    height: 36,
+    borderRadius: 18,
+    justifyContent: 'center',
+    alignItems: 'center',
+    marginRight: 12,
+  },
+  resultContent: {
+    flex: 1,
+    marginRight: 8,
+  },
+  resultTitle: {
+    fontSize: 16,
+    fontWeight: '500',
+  },
+  resultMeta: {
+    fontSize: 12,
+    marginTop: 2,
+  },
+  resultSnippet: {
+    fontSize: 13,
+    marginTop: 4,
+  },
+  snippetLabel: {
+    fontWeight: '600',
+  },
+  highlight: {
+    fontWeight: 'bold',
+    borderRadius: 2,
+  },
+  emptyState: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: 32,
+  },
+  emptyStateText: {
+    fontSize: 14,
+    textAlign: 'center',
+    marginTop: 12,
+  },
+});
+
+export default SearchScreen;
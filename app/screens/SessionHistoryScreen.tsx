@@ -0,0 +1,285 @@
+import { Ionicons } from '@expo/vector-icons';
+import { format, isToday, isYesterday, parseISO } from 'date-fns';
+import { useContext, useEffect, useState } from 'react';
+import {
+  Alert,
+  ScrollView,
+  StyleSheet,
+  Text,
+  TouchableOpacity,
+  View
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import SessionEditorModal from '../components/SessionEditorModal';
+import { AppContext } from '../context/AppContext';
+import { useTheme } from '../context/ThemeContext';
+import { createManualSession, getSessionStart, ManualSessionInput, sortSessions } from '../utils/SessionHistory';
+
+type SavedSession = {
+  id?: string;
+  timestamp: string;
+  duration: number;
+  subject?: string;
+  taskId?: string;
+  isComplete: boolean;
+  manual?: boolean;
+  focusRating?: number;
+  notes?: string;
+};
+
+const SessionHistoryScreen = () => {
+  const { theme } = useTheme();
+  const { tasks, subjects, loadSessionHistory, logManualSession, editSession, deleteSession } = useContext(AppContext);
+  const [sessions, setSessions] = useState<SavedSession[] | null>(null);
+  const [editingSession, setEditingSession] = useState<SavedSession | null>(null);
+  const [showEditor, setShowEditor] = useState(false);
+
+  useEffect(() => {
+    loadSessionHistory()
+      .then(loaded => setSessions(sortSessions(loaded)))
+      .catch(error => {
+        console.error('Error loading session history:', error);
+        Alert.alert('Error', 'Failed to load your sessions. Please try again.');
+        setSessions([]);
+      });
+  }, [loadSessionHistory]);
+
+  // Every change reloads the history, as a session may have moved to another day
+  const applyChange = (change: Promise<SavedSession[]>) => {
+    change
+      .then(updated => setSessions(sortSessions(updated)))
+      .catch(error => {
+        console.error('Error updating session history:', error);
+        Alert.alert('Error', 'Failed to update your sessions. Please try again.');
+      });
+  };
+
+  const openEditor = (session: SavedSession | null) => {
+    setEditingSession(session);
+    setShowEditor(true);
+  };
+
+  const closeEditor = () => {
+    setShowEditor(false);
+    setEditingSession(null);
+  };
+
+  const handleSave = (input: ManualSessionInput) => {
+    if (editingSession) {
+      // Timer sessions stay timer sessions, their rating and interruptions are kept
+      const updated = { ...editingSession, ...createManualSession(input, editingSession.id), manual: editingSession.manual };
+      applyChange(editSession(editingSession, updated));
+    } else {
+      applyChange(logManualSession(createManualSession(input)));
+    }
+  };
+
+  const handleDelete = () => {
+    if (editingSession) {
+      applyChange(deleteSession(editingSession));
+    }
+  };
+
+  const getTaskTitle = (taskId?: string) => {
+    return taskId ? tasks.find(task => task.id === taskId)?.title : undefined;
+  };
+
+  const formatDay = (day: string) => {
+    const date = parseISO(day);
+    if (isToday(date)) return 'Today';
+    if (isYesterday(date)) return 'Yesterday';
+    return format(date, 'EEEE, MMM d');
+  };
+
+  // Sessions are already sorted newest first, so days come out in order
+  const sessionsByDay = (sessions || []).reduce<Record<string, SavedSession[]>>((groups, session) => {
+    const day = format(parseISO(session.timestamp), 'yyyy-MM-dd');
+    groups[day] = [...(groups[day] || []), session];
+    return groups;
+  }, {});
+
+  // Open tasks, plus the task of the session being edited even if it has since been completed
+  const taskOptions = tasks.filter(task => (!task.completed && !task.archived) || task.id === editingSession?.taskId);
+
+  const renderSession = (session: SavedSession) => {
+    const taskTitle = getTaskTitle(session.taskId);
+
+    return (
+      <TouchableOpacity
+        key={session.id || session.timestamp}
+        style={[styles.entry, { borderBottomColor: theme.border }]}
+        onPress={() => openEditor(session)}
+      >
+        <Ionicons
+          name={session.manual ? 'create-outline' : 'timer-outline'}
+          size={20}
+          color={theme.primary}
+        />
+        <View style={styles.entryContent}>
+          <Text style={[styles.entryLabel, { color: theme.text }]} numberOfLines={1}>
+            {taskTitle || session.subject || 'Study session'}
+          </Text>
+          <Text style={[styles.entryMeta, { color: theme.textSecondary }]}>
+            {format(getSessionStart(session), 'h:mm a')} – {format(parseISO(session.timestamp), 'h:mm a')}
+            {taskTitle && session.subject ? ` · ${session.subject}` : ''}
+            {session.manual ? ' · Logged' : ''}
+          </Text>
+          {session.notes ? (
+            <Text style={[styles.entryNotes, { color: theme.textSecondary }]} numberOfLines={2}>
+              {session.notes}
+            </Text>
+          ) : null}
+        </View>
+        <View style={styles.entryStats}>
+          <Text style={[styles.entryDuration, { color: theme.text }]}>{session.duration} min</Text>
+          {session.focusRating ? (
+            <View style={styles.entryRating}>
+              <Ionicons name="star" size={12} color={theme.warning} />
+              <Text style={[styles.entryMeta, { color: theme.textSecondary }]}> {session.focusRating}</Text>
+            </View>
+          ) : null}
+        </View>
+      </TouchableOpacity>
+    );
+  };
+
+  return (
+    <SafeAreaView style={[styles.container, { backgroundColor: theme.background }]} edges={['bottom']}>
+      <ScrollView contentContainerStyle={styles.content}>
+        <TouchableOpacity
+          style={[styles.actionButton, { backgroundColor: theme.primary }]}
+          onPress={() => openEditor(null)}
+        >
+          <Ionicons name="add" size={18} color="#FFFFFF" />
+          <Text style={styles.actionButtonText}>Log Session</Text>
+        </TouchableOpacity>
+
+        <Text style={[styles.infoText, { color: theme.textSecondary }]}>
+          Log study done away from the timer, or tap a session to correct it. Your study time, goals and streak are
+          counted again from this list after every change.
+        </Text>
+
+        {sessions === null ? (
+          <Text style={[styles.emptyText, { color: theme.textSecondary }]}>Loading sessions...</Text>
+        ) : sessions.length === 0 ? (
+          <Text style={[styles.emptyText, { color: theme.textSecondary }]}>No sessions yet</Text>
+        ) : (
+          Object.entries(sessionsByDay).map(([day, daySessions]) => (
+            <View key={day} style={[styles.section, { backgroundColor: theme.card }]}>
+              <View style={styles.sectionHeader}>
+                <Text style={[styles.sectionTitle, { color: theme.text }]}>{formatDay(day)}</Text>
+                <Text style={[styles.sectionTotal, { color: theme.primary }]}>
+                  {daySessions.reduce((sum, session) => sum + session.duration, 0)} min
+                </Text>
+              </View>
+              {daySessions.map(renderSession)}
+            </View>
+          ))
+        )}
+      </ScrollView>
+
+      {showEditor && (
+        <SessionEditorModal
+          session={editingSession || undefined}
+          subjects={subjects}
+          tasks={taskOptions}
+          onSave={handleSave}
+          onDelete={editingSession ? handleDelete : undefined}
+          onClose={closeEditor}
+        />
+      )}
+    </SafeAreaView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  content: {
+    padding: 16,
+  },
+  actionButton: {
+    flexDirection: 'row',
+    justifyContent: 'center',
+    alignItems: 'center',
+    borderRadius: 8,
+    paddingVertical: 12,
+    marginBottom: 8,
+  },
+  actionButtonText: {
+    color: '#FFFFFF',
+    fontWeight: 'bold',
+    marginLeft: 6,
+  },
+  infoText: {
+    fontSize: 13,
+    marginBottom: 16,
+  },
+  emptyText: {
+    fontSize: 14,
+    textAlign: 'center',
+    paddingVertical: 16,
+  },
+  section: {
+    borderRadius: 12,
+    padding: 16,
+    marginBottom: 16,
+    elevation: 2,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 1 },
+    shadowOpacity: 0.1,
+    shadowRadius: 2,
+  },
+  sectionHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 4,
+  },
+  sectionTitle: {
+    fontSize: 18,
+    fontWeight: 'bold',
+  },
+  sectionTotal: {
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  entry: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 10,
+    borderBottomWidth: StyleSheet.hairlineWidth,
+  },
+  entryContent: {
+    flex: 1,
+    marginLeft: 12,
+  },
+  entryLabel: {
+    fontSize: 15,
+    fontWeight: '500',
+  },
+  entryMeta: {
+    fontSize: 12,
+    marginTop: 2,
+  },
+  entryNotes: {
+    fontSize: 12,
+    fontStyle: 'italic',
+    marginTop: 2,
+  },
+  entryStats: {
+    alignItems: 'flex-end',
+    marginLeft: 8,
+  },
+  entryDuration: {
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  entryRating: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+});
+
+export default SessionHistoryScreen;
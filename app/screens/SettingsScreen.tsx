@@ -7,11 +7,15 @@ import { ActivityIndicator, Alert, Linking, ScrollView, StyleSheet, Switch, Text
 import { SafeAreaView } from 'react-native-safe-area-context';
 import NotificationPermissionDialog from '../components/NotificationPermissionDialog';
 import NotificationSettingsModal from '../components/NotificationSettingsModal';
+import TimerProfileModal from '../components/TimerProfileModal';
 import { AppContext } from '../context/AppContext';
 import { useTheme } from '../context/ThemeContext';
 import * as NotificationService from '../services/NotificationService';
 import { verifyDataIntegrity } from '../utils/DataIntegrity';
+import { DEFAULT_URGENT_WITHIN_DAYS } from '../utils/EisenhowerMatrix';
+import { DEFAULT_FLOWTIME_BREAK_RATIO } from '../utils/Flowtime';
 import { forceSyncAllData } from '../utils/StorageSync';
+import { DEFAULT_TIMER_PROFILES, formatProfileSummary, TimerProfile } from '../utils/TimerProfiles';
 
 const SettingsScreen = ({ navigation }) => {
   const {
@@ -21,7 +25,10 @@ const SettingsScreen = ({ navigation }) => {
     importData,
     archiveOldTasks,
     lastBackup,
-    stats
+    stats,
+    subjects,
+    saveTimerProfile,
+    deleteTimerProfile
   } = useContext(AppContext);
 
   const { theme, isDark, toggleTheme, themeMode, setThemeMode } = useTheme();
@@ -63,6 +70,8 @@ const SettingsScreen = ({ navigation }) => {
   const [shortBreakLength, setShortBreakLength] = useState(settings.shortBreakLength);
   const [longBreakLength, setLongBreakLength] = useState(settings.longBreakLength);
   const [longBreakInterval, setLongBreakInterval] = useState(settings.longBreakInterval);
+  const [flowtimeBreakRatio, setFlowtimeBreakRatio] = useState(settings.flowtimeBreakRatio ?? DEFAULT_FLOWTIME_BREAK_RATIO);
+  const [autoCycle, setAutoCycle] = useState(settings.autoCycle ?? false);
   const [dailyGoalMinutes, setDailyGoalMinutes] = useState(settings.dailyGoalMinutes);
   const [weeklyTaskGoal, setWeeklyTaskGoal] = useState(settings.weeklyTaskGoal || 10);
   const [notifications, setNotifications] = useState(settings.notifications);
@@ -71,6 +80,7 @@ const SettingsScreen = ({ navigation }) => {
   const [archiveDays, setArchiveDays] = useState(settings.archiveDays);
   const [taskRetentionWeeks, setTaskRetentionWeeks] = useState(settings.taskRetentionWeeks || 7);
   const [taskReminderMinutes, setTaskReminderMinutes] = useState(settings.taskReminderMinutes || 5);
+  const [notifyUnblockedTasks, setNotifyUnblockedTasks] = useState(settings.notifyUnblockedTasks !== false);
   const [privacyLock, setPrivacyLock] = useState(settings.privacyLock);
 
   // Define wrapper functions that only update state without auto-saving
@@ -90,6 +100,14 @@ const SettingsScreen = ({ navigation }) => {
     setLongBreakInterval(value);
   };
 
+  const handleFlowtimeBreakRatioChange = (value: number) => {
+    setFlowtimeBreakRatio(value);
+  };
+
+  const handleAutoCycleChange = (value: boolean) => {
+    setAutoCycle(value);
+  };
+
   const handleDailyGoalChange = (value: number) => {
     setDailyGoalMinutes(value);
   };
@@ -102,6 +120,16 @@ const SettingsScreen = ({ navigation }) => {
   const [showNotificationDialog, setShowNotificationDialog] = useState(false);
   const [showNotificationSettings, setShowNotificationSettings] = useState(false);
 
+  // Timer profiles are saved as soon as the profile modal is saved
+  const timerProfiles = settings.timerProfiles ?? DEFAULT_TIMER_PROFILES;
+  const [showProfileModal, setShowProfileModal] = useState(false);
+  const [editingProfile, setEditingProfile] = useState<TimerProfile | undefined>(undefined);
+
+  const openProfileModal = (profile?: TimerProfile) => {
+    setEditingProfile(profile);
+    setShowProfileModal(true);
+  };
+
   const handleNotificationsChange = (value: boolean) => {
     if (value) {
       // If turning ON notifications, show the permission dialog
@@ -152,6 +180,10 @@ const SettingsScreen = ({ navigation }) => {
     setTaskReminderMinutes(value);
   };
 
+  const handleNotifyUnblockedTasksChange = (value: boolean) => {
+    setNotifyUnblockedTasks(value);
+  };
+
   const handlePrivacyLockChange = (value: boolean) => {
     setPrivacyLock(value);
   };
@@ -165,9 +197,11 @@ const SettingsScreen = ({ navigation }) => {
     thisWeek: true,
     priority: true,
     completed: true,
-    archived: false
+    archived: false,
+    blocked: true
   });
   const [prioritizeOverdue, setPrioritizeOverdue] = useState(settings.prioritizeOverdue !== false);
+  const [matrixUrgentDays, setMatrixUrgentDays] = useState(settings.matrixUrgentDays ?? DEFAULT_URGENT_WITHIN_DAYS);
 
   // Filters without auto-save
   const handleFiltersChange = (newFilters: typeof enabledFilters) => {
@@ -178,6 +212,10 @@ const SettingsScreen = ({ navigation }) => {
     setPrioritizeOverdue(value);
   };
 
+  const handleMatrixUrgentDaysChange = (value: number) => {
+    setMatrixUrgentDays(value);
+  };
+
   // Format date for display
   const formatDate = (dateString: string | null | undefined): string => {
     if (!dateString) return 'Never';
@@ -286,6 +324,8 @@ const SettingsScreen = ({ navigation }) => {
       shortBreakLength,
       longBreakLength,
       longBreakInterval,
+      flowtimeBreakRatio,
+      autoCycle,
       dailyGoalMinutes,
       weeklyTaskGoal,
       notifications,
@@ -295,9 +335,11 @@ const SettingsScreen = ({ navigation }) => {
       archiveDays,
       taskRetentionWeeks,
       taskReminderMinutes,
+      notifyUnblockedTasks,
       privacyLock,
       enabledFilters,
-      prioritizeOverdue
+      prioritizeOverdue,
+      matrixUrgentDays
     });
 
     // Show confirmation to the user
@@ -334,6 +376,17 @@ const SettingsScreen = ({ navigation }) => {
         theme={theme}
       />
 
+      {showProfileModal && (
+        <TimerProfileModal
+          profile={editingProfile}
+          initialDurations={{ pomodoroLength, shortBreakLength, longBreakLength, longBreakInterval }}
+          subjects={subjects}
+          onSave={saveTimerProfile}
+          onDelete={deleteTimerProfile}
+          onClose={() => setShowProfileModal(false)}
+        />
+      )}
+
       <ScrollView>
         <View style={styles.header}>
           <Text style={[styles.title, { color: theme.text }]}>Settings</Text>
@@ -486,6 +539,75 @@ const SettingsScreen = ({ navigation }) => {
             maximumTrackTintColor={theme.border}
             thumbTintColor={theme.primary}
           />
+
+          <View style={styles.settingItem}>
+            <Text style={[styles.settingLabel, { color: theme.text }]}>Flowtime Break</Text>
+            <Text style={[styles.settingValue, { color: theme.primary }]}>1 min per {flowtimeBreakRatio} min</Text>
+          </View>
+          <Slider
+            style={styles.slider}
+            minimumValue={2}
+            maximumValue={10}
+            step={1}
+            value={flowtimeBreakRatio}
+            onValueChange={handleFlowtimeBreakRatioChange}
+            minimumTrackTintColor={theme.primary}
+            maximumTrackTintColor={theme.border}
+            thumbTintColor={theme.primary}
+          />
+
+          <View style={styles.toggleItem}>
+            <Text style={[styles.toggleLabel, { color: theme.text }]}>Auto-cycle Sessions</Text>
+            <Switch
+              trackColor={{ false: theme.border, true: theme.primary }}
+              thumbColor="#FFFFFF"
+              ios_backgroundColor={theme.border}
+              onValueChange={handleAutoCycleChange}
+              value={autoCycle}
+            />
+          </View>
+          <Text style={[styles.settingDescription, { color: theme.textSecondary }]}>
+            Start each break and the next focus session on their own, until the long break ends the cycle.
+          </Text>
+        </View>
+
+        <View style={[styles.section, { backgroundColor: theme.card }]}>
+          <Text style={[styles.sectionTitle, { color: theme.text }]}>Timer Profiles</Text>
+          <Text style={[styles.settingDescription, { color: theme.textSecondary }]}>
+            Pick a profile on the timer screen, or make one the default for a subject so it loads when you pick one of its tasks.
+          </Text>
+
+          {timerProfiles.map(profile => {
+            const boundSubjects = subjects.filter(subject => subject.timerProfileId === profile.id);
+            return (
+              <TouchableOpacity
+                key={profile.id}
+                style={[styles.actionButton, { backgroundColor: theme.primaryLight }]}
+                onPress={() => openProfileModal(profile)}
+              >
+                <Ionicons name="timer-outline" size={20} color={theme.primary} />
+                <View style={styles.profileInfo}>
+                  <Text style={[styles.profileName, { color: theme.primary }]}>
+                    {profile.name} {formatProfileSummary(profile)}
+                  </Text>
+                  {boundSubjects.length > 0 && (
+                    <Text style={[styles.profileSubjects, { color: theme.textSecondary }]}>
+                      {boundSubjects.map(subject => subject.name).join(', ')}
+                    </Text>
+                  )}
+                </View>
+                <Ionicons name="chevron-forward" size={18} color={theme.primary} />
+              </TouchableOpacity>
+            );
+          })}
+
+          <TouchableOpacity
+            style={[styles.actionButton, { backgroundColor: theme.primaryLight }]}
+            onPress={() => openProfileModal()}
+          >
+            <Ionicons name="add-circle-outline" size={20} color={theme.primary} />
+            <Text style={[styles.actionButtonText, { color: theme.primary }]}>Add Profile</Text>
+          </TouchableOpacity>
         </View>
 
         <View style={[styles.section, { backgroundColor: theme.card }]}>
@@ -699,6 +821,28 @@ const SettingsScreen = ({ navigation }) => {
             </TouchableOpacity>
           </View>
 
+          <View style={styles.taskFilterGrid}>
+            <TouchableOpacity
+              style={[
+                styles.taskFilter,
+                { backgroundColor: enabledFilters.blocked ? theme.primary : theme.border + '30' },
+              ]}
+              onPress={() => handleFiltersChange({ ...enabledFilters, blocked: !enabledFilters.blocked })}
+            >
+              <Ionicons
+                name="lock-closed"
+                size={20}
+                color={enabledFilters.blocked ? "#FFFFFF" : theme.textSecondary}
+              />
+              <Text style={[
+                styles.taskFilterText,
+                { color: enabledFilters.blocked ? "#FFFFFF" : theme.textSecondary }
+              ]}>
+                Blocked
+              </Text>
+            </TouchableOpacity>
+          </View>
+
           <View style={styles.settingItem}>
             <Text style={[styles.settingLabel, { color: theme.text }]}>Prioritize Overdue Tasks</Text>
             <Switch
@@ -709,6 +853,27 @@ const SettingsScreen = ({ navigation }) => {
               value={prioritizeOverdue}
             />
           </View>
+
+          <View style={styles.settingItem}>
+            <Text style={[styles.settingLabel, { color: theme.text }]}>Urgent Within</Text>
+            <Text style={[styles.settingValue, { color: theme.primary }]}>
+              {matrixUrgentDays === 0 ? 'Today' : `${matrixUrgentDays} ${matrixUrgentDays === 1 ? 'day' : 'days'}`}
+            </Text>
+          </View>
+          <Slider
+            style={styles.slider}
+            minimumValue={0}
+            maximumValue={14}
+            step={1}
+            value={matrixUrgentDays}
+            onValueChange={handleMatrixUrgentDaysChange}
+            minimumTrackTintColor={theme.primary}
+            maximumTrackTintColor={theme.border}
+            thumbTintColor={theme.primary}
+          />
+          <Text style={[styles.infoText, { color: theme.textSecondary }]}>
+            Tasks due within this window count as urgent in the Eisenhower matrix
+          </Text>
         </View>
 
         <View style={[styles.section, { backgroundColor: theme.card }]}>
@@ -774,6 +939,17 @@ const SettingsScreen = ({ navigation }) => {
                   </View>
                 </View>
               </View>
+
+              <View style={styles.toggleItem}>
+                <Text style={[styles.toggleLabel, { color: theme.text }]}>Notify When Tasks Are Unblocked</Text>
+                <Switch
+                  trackColor={{ false: theme.border, true: theme.primary }}
+                  thumbColor="#FFFFFF"
+                  ios_backgroundColor={theme.border}
+                  onValueChange={handleNotifyUnblockedTasksChange}
+                  value={notifyUnblockedTasks}
+                />
+              </View>
             </>
           )}
 
@@ -787,6 +963,9 @@ const SettingsScreen = ({ navigation }) => {
               value={focusMode}
             />
           </View>
+          <Text style={[styles.settingDescription, { color: theme.textSecondary }]}>
+            While a focus session runs, other notifications wait for the break, the screen stays on and leaving the timer abandons the session.
+          </Text>
 
           <View style={styles.toggleItem}>
             <Text style={[styles.toggleLabel, { color: theme.text }]}>Privacy Lock</Text>
@@ -868,6 +1047,14 @@ const SettingsScreen = ({ navigation }) => {
             <Text style={[styles.actionButtonText, { color: theme.primary }]}>Archive Old Tasks Now</Text>
           </TouchableOpacity>
 
+          <TouchableOpacity
+            style={[styles.actionButton, { backgroundColor: theme.primaryLight }]}
+            onPress={() => navigation.navigate('RecentChanges')}
+          >
+            <Ionicons name="time-outline" size={20} color={theme.primary} />
+            <Text style={[styles.actionButtonText, { color: theme.primary }]}>Recent Changes</Text>
+          </TouchableOpacity>
+
           <TouchableOpacity
             style={[styles.actionButton, { backgroundColor: theme.primaryLight }]}
             onPress={handleExport}
@@ -1071,6 +1258,17 @@ const styles = StyleSheet.create({
     fontSize: 16,
     marginLeft: 12,
   },
+  profileInfo: {
+    flex: 1,
+    marginLeft: 12,
+  },
+  profileName: {
+    fontSize: 16,
+  },
+  profileSubjects: {
+    fontSize: 13,
+    marginTop: 2,
+  },
   settingDescription: {
     fontSize: 14,
     marginBottom: 12,
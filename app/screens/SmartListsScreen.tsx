@@ -0,0 +1,336 @@
+import { Ionicons } from '@expo/vector-icons';
+import { useContext, useMemo, useState } from 'react';
+import {
+  Alert,
+  ScrollView,
+  StyleSheet,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  View
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { AppContext } from '../context/AppContext';
+import { useTheme } from '../context/ThemeContext';
+import { filterTasksByQuery, parseSmartListQuery } from '../utils/SmartListQuery';
+
+// Example queries shown to help users get started
+const QUERY_EXAMPLES = [
+  { label: 'Math due in the next 3 days', query: 'subject:Math priority:high due:<=3d is:open' },
+  { label: 'Started but not finished', query: 'progress:>0 progress:<100 is:open' },
+  { label: 'Overdue or due today', query: 'due:overdue,today is:open' },
+  { label: 'Waiting on other tasks', query: 'is:blocked' },
+];
+
+const SmartListsScreen = () => {
+  const { theme } = useTheme();
+  const { tasks, smartLists, addSmartList, updateSmartList, deleteSmartList, moveSmartList } = useContext(AppContext);
+
+  // Form state, editingId is null when creating a new list
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [name, setName] = useState('');
+  const [query, setQuery] = useState('');
+
+  // Live feedback on the query being typed
+  const parsedQuery = useMemo(() => parseSmartListQuery(query), [query]);
+  const matchCount = useMemo(() => filterTasksByQuery(tasks, query).length, [tasks, query]);
+
+  const resetForm = () => {
+    setEditingId(null);
+    setName('');
+    setQuery('');
+  };
+
+  const handleEdit = (id: string) => {
+    const smartList = smartLists.find(item => item.id === id);
+    if (!smartList) return;
+
+    setEditingId(smartList.id);
+    setName(smartList.name);
+    setQuery(smartList.query);
+  };
+
+  const handleSave = () => {
+    if (!name.trim()) {
+      Alert.alert('Error', 'Please enter a name for the list');
+      return;
+    }
+
+    if (!query.trim() || parsedQuery.errors.length > 0) {
+      Alert.alert('Invalid Query', parsedQuery.errors[0] || 'Please enter a query');
+      return;
+    }
+
+    if (editingId) {
+      updateSmartList(editingId, { name: name.trim(), query: query.trim() });
+    } else {
+      addSmartList({ name: name.trim(), query: query.trim(), pinned: true });
+    }
+
+    resetForm();
+  };
+
+  const handleDelete = (id: string, listName: string) => {
+    Alert.alert(
+      'Delete Smart List',
+      `Are you sure you want to delete "${listName}"? Your tasks will not be affected.`,
+      [
+        {
+          text: 'Cancel',
+          style: 'cancel'
+        },
+        {
+          text: 'Delete',
+          style: 'destructive',
+          onPress: () => {
+            if (editingId === id) resetForm();
+            deleteSmartList(id);
+          }
+        }
+      ]
+    );
+  };
+
+  return (
+    <SafeAreaView style={[styles.container, { backgroundColor: theme.background }]} edges={['bottom']}>
+      <ScrollView contentContainerStyle={styles.content} keyboardShouldPersistTaps="handled">
+        <View style={[styles.section, { backgroundColor: theme.card }]}>
+          <Text style={[styles.sectionTitle, { color: theme.text }]}>
+            {editingId ? 'Edit Smart List' : 'New Smart List'}
+          </Text>
+
+          <TextInput
+            style={[styles.input, { backgroundColor: theme.background, color: theme.text, borderColor: theme.border }]}
+            value={name}
+            onChangeText={setName}
+            placeholder="Name, e.g. Math Crunch"
+            placeholderTextColor={theme.textSecondary}
+          />
+
+          <TextInput
+            style={[styles.input, styles.queryInput, { backgroundColor: theme.background, color: theme.text, borderColor: theme.border }]}
+            value={query}
+            onChangeText={setQuery}
+            placeholder="subject:Math priority:high due:<=3d"
+            placeholderTextColor={theme.textSecondary}
+            autoCapitalize="none"
+            autoCorrect={false}
+          />
+
+          {query.trim().length > 0 && (
+            parsedQuery.errors.length > 0 ? (
+              <Text style={[styles.feedbackText, { color: theme.danger }]}>{parsedQuery.errors.join('\n')}</Text>
+            ) : (
+              <Text style={[styles.feedbackText, { color: theme.success }]}>
+                Matches {matchCount} {matchCount === 1 ? 'task' : 'tasks'}
+              </Text>
+            )
+          )}
+
+          <View style={styles.formActions}>
+            {editingId && (
+              <TouchableOpacity
+                style={[styles.secondaryButton, { borderColor: theme.primary }]}
+                onPress={resetForm}
+              >
+                <Text style={[styles.secondaryButtonText, { color: theme.primary }]}>Cancel</Text>
+              </TouchableOpacity>
+            )}
+            <TouchableOpacity
+              style={[styles.primaryButton, { backgroundColor: theme.primary }]}
+              onPress={handleSave}
+            >
+              <Text style={styles.primaryButtonText}>{editingId ? 'Save Changes' : 'Add List'}</Text>
+            </TouchableOpacity>
+          </View>
+        </View>
+
+        <View style={[styles.section, { backgroundColor: theme.card }]}>
+          <Text style={[styles.sectionTitle, { color: theme.text }]}>Your Smart Lists</Text>
+
+          {smartLists.length === 0 ? (
+            <Text style={[styles.emptyText, { color: theme.textSecondary }]}>
+              No smart lists saved yet
+            </Text>
+          ) : (
+            smartLists.map((smartList, index) => (
+              <View key={smartList.id} style={[styles.listRow, { borderBottomColor: theme.border }]}>
+                <TouchableOpacity style={styles.listInfo} onPress={() => handleEdit(smartList.id)}>
+                  <Text style={[styles.listName, { color: theme.text }]}>{smartList.name}</Text>
+                  <Text style={[styles.listQuery, { color: theme.textSecondary }]} numberOfLines={1}>
+                    {smartList.query}
+                  </Text>
+                </TouchableOpacity>
+
+                <TouchableOpacity
+                  style={styles.iconButton}
+                  onPress={() => updateSmartList(smartList.id, { pinned: !smartList.pinned })}
+                >
+                  <Ionicons
+                    name={smartList.pinned ? 'pin' : 'pin-outline'}
+                    size={20}
+                    color={smartList.pinned ? theme.primary : theme.textSecondary}
+                  />
+                </TouchableOpacity>
+                <TouchableOpacity
+                  style={styles.iconButton}
+                  onPress={() => moveSmartList(smartList.id, -1)}
+                  disabled={index === 0}
+                >
+                  <Ionicons name="chevron-up" size={20} color={index === 0 ? theme.border : theme.textSecondary} />
+                </TouchableOpacity>
+                <TouchableOpacity
+                  style={styles.iconButton}
+                  onPress={() => moveSmartList(smartList.id, 1)}
+                  disabled={index === smartLists.length - 1}
+                >
+                  <Ionicons
+                    name="chevron-down"
+                    size={20}
+                    color={index === smartLists.length - 1 ? theme.border : theme.textSecondary}
+                  />
+                </TouchableOpacity>
+                <TouchableOpacity
+                  style={styles.iconButton}
+                  onPress={() => handleDelete(smartList.id, smartList.name)}
+                >
+                  <Ionicons name="trash-outline" size={20} color={theme.danger} />
+                </TouchableOpacity>
+              </View>
+            ))
+          )}
+        </View>
+
+        <View style={[styles.section, { backgroundColor: theme.card }]}>
+          <Text style={[styles.sectionTitle, { color: theme.text }]}>Query Syntax</Text>
+          <Text style={[styles.helpText, { color: theme.textSecondary }]}>
+            subject:Math  ·  priority:high,medium{'\n'}
+            due:today, tomorrow, overdue, week, none, {'<'}=3d, {'>'}7d{'\n'}
+            progress:{'>'}50  ·  is:open, completed, archived, blocked, recurring{'\n'}
+            Plain words search titles and descriptions. Prefix a term with - to exclude it.
+          </Text>
+
+          {QUERY_EXAMPLES.map(example => (
+            <TouchableOpacity
+              key={example.query}
+              style={[styles.exampleRow, { backgroundColor: theme.primaryLight }]}
+              onPress={() => {
+                if (!name.trim()) setName(example.label);
+                setQuery(example.query);
+              }}
+            >
+              <Text style={[styles.exampleLabel, { color: theme.primary }]}>{example.label}</Text>
+              <Text style={[styles.exampleQuery, { color: theme.primary }]}>{example.query}</Text>
+            </TouchableOpacity>
+          ))}
+        </View>
+      </ScrollView>
+    </SafeAreaView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  content: {
+    padding: 16,
+  },
+  section: {
+    borderRadius: 12,
+    padding: 16,
+    marginBottom: 16,
+    elevation: 2,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 1 },
+    shadowOpacity: 0.1,
+    shadowRadius: 2,
+  },
+  sectionTitle: {
+    fontSize: 18,
+    fontWeight: 'bold',
+    marginBottom: 12,
+  },
+  input: {
+    borderRadius: 8,
+    padding: 12,
+    fontSize: 16,
+    borderWidth: 1,
+    marginBottom: 8,
+  },
+  queryInput: {
+    fontFamily: 'monospace',
+    fontSize: 14,
+  },
+  feedbackText: {
+    fontSize: 13,
+    marginBottom: 8,
+  },
+  formActions: {
+    flexDirection: 'row',
+    justifyContent: 'flex-end',
+    marginTop: 4,
+  },
+  primaryButton: {
+    borderRadius: 8,
+    paddingVertical: 10,
+    paddingHorizontal: 16,
+  },
+  primaryButtonText: {
+    color: '#FFFFFF',
+    fontWeight: 'bold',
+  },
+  secondaryButton: {
+    borderRadius: 8,
+    borderWidth: 1,
+    paddingVertical: 10,
+    paddingHorizontal: 16,
+    marginRight: 8,
+  },
+  secondaryButtonText: {
+    fontWeight: 'bold',
+  },
+  emptyText: {
+    fontSize: 14,
+  },
+  listRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 10,
+    borderBottomWidth: StyleSheet.hairlineWidth,
+  },
+  listInfo: {
+    flex: 1,
+  },
+  listName: {
+    fontSize: 16,
+    fontWeight: '500',
+  },
+  listQuery: {
+    fontSize: 12,
+    marginTop: 2,
+  },
+  iconButton: {
+    padding: 6,
+  },
+  helpText: {
+    fontSize: 13,
+    lineHeight: 20,
+    marginBottom: 12,
+  },
+  exampleRow: {
+    borderRadius: 8,
+    padding: 10,
+    marginBottom: 8,
+  },
+  exampleLabel: {
+    fontSize: 14,
+    fontWeight: '500',
+  },
+  exampleQuery: {
+    fontSize: 12,
+    marginTop: 2,
+  },
+});
+
+export default SmartListsScreen;
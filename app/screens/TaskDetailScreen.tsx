@@ -14,8 +14,15 @@ import {
   View
 } from 'react-native';
 import { SafeAreaView } from 'react-native-safe-area-context';
-import { AppContext } from '../context/AppContext';
+import EstimateInput from '../components/EstimateInput';
+import RecurrenceEditor from '../components/RecurrenceEditor';
+import TaskChecklist from '../components/TaskChecklist';
+import { AppContext, Task } from '../context/AppContext';
 import { useTheme } from '../context/ThemeContext';
+import { ChecklistItem, isChecklistComplete } from '../utils/Checklist';
+import { describeRecurrence } from '../utils/Recurrence';
+import { findDependencyCycle, getBlockingTasks } from '../utils/TaskDependencies';
+import { formatMinutes, getEstimateUsage } from '../utils/TimeEstimates';
 
 const TaskDetailScreen = () => {
   const route = useRoute();
@@ -29,7 +36,7 @@ const TaskDetailScreen = () => {
 
   // State for editing
   const [isEditing, setIsEditing] = useState(false);
-  const [editedTask, setEditedTask] = useState({});
+  const [editedTask, setEditedTask] = useState<Partial<Task>>({});
   const [showDatePicker, setShowDatePicker] = useState(false);
   const [showTimePicker, setShowTimePicker] = useState(false);
 
@@ -52,6 +59,16 @@ const TaskDetailScreen = () => {
     return null;
   }
 
+  // Dependencies
+  const prerequisites = tasks.filter(t => (task.blockedBy || []).includes(t.id));
+  const blockingTasks = getBlockingTasks(task, tasks);
+  const prerequisiteCandidates = tasks.filter(t =>
+    t.id !== task.id && (!t.archived || (editedTask.blockedBy || []).includes(t.id))
+  );
+
+  // Share of the time estimate already studied
+  const estimateUsage = getEstimateUsage(task);
+
   // Format date for display
   const formatDate = (dateString) => {
     const date = parseISO(dateString);
@@ -99,7 +116,7 @@ const TaskDetailScreen = () => {
 
   // Handle date change
   const onDateChange = (event, selectedDate) => {
-    const currentDate = selectedDate || parseISO(editedTask.dueDate);
+    const currentDate = selectedDate || (editedTask.dueDate ? parseISO(editedTask.dueDate) : new Date());
     setShowDatePicker(false);
     setEditedTask(prev => ({ ...prev, dueDate: currentDate.toISOString() }));
   };
@@ -118,7 +135,7 @@ const TaskDetailScreen = () => {
 
   // Handle task update
   const handleSaveChanges = () => {
-    if (!editedTask.title.trim()) {
+    if (!editedTask.title?.trim()) {
       Alert.alert('Error', 'Please enter a task title');
       return;
     }
@@ -127,6 +144,45 @@ const TaskDetailScreen = () => {
     setIsEditing(false);
   };
 
+  // Handle checklist changes, offering to complete the task once the last step is ticked off
+  const handleChecklistChange = (checklist: ChecklistItem[], toggledItemId?: string) => {
+    updateTask(task.id, { checklist });
+
+    const toggledItem = checklist.find(item => item.id === toggledItemId);
+    if (toggledItem?.done && !task.completed && isChecklistComplete(checklist)) {
+      Alert.alert(
+        'All Steps Done',
+        `Mark "${task.title}" as completed?`,
+        [
+          {
+            text: 'Not Yet',
+            style: 'cancel'
+          },
+          {
+            text: 'Complete',
+            onPress: () => toggleTaskCompletion(task.id)
+          }
+        ]
+      );
+    }
+  };
+
+  // Add or remove a prerequisite, refusing changes that would create a dependency cycle
+  const handleTogglePrerequisite = (prerequisiteId: string) => {
+    const currentBlockedBy: string[] = editedTask.blockedBy || [];
+    const blockedBy = currentBlockedBy.includes(prerequisiteId)
+      ? currentBlockedBy.filter(id => id !== prerequisiteId)
+      : [...currentBlockedBy, prerequisiteId];
+
+    const cycle = findDependencyCycle(task.id, blockedBy, tasks);
+    if (cycle) {
+      Alert.alert('Dependency Cycle', `This would create a cycle:\n${cycle.join(' → ')}`);
+      return;
+    }
+
+    setEditedTask({ ...editedTask, blockedBy });
+  };
+
   // Handle task deletion
   const handleDeleteTask = () => {
     Alert.alert(
@@ -253,6 +309,17 @@ const TaskDetailScreen = () => {
               </View>
             </View>
 
+            {task.recurrence && (
+              <View style={styles.section}>
+                <View style={styles.sectionHeader}>
+                  <Ionicons name="repeat-outline" size={20} color={theme.textSecondary} />
+                  <Text style={[styles.sectionTitle, { color: theme.textSecondary }]}>Repeats</Text>
+                </View>
+
+                <Text style={[styles.metaText, { color: theme.text }]}>{describeRecurrence(task.recurrence)}</Text>
+              </View>
+            )}
+
             {task.subject && (
               <View style={styles.section}>
                 <View style={styles.sectionHeader}>
@@ -302,6 +369,92 @@ const TaskDetailScreen = () => {
               </View>
             )}
 
+            {prerequisites.length > 0 && (
+              <View style={styles.section}>
+                <View style={styles.sectionHeader}>
+                  <Ionicons
+                    name={blockingTasks.length > 0 ? "lock-closed-outline" : "lock-open-outline"}
+                    size={20}
+                    color={blockingTasks.length > 0 ? theme.warning : theme.textSecondary}
+                  />
+                  <Text style={[styles.sectionTitle, { color: blockingTasks.length > 0 ? theme.warning : theme.textSecondary }]}>
+                    {blockingTasks.length > 0 ? 'Blocked By' : 'Prerequisites Done'}
+                  </Text>
+                </View>
+
+                {prerequisites.map(prerequisite => (
+                  <TouchableOpacity
+                    key={prerequisite.id}
+                    style={[styles.prerequisiteRow, { borderBottomColor: theme.border }]}
+                    onPress={() => navigation.navigate('TaskDetail', { taskId: prerequisite.id })}
+                  >
+                    <Ionicons
+                      name={prerequisite.completed ? "checkmark-circle" : "ellipse-outline"}
+                      size={18}
+                      color={prerequisite.completed ? theme.success : theme.textSecondary}
+                    />
+                    <Text
+                      style={[
+                        styles.prerequisiteTitle,
+                        { color: prerequisite.completed ? theme.textSecondary : theme.text }
+                      ]}
+                      numberOfLines={1}
+                    >
+                      {prerequisite.title}
+                    </Text>
+                    <Ionicons name="chevron-forward" size={16} color={theme.textSecondary} />
+                  </TouchableOpacity>
+                ))}
+              </View>
+            )}
+
+            {(task.estimatedMinutes || task.actualMinutes) ? (
+              <View style={styles.section}>
+                <View style={styles.sectionHeader}>
+                  <Ionicons name="hourglass-outline" size={20} color={theme.textSecondary} />
+                  <Text style={[styles.sectionTitle, { color: theme.textSecondary }]}>Time Spent</Text>
+                </View>
+
+                <Text style={[styles.metaText, { color: theme.text }]}>
+                  {formatMinutes(task.actualMinutes || 0)}
+                  {task.estimatedMinutes ? ` of ${formatMinutes(task.estimatedMinutes)} estimated` : ' studied'}
+                </Text>
+
+                {estimateUsage !== undefined && (
+                  <View style={[styles.estimateTrack, { backgroundColor: theme.border }]}>
+                    <View
+                      style={[
+                        styles.estimateFill,
+                        {
+                          width: `${Math.min(100, estimateUsage)}%`,
+                          backgroundColor: estimateUsage > 100 ? theme.danger : theme.primary
+                        }
+                      ]}
+                    />
+                  </View>
+                )}
+
+                {estimateUsage !== undefined && estimateUsage > 100 && (
+                  <Text style={[styles.archiveInfo, { color: theme.danger }]}>
+                    {formatMinutes((task.actualMinutes || 0) - (task.estimatedMinutes || 0))} over the estimate
+                  </Text>
+                )}
+              </View>
+            ) : null}
+
+            <View style={styles.section}>
+              <View style={styles.sectionHeader}>
+                <Ionicons name="checkbox-outline" size={20} color={theme.textSecondary} />
+                <Text style={[styles.sectionTitle, { color: theme.textSecondary }]}>Checklist</Text>
+              </View>
+
+              <TaskChecklist
+                items={task.checklist || []}
+                onChange={handleChecklistChange}
+                disabled={task.archived}
+              />
+            </View>
+
             <View style={styles.section}>
               <View style={styles.sectionHeader}>
                 <Ionicons name="time-outline" size={20} color={theme.textSecondary} />
@@ -345,6 +498,14 @@ const TaskDetailScreen = () => {
                         <Text style={[styles.historyChanges, { color: theme.text }]}>
                           {entry.changes.split(',').join(', ')}
                         </Text>
+                        {typeof entry.focusRating === 'number' && (
+                          <Text style={[styles.historyNotes, { color: theme.textSecondary }]}>
+                            Focus {entry.focusRating}/5
+                          </Text>
+                        )}
+                        {entry.notes ? (
+                          <Text style={[styles.historyNotes, { color: theme.text }]}>{entry.notes}</Text>
+                        ) : null}
                         {typeof entry.progress === 'number' && (
                           <View style={[styles.miniProgressContainer, { backgroundColor: theme.border }]}>
                             <View style={[styles.miniProgress, { width: `${entry.progress}%`, backgroundColor: theme.primary }]} />
@@ -506,7 +667,7 @@ const TaskDetailScreen = () => {
 
               {showDatePicker && (
                 <DateTimePicker
-                  value={parseISO(editedTask.dueDate)}
+                  value={editedTask.dueDate ? parseISO(editedTask.dueDate) : new Date()}
                   mode="date"
                   display="default"
                   onChange={onDateChange}
@@ -528,6 +689,55 @@ const TaskDetailScreen = () => {
               )}
             </View>
 
+            <View style={styles.formGroup}>
+              <Text style={[styles.label, { color: theme.text }]}>Time Estimate</Text>
+              <EstimateInput
+                value={editedTask.estimatedMinutes}
+                onChange={estimatedMinutes => setEditedTask({ ...editedTask, estimatedMinutes })}
+              />
+            </View>
+
+            <View style={styles.formGroup}>
+              <Text style={[styles.label, { color: theme.text }]}>Repeat</Text>
+              <RecurrenceEditor
+                value={editedTask.recurrence}
+                onChange={rule => setEditedTask(prev => ({ ...prev, recurrence: rule }))}
+                anchorDate={editedTask.dueDate ? parseISO(editedTask.dueDate) : new Date()}
+              />
+            </View>
+
+            {prerequisiteCandidates.length > 0 && (
+              <View style={styles.formGroup}>
+                <Text style={[styles.label, { color: theme.text }]}>Blocked By</Text>
+                {prerequisiteCandidates.map(candidate => {
+                  const selected = (editedTask.blockedBy || []).includes(candidate.id);
+
+                  return (
+                    <TouchableOpacity
+                      key={candidate.id}
+                      style={[styles.prerequisiteRow, { borderBottomColor: theme.border }]}
+                      onPress={() => handleTogglePrerequisite(candidate.id)}
+                    >
+                      <Ionicons
+                        name={selected ? "checkbox" : "square-outline"}
+                        size={20}
+                        color={selected ? theme.primary : theme.textSecondary}
+                      />
+                      <Text
+                        style={[
+                          styles.prerequisiteTitle,
+                          { color: candidate.completed ? theme.textSecondary : theme.text }
+                        ]}
+                        numberOfLines={1}
+                      >
+                        {candidate.title}
+                      </Text>
+                    </TouchableOpacity>
+                  );
+                })}
+              </View>
+            )}
+
             <TouchableOpacity
               style={[styles.saveButton, { backgroundColor: theme.primary }]}
               onPress={handleSaveChanges}
@@ -674,6 +884,27 @@ const styles = StyleSheet.create({
   metaText: {
     fontSize: 14,
   },
+  prerequisiteRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 8,
+    borderBottomWidth: StyleSheet.hairlineWidth,
+  },
+  prerequisiteTitle: {
+    flex: 1,
+    fontSize: 16,
+    marginLeft: 10,
+  },
+  estimateTrack: {
+    height: 6,
+    borderRadius: 3,
+    marginTop: 8,
+    overflow: 'hidden',
+  },
+  estimateFill: {
+    height: '100%',
+    borderRadius: 3,
+  },
   formGroup: {
     marginBottom: 20,
   },
@@ -772,6 +1003,11 @@ const styles = StyleSheet.create({
     fontSize: 14,
     marginBottom: 8,
   },
+  historyNotes: {
+    fontSize: 13,
+    fontStyle: 'italic',
+    marginBottom: 8,
+  },
   historyStatus: {
     fontSize: 14,
     fontWeight: '500',
@@ -1,25 +1,94 @@
 import { Ionicons } from '@expo/vector-icons';
-import { useNavigation } from '@react-navigation/native';
+import { useNavigation, useRoute } from '@react-navigation/native';
 import { isFuture, isPast, isToday, parseISO } from 'date-fns';
-import { useContext, useState } from 'react';
+import { useContext, useEffect, useState } from 'react';
 import {
+  Alert,
   FlatList,
+  ScrollView,
   StatusBar,
   StyleSheet,
   Text,
   TouchableOpacity,
   View
 } from 'react-native';
+import DraggableFlatList, { RenderItemParams } from 'react-native-draggable-flatlist';
 import { SafeAreaView } from 'react-native-safe-area-context';
+import TaskBoard from '../components/TaskBoard';
 import TaskItem from '../components/TaskItem';
+import TaskMatrix from '../components/TaskMatrix';
 import { AppContext } from '../context/AppContext';
 import { useTheme } from '../context/ThemeContext';
+import { BulkPriority, BulkTaskAction, toggleSelection } from '../utils/BulkTaskActions';
+import { DEFAULT_URGENT_WITHIN_DAYS, getQuadrantMoveUpdates, MatrixQuadrant } from '../utils/EisenhowerMatrix';
+import { filterTasksByQuery } from '../utils/SmartListQuery';
+import { SnoozeOption } from '../utils/Snooze';
+import { BoardColumn, BoardGrouping, getColumnMoveUpdates } from '../utils/TaskBoard';
+import { DEFAULT_SORT_MODE, sortTasks, TASK_SORT_MODES } from '../utils/TaskOrdering';
+import { isTaskBlocked } from '../utils/TaskDependencies';
+
+type TaskViewMode = 'list' | 'board' | 'matrix';
+
+// The view toggle cycles through the views, showing the icon of the next one
+const NEXT_VIEW_MODE: Record<TaskViewMode, TaskViewMode> = { list: 'board', board: 'matrix', matrix: 'list' };
+const VIEW_MODE_ICONS: Record<TaskViewMode, keyof typeof Ionicons.glyphMap> = {
+  list: 'list-outline',
+  board: 'grid-outline',
+  matrix: 'apps-outline'
+};
 
 const TasksScreen = () => {
   const navigation = useNavigation();
+  const route = useRoute();
   const { theme } = useTheme();
-  const { tasks, updateTask, toggleTaskCompletion, settings } = useContext(AppContext);
+  const {
+    tasks,
+    updateTask,
+    toggleTaskCompletion,
+    snoozeTask,
+    reorderTasks,
+    setTaskSortMode,
+    bulkUpdateTasks,
+    bulkDeleteTasks,
+    settings,
+    smartLists,
+    subjects
+  } = useContext(AppContext);
   const [filter, setFilter] = useState('all');
+  const [viewMode, setViewMode] = useState<TaskViewMode>('list');
+  const [boardGrouping, setBoardGrouping] = useState<BoardGrouping>('status');
+  const [selectionMode, setSelectionMode] = useState(false);
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  const [bulkPanel, setBulkPanel] = useState<'subject' | 'priority' | 'shift' | null>(null);
+  const [shiftDays, setShiftDays] = useState(1);
+  const urgentWithinDays = settings.matrixUrgentDays ?? DEFAULT_URGENT_WITHIN_DAYS;
+
+  // Smart lists are selected with a "smart:<id>" filter
+  const pinnedSmartLists = smartLists.filter(smartList => smartList.pinned);
+  const activeSmartList = smartLists.find(smartList => filter === `smart:${smartList.id}`);
+
+  // Open a smart list when navigated to from the Dashboard
+  const requestedSmartListId = (route.params as { smartListId?: string } | undefined)?.smartListId;
+  useEffect(() => {
+    if (requestedSmartListId) {
+      setFilter(`smart:${requestedSmartListId}`);
+    }
+  }, [requestedSmartListId]);
+
+  // Open a specific view when navigated to with a view param, e.g. the matrix from the dashboard
+  const requestedView = (route.params as { view?: TaskViewMode } | undefined)?.view;
+  useEffect(() => {
+    if (requestedView) {
+      setViewMode(requestedView);
+    }
+  }, [requestedView]);
+
+  // Fall back to all tasks if the selected smart list was deleted
+  useEffect(() => {
+    if (filter.startsWith('smart:') && !activeSmartList) {
+      setFilter('all');
+    }
+  }, [filter, activeSmartList]);
 
   // Get enabled filters from settings
   const enabledFilters = settings.enabledFilters || {
@@ -30,11 +99,12 @@ const TasksScreen = () => {
     thisWeek: true,
     priority: true,
     completed: true,
-    archived: false
+    archived: false,
+    blocked: true
   };
 
   // Filter tasks based on selected filter
-  const filteredTasks = tasks.filter(task => {
+  const filteredTasks = activeSmartList ? filterTasksByQuery(tasks, activeSmartList.query) : tasks.filter(task => {
     if (task.archived && filter !== 'archived') return false;
     if (!task.dueDate) return filter === 'all' || filter === 'archived' && task.archived;
 
@@ -54,6 +124,8 @@ const TasksScreen = () => {
         return !task.completed && task.progress && task.progress > 0 && task.progress < 100;
       case 'priority':
         return !task.completed && task.priority === 'high';
+      case 'blocked':
+        return !task.completed && isTaskBlocked(task, tasks);
       case 'thisWeek': {
         const weekEnd = new Date();
         weekEnd.setDate(now.getDate() + (7 - now.getDay()));
@@ -68,8 +140,12 @@ const TasksScreen = () => {
     }
   });
 
+  // Each filter remembers its own sort mode
+  const sortMode = settings.taskSortModes?.[filter] ?? DEFAULT_SORT_MODE;
+  const sortedTasks = sortTasks(filteredTasks, sortMode);
+
   // Group tasks by subject
-  const groupedTasks = filteredTasks.reduce((acc, task) => {
+  const groupedTasks = sortedTasks.reduce((acc, task) => {
     const subject = task.subject || 'Other';
 
     if (!acc[subject]) {
@@ -89,27 +165,166 @@ const TasksScreen = () => {
   // Sort sections alphabetically
   sections.sort((a, b) => a.subject.localeCompare(b.subject));
 
+  // Only tasks visible in the current filter can be acted on
+  const selectedTasks = filteredTasks.filter(task => selectedIds.includes(task.id));
+  const allSelected = filteredTasks.length > 0 && selectedTasks.length === filteredTasks.length;
+  const allSelectedCompleted = selectedTasks.length > 0 && selectedTasks.every(task => task.completed);
+  const allSelectedArchived = selectedTasks.length > 0 && selectedTasks.every(task => task.archived);
+
+  const startSelection = () => {
+    setViewMode('list');
+    setSelectionMode(true);
+  };
+
+  const exitSelection = () => {
+    setSelectionMode(false);
+    setSelectedIds([]);
+    setBulkPanel(null);
+  };
+
+  const toggleSelectAll = () => {
+    setSelectedIds(allSelected ? [] : filteredTasks.map(task => task.id));
+  };
+
+  const applyBulkAction = (action: BulkTaskAction) => {
+    bulkUpdateTasks(selectedTasks.map(task => task.id), action);
+    setSelectedIds([]);
+    setBulkPanel(null);
+  };
+
+  const confirmBulkDelete = () => {
+    const count = selectedTasks.length;
+    Alert.alert(
+      'Delete Tasks',
+      `Are you sure you want to delete ${count} ${count === 1 ? 'task' : 'tasks'}?`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Delete',
+          style: 'destructive',
+          onPress: () => {
+            bulkDeleteTasks(selectedTasks.map(task => task.id));
+            setSelectedIds([]);
+            setBulkPanel(null);
+          }
+        }
+      ]
+    );
+  };
+
+  const toggleBulkPanel = (panel: 'subject' | 'priority' | 'shift') => {
+    setBulkPanel(bulkPanel === panel ? null : panel);
+  };
+
+  // Move a board card to another column
+  const handleMoveTask = (task: any, column: BoardColumn<any>) => {
+    const updates = getColumnMoveUpdates(task, boardGrouping, column.key, column.title);
+    if (!updates) return;
+
+    // Completion goes through the toggle so stats, achievements and recurring tasks follow the move
+    const { completed, ...otherUpdates } = updates;
+    if (completed !== undefined && completed !== task.completed) {
+      toggleTaskCompletion(task.id);
+    }
+    updateTask(task.id, otherUpdates);
+  };
+
+  // Move a task to another quadrant of the matrix
+  const handleMoveToQuadrant = (task: any, quadrant: MatrixQuadrant) => {
+    const updates = getQuadrantMoveUpdates(task, quadrant, urgentWithinDays);
+    if (updates) {
+      updateTask(task.id, updates);
+    }
+  };
+
+  const renderTaskItem = (task: any) => (
+    <TaskItem
+      key={task.id}
+      task={task}
+      onPress={() => navigation.navigate('TaskDetail', { taskId: task.id })}
+      updateTask={updateTask}
+      toggleCompletion={() => toggleTaskCompletion(task.id)}
+      onSnooze={(option: SnoozeOption, pickedDate?: Date) => snoozeTask(task.id, option, pickedDate)}
+      theme={theme}
+      isBlocked={isTaskBlocked(task, tasks)}
+      selectionMode={selectionMode}
+      selected={selectedIds.includes(task.id)}
+      onToggleSelect={() => setSelectedIds(toggleSelection(selectedIds, task.id))}
+    />
+  );
+
+  // Manual order, drag a task by its handle to move it
+  const renderDraggableTask = ({ item, drag, isActive }: RenderItemParams<any>) => (
+    <View style={[styles.draggableRow, isActive && styles.draggableRowActive]}>
+      <TouchableOpacity style={styles.dragHandle} onLongPress={drag} delayLongPress={150} disabled={isActive}>
+        <Ionicons name="reorder-three" size={24} color={theme.textSecondary} />
+      </TouchableOpacity>
+      <View style={styles.draggableItem}>{renderTaskItem(item)}</View>
+    </View>
+  );
+
   return (
     <SafeAreaView style={[styles.container, { backgroundColor: theme.background }]}>
       <StatusBar backgroundColor={theme.background} barStyle={theme.statusBar} />
 
-      <View style={styles.header}>
-        <Text style={[styles.title, { color: theme.text }]}>Tasks</Text>
-        <View style={styles.headerButtons}>
-          <TouchableOpacity
-            style={[styles.filterSettingsButton, { backgroundColor: theme.primaryLight }]}
-            onPress={() => navigation.navigate('Settings', { section: 'taskFilters' })}
-          >
-            <Ionicons name="options-outline" size={22} color={theme.primary} />
-          </TouchableOpacity>
-          <TouchableOpacity
-            style={[styles.addButton, { backgroundColor: theme.primary }]}
-            onPress={() => navigation.navigate('AddTask')}
-          >
-            <Ionicons name="add" size={24} color="#FFFFFF" />
-          </TouchableOpacity>
+      {selectionMode ? (
+        <View style={styles.header}>
+          <Text style={[styles.title, { color: theme.text }]}>{selectedTasks.length} Selected</Text>
+          <View style={styles.headerButtons}>
+            <TouchableOpacity
+              style={[styles.selectAllButton, { backgroundColor: theme.primaryLight }]}
+              onPress={toggleSelectAll}
+              disabled={filteredTasks.length === 0}
+            >
+              <Text style={[styles.selectAllText, { color: theme.primary }]}>
+                {allSelected ? 'Select None' : 'Select All'}
+              </Text>
+            </TouchableOpacity>
+            <TouchableOpacity
+              style={[styles.addButton, { backgroundColor: theme.primary }]}
+              onPress={exitSelection}
+            >
+              <Ionicons name="close" size={24} color="#FFFFFF" />
+            </TouchableOpacity>
+          </View>
         </View>
-      </View>
+      ) : (
+        <View style={styles.header}>
+          <Text style={[styles.title, { color: theme.text }]}>Tasks</Text>
+          <View style={styles.headerButtons}>
+            <TouchableOpacity
+              style={[styles.filterSettingsButton, { backgroundColor: theme.primaryLight }]}
+              onPress={startSelection}
+            >
+              <Ionicons name="checkmark-done-outline" size={22} color={theme.primary} />
+            </TouchableOpacity>
+            <TouchableOpacity
+              style={[styles.filterSettingsButton, { backgroundColor: theme.primaryLight }]}
+              onPress={() => setViewMode(NEXT_VIEW_MODE[viewMode])}
+            >
+              <Ionicons name={VIEW_MODE_ICONS[NEXT_VIEW_MODE[viewMode]]} size={22} color={theme.primary} />
+            </TouchableOpacity>
+            <TouchableOpacity
+              style={[styles.filterSettingsButton, { backgroundColor: theme.primaryLight }]}
+              onPress={() => navigation.navigate('Templates')}
+            >
+              <Ionicons name="duplicate-outline" size={22} color={theme.primary} />
+            </TouchableOpacity>
+            <TouchableOpacity
+              style={[styles.filterSettingsButton, { backgroundColor: theme.primaryLight }]}
+              onPress={() => navigation.navigate('Settings', { section: 'taskFilters' })}
+            >
+              <Ionicons name="options-outline" size={22} color={theme.primary} />
+            </TouchableOpacity>
+            <TouchableOpacity
+              style={[styles.addButton, { backgroundColor: theme.primary }]}
+              onPress={() => navigation.navigate('AddTask')}
+            >
+              <Ionicons name="add" size={24} color="#FFFFFF" />
+            </TouchableOpacity>
+          </View>
+        </View>
+      )}
 
       <View style={styles.filterSection}>
         <Text style={[styles.filterSectionTitle, { color: theme.text }]}>Filter Tasks</Text>
@@ -241,6 +456,24 @@ const TasksScreen = () => {
             </TouchableOpacity>
           )}
 
+          {enabledFilters.blocked && (
+            <TouchableOpacity
+              style={[
+                styles.filterCard,
+                { backgroundColor: filter === 'blocked' ? theme.warning : `${theme.warning}20` }
+              ]}
+              onPress={() => setFilter('blocked')}
+            >
+              <Ionicons name="lock-closed" size={22} color={filter === 'blocked' ? '#FFFFFF' : theme.warning} />
+              <Text style={[
+                styles.filterCardText,
+                { color: filter === 'blocked' ? '#FFFFFF' : theme.warning }
+              ]}>
+                Blocked
+              </Text>
+            </TouchableOpacity>
+          )}
+
           {enabledFilters.completed && (
             <TouchableOpacity
               style={[
@@ -277,25 +510,129 @@ const TasksScreen = () => {
             </TouchableOpacity>
           )}
         </View>
+
+        <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={styles.smartListChips}>
+          {pinnedSmartLists.map(smartList => (
+            <TouchableOpacity
+              key={smartList.id}
+              style={[
+                styles.smartListChip,
+                { backgroundColor: activeSmartList?.id === smartList.id ? theme.primary : theme.primaryLight }
+              ]}
+              onPress={() => setFilter(`smart:${smartList.id}`)}
+            >
+              <Ionicons
+                name="funnel"
+                size={14}
+                color={activeSmartList?.id === smartList.id ? '#FFFFFF' : theme.primary}
+              />
+              <Text style={[
+                styles.smartListChipText,
+                { color: activeSmartList?.id === smartList.id ? '#FFFFFF' : theme.primary }
+              ]}>
+                {smartList.name}
+              </Text>
+            </TouchableOpacity>
+          ))}
+
+          <TouchableOpacity
+            style={[styles.smartListChip, { borderColor: theme.primary, borderWidth: 1 }]}
+            onPress={() => navigation.navigate('SmartLists')}
+          >
+            <Ionicons name={pinnedSmartLists.length > 0 ? 'create-outline' : 'add'} size={14} color={theme.primary} />
+            <Text style={[styles.smartListChipText, { color: theme.primary }]}>
+              {pinnedSmartLists.length > 0 ? 'Edit Lists' : 'Smart List'}
+            </Text>
+          </TouchableOpacity>
+        </ScrollView>
+
+        {viewMode === 'list' && (
+          <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={styles.groupingToggle}>
+            {TASK_SORT_MODES.map(mode => (
+              <TouchableOpacity
+                key={mode.key}
+                style={[
+                  styles.groupingOption,
+                  { backgroundColor: sortMode === mode.key ? theme.primary : theme.primaryLight }
+                ]}
+                onPress={() => setTaskSortMode(filter, mode.key)}
+              >
+                <Text style={[
+                  styles.groupingOptionText,
+                  { color: sortMode === mode.key ? '#FFFFFF' : theme.primary }
+                ]}>
+                  {mode.label}
+                </Text>
+              </TouchableOpacity>
+            ))}
+          </ScrollView>
+        )}
       </View>
 
-      {sections.length > 0 ? (
+      {viewMode === 'board' ? (
+        <ScrollView>
+          <View style={styles.groupingToggle}>
+            {(['status', 'subject'] as BoardGrouping[]).map(grouping => (
+              <TouchableOpacity
+                key={grouping}
+                style={[
+                  styles.groupingOption,
+                  { backgroundColor: boardGrouping === grouping ? theme.primary : theme.primaryLight }
+                ]}
+                onPress={() => setBoardGrouping(grouping)}
+              >
+                <Text style={[
+                  styles.groupingOptionText,
+                  { color: boardGrouping === grouping ? '#FFFFFF' : theme.primary }
+                ]}>
+                  {grouping === 'status' ? 'By Status' : 'By Subject'}
+                </Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+
+          <TaskBoard
+            tasks={sortedTasks}
+            grouping={boardGrouping}
+            subjects={subjects.map(subject => subject.name)}
+            onMoveTask={handleMoveTask}
+            onPressTask={task => navigation.navigate('TaskDetail', { taskId: task.id })}
+          />
+        </ScrollView>
+      ) : viewMode === 'matrix' ? (
+        <TaskMatrix
+          tasks={filteredTasks}
+          urgentWithinDays={urgentWithinDays}
+          onMoveTask={handleMoveToQuadrant}
+          onPressTask={task => navigation.navigate('TaskDetail', { taskId: task.id })}
+        />
+      ) : sortedTasks.length > 0 && sortMode === 'manual' && !selectionMode ? (
+        <DraggableFlatList
+          data={sortedTasks}
+          keyExtractor={item => item.id}
+          renderItem={renderDraggableTask}
+          onDragEnd={({ data, from, to }) => {
+            if (from !== to) {
+              reorderTasks(data.map(task => task.id), data[to].id);
+            }
+          }}
+          contentContainerStyle={styles.section}
+        />
+      ) : sortedTasks.length > 0 && sortMode !== 'subject' ? (
+        <FlatList
+          data={sortedTasks}
+          keyExtractor={item => item.id}
+          renderItem={({ item }) => renderTaskItem(item)}
+          contentContainerStyle={styles.section}
+        />
+      ) : sections.length > 0 ? (
         <FlatList
           data={sections}
           keyExtractor={(item) => item.subject}
           renderItem={({ item }) => (
             <View style={styles.section}>
               <Text style={[styles.sectionTitle, { color: theme.textSecondary }]}>{item.subject}</Text>
-              {item.data.map(task => (
-                <TaskItem
-                  key={task.id}
-                  task={task}
-                  onPress={() => navigation.navigate('TaskDetail', { taskId: task.id })}
-                  updateTask={updateTask}
-                  toggleCompletion={() => toggleTaskCompletion(task.id)}
-                  theme={theme}
-                />
-              ))}
+              {item.data.map(renderTaskItem)}
             </View>
           )}
         />
@@ -306,7 +643,9 @@ const TasksScreen = () => {
           <Text style={[styles.emptyStateText, { color: theme.textSecondary }]}>
             {filter === 'all'
               ? "You don't have any tasks yet"
-              : `You don't have any ${filter} tasks`}
+              : activeSmartList
+                ? `No tasks match "${activeSmartList.name}"`
+                : `You don't have any ${filter} tasks`}
           </Text>
           <TouchableOpacity
             style={[styles.emptyStateButton, { backgroundColor: theme.primary }]}
@@ -316,6 +655,125 @@ const TasksScreen = () => {
           </TouchableOpacity>
         </View>
       )}
+
+      {selectionMode && (
+        <View style={[styles.bulkBar, { backgroundColor: theme.card, borderTopColor: theme.border }]}>
+          {bulkPanel === 'subject' && (
+            <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={styles.bulkPanel}>
+              {subjects.map(subject => (
+                <TouchableOpacity
+                  key={subject.id}
+                  style={[styles.bulkChip, { backgroundColor: theme.primaryLight }]}
+                  onPress={() => applyBulkAction({ type: 'subject', subject: subject.name })}
+                >
+                  <Text style={[styles.bulkChipText, { color: theme.primary }]}>{subject.name}</Text>
+                </TouchableOpacity>
+              ))}
+            </ScrollView>
+          )}
+
+          {bulkPanel === 'priority' && (
+            <View style={styles.bulkPanel}>
+              {(['low', 'medium', 'high'] as BulkPriority[]).map(priority => (
+                <TouchableOpacity
+                  key={priority}
+                  style={[styles.bulkChip, { backgroundColor: theme.primaryLight }]}
+                  onPress={() => applyBulkAction({ type: 'priority', priority })}
+                >
+                  <Text style={[styles.bulkChipText, { color: theme.primary }]}>
+                    {priority.charAt(0).toUpperCase() + priority.slice(1)}
+                  </Text>
+                </TouchableOpacity>
+              ))}
+            </View>
+          )}
+
+          {bulkPanel === 'shift' && (
+            <View style={styles.bulkPanel}>
+              <TouchableOpacity
+                style={[styles.stepperButton, { backgroundColor: theme.primaryLight }]}
+                onPress={() => setShiftDays(shiftDays === 1 ? -1 : shiftDays - 1)}
+              >
+                <Ionicons name="remove" size={20} color={theme.primary} />
+              </TouchableOpacity>
+              <Text style={[styles.stepperValue, { color: theme.text }]}>
+                {shiftDays > 0 ? `+${shiftDays}` : shiftDays} {Math.abs(shiftDays) === 1 ? 'day' : 'days'}
+              </Text>
+              <TouchableOpacity
+                style={[styles.stepperButton, { backgroundColor: theme.primaryLight }]}
+                onPress={() => setShiftDays(shiftDays === -1 ? 1 : shiftDays + 1)}
+              >
+                <Ionicons name="add" size={20} color={theme.primary} />
+              </TouchableOpacity>
+              <TouchableOpacity
+                style={[styles.bulkChip, { backgroundColor: theme.primary }]}
+                onPress={() => applyBulkAction({ type: 'shiftDueDate', days: shiftDays })}
+              >
+                <Text style={[styles.bulkChipText, { color: '#FFFFFF' }]}>Move Due Dates</Text>
+              </TouchableOpacity>
+            </View>
+          )}
+
+          <View style={[styles.bulkActions, selectedTasks.length === 0 && styles.bulkActionsDisabled]}>
+            <TouchableOpacity
+              style={styles.bulkAction}
+              disabled={selectedTasks.length === 0}
+              onPress={() => applyBulkAction({ type: allSelectedCompleted ? 'uncomplete' : 'complete' })}
+            >
+              <Ionicons
+                name={allSelectedCompleted ? 'close-circle-outline' : 'checkmark-circle-outline'}
+                size={22}
+                color={theme.success}
+              />
+              <Text style={[styles.bulkActionText, { color: theme.text }]}>
+                {allSelectedCompleted ? 'Reopen' : 'Complete'}
+              </Text>
+            </TouchableOpacity>
+            <TouchableOpacity
+              style={styles.bulkAction}
+              disabled={selectedTasks.length === 0}
+              onPress={() => applyBulkAction({ type: allSelectedArchived ? 'unarchive' : 'archive' })}
+            >
+              <Ionicons name={allSelectedArchived ? 'arrow-undo-outline' : 'archive-outline'} size={22} color={theme.textSecondary} />
+              <Text style={[styles.bulkActionText, { color: theme.text }]}>
+                {allSelectedArchived ? 'Unarchive' : 'Archive'}
+              </Text>
+            </TouchableOpacity>
+            <TouchableOpacity
+              style={styles.bulkAction}
+              disabled={selectedTasks.length === 0}
+              onPress={() => toggleBulkPanel('subject')}
+            >
+              <Ionicons name="pricetag-outline" size={22} color={theme.primary} />
+              <Text style={[styles.bulkActionText, { color: theme.text }]}>Subject</Text>
+            </TouchableOpacity>
+            <TouchableOpacity
+              style={styles.bulkAction}
+              disabled={selectedTasks.length === 0}
+              onPress={() => toggleBulkPanel('priority')}
+            >
+              <Ionicons name="flag-outline" size={22} color={theme.warning} />
+              <Text style={[styles.bulkActionText, { color: theme.text }]}>Priority</Text>
+            </TouchableOpacity>
+            <TouchableOpacity
+              style={styles.bulkAction}
+              disabled={selectedTasks.length === 0}
+              onPress={() => toggleBulkPanel('shift')}
+            >
+              <Ionicons name="calendar-outline" size={22} color={theme.primary} />
+              <Text style={[styles.bulkActionText, { color: theme.text }]}>Due Date</Text>
+            </TouchableOpacity>
+            <TouchableOpacity
+              style={styles.bulkAction}
+              disabled={selectedTasks.length === 0}
+              onPress={confirmBulkDelete}
+            >
+              <Ionicons name="trash-outline" size={22} color={theme.danger} />
+              <Text style={[styles.bulkActionText, { color: theme.text }]}>Delete</Text>
+            </TouchableOpacity>
+          </View>
+        </View>
+      )}
     </SafeAreaView>
   );
 };
@@ -346,6 +804,17 @@ const styles = StyleSheet.create({
     alignItems: 'center',
     marginRight: 8,
   },
+  selectAllButton: {
+    borderRadius: 20,
+    paddingHorizontal: 14,
+    height: 40,
+    justifyContent: 'center',
+    marginRight: 8,
+  },
+  selectAllText: {
+    fontSize: 14,
+    fontWeight: '600',
+  },
   addButton: {
     width: 40,
     height: 40,
@@ -386,10 +855,56 @@ const styles = StyleSheet.create({
     marginTop: 5,
     textAlign: 'center',
   },
+  smartListChips: {
+    alignItems: 'center',
+  },
+  smartListChip: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    borderRadius: 16,
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    marginRight: 8,
+  },
+  smartListChipText: {
+    fontSize: 13,
+    fontWeight: '500',
+    marginLeft: 4,
+  },
+  groupingToggle: {
+    flexDirection: 'row',
+    paddingHorizontal: 16,
+    marginBottom: 12,
+  },
+  groupingOption: {
+    borderRadius: 16,
+    paddingHorizontal: 14,
+    paddingVertical: 6,
+    marginRight: 8,
+  },
+  groupingOptionText: {
+    fontSize: 13,
+    fontWeight: '500',
+  },
   section: {
     marginBottom: 16,
     paddingHorizontal: 16,
   },
+  draggableRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  draggableRowActive: {
+    opacity: 0.9,
+    transform: [{ scale: 1.02 }],
+  },
+  dragHandle: {
+    paddingRight: 8,
+    paddingBottom: 8,
+  },
+  draggableItem: {
+    flex: 1,
+  },
   sectionTitle: {
     fontSize: 16,
     fontWeight: 'bold',
@@ -421,6 +936,55 @@ const styles = StyleSheet.create({
     color: '#FFFFFF',
     fontWeight: 'bold',
   },
+  bulkBar: {
+    borderTopWidth: StyleSheet.hairlineWidth,
+    paddingHorizontal: 8,
+    paddingVertical: 8,
+  },
+  bulkPanel: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingBottom: 8,
+  },
+  bulkChip: {
+    borderRadius: 20,
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    margin: 4,
+  },
+  bulkChipText: {
+    fontSize: 14,
+    fontWeight: '500',
+  },
+  stepperButton: {
+    width: 32,
+    height: 32,
+    borderRadius: 16,
+    justifyContent: 'center',
+    alignItems: 'center',
+    marginHorizontal: 4,
+  },
+  stepperValue: {
+    minWidth: 64,
+    fontSize: 15,
+    fontWeight: '600',
+    textAlign: 'center',
+  },
+  bulkActions: {
+    flexDirection: 'row',
+    justifyContent: 'space-around',
+  },
+  bulkActionsDisabled: {
+    opacity: 0.4,
+  },
+  bulkAction: {
+    alignItems: 'center',
+    paddingHorizontal: 4,
+  },
+  bulkActionText: {
+    fontSize: 11,
+    marginTop: 2,
+  },
 });
 
 export default TasksScreen;
\ No newline at end of file
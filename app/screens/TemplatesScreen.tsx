@@ -0,0 +1,443 @@
+import { Ionicons } from '@expo/vector-icons';
+import { useContext, useMemo, useState } from 'react';
+import {
+  Alert,
+  ScrollView,
+  StyleSheet,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  View
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import ApplyTemplateModal from '../components/ApplyTemplateModal';
+import { AppContext } from '../context/AppContext';
+import { useTheme } from '../context/ThemeContext';
+import {
+  createTemplateItem,
+  describeOffset,
+  EXAMPLE_TEMPLATE,
+  TemplateItem,
+  TemplatePriority
+} from '../utils/TaskTemplates';
+
+const PRIORITY_ORDER: TemplatePriority[] = ['low', 'medium', 'high'];
+
+const TemplatesScreen = () => {
+  const { theme } = useTheme();
+  const {
+    subjects,
+    taskTemplates,
+    addTaskTemplate,
+    updateTaskTemplate,
+    deleteTaskTemplate,
+    applyTaskTemplate
+  } = useContext(AppContext);
+
+  // Form state, editingId is null when creating a new template
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [name, setName] = useState('');
+  const [subject, setSubject] = useState('');
+  const [items, setItems] = useState<TemplateItem[]>([createTemplateItem(-1)]);
+
+  // Template being applied, the modal is only mounted while this is set
+  const [applyingId, setApplyingId] = useState<string | null>(null);
+
+  const subjectNames = useMemo(() => subjects.map(item => item.name), [subjects]);
+
+  const getPriorityColor = (priority: TemplatePriority) => {
+    switch (priority) {
+      case 'high':
+        return theme.danger;
+      case 'medium':
+        return theme.warning;
+      default:
+        return theme.success;
+    }
+  };
+
+  const resetForm = () => {
+    setEditingId(null);
+    setName('');
+    setSubject('');
+    setItems([createTemplateItem(-1)]);
+  };
+
+  const handleEdit = (id: string) => {
+    const template = taskTemplates.find(item => item.id === id);
+    if (!template) return;
+
+    setEditingId(template.id);
+    setName(template.name);
+    setSubject(template.subject || '');
+    setItems(template.items.map(item => ({ ...item })));
+  };
+
+  const updateItem = (id: string, updates: Partial<TemplateItem>) => {
+    setItems(items.map(item => (item.id === id ? { ...item, ...updates } : item)));
+  };
+
+  const handleSave = () => {
+    if (!name.trim()) {
+      Alert.alert('Error', 'Please enter a name for the template');
+      return;
+    }
+
+    const namedItems = items.filter(item => item.title.trim());
+    if (namedItems.length === 0) {
+      Alert.alert('Error', 'Add at least one task with a title');
+      return;
+    }
+
+    const template = { name: name.trim(), subject: subject || undefined, items: namedItems };
+    if (editingId) {
+      updateTaskTemplate(editingId, template);
+    } else {
+      addTaskTemplate(template);
+    }
+
+    resetForm();
+  };
+
+  const handleDelete = (id: string, templateName: string) => {
+    Alert.alert(
+      'Delete Template',
+      `Are you sure you want to delete "${templateName}"? Tasks already created from it will be kept.`,
+      [
+        {
+          text: 'Cancel',
+          style: 'cancel'
+        },
+        {
+          text: 'Delete',
+          style: 'destructive',
+          onPress: () => {
+            if (editingId === id) resetForm();
+            deleteTaskTemplate(id);
+          }
+        }
+      ]
+    );
+  };
+
+  const handleApply = (templateId: string, anchorDate: Date, templateSubject?: string) => {
+    const created = applyTaskTemplate(templateId, anchorDate, { subject: templateSubject });
+    setApplyingId(null);
+    Alert.alert('Tasks Created', `${created} ${created === 1 ? 'task was' : 'tasks were'} added to your list.`);
+  };
+
+  return (
+    <SafeAreaView style={[styles.container, { backgroundColor: theme.background }]} edges={['bottom']}>
+      <ScrollView contentContainerStyle={styles.content} keyboardShouldPersistTaps="handled">
+        <View style={[styles.section, { backgroundColor: theme.card }]}>
+          <Text style={[styles.sectionTitle, { color: theme.text }]}>Your Templates</Text>
+
+          {taskTemplates.length === 0 ? (
+            <>
+              <Text style={[styles.emptyText, { color: theme.textSecondary }]}>
+                Templates turn a set of tasks you repeat for every unit into one step.
+              </Text>
+              <TouchableOpacity
+                style={[styles.secondaryButton, styles.exampleButton, { borderColor: theme.primary }]}
+                onPress={() => addTaskTemplate(EXAMPLE_TEMPLATE)}
+              >
+                <Text style={[styles.secondaryButtonText, { color: theme.primary }]}>Add Example Template</Text>
+              </TouchableOpacity>
+            </>
+          ) : (
+            taskTemplates.map(template => (
+              <View key={template.id} style={[styles.listRow, { borderBottomColor: theme.border }]}>
+                <TouchableOpacity style={styles.listInfo} onPress={() => handleEdit(template.id)}>
+                  <Text style={[styles.listName, { color: theme.text }]}>{template.name}</Text>
+                  <Text style={[styles.listMeta, { color: theme.textSecondary }]} numberOfLines={1}>
+                    {template.items.length} {template.items.length === 1 ? 'task' : 'tasks'}
+                    {template.subject ? ` · ${template.subject}` : ''}
+                  </Text>
+                </TouchableOpacity>
+
+                <TouchableOpacity style={styles.iconButton} onPress={() => setApplyingId(template.id)}>
+                  <Ionicons name="duplicate-outline" size={22} color={theme.primary} />
+                </TouchableOpacity>
+                <TouchableOpacity style={styles.iconButton} onPress={() => handleDelete(template.id, template.name)}>
+                  <Ionicons name="trash-outline" size={20} color={theme.danger} />
+                </TouchableOpacity>
+              </View>
+            ))
+          )}
+        </View>
+
+        <View style={[styles.section, { backgroundColor: theme.card }]}>
+          <Text style={[styles.sectionTitle, { color: theme.text }]}>
+            {editingId ? 'Edit Template' : 'New Template'}
+          </Text>
+
+          <TextInput
+            style={[styles.input, { backgroundColor: theme.background, color: theme.text, borderColor: theme.border }]}
+            value={name}
+            onChangeText={setName}
+            placeholder="Name, e.g. Unit Study Plan"
+            placeholderTextColor={theme.textSecondary}
+          />
+
+          <Text style={[styles.label, { color: theme.text }]}>Default Subject</Text>
+          <View style={styles.chipRow}>
+            {subjectNames.map(subjectName => (
+              <TouchableOpacity
+                key={subjectName}
+                style={[styles.chip, { backgroundColor: subject === subjectName ? theme.primary : theme.primaryLight }]}
+                onPress={() => setSubject(subject === subjectName ? '' : subjectName)}
+              >
+                <Text style={[styles.chipText, { color: subject === subjectName ? '#FFFFFF' : theme.primary }]}>
+                  {subjectName}
+                </Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+
+          <Text style={[styles.label, { color: theme.text }]}>Tasks</Text>
+          {items.map(item => (
+            <View key={item.id} style={[styles.itemRow, { borderColor: theme.border }]}>
+              <View style={styles.itemHeader}>
+                <TextInput
+                  style={[styles.itemTitleInput, { color: theme.text, borderBottomColor: theme.border }]}
+                  value={item.title}
+                  onChangeText={title => updateItem(item.id, { title })}
+                  placeholder="Task title"
+                  placeholderTextColor={theme.textSecondary}
+                />
+                <TouchableOpacity
+                  style={styles.iconButton}
+                  onPress={() => setItems(items.filter(i => i.id !== item.id))}
+                  disabled={items.length === 1}
+                >
+                  <Ionicons name="close-circle-outline" size={20} color={items.length === 1 ? theme.border : theme.danger} />
+                </TouchableOpacity>
+              </View>
+
+              <View style={styles.itemControls}>
+                <TouchableOpacity
+                  style={[styles.stepperButton, { backgroundColor: theme.primaryLight }]}
+                  onPress={() => updateItem(item.id, { offsetDays: item.offsetDays - 1 })}
+                >
+                  <Ionicons name="remove" size={16} color={theme.primary} />
+                </TouchableOpacity>
+                <Text style={[styles.offsetText, { color: theme.text }]}>{describeOffset(item.offsetDays)}</Text>
+                <TouchableOpacity
+                  style={[styles.stepperButton, { backgroundColor: theme.primaryLight }]}
+                  onPress={() => updateItem(item.id, { offsetDays: item.offsetDays + 1 })}
+                >
+                  <Ionicons name="add" size={16} color={theme.primary} />
+                </TouchableOpacity>
+
+                <TouchableOpacity
+                  style={[styles.priorityChip, { backgroundColor: `${getPriorityColor(item.priority)}20` }]}
+                  onPress={() => updateItem(item.id, {
+                    priority: PRIORITY_ORDER[(PRIORITY_ORDER.indexOf(item.priority) + 1) % PRIORITY_ORDER.length]
+                  })}
+                >
+                  <Text style={[styles.priorityText, { color: getPriorityColor(item.priority) }]}>
+                    {item.priority.charAt(0).toUpperCase() + item.priority.slice(1)}
+                  </Text>
+                </TouchableOpacity>
+              </View>
+            </View>
+          ))}
+
+          <TouchableOpacity
+            style={styles.addItemButton}
+            onPress={() => setItems([...items, createTemplateItem(items[items.length - 1]?.offsetDays ?? 0)])}
+          >
+            <Ionicons name="add-circle-outline" size={20} color={theme.primary} />
+            <Text style={[styles.addItemText, { color: theme.primary }]}>Add Task</Text>
+          </TouchableOpacity>
+
+          <View style={styles.formActions}>
+            {editingId && (
+              <TouchableOpacity
+                style={[styles.secondaryButton, { borderColor: theme.primary }]}
+                onPress={resetForm}
+              >
+                <Text style={[styles.secondaryButtonText, { color: theme.primary }]}>Cancel</Text>
+              </TouchableOpacity>
+            )}
+            <TouchableOpacity
+              style={[styles.primaryButton, { backgroundColor: theme.primary }]}
+              onPress={handleSave}
+            >
+              <Text style={styles.primaryButtonText}>{editingId ? 'Save Changes' : 'Add Template'}</Text>
+            </TouchableOpacity>
+          </View>
+        </View>
+      </ScrollView>
+
+      {applyingId && (
+        <ApplyTemplateModal
+          templates={taskTemplates}
+          subjects={subjectNames}
+          title="Create Tasks from Template"
+          initialTemplateId={applyingId}
+          initialDate={new Date()}
+          onApply={handleApply}
+          onClose={() => setApplyingId(null)}
+        />
+      )}
+    </SafeAreaView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  content: {
+    padding: 16,
+  },
+  section: {
+    borderRadius: 12,
+    padding: 16,
+    marginBottom: 16,
+    elevation: 2,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 1 },
+    shadowOpacity: 0.1,
+    shadowRadius: 2,
+  },
+  sectionTitle: {
+    fontSize: 18,
+    fontWeight: 'bold',
+    marginBottom: 12,
+  },
+  label: {
+    fontSize: 16,
+    fontWeight: '500',
+    marginTop: 8,
+    marginBottom: 8,
+  },
+  input: {
+    borderRadius: 8,
+    padding: 12,
+    fontSize: 16,
+    borderWidth: 1,
+    marginBottom: 8,
+  },
+  emptyText: {
+    fontSize: 14,
+  },
+  exampleButton: {
+    alignSelf: 'flex-start',
+    marginTop: 12,
+  },
+  listRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 10,
+    borderBottomWidth: StyleSheet.hairlineWidth,
+  },
+  listInfo: {
+    flex: 1,
+  },
+  listName: {
+    fontSize: 16,
+    fontWeight: '500',
+  },
+  listMeta: {
+    fontSize: 12,
+    marginTop: 2,
+  },
+  iconButton: {
+    padding: 6,
+  },
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+  },
+  chip: {
+    borderRadius: 20,
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    margin: 4,
+  },
+  chipText: {
+    fontSize: 14,
+    fontWeight: '500',
+  },
+  itemRow: {
+    borderWidth: 1,
+    borderRadius: 8,
+    padding: 10,
+    marginBottom: 8,
+  },
+  itemHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  itemTitleInput: {
+    flex: 1,
+    fontSize: 16,
+    paddingVertical: 6,
+    borderBottomWidth: StyleSheet.hairlineWidth,
+  },
+  itemControls: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginTop: 8,
+  },
+  stepperButton: {
+    width: 28,
+    height: 28,
+    borderRadius: 14,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  offsetText: {
+    fontSize: 14,
+    minWidth: 100,
+    textAlign: 'center',
+  },
+  priorityChip: {
+    borderRadius: 12,
+    paddingHorizontal: 10,
+    paddingVertical: 4,
+    marginLeft: 'auto',
+  },
+  priorityText: {
+    fontSize: 12,
+    fontWeight: '600',
+  },
+  addItemButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 8,
+  },
+  addItemText: {
+    fontSize: 15,
+    fontWeight: '500',
+    marginLeft: 6,
+  },
+  formActions: {
+    flexDirection: 'row',
+    justifyContent: 'flex-end',
+    marginTop: 8,
+  },
+  primaryButton: {
+    borderRadius: 8,
+    paddingVertical: 10,
+    paddingHorizontal: 16,
+  },
+  primaryButtonText: {
+    color: '#FFFFFF',
+    fontWeight: 'bold',
+  },
+  secondaryButton: {
+    borderRadius: 8,
+    borderWidth: 1,
+    paddingVertical: 10,
+    paddingHorizontal: 16,
+    marginRight: 8,
+  },
+  secondaryButtonText: {
+    fontWeight: 'bold',
+  },
+});
+
+export default TemplatesScreen;
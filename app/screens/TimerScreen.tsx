@@ -1,9 +1,13 @@
 import { Ionicons } from '@expo/vector-icons';
+import { useNavigation, useRoute } from '@react-navigation/native';
+import { activateKeepAwakeAsync, deactivateKeepAwake } from 'expo-keep-awake';
 import * as Notifications from 'expo-notifications';
-import { useCallback, useContext, useEffect, useRef, useState } from 'react';
-import { Animated, AppState, AppStateStatus, FlatList, Modal, StatusBar, StyleSheet, Text, TouchableOpacity, View } from 'react-native'; // Added AppStateStatus
+import { useCallback, useContext, useEffect, useMemo, useRef, useState } from 'react';
+import { Alert, Animated, AppState, AppStateStatus, BackHandler, FlatList, Modal, ScrollView, StatusBar, StyleSheet, Text, TextInput, TouchableOpacity, View } from 'react-native'; // Added AppStateStatus
 import { SafeAreaView } from 'react-native-safe-area-context';
+import AmbientMixerModal from '../components/AmbientMixerModal';
 import ProgressRing from '../components/ProgressRing';
+import SessionReflectionModal from '../components/SessionReflectionModal';
 import TaskSelectionItem from '../components/TaskSelectionItem';
 import { AppContext } from '../context/AppContext';
 import { useTheme } from '../context/ThemeContext';
@@ -15,7 +19,60 @@ import {
   unregisterTimerBackgroundTask
 } from '../services/TimerBackgroundTask';
 // Corrected import path
-import { cancelTimerNotification, sendTimerCompletionNotification, showTimerNotification } from '../services/NotificationService';
+import {
+  cancelTimerNotification,
+  cancelTimerPhaseNotifications,
+  scheduleTimerPhaseNotifications,
+  setFocusHold,
+  showTimerNotification
+} from '../services/NotificationService';
+import { pauseAmbientSounds, playAmbientMix, releaseAmbientSounds } from '../services/AmbientSoundPlayer';
+import { setFocusLock } from '../services/FocusLock';
+import { AmbientMix, formatMixSummary, getAmbientMix, isMixAudible } from '../utils/AmbientSounds';
+import {
+  DEFAULT_FLOWTIME_BREAK_RATIO,
+  formatElapsed,
+  getFlowtimeBreakMinutes,
+  getFlowtimeElapsed,
+  MIN_FLOWTIME_SESSION_SECONDS
+} from '../utils/Flowtime';
+import { Interruption, INTERRUPTION_TYPES, InterruptionType } from '../utils/Interruptions';
+import {
+  advanceCycle,
+  CycleMode,
+  CyclePhase,
+  describeCyclePosition,
+  getNextCycleStep,
+  getPhaseEndNotification,
+  getRemainingPhases,
+  getTimerNotificationContent
+} from '../utils/PomodoroCycle';
+import {
+  getSavedTimerFields,
+  getSecondsUntil,
+  getTimeLeft,
+  getTimerCompletionNotification,
+  pauseTimerRun,
+  restoreTimerRun,
+  resumeTimerRun,
+  startTimerRun,
+  TimerRun
+} from '../utils/TimerEngine';
+import {
+  DEFAULT_TIMER_PROFILES,
+  formatProfileSummary,
+  getSubjectProfile,
+  getTimerDurations,
+  TimerDurations
+} from '../utils/TimerProfiles';
+
+type TimerMode = 'pomodoro' | 'shortBreak' | 'longBreak' | 'flowtime';
+
+// Keeps the screen on during a focus session in focus mode
+const FOCUS_KEEP_AWAKE_TAG = 'focusSession';
+
+// The countdown is read off its end time, ticking faster than once a second keeps it from skipping a second
+const COUNTDOWN_TICK_MS = 250;
 
 const formatTime = (seconds: number) => {
   const mins = Math.floor(seconds / 60);
@@ -24,10 +81,29 @@ const formatTime = (seconds: number) => {
 };
 
 const TimerScreen = () => {
+  const route = useRoute();
+  const navigation = useNavigation();
   const { theme } = useTheme();
-  const { settings, tasks, subjects, stats, recordStudySession, updateTask } = useContext(AppContext);
+  const { settings, tasks, subjects, stats, recordStudySession, recordAbandonedSession, reflectOnSession, updateSettings, saveAmbientMix } = useContext(AppContext);
+
+  // Durations and ambient sounds come from the active profile, or the global settings without one
+  const timerProfiles = settings.timerProfiles ?? DEFAULT_TIMER_PROFILES;
+  const activeProfileId = settings.activeTimerProfileId ?? null;
+  const activeProfile = timerProfiles.find(profile => profile.id === activeProfileId);
+  const durations = useMemo(
+    () => getTimerDurations(settings, activeProfile),
+    [settings, activeProfile]
+  );
+  const ambientMix = useMemo(
+    () => getAmbientMix(settings.ambientMix, activeProfile),
+    [settings.ambientMix, activeProfile]
+  );
+  // Mix being set up in the mixer, it plays instead of the saved one while the mixer is open
+  const [mixPreview, setMixPreview] = useState<AmbientMix | null>(null);
+  const autoCycle = settings.autoCycle ?? false;
+  const focusMode = settings.focusMode ?? false;
 
-  const [timerMode, setTimerMode] = useState<'pomodoro' | 'shortBreak' | 'longBreak'>('pomodoro');
+  const [timerMode, setTimerMode] = useState<TimerMode>('pomodoro');
   const [timeLeft, setTimeLeft] = useState(0);
   const [isRunning, setIsRunning] = useState(false);
   const [completedPomodoros, setCompletedPomodoros] = useState(0);
@@ -38,14 +114,84 @@ const TimerScreen = () => {
   const appStateRef = useRef<AppStateStatus>(AppState.currentState); // Correctly typed
   const [currentNotificationId, setCurrentNotificationId] = useState<string | null>(null); // Added state for notification ID
 
+  // Flowtime counts up, elapsed time is derived from when the current run started
+  const [flowStartTime, setFlowStartTime] = useState<number | null>(null);
+  const [flowAccumulated, setFlowAccumulated] = useState(0); // Seconds studied before the current run
+  const [flowElapsed, setFlowElapsed] = useState(0); // Seconds shown on the timer
+  const [flowBreakMinutes, setFlowBreakMinutes] = useState<number | null>(null); // Break suggested after a Flowtime session
+
+  // Interruptions and pauses of the current focus session, saved with the session
+  const [interruptions, setInterruptions] = useState<Interruption[]>([]);
+  const [pausedSeconds, setPausedSeconds] = useState(0);
+  const [pausedAt, setPausedAt] = useState<number | null>(null);
+  const [showNoteInput, setShowNoteInput] = useState(false);
+  const [noteDraft, setNoteDraft] = useState('');
+  const isFocusMode = timerMode === 'pomodoro' || timerMode === 'flowtime';
+  // Focus mode holds the user on a running focus session until its break
+  const isFocusLocked = focusMode && isFocusMode && isRunning;
+
+  // Where the countdown sits in the Pomodoro cycle, a break suggested after Flowtime isn't part of it
+  const cyclePosition = timerMode !== 'flowtime' && flowBreakMinutes === null
+    ? describeCyclePosition(timerMode, completedPomodoros, durations.longBreakInterval)
+    : undefined;
+  const isCycling = autoCycle && cyclePosition !== undefined;
+
+  // Auto-cycle: phase notifications scheduled ahead, the end of the last phase handled, and the
+  // time left of a phase picked up part way, which switching mode would reset to its full length
+  const phaseNotificationIdsRef = useRef<string[]>([]);
+  const lastHandledPhaseEndRef = useRef(0);
+  const resumedTimeLeftRef = useRef<number | null>(null);
+
+  // Run as it was last paused, so resuming picks up the part second the display rounds away
+  const pausedRunRef = useRef<TimerRun | null>(null);
+
+  // Recorded session the user is asked to reflect on, a Flowtime break is suggested afterwards
+  const [pendingReflection, setPendingReflection] = useState<{
+    sessionId: string;
+    minutes: number;
+    taskId?: string;
+    breakMinutes?: number;
+  } | null>(null);
+
   const [sessionHistory, setSessionHistory] = useState<Array<{
     duration: number;
     timestamp: string;
     task?: string;
     subject?: string;
-    mode: 'pomodoro' | 'shortBreak' | 'longBreak';
+    mode: TimerMode;
   }>>([]);
 
+  // Load the default profile of a task's subject, durations can't change under a running timer
+  const applySubjectProfile = useCallback((task: any) => {
+    if (isRunning) return;
+    const profile = getSubjectProfile(timerProfiles, subjects, task?.subject);
+    if (profile && profile.id !== activeProfileId) {
+      updateSettings({ activeTimerProfileId: profile.id });
+    }
+  }, [isRunning, timerProfiles, subjects, activeProfileId, updateSettings]);
+
+  const selectProfile = (profileId: string | null) => {
+    if (isRunning || profileId === activeProfileId) return;
+    updateSettings({ activeTimerProfileId: profileId });
+  };
+
+  // Pre-select a task when opened from a planned study block
+  const requestedTaskId = (route.params as { taskId?: string; requestedAt?: number } | undefined)?.taskId;
+  const requestedAt = (route.params as { taskId?: string; requestedAt?: number } | undefined)?.requestedAt;
+  const handledRequestRef = useRef<number | undefined>(undefined);
+  useEffect(() => {
+    // Wait for a running timer to stop, and only apply each request once
+    if (!requestedTaskId || isRunning || handledRequestRef.current === requestedAt) return;
+
+    const requestedTask = tasks.find(task => task.id === requestedTaskId);
+    if (requestedTask) {
+      setSelectedTask(requestedTask);
+      applySubjectProfile(requestedTask);
+      setTimerMode('pomodoro');
+    }
+    handledRequestRef.current = requestedAt;
+  }, [requestedTaskId, requestedAt, isRunning, tasks, applySubjectProfile]);
+
   // Animation ref
   const fadeAnim = useRef(new Animated.Value(1)).current;
 
@@ -61,47 +207,58 @@ const TimerScreen = () => {
 
   // Set initial time based on timer mode
   useEffect(() => {
+    if (resumedTimeLeftRef.current !== null) {
+      setTimeLeft(resumedTimeLeftRef.current);
+      resumedTimeLeftRef.current = null;
+      return;
+    }
+
     switch (timerMode) {
       case 'pomodoro':
-        setTimeLeft(settings.pomodoroLength * 60);
+        setTimeLeft(durations.pomodoroLength * 60);
         break;
       case 'shortBreak':
-        setTimeLeft(settings.shortBreakLength * 60);
+        setTimeLeft((flowBreakMinutes ?? durations.shortBreakLength) * 60);
         break;
       case 'longBreak':
-        setTimeLeft(settings.longBreakLength * 60);
+        setTimeLeft(durations.longBreakLength * 60);
+        break;
+      case 'flowtime':
+        setTimeLeft(0);
         break;
     }
-  }, [timerMode, settings]);
+  }, [timerMode, durations, flowBreakMinutes]);
 
   // Timer logic for when app is in foreground
   useEffect(() => {
+    // Flowtime has no countdown, it is ticked by its own effect below
+    if (timerMode === 'flowtime') return;
+
     let timer: number | null = null;
 
     if (isRunning && timeLeft > 0) {
+      const endTime = timerEndTime ?? Date.now() + timeLeft * 1000;
       if (!timerEndTime) {
-        setTimerEndTime(Date.now() + timeLeft * 1000);
+        setTimerEndTime(endTime);
       }
 
       timer = setInterval(() => {
-        setTimeLeft((prevTime) => {
-          const newTime = prevTime - 1;
-          if (newTime % 15 === 0 || newTime < 10) {
-            (async () => {
-              if (currentNotificationId) { // Cancel previous before showing new
-                await cancelTimerNotification(currentNotificationId);
-              }
-              const title = `${timerMode === 'pomodoro' ? (selectedTask?.title || 'Focus') : (timerMode === 'shortBreak' ? 'Short Break' : 'Long Break')} Timer`;
-              const body = `Time remaining: ${formatTime(newTime)}`;
-              const newNotificationId = await showTimerNotification(title, body);
-              if (newNotificationId) {
-                setCurrentNotificationId(newNotificationId);
-              }
-            })();
-          }
-          return newTime;
-        });
-      }, 1000) as unknown as number;
+        const newTime = getSecondsUntil(endTime);
+        if (newTime === timeLeft) return;
+        setTimeLeft(newTime);
+        if (newTime % 15 === 0 || newTime < 10) {
+          (async () => {
+            if (currentNotificationId) { // Cancel previous before showing new
+              await cancelTimerNotification(currentNotificationId);
+            }
+            const { title, body } = getTimerNotificationContent(timerMode, newTime, selectedTask?.title, cyclePosition);
+            const newNotificationId = await showTimerNotification(title, body);
+            if (newNotificationId) {
+              setCurrentNotificationId(newNotificationId);
+            }
+          })();
+        }
+      }, COUNTDOWN_TICK_MS) as unknown as number;
     } else if (isRunning && timeLeft === 0) {
       handleTimerComplete();
     }
@@ -109,10 +266,191 @@ const TimerScreen = () => {
     return () => {
       if (timer) clearInterval(timer);
     };
-  }, [isRunning, timeLeft, timerMode, selectedTask, currentNotificationId]); // Added dependencies
+  }, [isRunning, timeLeft, timerMode, selectedTask, currentNotificationId, cyclePosition]); // Added dependencies
+
+  // Flowtime logic for when app is in foreground
+  useEffect(() => {
+    if (timerMode !== 'flowtime' || !isRunning) return;
+
+    setFlowElapsed(getFlowtimeElapsed(flowStartTime, flowAccumulated));
+
+    const timer = setInterval(() => {
+      const elapsed = getFlowtimeElapsed(flowStartTime, flowAccumulated);
+      setFlowElapsed(elapsed);
+      if (elapsed % 15 === 0) {
+        (async () => {
+          if (currentNotificationId) { // Cancel previous before showing new
+            await cancelTimerNotification(currentNotificationId);
+          }
+          const newNotificationId = await showTimerNotification(
+            `${selectedTask?.title || 'Flowtime'} Timer`,
+            `Time studied: ${formatElapsed(elapsed)}`
+          );
+          if (newNotificationId) {
+            setCurrentNotificationId(newNotificationId);
+          }
+        })();
+      }
+    }, 1000);
+
+    return () => clearInterval(timer);
+  }, [isRunning, timerMode, flowStartTime, flowAccumulated, selectedTask, currentNotificationId]);
+
+  // Seconds paused so far, including a pause that is still going on
+  const getTotalPausedSeconds = useCallback(() => {
+    return pausedSeconds + (pausedAt ? Math.floor((Date.now() - pausedAt) / 1000) : 0);
+  }, [pausedSeconds, pausedAt]);
+
+  const resetSessionLog = useCallback(() => {
+    setInterruptions([]);
+    setPausedSeconds(0);
+    setPausedAt(null);
+    setShowNoteInput(false);
+    setNoteDraft('');
+  }, []);
+
+  // Record a finished focus session, catching up on a cycle records sessions that ended a while ago
+  const recordPomodoro = useCallback((endTime: number, minutes: number, withSessionLog: boolean) => {
+    const sessionData = {
+      id: endTime.toString(),
+      timestamp: new Date(endTime).toISOString(),
+      duration: minutes,
+      subject: selectedTask?.subject || undefined,
+      taskId: selectedTask?.id || undefined,
+      isComplete: true,
+      interruptions: withSessionLog ? interruptions : [],
+      pausedSeconds: withSessionLog ? getTotalPausedSeconds() : 0
+    };
+    if (withSessionLog) {
+      resetSessionLog();
+    }
+
+    // Record study session in context
+    recordStudySession(minutes, selectedTask?.subject, selectedTask?.id, sessionData);
+
+    // Add to session history
+    setSessionHistory(prev => [{
+      duration: minutes,
+      timestamp: sessionData.timestamp,
+      task: selectedTask?.title,
+      subject: selectedTask?.subject,
+      mode: 'pomodoro'
+    }, ...prev]);
+
+    // Ask how it went once the session is saved, task progress is bumped from the reflection
+    setPendingReflection({
+      sessionId: sessionData.id,
+      minutes,
+      taskId: selectedTask?.id
+    });
+  }, [selectedTask, interruptions, getTotalPausedSeconds, resetSessionLog, recordStudySession]);
+
+  // Announce the end of the run ahead of time, so it arrives on time in the background too.
+  // An auto-cycling timer announces each phase change up to the long break.
+  const scheduleEndNotifications = async (endTime: number) => {
+    await cancelPhaseNotifications();
+    if (!notificationEnabled) return;
+
+    phaseNotificationIdsRef.current = await scheduleTimerPhaseNotifications(
+      isCycling
+        ? getRemainingPhases({ mode: timerMode as CycleMode, completedPomodoros, endTime }, durations).map(upcoming => ({
+          ...getPhaseEndNotification(upcoming, durations),
+          date: new Date(upcoming.endTime)
+        }))
+        : [{ ...getTimerCompletionNotification(timerMode), date: new Date(endTime) }]
+    );
+  };
+
+  const cancelPhaseNotifications = useCallback(async () => {
+    if (phaseNotificationIdsRef.current.length === 0) return;
+    await cancelTimerPhaseNotifications(phaseNotificationIdsRef.current);
+    phaseNotificationIdsRef.current = [];
+  }, []);
+
+  // Saved with the timer state so scheduled notifications can still be cancelled, and the cycle
+  // followed while the app is in the background
+  const getRunState = useCallback(() => ({
+    phaseNotificationIds: phaseNotificationIdsRef.current,
+    ...(cyclePosition === undefined ? {} : {
+      autoCycle: isCycling,
+      completedPomodoros,
+      cycleDurations: durations
+    })
+  }), [cyclePosition, isCycling, completedPomodoros, durations]);
+
+  // Run a phase of an auto-cycling timer, it ends at its scheduled time rather than a full length from now
+  const runCyclePhase = useCallback(async (phase: CyclePhase, cycleDurations: TimerDurations) => {
+    const phaseTimeLeft = getSecondsUntil(phase.endTime);
+    if (phase.mode !== timerMode) {
+      resumedTimeLeftRef.current = phaseTimeLeft;
+    }
+    setTimerMode(phase.mode);
+    setCompletedPomodoros(phase.completedPomodoros);
+    setTimeLeft(phaseTimeLeft);
+    setTimerEndTime(phase.endTime);
+    setIsRunning(true);
+
+    await initializeTimerState({
+      endTime: phase.endTime,
+      timeLeft: phaseTimeLeft,
+      isRunning: true,
+      timerMode: phase.mode,
+      taskTitle: selectedTask?.title,
+      notificationId: currentNotificationId,
+      autoCycle: true,
+      completedPomodoros: phase.completedPomodoros,
+      cycleDurations,
+      phaseNotificationIds: phaseNotificationIdsRef.current,
+    });
+    await registerTimerBackgroundTask();
+  }, [timerMode, selectedTask, currentNotificationId]);
+
+  // Record the focus sessions of cycle phases that have ended, then run the phase that is due now.
+  // Both the countdown and a return from the background can get here for the same phase, so phases
+  // that were already handled are skipped.
+  const completeCyclePhases = useCallback(async (finished: CyclePhase[], current: CyclePhase | null, cycleDurations: TimerDurations) => {
+    const unrecorded = finished.filter(phase => phase.mode === 'pomodoro' && phase.endTime > lastHandledPhaseEndRef.current);
+    // Mark the phases handled first, so a retry can't record them again
+    if (finished.length > 0) {
+      lastHandledPhaseEndRef.current = Math.max(lastHandledPhaseEndRef.current, finished[finished.length - 1].endTime);
+    }
+    unrecorded.forEach((phase, index) => recordPomodoro(phase.endTime, cycleDurations.pomodoroLength, index === 0));
+
+    if (current) {
+      console.log(`completeCyclePhases: Running ${current.mode}, ${current.completedPomodoros} sessions done.`);
+      await runCyclePhase(current, cycleDurations);
+      return;
+    }
+
+    // The long break ended the cycle, the next one starts when the user is ready
+    console.log('completeCyclePhases: Cycle complete.');
+    setIsRunning(false);
+    setTimerEndTime(null);
+    setCompletedPomodoros(0);
+    setTimerMode('pomodoro');
+    phaseNotificationIdsRef.current = []; // All of them have been delivered by now
+    await unregisterTimerBackgroundTask();
+    await clearTimerState();
+    if (currentNotificationId) {
+      await cancelTimerNotification(currentNotificationId);
+      setCurrentNotificationId(null);
+    }
+  }, [recordPomodoro, runCyclePhase, currentNotificationId]);
 
   const handleTimerComplete = useCallback(async () => {
     console.log('handleTimerComplete called. Current timerMode:', timerMode, 'isRunning state variable before setIsRunning(false): ', isRunning);
+
+    // An auto-cycling timer moves straight on to the next phase, its notifications were scheduled up front
+    if (isCycling && timerEndTime) {
+      const { finished, current } = advanceCycle(
+        { mode: timerMode as CycleMode, completedPomodoros, endTime: timerEndTime },
+        durations,
+        Math.max(Date.now(), timerEndTime)
+      );
+      await completeCyclePhases(finished, current, durations);
+      return;
+    }
+
     setIsRunning(false);
     setTimerEndTime(null);
 
@@ -125,79 +463,45 @@ const TimerScreen = () => {
       setCurrentNotificationId(null);
     }
 
-    if (notificationEnabled) {
-      const notificationTitle = timerMode === 'pomodoro' ? 'Focus Session Complete' : 'Break Time Over';
-      const notificationBody = timerMode === 'pomodoro'
-        ? 'Great job! Your focus session is complete.'
-        : 'Break time is over. Ready to focus again?';
-      await sendTimerCompletionNotification(notificationTitle, notificationBody);
-      console.log('handleTimerComplete: Completion notification sent.');
-    }
+    // The completion notification was scheduled for the end time when the timer started
+    phaseNotificationIdsRef.current = [];
 
     // Record session if it was a pomodoro
     if (timerMode === 'pomodoro') {
-      const sessionData = {
-        id: Date.now().toString(),
-        timestamp: new Date().toISOString(),
-        duration: settings.pomodoroLength,
-        subject: selectedTask?.subject || undefined,
-        taskId: selectedTask?.id || undefined,
-        isComplete: true
-      };
-
-      // Record study session in context
-      recordStudySession(
-        settings.pomodoroLength,
-        selectedTask?.subject,
-        selectedTask?.id,
-        sessionData
-      );
+      recordPomodoro(Date.now(), durations.pomodoroLength, true);
 
-      // Update task progress if selected
-      if (selectedTask) {
-        const newProgress = Math.min(100, (selectedTask.progress || 0) + 20);
-        updateTask(selectedTask.id, { progress: newProgress });
-      }
-
-      // Update completed pomodoros count
-      const newCompletedPomodoros = completedPomodoros + 1;
-      setCompletedPomodoros(newCompletedPomodoros);
-      console.log('handleTimerComplete: Pomodoro session recorded. Completed pomodoros:', newCompletedPomodoros);
-
-      // Add to session history
-      const historyEntry = {
-        duration: settings.pomodoroLength,
-        timestamp: new Date().toISOString(),
-        task: selectedTask?.title,
-        subject: selectedTask?.subject,
-        mode: timerMode
-      };
-      setSessionHistory(prev => [historyEntry, ...prev]);
-
-      // Determine next timer mode
-      if (newCompletedPomodoros < settings.longBreakInterval) {
-        setTimerMode('shortBreak');
-        console.log('handleTimerComplete: Switched to shortBreak mode.');
-      } else {
-        setTimerMode('longBreak');
-        setCompletedPomodoros(0); // Reset for the next cycle
-        console.log('handleTimerComplete: Switched to longBreak mode, reset completed pomodoros.');
+      // A short break, or the long break once enough sessions are done
+      const next = getNextCycleStep(timerMode, completedPomodoros, durations.longBreakInterval);
+      if (next) {
+        setCompletedPomodoros(next.completedPomodoros);
+        setTimerMode(next.mode);
+        console.log(`handleTimerComplete: Pomodoro session recorded. Switched to ${next.mode} mode, completed pomodoros: ${next.completedPomodoros}.`);
       }
+    } else if (flowBreakMinutes !== null) {
+      // A break suggested after a Flowtime session leads back into Flowtime
+      setFlowBreakMinutes(null);
+      setTimerMode('flowtime');
+      console.log('handleTimerComplete: Switched to flowtime mode after break.');
     } else {
-      // After break is complete, switch back to pomodoro
+      // After break is complete, switch back to pomodoro, a long break starts a new cycle
+      if (timerMode === 'longBreak') {
+        setCompletedPomodoros(0);
+      }
       setTimerMode('pomodoro');
       console.log('handleTimerComplete: Switched to pomodoro mode after break.');
     }
   }, [
     timerMode,
-    settings.pomodoroLength, settings.shortBreakLength, settings.longBreakLength, settings.longBreakInterval, // Include specific settings fields
-    selectedTask,
+    isRunning,
+    isCycling,
+    timerEndTime,
+    flowBreakMinutes,
+    durations, // Include specific settings fields
     completedPomodoros,
-    notificationEnabled,
-    recordStudySession,
-    updateTask,
+    currentNotificationId,
+    completeCyclePhases, // Helpers that record the session, so the latest task and session log are used
+    recordPomodoro,
     setCompletedPomodoros, // State setters
-    setSessionHistory,
     setTimerMode,
     setIsRunning,
     setTimerEndTime
@@ -211,58 +515,74 @@ const TimerScreen = () => {
       console.log('Mount/Foreground: Fetched state from AsyncStorage:', state);
 
       if (state) {
-        const initialTimerMode = state.timerMode as 'pomodoro' | 'shortBreak' | 'longBreak';
+        const initialTimerMode = state.timerMode as TimerMode;
         setTimerMode(initialTimerMode);
         setCurrentNotificationId(state.notificationId || null); // Restore notificationId
+        if (state.completedPomodoros !== undefined) {
+          setCompletedPomodoros(state.completedPomodoros);
+        }
 
-        if (state.isRunning && state.endTime) { // Ensure endTime is present for running state
-          const now = Date.now();
-          const newTimeLeft = Math.max(0, Math.floor((state.endTime - now) / 1000));
-          console.log(`Mount/Foreground: Timer was running. endTime: ${state.endTime}, now: ${now}, newTimeLeft: ${newTimeLeft}`);
-
-          if (newTimeLeft <= 0) {
-            console.log('Mount/Foreground: Timer completed while app was closed/killed or in background.');
-            setTimeLeft(0);
-            // Ensure timerMode is correctly set from 'state' before calling handleTimerComplete
-            // which is already done by setTimerMode(initialTimerMode) above.
-            handleTimerComplete();
-          } else {
-            console.log('Mount/Foreground: Timer still running, resuming.');
-            setTimeLeft(newTimeLeft);
-            setTimerEndTime(state.endTime);
-            setIsRunning(true);
+        if (initialTimerMode === 'flowtime') {
+          // Flowtime never completes on its own, restore the run as it was left
+          const startTime = state.isRunning ? state.startTime ?? null : null;
+          setFlowStartTime(startTime);
+          setFlowAccumulated(state.elapsed || 0);
+          setFlowElapsed(getFlowtimeElapsed(startTime, state.elapsed || 0));
+          setIsRunning(state.isRunning);
+          console.log(`Mount/Foreground: Restored flowtime state: elapsed=${state.elapsed}, startTime=${startTime}`);
+          return;
+        }
+
+        if (state.autoCycle && state.isRunning && state.endTime && state.cycleDurations) {
+          // Phases of an auto-cycling timer may have ended while the app was away
+          phaseNotificationIdsRef.current = state.phaseNotificationIds || [];
+          const { finished, current } = advanceCycle(
+            { mode: initialTimerMode as CycleMode, completedPomodoros: state.completedPomodoros || 0, endTime: state.endTime },
+            state.cycleDurations
+          );
+          if (finished.length > 0) {
+            console.log(`Mount/Foreground: ${finished.length} cycle phase(s) ended in the background, catching up.`);
+            await completeCyclePhases(finished, current, state.cycleDurations);
+            return;
           }
-        } else if (!state.isRunning && state.timeLeft === 0 && state.endTime !== null && state.endTime < Date.now()) {
-          console.log('Mount/Foreground: Timer was marked as completed in background/killed. Calling handleTimerComplete.');
+        }
+
+        const run = restoreTimerRun(state);
+        if (run.status === 'completed') {
+          console.log('Mount/Foreground: Timer completed while app was closed/killed or in background.');
           setTimeLeft(0);
           // Ensure timerMode is correctly set from 'state' before calling handleTimerComplete
           // which is already done by setTimerMode(initialTimerMode) above.
           handleTimerComplete();
+        } else if (run.status === 'running') {
+          const newTimeLeft = getTimeLeft(run);
+          console.log(`Mount/Foreground: Timer still running, resuming. endTime: ${run.endTime}, newTimeLeft: ${newTimeLeft}`);
+          phaseNotificationIdsRef.current = state.phaseNotificationIds || [];
+          setTimeLeft(newTimeLeft);
+          setTimerEndTime(run.endTime);
+          setIsRunning(true);
         } else {
           // Timer was paused, stopped, or reset.
           console.log('Mount/Foreground: Timer not actively running or already handled. Restoring state (paused/stopped).');
-          if (isRunning && !state.isRunning) {
-            setIsRunning(false);
-          }
 
-          // If state.timeLeft is 0 and it's not a "completed" scenario from above,
-          // it means it was paused at 0 or reset. Reset to full duration for the mode.
+          // A run that was stopped rather than paused starts over at the full duration for the mode
           let newTimeLeftToSet;
-          if (state.timeLeft > 0) {
-            newTimeLeftToSet = state.timeLeft;
-          } else { // timeLeft is 0, not running, not a background completion case.
+          if (run.status === 'paused') {
+            pausedRunRef.current = run;
+            newTimeLeftToSet = getTimeLeft(run);
+          } else {
             switch (initialTimerMode) {
-              case 'pomodoro': newTimeLeftToSet = settings.pomodoroLength * 60; break;
-              case 'shortBreak': newTimeLeftToSet = settings.shortBreakLength * 60; break;
-              case 'longBreak': newTimeLeftToSet = settings.longBreakLength * 60; break;
-              default: newTimeLeftToSet = settings.pomodoroLength * 60;
+              case 'pomodoro': newTimeLeftToSet = durations.pomodoroLength * 60; break;
+              case 'shortBreak': newTimeLeftToSet = durations.shortBreakLength * 60; break;
+              case 'longBreak': newTimeLeftToSet = durations.longBreakLength * 60; break;
+              default: newTimeLeftToSet = durations.pomodoroLength * 60;
             }
           }
           setTimeLeft(newTimeLeftToSet);
           // timerMode is already set by setTimerMode(initialTimerMode)
-          setTimerEndTime(state.endTime); // This will be null if paused correctly
+          setTimerEndTime(null);
           setIsRunning(false); // Ensure isRunning is false for paused/stopped state
-          console.log(`Mount/Foreground: Restored state: timeLeft=${newTimeLeftToSet}, timerMode=${initialTimerMode}, endTime=${state.endTime}, isRunning=false`);
+          console.log(`Mount/Foreground: Restored state: timeLeft=${newTimeLeftToSet}, timerMode=${initialTimerMode}, isRunning=false`);
         }
       } else {
         console.log('Mount/Foreground: No timer state found in AsyncStorage. Initializing defaults based on current timerMode.');
@@ -270,9 +590,9 @@ const TimerScreen = () => {
         // For an initial mount, timerMode is 'pomodoro'. useEffect([timerMode, settings]) will set timeLeft.
         // If this is a foreground event and somehow state was cleared, this ensures timeLeft is reset.
         switch (timerMode) {
-          case 'pomodoro': setTimeLeft(settings.pomodoroLength * 60); break;
-          case 'shortBreak': setTimeLeft(settings.shortBreakLength * 60); break;
-          case 'longBreak': setTimeLeft(settings.longBreakLength * 60); break;
+          case 'pomodoro': setTimeLeft(durations.pomodoroLength * 60); break;
+          case 'shortBreak': setTimeLeft(durations.shortBreakLength * 60); break;
+          case 'longBreak': setTimeLeft(durations.longBreakLength * 60); break;
         }
         setIsRunning(false);
         setTimerEndTime(null);
@@ -288,7 +608,24 @@ const TimerScreen = () => {
         await processForegrounding();
       } else if (currentAppState === 'active' && nextAppState.match(/inactive|background/)) {
         console.log('App went to background. isRunning:', isRunning, 'timerEndTime:', timerEndTime, 'timeLeft:', timeLeft);
-        if (isRunning && timerEndTime && timeLeft > 0) {
+        if (timerMode === 'flowtime') {
+          if (isRunning || flowAccumulated > 0) {
+            console.log('Background: Saving flowtime state');
+            await initializeTimerState({
+              endTime: null,
+              timeLeft: 0,
+              isRunning,
+              timerMode,
+              taskTitle: selectedTask?.title,
+              notificationId: currentNotificationId,
+              startTime: flowStartTime,
+              elapsed: flowAccumulated,
+            });
+            if (isRunning) {
+              await registerTimerBackgroundTask();
+            }
+          }
+        } else if (isRunning && timerEndTime && timeLeft > 0) {
           console.log('Background: Saving running timer state');
           await initializeTimerState({
             endTime: timerEndTime,
@@ -297,18 +634,18 @@ const TimerScreen = () => {
             timerMode,
             taskTitle: selectedTask?.title,
             notificationId: currentNotificationId, // Save notificationId
+            ...getRunState(),
           });
           await registerTimerBackgroundTask();
           console.log('Background: Timer state saved and background task registered.');
         } else if (!isRunning && timeLeft > 0) { // Timer is paused with time left
           console.log('Background: Saving paused timer state');
           await initializeTimerState({
-            endTime: null,
-            timeLeft,
-            isRunning: false,
+            ...getSavedTimerFields(resumeTimerRun(pausedRunRef.current, timeLeft)),
             timerMode,
             taskTitle: selectedTask?.title,
             notificationId: currentNotificationId, // Save notificationId
+            ...getRunState(),
           });
           console.log('Background: Paused timer state saved. No background task.');
         } else {
@@ -326,9 +663,9 @@ const TimerScreen = () => {
       subscription.remove();
     };
   }, [
-    isRunning, timerEndTime, timerMode, timeLeft, selectedTask,
-    settings.pomodoroLength, settings.shortBreakLength, settings.longBreakLength,
-    completedPomodoros, handleTimerComplete
+    isRunning, timerEndTime, timerMode, timeLeft, selectedTask, flowStartTime, flowAccumulated,
+    durations.pomodoroLength, durations.shortBreakLength, durations.longBreakLength,
+    completedPomodoros, handleTimerComplete, completeCyclePhases, getRunState
   ]);
 
   // Register or unregister background task based on timer state
@@ -343,8 +680,7 @@ const TimerScreen = () => {
         if (currentNotificationId) { // Cancel previous before showing new
           await cancelTimerNotification(currentNotificationId);
         }
-        const title = `${timerMode === 'pomodoro' ? (selectedTask?.title || 'Focus') : (timerMode === 'shortBreak' ? 'Short Break' : 'Long Break')} Timer`;
-        const body = `Time remaining: ${formatTime(timeLeft)}`;
+        const { title, body } = getTimerNotificationContent(timerMode, timeLeft, selectedTask?.title, cyclePosition);
         const newNotificationId = await showTimerNotification(title, body);
         if (newNotificationId) {
           setCurrentNotificationId(newNotificationId);
@@ -359,75 +695,268 @@ const TimerScreen = () => {
         }
       })();
     }
-  }, [isRunning, timerMode, selectedTask, timeLeft]); // Added timeLeft
+  }, [isRunning, timerMode, selectedTask, timeLeft, cyclePosition]); // Added timeLeft
+
+  const trackPause = (pausing: boolean) => {
+    if (pausing) {
+      setPausedAt(Date.now());
+    } else if (pausedAt) {
+      setPausedSeconds(prev => prev + Math.floor((Date.now() - pausedAt) / 1000));
+      setPausedAt(null);
+    }
+  };
+
+  // A focus session thrown away part way still tells us what interrupted it
+  const abandonFocusSession = (focusedSeconds: number, leftFocus: boolean = false) => {
+    if (focusedSeconds > 0) {
+      recordAbandonedSession({
+        timestamp: new Date().toISOString(),
+        duration: Math.round(focusedSeconds / 60),
+        subject: selectedTask?.subject || undefined,
+        taskId: selectedTask?.id || undefined,
+        isComplete: false,
+        interruptions,
+        pausedSeconds: getTotalPausedSeconds(),
+        leftFocus: leftFocus || undefined
+      });
+    }
+    resetSessionLog();
+  };
+
+  const logInterruption = (type: InterruptionType) => {
+    setInterruptions(prev => [...prev, { timestamp: new Date().toISOString(), type }]);
+    setNoteDraft('');
+    setShowNoteInput(true);
+  };
+
+  // The note is optional and goes on the interruption logged last
+  const saveInterruptionNote = () => {
+    const note = noteDraft.trim();
+    if (note) {
+      setInterruptions(prev => prev.map((interruption, index) =>
+        index === prev.length - 1 ? { ...interruption, note } : interruption
+      ));
+    }
+    setNoteDraft('');
+    setShowNoteInput(false);
+  };
+
+  const toggleFlowtime = async () => {
+    if (currentNotificationId) {
+      await cancelTimerNotification(currentNotificationId);
+      setCurrentNotificationId(null);
+    }
+
+    if (!isRunning) {
+      const startTime = Date.now();
+      setFlowStartTime(startTime);
+      setIsRunning(true);
+      trackPause(false);
+
+      console.log(`toggleFlowtime: Starting/Resuming. elapsed: ${flowAccumulated}`);
+      const newNotificationId = await showTimerNotification(
+        `${selectedTask?.title || 'Flowtime'} Timer`,
+        `Time studied: ${formatElapsed(flowAccumulated)}`
+      );
+      setCurrentNotificationId(newNotificationId);
+
+      await initializeTimerState({
+        endTime: null,
+        timeLeft: 0,
+        isRunning: true,
+        timerMode,
+        taskTitle: selectedTask?.title,
+        notificationId: newNotificationId,
+        startTime,
+        elapsed: flowAccumulated,
+      });
+      await registerTimerBackgroundTask();
+    } else {
+      // Fold the current run into the accumulated time so it survives the pause
+      const elapsed = getFlowtimeElapsed(flowStartTime, flowAccumulated);
+      console.log(`toggleFlowtime: Pausing. elapsed: ${elapsed}`);
+      setFlowStartTime(null);
+      setFlowAccumulated(elapsed);
+      setFlowElapsed(elapsed);
+      setIsRunning(false);
+      trackPause(true);
+
+      await unregisterTimerBackgroundTask();
+      await initializeTimerState({
+        endTime: null,
+        timeLeft: 0,
+        isRunning: false,
+        timerMode,
+        taskTitle: selectedTask?.title,
+        notificationId: null,
+        startTime: null,
+        elapsed,
+      });
+    }
+  };
+
+  // Stop a Flowtime session, record it and suggest a break proportional to its length
+  const finishFlowtime = async () => {
+    const elapsed = getFlowtimeElapsed(flowStartTime, flowAccumulated);
+
+    setIsRunning(false);
+    setFlowStartTime(null);
+    setFlowAccumulated(0);
+    setFlowElapsed(0);
+    if (currentNotificationId) {
+      await cancelTimerNotification(currentNotificationId);
+      setCurrentNotificationId(null);
+    }
+    await unregisterTimerBackgroundTask();
+    await clearTimerState();
+
+    if (elapsed < MIN_FLOWTIME_SESSION_SECONDS) {
+      console.log('finishFlowtime: Session too short to record.');
+      resetSessionLog();
+      return;
+    }
+
+    const duration = Math.round(elapsed / 60);
+    const timestamp = new Date().toISOString();
+    const sessionId = Date.now().toString();
+    recordStudySession(
+      duration,
+      selectedTask?.subject,
+      selectedTask?.id,
+      {
+        id: sessionId,
+        timestamp,
+        duration,
+        subject: selectedTask?.subject || undefined,
+        taskId: selectedTask?.id || undefined,
+        isComplete: true,
+        interruptions,
+        pausedSeconds: getTotalPausedSeconds()
+      }
+    );
+    resetSessionLog();
+    setSessionHistory(prev => [{
+      duration,
+      timestamp,
+      task: selectedTask?.title,
+      subject: selectedTask?.subject,
+      mode: 'flowtime'
+    }, ...prev]);
+
+    setPendingReflection({
+      sessionId,
+      minutes: duration,
+      taskId: selectedTask?.id,
+      breakMinutes: getFlowtimeBreakMinutes(elapsed, settings.flowtimeBreakRatio ?? DEFAULT_FLOWTIME_BREAK_RATIO)
+    });
+  };
+
+  const suggestFlowtimeBreak = (minutes: number, breakMinutes: number) => {
+    Alert.alert(
+      'Flowtime Session Complete',
+      `You studied for ${minutes} min. Take a ${breakMinutes} minute break?`,
+      [
+        { text: 'Not Now', style: 'cancel' },
+        {
+          text: 'Start Break',
+          onPress: () => {
+            setFlowBreakMinutes(breakMinutes);
+            setTimerMode('shortBreak');
+          }
+        }
+      ]
+    );
+  };
+
+  const closeReflection = () => {
+    if (pendingReflection?.breakMinutes) {
+      suggestFlowtimeBreak(pendingReflection.minutes, pendingReflection.breakMinutes);
+    }
+    setPendingReflection(null);
+  };
 
   const toggleTimer = async () => {
-    const newIsRunning = !isRunning;
-    setIsRunning(newIsRunning);
-
-    if (newIsRunning) {
-      // Starting or resuming timer
-      let currentTimerEndTime = timerEndTime;
-      // If timerEndTime is not set, or if timeLeft is at the full duration (fresh start for the mode)
-      // or if timeLeft is what was stored for a paused timer (timerEndTime would be null)
-      if (!currentTimerEndTime || timeLeft === (timerMode === 'pomodoro' ? settings.pomodoroLength * 60 : (timerMode === 'shortBreak' ? settings.shortBreakLength * 60 : settings.longBreakLength * 60))) {
-        currentTimerEndTime = Date.now() + timeLeft * 1000;
+    if (timerMode === 'flowtime') {
+      await toggleFlowtime();
+      return;
+    }
+
+    if (!isRunning) {
+      // Starting or resuming timer, it ends the time it has left from now
+      const run = startTimerRun(resumeTimerRun(pausedRunRef.current, timeLeft));
+      if (run.status !== 'running' || run.endTime === null) return;
+      setIsRunning(true);
+      setTimerEndTime(run.endTime);
+      if (timerMode === 'pomodoro') {
+        trackPause(false);
       }
-      // If resuming a paused timer, timeLeft is already set. currentTimerEndTime needs to be calculated.
-      // If timerEndTime was null (paused) or we are starting fresh, calculate new end time.
-      if (!timerEndTime) { // This covers fresh starts and resuming from pause (where timerEndTime was set to null)
-        currentTimerEndTime = Date.now() + timeLeft * 1000;
-      } // If timerEndTime already exists (e.g. app was backgrounded while running and came back), we use that.
-      // However, the AppState listener should handle restoring timerEndTime correctly.
-      // For a manual toggle to "run", we should always calculate a new endTime based on current timeLeft.
-      currentTimerEndTime = Date.now() + timeLeft * 1000;
-      setTimerEndTime(currentTimerEndTime);
-
-      console.log(`toggleTimer: Starting/Resuming. timeLeft: ${timeLeft}, new endTime: ${currentTimerEndTime}`);
+
+      console.log(`toggleTimer: Starting/Resuming. timeLeft: ${timeLeft}, new endTime: ${run.endTime}`);
       // Show notification when timer starts/resumes
       if (currentNotificationId) { await cancelTimerNotification(currentNotificationId); }
-      const title = `${timerMode === 'pomodoro' ? (selectedTask?.title || 'Focus') : (timerMode === 'shortBreak' ? 'Short Break' : 'Long Break')} Timer`;
-      const body = `Time remaining: ${formatTime(timeLeft)}`;
+      const { title, body } = getTimerNotificationContent(timerMode, timeLeft, selectedTask?.title, cyclePosition);
       const newNotificationId = await showTimerNotification(title, body);
       setCurrentNotificationId(newNotificationId);
 
+      await scheduleEndNotifications(run.endTime);
+
       await initializeTimerState({
-        endTime: currentTimerEndTime!,
-        timeLeft,
-        isRunning: true,
+        ...getSavedTimerFields(run),
         timerMode,
         taskTitle: selectedTask?.title,
         notificationId: newNotificationId, // Save new notificationId
+        ...getRunState(),
       });
       await registerTimerBackgroundTask();
     } else {
-      // Timer is being paused
-      console.log(`toggleTimer: Pausing. timeLeft: ${timeLeft}`);
+      // Timer is being paused, keeping the time it has left to the millisecond
+      const run = pauseTimerRun({ status: 'running', endTime: timerEndTime, remainingMs: timeLeft * 1000 });
+      if (run.status === 'completed') {
+        // It reached zero before the pause went through, the countdown completes it
+        setTimeLeft(0);
+        return;
+      }
+      console.log(`toggleTimer: Pausing. remainingMs: ${run.remainingMs}`);
+      pausedRunRef.current = run;
+      setIsRunning(false);
+      setTimeLeft(getTimeLeft(run));
       setTimerEndTime(null);
+      if (timerMode === 'pomodoro') {
+        trackPause(true);
+      }
+      await cancelPhaseNotifications();
       await unregisterTimerBackgroundTask();
       if (currentNotificationId) {
         await cancelTimerNotification(currentNotificationId);
         setCurrentNotificationId(null);
       }
       await initializeTimerState({
-        endTime: null,
-        timeLeft,
-        isRunning: false,
+        ...getSavedTimerFields(run),
         timerMode,
         taskTitle: selectedTask?.title,
         notificationId: null, // Clear notificationId when paused
+        ...getRunState(),
       });
       console.log('toggleTimer: Paused state saved to AsyncStorage.');
     }
   };
 
-  const resetTimer = async () => {
+  // Leaving the timer in focus mode resets it too, and is counted against the session
+  const resetTimer = async (leftFocus: boolean = false) => {
+    if (timerMode === 'pomodoro') {
+      abandonFocusSession(durations.pomodoroLength * 60 - timeLeft, leftFocus);
+    } else if (timerMode === 'flowtime') {
+      abandonFocusSession(getFlowtimeElapsed(flowStartTime, flowAccumulated), leftFocus);
+    }
+
     setIsRunning(false);
     setTimerEndTime(null);
+    pausedRunRef.current = null;
     if (currentNotificationId) {
       await cancelTimerNotification(currentNotificationId);
       setCurrentNotificationId(null);
     }
+    await cancelPhaseNotifications();
     await unregisterTimerBackgroundTask();
     await clearTimerState(); // Clear state from AsyncStorage
 
@@ -435,20 +964,83 @@ const TimerScreen = () => {
     let newTimeLeft = 0;
     switch (timerMode) {
       case 'pomodoro':
-        newTimeLeft = settings.pomodoroLength * 60;
+        newTimeLeft = durations.pomodoroLength * 60;
         setTimeLeft(newTimeLeft);
         break;
       case 'shortBreak':
-        newTimeLeft = settings.shortBreakLength * 60;
+        newTimeLeft = durations.shortBreakLength * 60;
         setTimeLeft(newTimeLeft);
         break;
       case 'longBreak':
-        newTimeLeft = settings.longBreakLength * 60;
+        newTimeLeft = durations.longBreakLength * 60;
         setTimeLeft(newTimeLeft);
         break;
+      case 'flowtime':
+        // Discards the session, finishing it is what records it
+        setFlowStartTime(null);
+        setFlowAccumulated(0);
+        setFlowElapsed(0);
+        break;
     }
   };
 
+  const confirmLeaveFocus = (leave: () => void) => {
+    Alert.alert(
+      'Leave Focus Session?',
+      'Focus mode is on. Leaving the timer now abandons this session and counts against your focus.',
+      [
+        { text: 'Stay', style: 'cancel' },
+        {
+          text: 'Leave',
+          style: 'destructive',
+          onPress: async () => {
+            await resetTimer(true);
+            leave();
+          }
+        }
+      ]
+    );
+  };
+
+  // Notifications wait for the break and the screen stays on while a focus session is locked
+  useEffect(() => {
+    if (!isFocusLocked) return;
+
+    setFocusHold(true);
+    activateKeepAwakeAsync(FOCUS_KEEP_AWAKE_TAG).catch(error => console.error('Error keeping the screen awake:', error));
+    return () => {
+      setFocusHold(false);
+      deactivateKeepAwake(FOCUS_KEEP_AWAKE_TAG).catch(error => console.error('Error letting the screen sleep:', error));
+    };
+  }, [isFocusLocked]);
+
+  // Leaving by tab or the back button has to be confirmed, set on every render so the handler sees the current session
+  useEffect(() => {
+    if (!isFocusLocked) return;
+
+    setFocusLock(confirmLeaveFocus);
+    const subscription = BackHandler.addEventListener('hardwareBackPress', () => {
+      confirmLeaveFocus(() => navigation.goBack());
+      return true;
+    });
+    return () => {
+      setFocusLock(null);
+      subscription.remove();
+    };
+  });
+
+  // Ambient sounds play during a running focus session and pause for breaks and pauses
+  const playingMix = mixPreview ?? (isFocusMode && isRunning ? ambientMix : null);
+  useEffect(() => {
+    if (playingMix && isMixAudible(playingMix)) {
+      playAmbientMix(playingMix);
+    } else {
+      pauseAmbientSounds();
+    }
+  }, [playingMix]);
+
+  useEffect(() => releaseAmbientSounds, []);
+
   const skipTimer = async () => {
     setIsRunning(false);
     setTimerEndTime(null);
@@ -457,7 +1049,7 @@ const TimerScreen = () => {
       setCurrentNotificationId(null);
     }
     // Determine next timer mode
-    if (completedPomodoros < settings.longBreakInterval) {
+    if (completedPomodoros < durations.longBreakInterval) {
       setTimerMode('shortBreak');
       console.log('skipTimer: Switched to shortBreak mode.');
     } else {
@@ -467,19 +1059,27 @@ const TimerScreen = () => {
     // Reset timeLeft to new mode's duration
     switch (timerMode) {
       case 'pomodoro':
-        setTimeLeft(settings.pomodoroLength * 60);
+        setTimeLeft(durations.pomodoroLength * 60);
         break;
       case 'shortBreak':
-        setTimeLeft(settings.shortBreakLength * 60);
+        setTimeLeft(durations.shortBreakLength * 60);
         break;
       case 'longBreak':
-        setTimeLeft(settings.longBreakLength * 60);
+        setTimeLeft(durations.longBreakLength * 60);
         break;
     }
   };
 
+  const selectMode = (mode: TimerMode) => {
+    if (isRunning) return;
+    // Picking a mode by hand drops any break suggested after a Flowtime session
+    setFlowBreakMinutes(null);
+    setTimerMode(mode);
+  };
+
   const selectTask = (task: any) => {
     setSelectedTask(task);
+    applySubjectProfile(task);
     setShowTaskSelection(false);
   };
 
@@ -511,7 +1111,7 @@ const TimerScreen = () => {
             styles.modeButton,
             timerMode === 'pomodoro' && [styles.activeMode, { backgroundColor: theme.primary }]
           ]}
-          onPress={() => !isRunning && setTimerMode('pomodoro')}
+          onPress={() => selectMode('pomodoro')}
         >
           <Text
             style={[
@@ -528,7 +1128,7 @@ const TimerScreen = () => {
             styles.modeButton,
             timerMode === 'shortBreak' && [styles.activeMode, { backgroundColor: theme.success }]
           ]}
-          onPress={() => !isRunning && setTimerMode('shortBreak')}
+          onPress={() => selectMode('shortBreak')}
         >
           <Text
             style={[
@@ -545,7 +1145,7 @@ const TimerScreen = () => {
             styles.modeButton,
             timerMode === 'longBreak' && [styles.activeMode, { backgroundColor: theme.warning }]
           ]}
-          onPress={() => !isRunning && setTimerMode('longBreak')}
+          onPress={() => selectMode('longBreak')}
         >
           <Text
             style={[
@@ -556,8 +1156,50 @@ const TimerScreen = () => {
             Long Break
           </Text>
         </TouchableOpacity>
+
+        <TouchableOpacity
+          style={[
+            styles.modeButton,
+            timerMode === 'flowtime' && [styles.activeMode, { backgroundColor: theme.primary }]
+          ]}
+          onPress={() => selectMode('flowtime')}
+        >
+          <Text
+            style={[
+              styles.modeButtonText,
+              { color: timerMode === 'flowtime' ? '#FFFFFF' : theme.text }
+            ]}
+          >
+            Flowtime
+          </Text>
+        </TouchableOpacity>
       </View>
 
+      <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={styles.profileSelection}>
+        {[{ id: null, name: 'Standard', ...getTimerDurations(settings) }, ...timerProfiles].map(profile => {
+          const selected = profile.id === activeProfileId;
+          return (
+            <TouchableOpacity
+              key={profile.id ?? 'standard'}
+              style={[styles.profileChip, { backgroundColor: selected ? theme.primary : theme.primaryLight }]}
+              onPress={() => selectProfile(profile.id)}
+              disabled={isRunning}
+            >
+              <Text style={[styles.profileChipText, { color: selected ? '#FFFFFF' : theme.primary }]}>
+                {profile.name} {formatProfileSummary(profile)}
+              </Text>
+            </TouchableOpacity>
+          );
+        })}
+      </ScrollView>
+
+      <TouchableOpacity style={styles.soundsButton} onPress={() => setMixPreview(ambientMix)}>
+        <Ionicons name="musical-notes-outline" size={16} color={theme.textSecondary} />
+        <Text style={[styles.soundsButtonText, { color: theme.textSecondary }]}>
+          Sounds: {formatMixSummary(ambientMix)}
+        </Text>
+      </TouchableOpacity>
+
       <View style={styles.timerContainer}>
         <ProgressRing
           progress={calculateProgress()}
@@ -568,13 +1210,55 @@ const TimerScreen = () => {
           backgroundColor={`${getTimerColor()}20`}
           showPercentage={false}
         >
-          <Text style={[styles.timerText, { color: theme.text }]}>{formatTime(timeLeft)}</Text>
+          <Text style={[styles.timerText, { color: theme.text }]}>
+            {timerMode === 'flowtime' ? formatElapsed(flowElapsed) : formatTime(timeLeft)}
+          </Text>
           <Text style={[styles.timerLabel, { color: theme.textSecondary }]}>
-            {timerMode === 'pomodoro' ? 'Focus Time' : timerMode === 'shortBreak' ? 'Short Break' : 'Long Break'}
+            {timerMode === 'pomodoro' ? 'Focus Time' : timerMode === 'shortBreak' ? 'Short Break' : timerMode === 'longBreak' ? 'Long Break' : 'Flowtime'}
           </Text>
+          {cyclePosition && (
+            <View style={styles.cycleRow}>
+              {autoCycle && <Ionicons name="repeat" size={14} color={theme.textSecondary} />}
+              <Text style={[styles.cycleText, { color: theme.textSecondary }]}>{cyclePosition}</Text>
+            </View>
+          )}
         </ProgressRing>
       </View>
 
+      {isFocusMode && (isRunning || pausedAt !== null) && (
+        <View style={styles.interruptionSection}>
+          <Text style={[styles.interruptionLabel, { color: theme.textSecondary }]}>
+            {interruptions.length > 0
+              ? `${interruptions.length} interruption${interruptions.length !== 1 ? 's' : ''} logged`
+              : 'Interrupted?'}
+          </Text>
+          <View style={styles.interruptionButtons}>
+            {INTERRUPTION_TYPES.map(type => (
+              <TouchableOpacity
+                key={type.key}
+                style={[styles.interruptionButton, { backgroundColor: theme.primaryLight }]}
+                onPress={() => logInterruption(type.key)}
+              >
+                <Ionicons name={type.icon as keyof typeof Ionicons.glyphMap} size={16} color={theme.primary} />
+                <Text style={[styles.interruptionButtonText, { color: theme.primary }]}>{type.label}</Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+          {showNoteInput && (
+            <TextInput
+              style={[styles.interruptionNote, { backgroundColor: theme.card, color: theme.text, borderColor: theme.border }]}
+              value={noteDraft}
+              onChangeText={setNoteDraft}
+              placeholder="What interrupted you? (optional)"
+              placeholderTextColor={theme.textSecondary}
+              returnKeyType="done"
+              onSubmitEditing={saveInterruptionNote}
+              onBlur={saveInterruptionNote}
+            />
+          )}
+        </View>
+      )}
+
       <View style={styles.taskSection}>
         <Text style={[styles.sectionTitle, { color: theme.textSecondary }]}>CURRENT TASK</Text>
 
@@ -608,7 +1292,7 @@ const TimerScreen = () => {
       <View style={styles.controlsContainer}>
         <TouchableOpacity
           style={[styles.resetButton, { backgroundColor: theme.card }]}
-          onPress={resetTimer}
+          onPress={() => resetTimer()}
         >
           <Ionicons name="refresh" size={28} color={theme.textSecondary} />
         </TouchableOpacity>
@@ -629,12 +1313,22 @@ const TimerScreen = () => {
           </TouchableOpacity>
         </Animated.View>
 
-        <View style={styles.sessionsContainer}>
-          <Text style={[styles.sessionsCount, { color: theme.text }]}>
-            {completedPomodoros}/{settings.longBreakInterval}
-          </Text>
-          <Text style={[styles.sessionsLabel, { color: theme.textSecondary }]}>Sessions</Text>
-        </View>
+        {timerMode === 'flowtime' ? (
+          <TouchableOpacity
+            style={[styles.resetButton, { backgroundColor: theme.card }]}
+            onPress={finishFlowtime}
+            disabled={!isRunning && flowElapsed === 0}
+          >
+            <Ionicons name="stop" size={28} color={theme.textSecondary} />
+          </TouchableOpacity>
+        ) : (
+          <View style={styles.sessionsContainer}>
+            <Text style={[styles.sessionsCount, { color: theme.text }]}>
+              {completedPomodoros}/{durations.longBreakInterval}
+            </Text>
+            <Text style={[styles.sessionsLabel, { color: theme.textSecondary }]}>Sessions</Text>
+          </View>
+        )}
       </View>
 
       {sessionHistory.length > 0 && (
@@ -658,6 +1352,28 @@ const TimerScreen = () => {
         </View>
       )}
 
+      {mixPreview && (
+        <AmbientMixerModal
+          mix={ambientMix}
+          profile={activeProfile}
+          onPreview={setMixPreview}
+          onSave={saveAmbientMix}
+          onClose={() => setMixPreview(null)}
+        />
+      )}
+
+      {pendingReflection && (
+        <SessionReflectionModal
+          minutes={pendingReflection.minutes}
+          task={tasks.find(task => task.id === pendingReflection.taskId)}
+          onSave={reflection => {
+            reflectOnSession(pendingReflection.sessionId, reflection);
+            closeReflection();
+          }}
+          onSkip={closeReflection}
+        />
+      )}
+
       {/* Task Selection Modal */}
       <Modal
         visible={showTaskSelection}
@@ -723,6 +1439,74 @@ const styles = StyleSheet.create({
     fontSize: 16, // Slightly larger text
     fontWeight: 'bold', // Bold text
   },
+  activeMode: {
+    borderRadius: 20, // Background color comes from the mode
+  },
+  cycleRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginTop: 4,
+  },
+  cycleText: {
+    fontSize: 14,
+    marginLeft: 4,
+  },
+  interruptionSection: {
+    width: '100%',
+    alignItems: 'center',
+    marginBottom: 12,
+  },
+  interruptionLabel: {
+    fontSize: 14,
+    marginBottom: 6,
+  },
+  interruptionButtons: {
+    flexDirection: 'row',
+  },
+  interruptionButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    borderRadius: 20,
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    margin: 4,
+  },
+  interruptionButtonText: {
+    fontSize: 14,
+    fontWeight: '500',
+    marginLeft: 4,
+  },
+  interruptionNote: {
+    width: '100%',
+    borderWidth: 1,
+    borderRadius: 8,
+    padding: 10,
+    marginTop: 6,
+    fontSize: 14,
+  },
+  profileSelection: {
+    paddingVertical: 4,
+  },
+  profileChip: {
+    borderRadius: 20,
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    margin: 4,
+  },
+  profileChipText: {
+    fontSize: 14,
+    fontWeight: '500',
+  },
+  soundsButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    alignSelf: 'center',
+    paddingVertical: 4,
+  },
+  soundsButtonText: {
+    fontSize: 14,
+    marginLeft: 4,
+  },
   timerContainer: {
     alignItems: 'center',
     justifyContent: 'center',
@@ -763,6 +1547,13 @@ const styles = StyleSheet.create({
     borderRadius: 30, // Circular buttons
     marginHorizontal: 10, // Spacing between buttons
   },
+  resetButton: {
+    width: 56,
+    height: 56,
+    borderRadius: 28, // Circular button
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
   // Removed startButton as it's covered by controlButton with dynamic styling
   modalContainer: {
     flex: 1,
@@ -0,0 +1,81 @@
+import { AudioPlayer, createAudioPlayer, setAudioModeAsync } from 'expo-audio';
+import { AMBIENT_SOUNDS, AmbientMix, AmbientSoundId } from '../utils/AmbientSounds';
+
+// Bundled loops, each crossfaded at its ends so it repeats without a click
+const SOUND_SOURCES: Record<AmbientSoundId, number> = {
+  whiteNoise: require('../../assets/sounds/white-noise.wav'),
+  pinkNoise: require('../../assets/sounds/pink-noise.wav'),
+  brownNoise: require('../../assets/sounds/brown-noise.wav'),
+};
+
+// Players are created the first time a track is switched on and reused after that
+const players: Partial<Record<AmbientSoundId, AudioPlayer>> = {};
+let audioModeSet = false;
+
+const getPlayer = (id: AmbientSoundId): AudioPlayer => {
+  let player = players[id];
+  if (!player) {
+    player = createAudioPlayer(SOUND_SOURCES[id]);
+    player.loop = true;
+    players[id] = player;
+  }
+  return player;
+};
+
+// Play every track in a mix at its volume, tracks left out of it are paused
+export const playAmbientMix = async (mix: AmbientMix): Promise<void> => {
+  try {
+    if (!audioModeSet) {
+      // Keep playing with the screen locked or the app in the background, alongside other audio
+      await setAudioModeAsync({
+        playsInSilentMode: true,
+        shouldPlayInBackground: true,
+        interruptionMode: 'mixWithOthers',
+        interruptionModeAndroid: 'duckOthers',
+      });
+      audioModeSet = true;
+    }
+
+    AMBIENT_SOUNDS.forEach(({ id }) => {
+      const volume = mix[id] || 0;
+      if (volume > 0) {
+        const player = getPlayer(id);
+        player.volume = volume;
+        if (!player.playing) {
+          player.play();
+        }
+      } else {
+        players[id]?.pause();
+      }
+    });
+  } catch (error) {
+    console.error('Error playing ambient sounds:', error);
+  }
+};
+
+// Pause every track, for breaks and paused sessions
+export const pauseAmbientSounds = (): void => {
+  try {
+    Object.values(players).forEach(player => player?.pause());
+  } catch (error) {
+    console.error('Error pausing ambient sounds:', error);
+  }
+};
+
+// Stop every track and free its player, for when the timer screen goes away
+export const releaseAmbientSounds = (): void => {
+  try {
+    (Object.keys(players) as AmbientSoundId[]).forEach(id => {
+      players[id]?.remove();
+      delete players[id];
+    });
+  } catch (error) {
+    console.error('Error releasing ambient sounds:', error);
+  }
+};
+
+export default {
+  playAmbientMix,
+  pauseAmbientSounds,
+  releaseAmbientSounds,
+};
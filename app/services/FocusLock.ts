@@ -0,0 +1,32 @@
+/**
+ * Keeps the user on the timer during a focus session in focus mode.
+ * The timer screen sets a handler while a session is running, and navigation
+ * away from the timer goes through it, so leaving has to be confirmed first.
+ */
+type LeaveHandler = (leave: () => void) => void;
+
+let leaveHandler: LeaveHandler | null = null;
+
+/**
+ * Set the handler asked before leaving the timer
+ * @param handler Handler that confirms with the user and calls leave, null lets navigation through
+ */
+export const setFocusLock = (handler: LeaveHandler | null) => {
+  leaveHandler = handler;
+};
+
+/**
+ * Ask the focus lock before leaving the timer
+ * @param leave Navigation to carry out once leaving is confirmed
+ * @returns True when the lock took over and the navigation has to wait
+ */
+export const requestLeaveFocus = (leave: () => void): boolean => {
+  if (!leaveHandler) return false;
+  leaveHandler(leave);
+  return true;
+};
+
+export default {
+  setFocusLock,
+  requestLeaveFocus
+};
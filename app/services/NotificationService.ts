@@ -11,8 +11,22 @@ export const NOTIFICATION_TYPES = {
   TASK_REMINDER: 'TASK_REMINDER',
   EXAM_REMINDER: 'EXAM_REMINDER',
   TIMER_COMPLETED: 'TIMER_COMPLETED',
+  TASK_UNBLOCKED: 'TASK_UNBLOCKED',
+  DAILY_GOAL_REMINDER: 'DAILY_GOAL_REMINDER',
+  STREAK_REMINDER: 'STREAK_REMINDER',
+  ACHIEVEMENT: 'ACHIEVEMENT',
 };
 
+// Category carrying the snooze buttons on task reminders
+export const TASK_REMINDER_CATEGORY = 'taskReminder';
+
+// Snooze buttons shown on task reminders, mapped to snooze options
+export const SNOOZE_ACTIONS = {
+  SNOOZE_LATER_TODAY: 'laterToday',
+  SNOOZE_TOMORROW: 'tomorrow',
+  SNOOZE_NEXT_WEEK: 'nextWeek',
+} as const;
+
 // Type definitions
 type Task = {
   id: string;
@@ -33,16 +47,52 @@ type Exam = {
   completed?: boolean;
 };
 
+// Notifications held back while a focus session runs in focus mode, sent once it ends
+const DEFERRED_NOTIFICATIONS_KEY = 'deferredNotifications';
+// Scheduled reminders taken off the system schedule for a focus session, so they can't fire in the background
+const HELD_NOTIFICATIONS_KEY = 'heldNotifications';
+const TIMER_NOTIFICATION_TYPES = [NOTIFICATION_TYPES.TIMER_COMPLETED, 'TIMER_PROGRESS'];
+let focusHold = false;
+
+const isTimerNotification = (data?: Record<string, any> | null) => TIMER_NOTIFICATION_TYPES.includes(data?.type);
+
+// Queue a notification for the end of the focus session, kept in storage in case the app is closed first
+const deferNotification = async (content: Notifications.NotificationContentInput) => {
+  try {
+    const stored = await AsyncStorage.getItem(DEFERRED_NOTIFICATIONS_KEY);
+    const deferred: Notifications.NotificationContentInput[] = stored ? JSON.parse(stored) : [];
+    await AsyncStorage.setItem(DEFERRED_NOTIFICATIONS_KEY, JSON.stringify([...deferred, content]));
+  } catch (error) {
+    console.error('Error deferring notification:', error);
+  }
+};
+
 // Configure foreground notification handling
 Notifications.setNotificationHandler({
-  handleNotification: async () => ({
-    shouldShowAlert: true,
-    shouldPlaySound: true,
-    shouldSetBadge: true,
-    priority: Notifications.AndroidNotificationPriority.MAX,
-    shouldShowBanner: true,
-    shouldShowList: true,
-  }),
+  handleNotification: async (notification) => {
+    const { title, body, data, categoryIdentifier } = notification.request.content;
+
+    // Reminders that come due during a focus session wait for the break
+    if (focusHold && !isTimerNotification(data)) {
+      await deferNotification({ title, body, data, categoryIdentifier: categoryIdentifier || undefined, sound: true });
+      return {
+        shouldShowAlert: false,
+        shouldPlaySound: false,
+        shouldSetBadge: false,
+        shouldShowBanner: false,
+        shouldShowList: false,
+      };
+    }
+
+    return {
+      shouldShowAlert: true,
+      shouldPlaySound: true,
+      shouldSetBadge: true,
+      priority: Notifications.AndroidNotificationPriority.MAX,
+      shouldShowBanner: true,
+      shouldShowList: true,
+    };
+  },
 });
 
 // Utility function to create a time-based trigger
@@ -52,6 +102,46 @@ const createTrigger = (date: Date): Notifications.NotificationTriggerInput => ({
   repeats: false,
 });
 
+type HeldNotification = {
+  identifier: string;
+  content: Notifications.NotificationContentInput;
+  fireAt: number;
+};
+
+// Holding, releasing and adding to the held reminders run one at a time,
+// so none of them reads the held list while another one is writing it
+let heldQueue: Promise<void> = Promise.resolve();
+
+const queueHeldWork = (work: () => Promise<void>): Promise<void> => {
+  heldQueue = heldQueue.then(work);
+  return heldQueue;
+};
+
+const addHeldNotification = (notification: HeldNotification) => queueHeldWork(async () => {
+  try {
+    const stored = await AsyncStorage.getItem(HELD_NOTIFICATIONS_KEY);
+    const held: HeldNotification[] = stored ? JSON.parse(stored) : [];
+    await AsyncStorage.setItem(HELD_NOTIFICATIONS_KEY, JSON.stringify([...held, notification]));
+  } catch (error) {
+    console.error('Error holding notification:', error);
+  }
+});
+
+// Schedule a task or exam reminder. During a focus session it goes straight to the held
+// reminders instead, under an id of its own, so it can't fire in the background either.
+const scheduleReminder = async (content: Notifications.NotificationContentInput, date: Date): Promise<string> => {
+  const fireAt = date.getTime();
+  const reminderContent = { ...content, data: { ...content.data, fireAt } };
+
+  if (focusHold) {
+    const identifier = `held-${fireAt}-${Math.random().toString(36).slice(2, 8)}`;
+    await addHeldNotification({ identifier, content: reminderContent, fireAt });
+    return identifier;
+  }
+
+  return Notifications.scheduleNotificationAsync({ content: reminderContent, trigger: createTrigger(date) });
+};
+
 // Initialize notification channels for Android
 const initializeAndroidChannels = async () => {
   if (Platform.OS === 'android') {
@@ -109,6 +199,21 @@ const initializeAndroidChannels = async () => {
   }
 };
 
+// Register the snooze buttons shown on task reminders
+const initializeNotificationCategories = async () => {
+  if (Platform.OS === 'web') return;
+
+  try {
+    await Notifications.setNotificationCategoryAsync(TASK_REMINDER_CATEGORY, [
+      { identifier: 'SNOOZE_LATER_TODAY', buttonTitle: 'Later Today', options: { opensAppToForeground: true } },
+      { identifier: 'SNOOZE_TOMORROW', buttonTitle: 'Tomorrow', options: { opensAppToForeground: true } },
+      { identifier: 'SNOOZE_NEXT_WEEK', buttonTitle: 'Next Week', options: { opensAppToForeground: true } },
+    ]);
+  } catch (error) {
+    console.error('Error registering notification categories:', error);
+  }
+};
+
 // Check if device supports notifications
 export const areNotificationsAvailable = async () => {
   if (!Device.isDevice) {
@@ -158,36 +263,32 @@ export const scheduleTaskNotification = async (task: Task, reminderMinutes: numb
       reminderTime.setMinutes(reminderTime.getMinutes() - reminderMinutes);
 
       if (reminderTime > new Date()) {
-        const reminderId = await Notifications.scheduleNotificationAsync({
-          content: {
-            title: `Reminder: ${task.title}`,
-            body: `Task due in ${reminderMinutes} minutes`,
-            data: {
-              type: NOTIFICATION_TYPES.TASK_REMINDER,
-              taskId: task.id,
-            },
-            sound: true,
+        const reminderId = await scheduleReminder({
+          title: `Reminder: ${task.title}`,
+          body: `Task due in ${reminderMinutes} minutes`,
+          data: {
+            type: NOTIFICATION_TYPES.TASK_REMINDER,
+            taskId: task.id,
           },
-          trigger: createTrigger(reminderTime),
-        });
+          sound: true,
+          categoryIdentifier: TASK_REMINDER_CATEGORY,
+        }, reminderTime);
 
         notificationIds.push({ id: reminderId, type: 'reminder' });
       }
     }
 
     // Schedule due notification
-    const dueId = await Notifications.scheduleNotificationAsync({
-      content: {
-        title: 'Task Due',
-        body: `${task.title} is due now`,
-        data: {
-          type: NOTIFICATION_TYPES.TASK_DUE,
-          taskId: task.id,
-        },
-        sound: true,
+    const dueId = await scheduleReminder({
+      title: 'Task Due',
+      body: `${task.title} is due now`,
+      data: {
+        type: NOTIFICATION_TYPES.TASK_DUE,
+        taskId: task.id,
       },
-      trigger: createTrigger(dueDate),
-    });
+      sound: true,
+      categoryIdentifier: TASK_REMINDER_CATEGORY,
+    }, dueDate);
 
     notificationIds.push({ id: dueId, type: 'due' });
     await AsyncStorage.setItem(`taskNotification:${task.id}`, JSON.stringify(notificationIds));
@@ -214,18 +315,15 @@ export const scheduleExamReminder = async (exam: Exam) => {
 
     if (morningTime <= new Date()) return null;
 
-    const notificationId = await Notifications.scheduleNotificationAsync({
-      content: {
-        title: 'Exam Today',
-        body: `${exam.title} exam is today`,
-        data: {
-          type: NOTIFICATION_TYPES.EXAM_REMINDER,
-          examId: exam.id,
-        },
-        sound: true,
+    const notificationId = await scheduleReminder({
+      title: 'Exam Today',
+      body: `${exam.title} exam is today`,
+      data: {
+        type: NOTIFICATION_TYPES.EXAM_REMINDER,
+        examId: exam.id,
       },
-      trigger: createTrigger(morningTime),
-    });
+      sound: true,
+    }, morningTime);
 
     await AsyncStorage.setItem(`examNotification:${exam.id}`, JSON.stringify([{ id: notificationId }]));
     return [{ id: notificationId }];
@@ -287,6 +385,32 @@ export const sendTimerCompletionNotification = async (title = 'Timer Complete',
   }
 };
 
+// Notify that a task's prerequisites are done and it can be started
+export const sendTaskUnblockedNotification = async (task: Task, prerequisiteTitle: string) => {
+  try {
+    const content = {
+      title: 'Task Ready to Start',
+      body: `"${prerequisiteTitle}" is done, you can now work on ${task.title}`,
+      data: {
+        type: NOTIFICATION_TYPES.TASK_UNBLOCKED,
+        taskId: task.id,
+      },
+      sound: true,
+    };
+    if (focusHold) {
+      await deferNotification(content);
+      return;
+    }
+
+    await Notifications.scheduleNotificationAsync({
+      content,
+      trigger: null, // Immediate
+    });
+  } catch (error) {
+    console.error('Error sending task unblocked notification:', error);
+  }
+};
+
 // Show a timer notification
 export const showTimerNotification = async (title: string, body: string): Promise<string | null> => {
   try {
@@ -308,6 +432,126 @@ export const showTimerNotification = async (title: string, body: string): Promis
   }
 };
 
+// Schedule the notifications announcing each phase change of an auto-cycling timer
+export const scheduleTimerPhaseNotifications = async (
+  phases: { title: string; body: string; date: Date }[]
+): Promise<string[]> => {
+  try {
+    return await Promise.all(
+      phases.map(phase =>
+        Notifications.scheduleNotificationAsync({
+          content: {
+            title: phase.title,
+            body: phase.body,
+            data: { type: NOTIFICATION_TYPES.TIMER_COMPLETED },
+            sound: true,
+          },
+          trigger: createTrigger(phase.date),
+        })
+      )
+    );
+  } catch (error) {
+    console.error('Error scheduling timer phase notifications:', error);
+    return [];
+  }
+};
+
+// Cancel phase notifications when an auto-cycling timer is paused or reset
+export const cancelTimerPhaseNotifications = async (notificationIds: string[]): Promise<void> => {
+  try {
+    await Promise.all(notificationIds.map(id => Notifications.cancelScheduledNotificationAsync(id)));
+  } catch (error) {
+    console.error('Error canceling timer phase notifications:', error);
+  }
+};
+
+// Send the notifications held back by focus mode, unless a focus session is still running
+const sendDeferredNotifications = async () => {
+  if (focusHold) return;
+
+  try {
+    const stored = await AsyncStorage.getItem(DEFERRED_NOTIFICATIONS_KEY);
+    if (!stored) return;
+    await AsyncStorage.removeItem(DEFERRED_NOTIFICATIONS_KEY);
+
+    const deferred: Notifications.NotificationContentInput[] = JSON.parse(stored);
+    await Promise.all(deferred.map(content => Notifications.scheduleNotificationAsync({ content, trigger: null })));
+  } catch (error) {
+    console.error('Error sending deferred notifications:', error);
+  }
+};
+
+// Take scheduled task and exam reminders off the system schedule, the foreground handler
+// can't stop them while the app is in the background
+const holdScheduledNotifications = async () => {
+  try {
+    const scheduled = await Notifications.getAllScheduledNotificationsAsync();
+    const held: HeldNotification[] = [];
+
+    for (const request of scheduled) {
+      const { title, body, data, categoryIdentifier } = request.content;
+      if (isTimerNotification(data) || typeof data?.fireAt !== 'number') continue;
+
+      await Notifications.cancelScheduledNotificationAsync(request.identifier);
+      held.push({
+        identifier: request.identifier,
+        content: { title, body, data, categoryIdentifier: categoryIdentifier || undefined, sound: true },
+        fireAt: data.fireAt,
+      });
+    }
+
+    const stored = await AsyncStorage.getItem(HELD_NOTIFICATIONS_KEY);
+    const alreadyHeld: HeldNotification[] = stored ? JSON.parse(stored) : [];
+    await AsyncStorage.setItem(HELD_NOTIFICATIONS_KEY, JSON.stringify([...alreadyHeld, ...held]));
+  } catch (error) {
+    console.error('Error holding scheduled notifications:', error);
+  }
+};
+
+// Whether a held reminder still belongs to its task or exam, it may have been cancelled while held
+const isStillScheduled = async ({ identifier, content }: HeldNotification) => {
+  const key = content.data?.taskId
+    ? `taskNotification:${content.data.taskId}`
+    : `examNotification:${content.data?.examId}`;
+  const stored = await AsyncStorage.getItem(key);
+  const notifications: { id: string }[] = stored ? JSON.parse(stored) : [];
+  return notifications.some(n => n.id === identifier);
+};
+
+// Put held reminders back on the schedule under their old ids, the ones that came due are sent now
+const releaseHeldNotifications = async () => {
+  try {
+    const stored = await AsyncStorage.getItem(HELD_NOTIFICATIONS_KEY);
+    if (!stored) return;
+    await AsyncStorage.removeItem(HELD_NOTIFICATIONS_KEY);
+
+    const held: HeldNotification[] = JSON.parse(stored);
+    const now = Date.now();
+    for (const notification of held) {
+      if (!await isStillScheduled(notification)) continue;
+
+      await Notifications.scheduleNotificationAsync({
+        identifier: notification.identifier,
+        content: notification.content,
+        trigger: notification.fireAt > now ? createTrigger(new Date(notification.fireAt)) : null,
+      });
+    }
+  } catch (error) {
+    console.error('Error releasing held notifications:', error);
+  }
+};
+
+// Hold back notifications other than the timer's while a focus session runs in focus mode,
+// releasing the hold sends everything that was held back
+export const setFocusHold = async (active: boolean): Promise<void> => {
+  focusHold = active;
+  // A release waits for a hold that is still taking reminders off the schedule
+  await queueHeldWork(active ? holdScheduledNotifications : releaseHeldNotifications);
+  if (!active) {
+    await sendDeferredNotifications();
+  }
+};
+
 // Cancel a specific timer notification
 export const cancelTimerNotification = async (notificationId: string): Promise<void> => {
   try {
@@ -333,9 +577,18 @@ export const initializeNotifications = async (
     // Initialize Android channels
     await initializeAndroidChannels();
 
+    // Register notification action buttons
+    await initializeNotificationCategories();
+
     // Check permissions
     if (!await requestNotificationPermissions()) return;
 
+    // Send anything held back by a focus session the app was closed during
+    if (!focusHold) {
+      await queueHeldWork(releaseHeldNotifications);
+    }
+    await sendDeferredNotifications();
+
     // Schedule notifications
     const promises = [
       ...tasks
@@ -357,11 +610,16 @@ export default {
   scheduleTaskNotification,
   scheduleExamReminder,
   sendTimerCompletionNotification,
+  sendTaskUnblockedNotification,
   showTimerNotification,
   cancelTimerNotification,
+  scheduleTimerPhaseNotifications,
+  cancelTimerPhaseNotifications,
+  setFocusHold,
   areNotificationsAvailable,
   requestNotificationPermissions,
   cancelTaskNotification,
   cancelExamReminder,
   NOTIFICATION_TYPES,
+  SNOOZE_ACTIONS,
 };
@@ -1,6 +1,9 @@
 // Add the missing notification methods to NotificationService.ts
 
 import * as Notifications from 'expo-notifications';
+import { NOTIFICATION_TYPES } from './NotificationService';
+
+const checkPermissions = () => Notifications.getPermissionsAsync();
 
 // Daily goal reminder
 export const scheduleDailyGoalReminder = async (
@@ -41,6 +44,7 @@ export const scheduleDailyGoalReminder = async (
         sound: true
       },
       trigger: {
+        type: Notifications.SchedulableTriggerInputTypes.DATE,
         date: reminderTime
       }
     });
@@ -80,6 +84,7 @@ export const scheduleStreakReminder = async (currentStreak: number) => {
         sound: true
       },
       trigger: {
+        type: Notifications.SchedulableTriggerInputTypes.DATE,
         date: reminderTime
       }
     });
@@ -1,7 +1,11 @@
 import AsyncStorage from '@react-native-async-storage/async-storage';
 import * as BackgroundFetch from 'expo-background-fetch';
 import * as TaskManager from 'expo-task-manager';
-import { cancelTimerNotification, sendTimerCompletionNotification, showTimerNotification } from './NotificationService';
+import { formatElapsed, getFlowtimeElapsed } from '../utils/Flowtime';
+import { advanceCycle, CycleMode, describeCyclePosition, getTimerNotificationContent } from '../utils/PomodoroCycle';
+import { TimerDurations } from '../utils/TimerProfiles';
+import { getSavedTimerFields, getSecondsUntil, getTimeLeft, restoreTimerRun } from '../utils/TimerEngine';
+import { cancelTimerNotification, showTimerNotification } from './NotificationService';
 
 // Constants
 export const TIMER_BACKGROUND_TASK = 'TIMER_BACKGROUND_TASK';
@@ -11,11 +15,18 @@ const TIMER_STATE_KEY = 'timerState';
 interface TimerState {
   endTime: number | null; // Allow null for paused state
   timeLeft: number;
+  remainingMs?: number; // Time left to the millisecond, kept while paused
   isRunning: boolean;
   timerMode: string;
   taskTitle?: string;
   lastUpdateTime: number;
   notificationId?: string | null; // Added to store active notification ID
+  startTime?: number | null; // Flowtime: when the current run started, null when paused
+  elapsed?: number; // Flowtime: seconds studied before the current run
+  autoCycle?: boolean; // Move on to the next phase when one ends
+  completedPomodoros?: number; // Focus sessions finished earlier in the cycle
+  cycleDurations?: TimerDurations; // Durations the cycle runs with
+  phaseNotificationIds?: string[]; // Notifications scheduled for the end of each phase, cancelled on pause
 }
 
 // Initialize the timer state in AsyncStorage
@@ -87,43 +98,75 @@ TaskManager.defineTask(TIMER_BACKGROUND_TASK, async ({ data, error, executionInf
       return BackgroundFetch.BackgroundFetchResult.NoData;
     }
 
-    // Calculate time passed since last update
-    const now = Date.now();
-    const timePassed = Math.floor((now - timerState.lastUpdateTime) / 1000);
-    const newTimeLeft = Math.max(0, timerState.timeLeft - timePassed);
-
-    // Update timer state (including lastUpdateTime)
-    await updateTimerState({
-      timeLeft: newTimeLeft,
-      // notificationId will be updated below if necessary
-    });
-
-    if (newTimeLeft <= 0) {
-      // Timer completed
-      await updateTimerState({
-        timeLeft: 0,
-        isRunning: false,
-        notificationId: null, // Clear notification ID on completion
-      });
-
+    // Flowtime counts up until the user stops it, so only the notification needs updating
+    if (timerState.timerMode === 'flowtime') {
+      const elapsed = getFlowtimeElapsed(timerState.startTime ?? null, timerState.elapsed || 0);
       if (timerState.notificationId) {
-        await cancelTimerNotification(timerState.notificationId); // Cancel ongoing notification
+        await cancelTimerNotification(timerState.notificationId);
       }
-      await sendTimerCompletionNotification(); // Send completion notification
+      const newNotificationId = await showTimerNotification(
+        `${timerState.taskTitle || 'Flowtime'} Timer`,
+        `Time studied: ${formatElapsed(elapsed)}`
+      );
+      await updateTimerState({ notificationId: newNotificationId });
       return BackgroundFetch.BackgroundFetchResult.NewData;
-    } else {
-      // Update notification
-      // Cancel previous notification before showing a new one to prevent duplicates
+    }
+
+    // An auto-cycling timer is followed from its end time, the screen records finished sessions when opened
+    if (timerState.autoCycle && timerState.endTime && timerState.cycleDurations) {
+      const { current } = advanceCycle(
+        {
+          mode: timerState.timerMode as CycleMode,
+          completedPomodoros: timerState.completedPomodoros || 0,
+          endTime: timerState.endTime
+        },
+        timerState.cycleDurations
+      );
       if (timerState.notificationId) {
         await cancelTimerNotification(timerState.notificationId);
       }
-      const title = `${timerState.timerMode === 'pomodoro' ? (timerState.taskTitle || 'Focus') : (timerState.timerMode === 'shortBreak' ? 'Short Break' : 'Long Break')} Timer`;
-      const body = `Time remaining: ${Math.floor(newTimeLeft / 60)}:${(newTimeLeft % 60).toString().padStart(2, '0')}`;
+      if (!current) {
+        // The long break ended the cycle, its phase notification has announced it
+        await updateTimerState({ notificationId: null });
+        return BackgroundFetch.BackgroundFetchResult.NewData;
+      }
+
+      const { title, body } = getTimerNotificationContent(
+        current.mode,
+        getSecondsUntil(current.endTime),
+        timerState.taskTitle,
+        describeCyclePosition(current.mode, current.completedPomodoros, timerState.cycleDurations.longBreakInterval)
+      );
       const newNotificationId = await showTimerNotification(title, body);
-      await updateTimerState({ notificationId: newNotificationId }); // Store new notification ID
+      await updateTimerState({ notificationId: newNotificationId });
+      return BackgroundFetch.BackgroundFetchResult.NewData;
+    }
+
+    // The time left is read off the end time, however long it has been since the last run
+    const run = restoreTimerRun(timerState);
+
+    if (timerState.notificationId) {
+      await cancelTimerNotification(timerState.notificationId); // Cancel ongoing notification
+    }
 
+    if (run.status === 'completed') {
+      // The completion notification was scheduled when the timer started, so it has already gone out
+      await updateTimerState({
+        ...getSavedTimerFields(run),
+        notificationId: null, // Clear notification ID on completion
+      });
       return BackgroundFetch.BackgroundFetchResult.NewData;
     }
+
+    const timeLeft = getTimeLeft(run);
+    const position = timerState.cycleDurations
+      ? describeCyclePosition(timerState.timerMode as CycleMode, timerState.completedPomodoros || 0, timerState.cycleDurations.longBreakInterval)
+      : undefined;
+    const { title, body } = getTimerNotificationContent(timerState.timerMode, timeLeft, timerState.taskTitle, position);
+    const newNotificationId = await showTimerNotification(title, body);
+    await updateTimerState({ timeLeft, notificationId: newNotificationId }); // Store new notification ID
+
+    return BackgroundFetch.BackgroundFetchResult.NewData;
   } catch (error) {
     console.error('Error in background timer task:', error);
     return BackgroundFetch.BackgroundFetchResult.Failed;
@@ -0,0 +1,73 @@
+/**
+ * Utility functions for the ambient sound mixer.
+ * A mix gives each bundled track a volume from 0 to 1, tracks left out of it
+ * stay silent. A timer profile can carry its own mix, otherwise the mix in the
+ * global settings is used. Sounds only play while a focus session is running.
+ */
+
+export type AmbientSoundId = 'whiteNoise' | 'pinkNoise' | 'brownNoise';
+
+export type AmbientMix = Partial<Record<AmbientSoundId, number>>;
+
+export const AMBIENT_SOUNDS: { id: AmbientSoundId; label: string; icon: string; description: string }[] = [
+  { id: 'whiteNoise', label: 'White Noise', icon: 'radio-outline', description: 'Even hiss that covers chatter' },
+  { id: 'pinkNoise', label: 'Pink Noise', icon: 'rainy-outline', description: 'Softer, like steady rain' },
+  { id: 'brownNoise', label: 'Brown Noise', icon: 'water-outline', description: 'Deep rumble, like a waterfall' }
+];
+
+// Volume a track starts at when it is switched on
+export const DEFAULT_TRACK_VOLUME = 0.5;
+
+// Minimal profile shape needed to look up its mix
+type MixProfile = {
+  ambientMix?: AmbientMix;
+};
+
+/**
+ * Get the mix to play
+ * @param globalMix Mix saved in the global settings
+ * @param profile Active timer profile, its own mix wins when it has one
+ */
+export const getAmbientMix = (globalMix?: AmbientMix, profile?: MixProfile | null): AmbientMix => {
+  return profile?.ambientMix ?? globalMix ?? {};
+};
+
+/**
+ * Set the volume of one track, a volume of 0 takes it out of the mix
+ * @param mix Current mix
+ * @param id Track to change
+ * @param volume New volume from 0 to 1
+ */
+export const setTrackVolume = (mix: AmbientMix, id: AmbientSoundId, volume: number): AmbientMix => {
+  const updated = { ...mix };
+  if (volume > 0) {
+    updated[id] = Math.min(1, volume);
+  } else {
+    delete updated[id];
+  }
+  return updated;
+};
+
+/**
+ * Whether a mix has any track switched on
+ * @param mix Mix to check
+ */
+export const isMixAudible = (mix: AmbientMix): boolean => {
+  return Object.values(mix).some(volume => (volume || 0) > 0);
+};
+
+/**
+ * Short summary of a mix, e.g. "Pink Noise, Brown Noise"
+ * @param mix Mix to describe
+ */
+export const formatMixSummary = (mix: AmbientMix): string => {
+  const labels = AMBIENT_SOUNDS.filter(sound => (mix[sound.id] || 0) > 0).map(sound => sound.label);
+  return labels.length > 0 ? labels.join(', ') : 'Off';
+};
+
+export default {
+  getAmbientMix,
+  setTrackVolume,
+  isMixAudible,
+  formatMixSummary
+};
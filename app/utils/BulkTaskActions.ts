@@ -0,0 +1,163 @@
+import { addDays, parseISO } from 'date-fns';
+
+/**
+ * Utility functions for acting on several selected tasks at once.
+ * Each bulk action is turned into per-task updates here so the reducer can
+ * apply a whole selection in a single dispatch.
+ */
+
+export type BulkPriority = 'low' | 'medium' | 'high';
+
+export type BulkTaskAction =
+  | { type: 'complete' }
+  | { type: 'uncomplete' }
+  | { type: 'archive' }
+  | { type: 'unarchive' }
+  | { type: 'subject'; subject: string }
+  | { type: 'priority'; priority: BulkPriority }
+  | { type: 'shiftDueDate'; days: number };
+
+type TaskHistoryEntry = {
+  timestamp: string;
+  changes: string;
+  progress?: number;
+  completed?: boolean;
+};
+
+// Minimal task shape needed to apply a bulk action
+type BulkTask = {
+  id: string;
+  dueDate: string;
+  completed: boolean;
+  archived: boolean;
+  subject?: string;
+  priority?: BulkPriority;
+  progress?: number;
+  history?: TaskHistoryEntry[];
+};
+
+// Task fields changed by a bulk action
+export type BulkTaskUpdates = {
+  dueDate?: string;
+  completed?: boolean;
+  completedAt?: string;
+  archived?: boolean;
+  subject?: string;
+  priority?: BulkPriority;
+  progress?: number;
+  lastModified: string;
+  history: TaskHistoryEntry[];
+};
+
+/**
+ * Move a due date by a number of days, keeping its time of day
+ * @param dueDate ISO due date
+ * @param days Days to move by, negative moves it earlier
+ */
+export const shiftDueDate = (dueDate: string, days: number): string => {
+  return addDays(parseISO(dueDate), days).toISOString();
+};
+
+/**
+ * Describe a bulk action for the task history
+ * @param action Bulk action
+ */
+export const describeBulkAction = (action: BulkTaskAction): string => {
+  switch (action.type) {
+    case 'complete':
+      return 'Marked complete';
+    case 'uncomplete':
+      return 'Marked incomplete';
+    case 'archive':
+      return 'Archived';
+    case 'unarchive':
+      return 'Unarchived';
+    case 'subject':
+      return action.subject ? `Subject changed to ${action.subject}` : 'Subject removed';
+    case 'priority':
+      return `Priority changed to ${action.priority}`;
+    case 'shiftDueDate': {
+      const days = Math.abs(action.days);
+      return `Due date moved ${days} ${days === 1 ? 'day' : 'days'} ${action.days < 0 ? 'earlier' : 'later'}`;
+    }
+  }
+};
+
+/**
+ * Work out the updates a bulk action makes to one task
+ * @param task Task to update
+ * @param action Bulk action
+ * @param now ISO timestamp of the change
+ * @returns Updates including a history entry, or null if the task is unaffected
+ */
+export const getBulkTaskUpdates = (
+  task: BulkTask,
+  action: BulkTaskAction,
+  now: string = new Date().toISOString()
+): BulkTaskUpdates | null => {
+  let updates: Omit<BulkTaskUpdates, 'lastModified' | 'history'>;
+
+  switch (action.type) {
+    case 'complete':
+      if (task.completed) return null;
+      updates = { completed: true, completedAt: now, progress: 100 };
+      break;
+    case 'uncomplete':
+      if (!task.completed) return null;
+      updates = { completed: false, completedAt: undefined };
+      break;
+    case 'archive':
+      if (task.archived) return null;
+      updates = { archived: true };
+      break;
+    case 'unarchive':
+      if (!task.archived) return null;
+      updates = { archived: false };
+      break;
+    case 'subject':
+      if ((task.subject || '') === action.subject) return null;
+      updates = { subject: action.subject };
+      break;
+    case 'priority':
+      if (task.priority === action.priority) return null;
+      updates = { priority: action.priority };
+      break;
+    case 'shiftDueDate':
+      if (!action.days || !task.dueDate) return null;
+      updates = { dueDate: shiftDueDate(task.dueDate, action.days) };
+      break;
+    default:
+      return null;
+  }
+
+  const historyEntry: TaskHistoryEntry = {
+    timestamp: now,
+    changes: describeBulkAction(action),
+    progress: updates.progress ?? task.progress,
+    completed: updates.completed
+  };
+
+  return {
+    ...updates,
+    lastModified: now,
+    history: [...(task.history || []), historyEntry].slice(-10) // Keep only last 10 entries
+  };
+};
+
+/**
+ * Add or remove an id from a selection
+ * @param selectedIds Currently selected ids
+ * @param id Id to toggle
+ */
+export const toggleSelection = (selectedIds: string[], id: string): string[] => {
+  return selectedIds.includes(id)
+    ? selectedIds.filter(selectedId => selectedId !== id)
+    : [...selectedIds, id];
+};
+
+export default {
+  shiftDueDate,
+  describeBulkAction,
+  getBulkTaskUpdates,
+  toggleSelection
+};
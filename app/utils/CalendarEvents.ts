@@ -0,0 +1,268 @@
+import {
+  addDays,
+  addMinutes,
+  differenceInMinutes,
+  endOfMonth,
+  endOfWeek,
+  isSameDay,
+  parseISO,
+  startOfDay,
+  startOfMonth,
+  startOfWeek
+} from 'date-fns';
+
+/**
+ * Utility functions for the calendar views.
+ * Tasks, exams and logged study sessions are turned into one list of events
+ * that the month, week and day views can plot.
+ */
+
+export type CalendarEventKind = 'task' | 'exam' | 'session';
+
+export type CalendarEvent = {
+  id: string;
+  kind: CalendarEventKind;
+  sourceId?: string; // Id of the task or exam, or the task a session was logged against
+  title: string;
+  start: Date;
+  end: Date;
+  allDay: boolean;
+  subject?: string;
+  completed?: boolean;
+};
+
+export type PositionedCalendarEvent = CalendarEvent & {
+  lane: number; // Column index when events overlap
+  laneCount: number; // Number of columns in the overlapping group
+};
+
+// Minimal shapes of the data that ends up on the calendar
+type CalendarTask = {
+  id: string;
+  title: string;
+  dueDate: string;
+  dueTime?: string;
+  subject?: string;
+  completed: boolean;
+  archived: boolean;
+};
+
+type CalendarExam = {
+  id: string;
+  title: string;
+  date: string;
+  startTime?: string;
+  endTime?: string;
+  subject?: string;
+  completed: boolean;
+};
+
+type CalendarSession = {
+  id?: string;
+  timestamp: string; // When the session ended
+  duration: number; // in minutes
+  subject?: string;
+  taskId?: string;
+};
+
+// Length given to timed tasks, which only have a due time
+const DEFAULT_TASK_MINUTES = 30;
+
+// Apply an "HH:mm" time to a date
+const withTime = (date: Date, time: string): Date => {
+  const [hours, minutes] = time.split(':').map(Number);
+  const result = new Date(date);
+  result.setHours(hours || 0, minutes || 0, 0, 0);
+  return result;
+};
+
+/**
+ * Build calendar events from tasks, exams and study sessions
+ * @param tasks All tasks, archived ones are skipped
+ * @param exams All exams
+ * @param sessions Logged timer sessions
+ */
+export const buildCalendarEvents = (
+  tasks: CalendarTask[],
+  exams: CalendarExam[],
+  sessions: CalendarSession[] = []
+): CalendarEvent[] => {
+  const taskTitles = new Map(tasks.map(task => [task.id, task.title]));
+
+  const taskEvents: CalendarEvent[] = tasks
+    .filter(task => task.dueDate && !task.archived)
+    .map(task => {
+      const dueDate = parseISO(task.dueDate);
+      const start = task.dueTime ? withTime(dueDate, task.dueTime) : startOfDay(dueDate);
+
+      return {
+        id: `task-${task.id}`,
+        kind: 'task',
+        sourceId: task.id,
+        title: task.title,
+        start,
+        end: task.dueTime ? addMinutes(start, DEFAULT_TASK_MINUTES) : start,
+        allDay: !task.dueTime,
+        subject: task.subject,
+        completed: task.completed
+      };
+    });
+
+  const examEvents: CalendarEvent[] = exams
+    .filter(exam => exam.date)
+    .map(exam => {
+      const date = parseISO(exam.date);
+      const start = exam.startTime ? withTime(date, exam.startTime) : startOfDay(date);
+      const end = exam.startTime && exam.endTime ? withTime(date, exam.endTime) : addMinutes(start, 60);
+
+      return {
+        id: `exam-${exam.id}`,
+        kind: 'exam',
+        sourceId: exam.id,
+        title: exam.title,
+        start,
+        end: end > start ? end : addMinutes(start, 60),
+        allDay: !exam.startTime,
+        subject: exam.subject,
+        completed: exam.completed
+      };
+    });
+
+  const sessionEvents: CalendarEvent[] = sessions.map((session, index) => {
+    const end = parseISO(session.timestamp);
+
+    return {
+      id: `session-${session.id || index}`,
+      kind: 'session',
+      sourceId: session.taskId,
+      title: (session.taskId && taskTitles.get(session.taskId)) || session.subject || 'Study session',
+      start: addMinutes(end, -session.duration),
+      end,
+      allDay: false,
+      subject: session.subject,
+      completed: true
+    };
+  });
+
+  return [...taskEvents, ...examEvents, ...sessionEvents].sort((a, b) => a.start.getTime() - b.start.getTime());
+};
+
+/**
+ * Get the sessions that end on a day shown in a month grid
+ * @param sessions Every logged timer session
+ * @param month Any date in the month
+ */
+export const getSessionsInMonthGrid = <T extends CalendarSession>(sessions: T[], month: Date): T[] => {
+  const firstDay = startOfWeek(startOfMonth(month));
+  const lastDay = endOfWeek(endOfMonth(month));
+
+  return sessions.filter(session => {
+    const end = parseISO(session.timestamp);
+    return end >= firstDay && end <= lastDay;
+  });
+};
+
+/**
+ * Get the events that happen on a day
+ * @param events All calendar events
+ * @param day Day to look at
+ */
+export const getEventsForDay = (events: CalendarEvent[], day: Date): CalendarEvent[] => {
+  return events.filter(event => isSameDay(event.start, day));
+};
+
+/**
+ * Get the weeks shown in a month grid, padded with days from the neighbouring months
+ * @param month Any date in the month
+ */
+export const getMonthGrid = (month: Date): Date[][] => {
+  const weeks: Date[][] = [];
+  let day = startOfWeek(startOfMonth(month));
+  const lastDay = endOfWeek(endOfMonth(month));
+
+  while (day <= lastDay) {
+    const week: Date[] = [];
+    for (let i = 0; i < 7; i++) {
+      week.push(day);
+      day = addDays(day, 1);
+    }
+    weeks.push(week);
+  }
+
+  return weeks;
+};
+
+/**
+ * Get the seven days of the week containing a date
+ * @param date Any date in the week
+ */
+export const getWeekDays = (date: Date): Date[] => {
+  const weekStart = startOfWeek(date);
+  return Array.from({ length: 7 }, (_, i) => addDays(weekStart, i));
+};
+
+/**
+ * Lay out a day's timed events side by side where they overlap
+ * @param events Timed events of a single day
+ */
+export const layoutDayEvents = (events: CalendarEvent[]): PositionedCalendarEvent[] => {
+  const sorted = events
+    .filter(event => !event.allDay)
+    .sort((a, b) => a.start.getTime() - b.start.getTime() || b.end.getTime() - a.end.getTime());
+
+  const positioned: PositionedCalendarEvent[] = [];
+  let group: PositionedCalendarEvent[] = [];
+  let laneEnds: Date[] = [];
+  let groupEnd: Date | null = null;
+
+  const closeGroup = () => {
+    group.forEach(event => {
+      event.laneCount = laneEnds.length;
+    });
+    positioned.push(...group);
+    group = [];
+    laneEnds = [];
+    groupEnd = null;
+  };
+
+  sorted.forEach(event => {
+    // A new group starts once an event begins after everything before it has ended
+    if (groupEnd && event.start >= groupEnd) {
+      closeGroup();
+    }
+
+    // Reuse the first lane that is free again, otherwise open a new one
+    let lane = laneEnds.findIndex(laneEnd => laneEnd <= event.start);
+    if (lane === -1) {
+      lane = laneEnds.length;
+      laneEnds.push(event.end);
+    } else {
+      laneEnds[lane] = event.end;
+    }
+
+    group.push({ ...event, lane, laneCount: 1 });
+    groupEnd = !groupEnd || event.end > groupEnd ? event.end : groupEnd;
+  });
+  closeGroup();
+
+  return positioned;
+};
+
+/**
+ * Get the length of an event in minutes, with a minimum so short events stay tappable
+ * @param event Calendar event
+ * @param minimumMinutes Shortest length to report
+ */
+export const getEventMinutes = (event: CalendarEvent, minimumMinutes: number = 20): number => {
+  return Math.max(minimumMinutes, differenceInMinutes(event.end, event.start));
+};
+
+export default {
+  buildCalendarEvents,
+  getSessionsInMonthGrid,
+  getEventsForDay,
+  getMonthGrid,
+  getWeekDays,
+  layoutDayEvents,
+  getEventMinutes
+};
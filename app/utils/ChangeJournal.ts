@@ -0,0 +1,158 @@
+/**
+ * Utility functions for the undo/redo journal.
+ * A journal entry keeps the items a change touched as they were before and
+ * after it, so undoing is just putting the "before" items back and redoing
+ * puts the "after" items back.
+ */
+
+export type JournalCollection = 'tasks' | 'exams' | 'resources' | 'subjects';
+
+// Minimal item shape the journal can track
+type JournalItem = { id: string };
+
+export type JournalChange<T extends JournalItem = JournalItem> = {
+  before: T[]; // Changed or deleted items as they were
+  after: T[]; // Changed or added items as they became
+};
+
+export type JournalEntry = {
+  id: string;
+  label: string;
+  timestamp: string;
+  changes: Partial<Record<JournalCollection, JournalChange>>;
+};
+
+export type ChangeJournal = {
+  undo: JournalEntry[]; // Newest first
+  redo: JournalEntry[]; // Most recently undone first
+};
+
+export const MAX_JOURNAL_ENTRIES = 30;
+
+export const EMPTY_JOURNAL: ChangeJournal = { undo: [], redo: [] };
+
+const COLLECTION_NAMES: Record<JournalCollection, [string, string]> = {
+  tasks: ['task', 'tasks'],
+  exams: ['exam', 'exams'],
+  resources: ['resource', 'resources'],
+  subjects: ['subject', 'subjects']
+};
+
+/**
+ * Find the items that differ between two versions of a collection
+ * @param before Collection before the change
+ * @param after Collection after the change
+ * @returns The changed items on each side, or null if nothing changed
+ */
+export const diffCollection = <T extends JournalItem>(before: T[], after: T[]): JournalChange<T> | null => {
+  if (before === after) return null;
+
+  const beforeById = new Map(before.map(item => [item.id, item]));
+  const afterById = new Map(after.map(item => [item.id, item]));
+
+  // Items reloaded from storage are new objects, so fall back to comparing values
+  const isSame = (a: T, b: T) => a === b || JSON.stringify(a) === JSON.stringify(b);
+
+  const changedBefore = before.filter(item => {
+    const next = afterById.get(item.id);
+    return !next || !isSame(item, next);
+  });
+  const changedAfter = after.filter(item => {
+    const previous = beforeById.get(item.id);
+    return !previous || !isSame(previous, item);
+  });
+
+  if (changedBefore.length === 0 && changedAfter.length === 0) return null;
+  return { before: changedBefore, after: changedAfter };
+};
+
+/**
+ * Create a journal entry from before and after versions of each collection
+ * @param label Description shown in the undo snackbar
+ * @param collections Before and after versions of the collections a change may touch
+ * @param now Time of the change
+ * @returns The entry, or null if nothing changed
+ */
+export const createJournalEntry = (
+  label: string,
+  collections: Partial<Record<JournalCollection, [JournalItem[], JournalItem[]]>>,
+  now: Date = new Date()
+): JournalEntry | null => {
+  const changes: JournalEntry['changes'] = {};
+
+  (Object.keys(collections) as JournalCollection[]).forEach(collection => {
+    const [before, after] = collections[collection] as [JournalItem[], JournalItem[]];
+    const change = diffCollection(before, after);
+    if (change) {
+      changes[collection] = change;
+    }
+  });
+
+  if (Object.keys(changes).length === 0) return null;
+
+  return {
+    id: `${now.getTime()}-${Math.random().toString(36).slice(2, 8)}`,
+    label,
+    timestamp: now.toISOString(),
+    changes
+  };
+};
+
+/**
+ * Add an entry to the journal, dropping the oldest entries past the limit
+ * A new change can't be redone over, so the redo stack is cleared.
+ * @param journal Current journal
+ * @param entry Entry to add
+ */
+export const recordJournalEntry = (journal: ChangeJournal, entry: JournalEntry): ChangeJournal => ({
+  undo: [entry, ...journal.undo].slice(0, MAX_JOURNAL_ENTRIES),
+  redo: []
+});
+
+/**
+ * Swap one version of the changed items for the other
+ * Items are replaced in place, items that no longer exist are added at the end.
+ * @param items Current collection
+ * @param remove Items to take out
+ * @param add Items to put back
+ */
+export const applyJournalChange = <T extends JournalItem>(items: T[], remove: T[], add: T[]): T[] => {
+  const removeIds = new Set(remove.map(item => item.id));
+  const pending = new Map(add.map(item => [item.id, item]));
+
+  const result: T[] = [];
+  items.forEach(item => {
+    const replacement = pending.get(item.id);
+    if (replacement) {
+      result.push(replacement);
+      pending.delete(item.id);
+    } else if (!removeIds.has(item.id)) {
+      result.push(item);
+    }
+  });
+
+  return [...result, ...pending.values()];
+};
+
+/**
+ * Summarise what an entry touched, e.g. "3 tasks, 1 exam"
+ * @param entry Journal entry
+ */
+export const describeJournalEntry = (entry: JournalEntry): string => {
+  return (Object.keys(entry.changes) as JournalCollection[])
+    .map(collection => {
+      const change = entry.changes[collection] as JournalChange;
+      const ids = new Set([...change.before, ...change.after].map(item => item.id));
+      const [singular, plural] = COLLECTION_NAMES[collection];
+      return `${ids.size} ${ids.size === 1 ? singular : plural}`;
+    })
+    .join(', ');
+};
+
+export default {
+  diffCollection,
+  createJournalEntry,
+  recordJournalEntry,
+  applyJournalChange,
+  describeJournalEntry
+};
@@ -0,0 +1,45 @@
+/**
+ * Utility functions for task checklists (subtasks)
+ */
+
+export type ChecklistItem = {
+  id: string;
+  title: string;
+  done: boolean;
+};
+
+/**
+ * Derive a task's progress percentage from its checklist
+ * @param checklist Checklist items of the task
+ * @returns Progress from 0 to 100, or undefined when the checklist is empty
+ */
+export const getChecklistProgress = (checklist?: ChecklistItem[]): number | undefined => {
+  if (!checklist || checklist.length === 0) return undefined;
+
+  const doneCount = checklist.filter(item => item.done).length;
+  return Math.round((doneCount / checklist.length) * 100);
+};
+
+/**
+ * Check whether every item of a checklist has been ticked off
+ * @param checklist Checklist items of the task
+ */
+export const isChecklistComplete = (checklist?: ChecklistItem[]): boolean => {
+  return !!checklist && checklist.length > 0 && checklist.every(item => item.done);
+};
+
+/**
+ * Create a new unchecked checklist item
+ * @param title Text of the item
+ */
+export const createChecklistItem = (title: string): ChecklistItem => ({
+  id: `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+  title: title.trim(),
+  done: false
+});
+
+export default {
+  getChecklistProgress,
+  isChecklistComplete,
+  createChecklistItem
+};
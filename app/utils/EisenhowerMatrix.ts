@@ -0,0 +1,187 @@
+import { addDays, endOfDay, format, parseISO, setHours, setMinutes, startOfDay } from 'date-fns';
+
+/**
+ * Utility functions for the Eisenhower matrix view of tasks.
+ * Importance comes from the task priority and urgency from how close the due
+ * date is, so moving a task to another quadrant is just a task update.
+ */
+
+export type MatrixQuadrant = 'doFirst' | 'schedule' | 'delegate' | 'eliminate';
+
+export type MatrixCell<T> = {
+  key: MatrixQuadrant;
+  title: string;
+  subtitle: string;
+  urgent: boolean;
+  important: boolean;
+  tasks: T[];
+};
+
+type TaskHistoryEntry = {
+  timestamp: string;
+  changes: string;
+  progress?: number;
+  completed?: boolean;
+};
+
+// Minimal task shape needed to place a task in the matrix
+type MatrixTask = {
+  id: string;
+  dueDate: string;
+  dueTime?: string;
+  completed: boolean;
+  archived?: boolean;
+  priority?: 'low' | 'medium' | 'high';
+  progress?: number;
+  history?: TaskHistoryEntry[];
+};
+
+// Task fields changed by moving a task between quadrants
+export type MatrixMoveUpdates = {
+  priority?: 'low' | 'medium' | 'high';
+  dueDate?: string;
+  lastModified: string;
+  history: TaskHistoryEntry[];
+};
+
+// Quadrants in reading order, urgent on the left and important on top
+export const MATRIX_QUADRANTS: Omit<MatrixCell<unknown>, 'tasks'>[] = [
+  { key: 'doFirst', title: 'Do First', subtitle: 'Urgent & important', urgent: true, important: true },
+  { key: 'schedule', title: 'Schedule', subtitle: 'Important, not urgent', urgent: false, important: true },
+  { key: 'delegate', title: 'Delegate', subtitle: 'Urgent, not important', urgent: true, important: false },
+  { key: 'eliminate', title: 'Eliminate', subtitle: 'Neither', urgent: false, important: false }
+];
+
+// Days ahead a due date counts as urgent when no setting is saved
+export const DEFAULT_URGENT_WITHIN_DAYS = 2;
+
+/**
+ * Check whether a task counts as important
+ * @param task Task to check
+ */
+export const isImportant = (task: Pick<MatrixTask, 'priority'>): boolean => {
+  return task.priority === 'high';
+};
+
+/**
+ * Check whether a task counts as urgent, overdue tasks are always urgent
+ * @param task Task to check
+ * @param urgentWithinDays Days ahead a due date counts as urgent, 0 means due today
+ * @param now Current time
+ */
+export const isUrgent = (
+  task: Pick<MatrixTask, 'dueDate'>,
+  urgentWithinDays: number = DEFAULT_URGENT_WITHIN_DAYS,
+  now: Date = new Date()
+): boolean => {
+  if (!task.dueDate) return false;
+  return parseISO(task.dueDate) <= endOfDay(addDays(now, urgentWithinDays));
+};
+
+/**
+ * Get the quadrant a task belongs in
+ * @param task Task to place
+ * @param urgentWithinDays Days ahead a due date counts as urgent
+ * @param now Current time
+ */
+export const getTaskQuadrant = (
+  task: MatrixTask,
+  urgentWithinDays: number = DEFAULT_URGENT_WITHIN_DAYS,
+  now: Date = new Date()
+): MatrixQuadrant => {
+  const urgent = isUrgent(task, urgentWithinDays, now);
+  if (isImportant(task)) return urgent ? 'doFirst' : 'schedule';
+  return urgent ? 'delegate' : 'eliminate';
+};
+
+/**
+ * Split open tasks into the four quadrants, soonest due first
+ * @param tasks Tasks to place, completed and archived tasks are left out
+ * @param urgentWithinDays Days ahead a due date counts as urgent
+ * @param now Current time
+ */
+export const getMatrixCells = <T extends MatrixTask>(
+  tasks: T[],
+  urgentWithinDays: number = DEFAULT_URGENT_WITHIN_DAYS,
+  now: Date = new Date()
+): MatrixCell<T>[] => {
+  const openTasks = tasks
+    .filter(task => !task.completed && !task.archived)
+    .sort((a, b) => parseISO(a.dueDate).getTime() - parseISO(b.dueDate).getTime());
+
+  return MATRIX_QUADRANTS.map(quadrant => ({
+    ...quadrant,
+    tasks: openTasks.filter(task => getTaskQuadrant(task, urgentWithinDays, now) === quadrant.key)
+  }));
+};
+
+/**
+ * Count the open tasks that are urgent and important
+ * @param tasks All tasks
+ * @param urgentWithinDays Days ahead a due date counts as urgent
+ */
+export const getDoFirstCount = (tasks: MatrixTask[], urgentWithinDays: number = DEFAULT_URGENT_WITHIN_DAYS): number => {
+  const now = new Date();
+  return tasks.filter(task =>
+    !task.completed && !task.archived && getTaskQuadrant(task, urgentWithinDays, now) === 'doFirst'
+  ).length;
+};
+
+// Keep the task's time of day when moving it to another day
+const onDay = (task: MatrixTask, day: Date): string => {
+  const [hours, minutes] = (task.dueTime || format(parseISO(task.dueDate), 'HH:mm')).split(':').map(Number);
+  return setMinutes(setHours(startOfDay(day), hours), minutes).toISOString();
+};
+
+/**
+ * Build the task updates for moving a task to another quadrant, including a history entry.
+ * Becoming important raises the priority to high, losing importance lowers it to medium.
+ * Becoming urgent moves the due date to today, losing urgency moves it to the first day
+ * past the urgency window.
+ * @param task Task being moved
+ * @param quadrant Quadrant the task was dropped on
+ * @param urgentWithinDays Days ahead a due date counts as urgent
+ * @param now Current time
+ * @returns Updates to apply, or null if the task stays where it is
+ */
+export const getQuadrantMoveUpdates = (
+  task: MatrixTask,
+  quadrant: MatrixQuadrant,
+  urgentWithinDays: number = DEFAULT_URGENT_WITHIN_DAYS,
+  now: Date = new Date()
+): MatrixMoveUpdates | null => {
+  const target = MATRIX_QUADRANTS.find(cell => cell.key === quadrant);
+  if (!target || getTaskQuadrant(task, urgentWithinDays, now) === quadrant) return null;
+
+  const updates: Omit<MatrixMoveUpdates, 'lastModified' | 'history'> = {};
+
+  if (target.important !== isImportant(task)) {
+    updates.priority = target.important ? 'high' : 'medium';
+  }
+
+  if (target.urgent !== isUrgent(task, urgentWithinDays, now)) {
+    updates.dueDate = onDay(task, target.urgent ? now : addDays(now, urgentWithinDays + 1));
+  }
+
+  const timestamp = now.toISOString();
+  const historyEntry: TaskHistoryEntry = {
+    timestamp,
+    changes: `Moved to ${target.title} in the matrix`,
+    progress: task.progress
+  };
+
+  return {
+    ...updates,
+    lastModified: timestamp,
+    history: [...(task.history || []), historyEntry].slice(-10) // Keep only last 10 entries
+  };
+};
+
+export default {
+  isImportant,
+  isUrgent,
+  getTaskQuadrant,
+  getMatrixCells,
+  getDoFirstCount,
+  getQuadrantMoveUpdates
+};
@@ -0,0 +1,65 @@
+/**
+ * Utility functions for Flowtime sessions.
+ * A Flowtime session counts up until the user stops it, the break that
+ * follows is proportional to how long they studied.
+ */
+
+// Minutes studied per minute of break when no setting is saved
+export const DEFAULT_FLOWTIME_BREAK_RATIO = 5;
+
+// Sessions shorter than this are discarded instead of recorded
+export const MIN_FLOWTIME_SESSION_SECONDS = 60;
+
+// Suggested breaks are kept within these bounds, in minutes
+const MIN_FLOWTIME_BREAK = 1;
+const MAX_FLOWTIME_BREAK = 30;
+
+/**
+ * Get the seconds studied in a Flowtime session.
+ * Elapsed time is derived from the start time rather than counted in ticks,
+ * so it stays correct while the app is in the background.
+ * @param startTime Time the current run started, null when paused
+ * @param accumulatedSeconds Seconds studied in earlier runs before a pause
+ * @param now Current time in milliseconds
+ */
+export const getFlowtimeElapsed = (
+  startTime: number | null,
+  accumulatedSeconds: number,
+  now: number = Date.now()
+): number => {
+  if (!startTime) return accumulatedSeconds;
+  return accumulatedSeconds + Math.max(0, Math.floor((now - startTime) / 1000));
+};
+
+/**
+ * Suggest a break length for a Flowtime session
+ * @param studySeconds Seconds studied in the session
+ * @param ratio Minutes studied per minute of break
+ * @returns Break length in minutes
+ */
+export const getFlowtimeBreakMinutes = (
+  studySeconds: number,
+  ratio: number = DEFAULT_FLOWTIME_BREAK_RATIO
+): number => {
+  const breakMinutes = Math.round(studySeconds / 60 / Math.max(1, ratio));
+  return Math.min(MAX_FLOWTIME_BREAK, Math.max(MIN_FLOWTIME_BREAK, breakMinutes));
+};
+
+/**
+ * Format a count-up duration, adding hours once a session passes an hour
+ * @param seconds Elapsed seconds
+ */
+export const formatElapsed = (seconds: number): string => {
+  const hours = Math.floor(seconds / 3600);
+  const mins = Math.floor((seconds % 3600) / 60);
+  const secs = seconds % 60;
+  const pad = (value: number) => value.toString().padStart(2, '0');
+
+  return hours > 0 ? `${hours}:${pad(mins)}:${pad(secs)}` : `${mins}:${pad(secs)}`;
+};
+
+export default {
+  getFlowtimeElapsed,
+  getFlowtimeBreakMinutes,
+  formatElapsed
+};
@@ -0,0 +1,160 @@
+import { parseISO, subSeconds } from 'date-fns';
+
+/**
+ * Utility functions for interruptions logged during focus sessions.
+ * Interruptions are kept on each timer session, and rolled up into running
+ * totals per hour of day and per subject so rates can be shown without
+ * keeping every session around.
+ */
+
+export type InterruptionType = 'internal' | 'external';
+
+export type Interruption = {
+  timestamp: string;
+  type: InterruptionType;
+  note?: string;
+};
+
+export const INTERRUPTION_TYPES: { key: InterruptionType; label: string; icon: string }[] = [
+  { key: 'internal', label: 'Internal', icon: 'bulb-outline' }, // Own thoughts, checking the phone
+  { key: 'external', label: 'External', icon: 'people-outline' } // Someone or something else
+];
+
+type RateBucket = {
+  interruptions: number;
+  focusMinutes: number;
+};
+
+export type InterruptionStats = {
+  internal: number;
+  external: number;
+  pausedSeconds: number;
+  sessions: number;
+  abandoned: number;
+  leftFocus?: number; // Focus mode sessions abandoned by leaving the timer, missing from older totals
+  byHour: Record<string, RateBucket>; // Keyed by hour of day, 0-23
+  bySubject: Record<string, RateBucket>;
+};
+
+export type InterruptionRate = RateBucket & {
+  key: string;
+  perHour: number; // Interruptions per hour of focus
+};
+
+// Minimal session shape needed to roll up interruptions
+type InterruptedSession = {
+  timestamp: string; // When the session ended
+  duration: number; // Minutes focused
+  subject?: string;
+  interruptions?: Interruption[];
+  pausedSeconds?: number;
+  leftFocus?: boolean; // Abandoned by leaving the timer in focus mode
+  manual?: boolean; // Logged by hand, so never timed
+};
+
+const NO_SUBJECT = 'No subject';
+
+export const EMPTY_INTERRUPTION_STATS: InterruptionStats = {
+  internal: 0,
+  external: 0,
+  pausedSeconds: 0,
+  sessions: 0,
+  abandoned: 0,
+  leftFocus: 0,
+  byHour: {},
+  bySubject: {}
+};
+
+const addToBucket = (buckets: Record<string, RateBucket>, key: string, interruptions: number, focusMinutes: number) => {
+  const bucket = buckets[key] || { interruptions: 0, focusMinutes: 0 };
+  buckets[key] = {
+    interruptions: bucket.interruptions + interruptions,
+    focusMinutes: bucket.focusMinutes + focusMinutes
+  };
+};
+
+/**
+ * Roll a finished or abandoned focus session into the interruption totals.
+ * The whole session counts towards the hour it started in, so a session
+ * running past the hour doesn't split its focus time from its interruptions.
+ * @param stats Current totals, empty totals are used when missing
+ * @param session Session to add
+ * @param abandoned Whether the session was stopped before it completed
+ * @returns Updated totals
+ */
+export const addSessionToInterruptionStats = (
+  stats: InterruptionStats | undefined,
+  session: InterruptedSession,
+  abandoned: boolean = false
+): InterruptionStats => {
+  const current = stats || EMPTY_INTERRUPTION_STATS;
+  const interruptions = session.interruptions || [];
+  const byHour = { ...current.byHour };
+  const bySubject = { ...current.bySubject };
+
+  const startedAt = subSeconds(parseISO(session.timestamp), session.duration * 60 + (session.pausedSeconds || 0));
+  addToBucket(byHour, startedAt.getHours().toString(), interruptions.length, session.duration);
+  addToBucket(bySubject, session.subject || NO_SUBJECT, interruptions.length, session.duration);
+
+  return {
+    internal: current.internal + interruptions.filter(i => i.type === 'internal').length,
+    external: current.external + interruptions.filter(i => i.type === 'external').length,
+    pausedSeconds: current.pausedSeconds + (session.pausedSeconds || 0),
+    sessions: current.sessions + 1,
+    abandoned: current.abandoned + (abandoned ? 1 : 0),
+    leftFocus: (current.leftFocus || 0) + (abandoned && session.leftFocus ? 1 : 0),
+    byHour,
+    bySubject
+  };
+};
+
+/**
+ * Count the interruption totals again from the recorded sessions, after the
+ * session history was edited. Abandoned sessions aren't kept in the history,
+ * so only their counts carry over from the current totals. Sessions logged
+ * by hand were never timed and are left out.
+ * @param sessions Every recorded session
+ * @param current Current totals
+ * @returns Rebuilt totals
+ */
+export const rebuildInterruptionStats = (
+  sessions: InterruptedSession[],
+  current: InterruptionStats | undefined
+): InterruptionStats => {
+  const abandoned = current?.abandoned || 0;
+  const rebuilt = sessions
+    .filter(session => !session.manual)
+    .reduce<InterruptionStats>((stats, session) => addSessionToInterruptionStats(stats, session), EMPTY_INTERRUPTION_STATS);
+
+  return {
+    ...rebuilt,
+    sessions: rebuilt.sessions + abandoned,
+    abandoned,
+    leftFocus: current?.leftFocus || 0
+  };
+};
+
+/**
+ * Get interruption rates, most interrupted first
+ * @param buckets Totals by hour or by subject
+ * @param minFocusMinutes Buckets with less focus time than this are left out, their rate means little
+ */
+export const getInterruptionRates = (
+  buckets: Record<string, RateBucket>,
+  minFocusMinutes: number = 25
+): InterruptionRate[] => {
+  return Object.entries(buckets)
+    .filter(([, bucket]) => bucket.focusMinutes >= minFocusMinutes)
+    .map(([key, bucket]) => ({
+      key,
+      ...bucket,
+      perHour: bucket.interruptions / (bucket.focusMinutes / 60)
+    }))
+    .sort((a, b) => b.perHour - a.perHour);
+};
+
+export default {
+  addSessionToInterruptionStats,
+  rebuildInterruptionStats,
+  getInterruptionRates
+};
@@ -0,0 +1,180 @@
+import { TimerDurations } from './TimerProfiles';
+
+/**
+ * Utility functions for auto-cycling Pomodoro sequences.
+ * With auto-cycle on, each focus session is followed by a short break and the
+ * next focus session, until the long break after longBreakInterval sessions
+ * ends the sequence. Each phase ends a fixed time after the previous one, so
+ * the position in the sequence can be worked out from the first end time
+ * alone, even after the app spent a few phases in the background.
+ */
+
+export type CycleMode = 'pomodoro' | 'shortBreak' | 'longBreak';
+
+export type CyclePhase = {
+  mode: CycleMode;
+  completedPomodoros: number; // Focus sessions finished earlier in the sequence
+  endTime: number;
+};
+
+export type CycleProgress = {
+  finished: CyclePhase[]; // Phases that have ended, oldest first
+  current: CyclePhase | null; // Null once the long break has ended the sequence
+};
+
+/**
+ * Length of a phase in seconds
+ * @param mode Phase to look up
+ * @param durations Timer durations in minutes
+ */
+export const getPhaseSeconds = (mode: CycleMode, durations: TimerDurations): number => {
+  switch (mode) {
+    case 'pomodoro':
+      return durations.pomodoroLength * 60;
+    case 'shortBreak':
+      return durations.shortBreakLength * 60;
+    case 'longBreak':
+      return durations.longBreakLength * 60;
+  }
+};
+
+/**
+ * Get the phase that follows a finished one
+ * @param mode Phase that finished
+ * @param completedPomodoros Focus sessions finished before it
+ * @param longBreakInterval Focus sessions before the long break
+ * @returns The next mode and focus sessions finished by then, or null after the long break
+ */
+export const getNextCycleStep = (
+  mode: CycleMode,
+  completedPomodoros: number,
+  longBreakInterval: number
+): { mode: CycleMode; completedPomodoros: number } | null => {
+  switch (mode) {
+    case 'pomodoro': {
+      const completed = completedPomodoros + 1;
+      return { mode: completed >= longBreakInterval ? 'longBreak' : 'shortBreak', completedPomodoros: completed };
+    }
+    case 'shortBreak':
+      return { mode: 'pomodoro', completedPomodoros };
+    case 'longBreak':
+      return null;
+  }
+};
+
+/**
+ * Get the phase that starts when the given one ends
+ * @param phase Current phase
+ * @param durations Timer durations the sequence runs with
+ */
+export const getNextPhase = (phase: CyclePhase, durations: TimerDurations): CyclePhase | null => {
+  const next = getNextCycleStep(phase.mode, phase.completedPomodoros, durations.longBreakInterval);
+  if (!next) return null;
+  return { ...next, endTime: phase.endTime + getPhaseSeconds(next.mode, durations) * 1000 };
+};
+
+/**
+ * Work out which phases have ended by now and which one is running
+ * @param phase Phase the sequence was last known to be in
+ * @param durations Timer durations the sequence runs with
+ * @param now Current time in milliseconds
+ */
+export const advanceCycle = (phase: CyclePhase, durations: TimerDurations, now: number = Date.now()): CycleProgress => {
+  const finished: CyclePhase[] = [];
+  let current: CyclePhase | null = phase;
+  while (current && current.endTime <= now) {
+    finished.push(current);
+    current = getNextPhase(current, durations);
+  }
+  return { finished, current };
+};
+
+/**
+ * Get the given phase and every phase after it, up to the end of the sequence
+ * @param phase Phase to start from
+ * @param durations Timer durations the sequence runs with
+ */
+export const getRemainingPhases = (phase: CyclePhase, durations: TimerDurations): CyclePhase[] => {
+  const phases: CyclePhase[] = [];
+  let current: CyclePhase | null = phase;
+  while (current) {
+    phases.push(current);
+    current = getNextPhase(current, durations);
+  }
+  return phases;
+};
+
+/**
+ * Describe where a phase sits in the sequence, e.g. "Session 2 of 4"
+ * @param mode Current phase
+ * @param completedPomodoros Focus sessions finished before it
+ * @param longBreakInterval Focus sessions before the long break
+ */
+export const describeCyclePosition = (mode: CycleMode, completedPomodoros: number, longBreakInterval: number): string => {
+  switch (mode) {
+    case 'pomodoro':
+      return `Session ${Math.min(completedPomodoros + 1, longBreakInterval)} of ${longBreakInterval}`;
+    case 'shortBreak':
+      return `${completedPomodoros} of ${longBreakInterval} sessions done`;
+    case 'longBreak':
+      return 'Cycle complete';
+  }
+};
+
+/**
+ * Title and body of the ongoing timer notification
+ * @param mode Current timer mode
+ * @param secondsLeft Time left in the phase
+ * @param taskTitle Task being worked on
+ * @param position Position in the sequence, left out when not cycling
+ */
+export const getTimerNotificationContent = (
+  mode: string,
+  secondsLeft: number,
+  taskTitle?: string,
+  position?: string
+): { title: string; body: string } => {
+  const mins = Math.floor(secondsLeft / 60);
+  const secs = (secondsLeft % 60).toString().padStart(2, '0');
+  return {
+    title: `${mode === 'pomodoro' ? (taskTitle || 'Focus') : (mode === 'shortBreak' ? 'Short Break' : 'Long Break')} Timer`,
+    body: `Time remaining: ${mins}:${secs}${position ? ` · ${position}` : ''}`
+  };
+};
+
+/**
+ * Notification announcing the end of a phase and what starts next
+ * @param phase Phase that ends
+ * @param durations Timer durations the sequence runs with
+ */
+export const getPhaseEndNotification = (phase: CyclePhase, durations: TimerDurations): { title: string; body: string } => {
+  const next = getNextPhase(phase, durations);
+  const interval = durations.longBreakInterval;
+
+  if (phase.mode === 'pomodoro') {
+    const breakLabel = next?.mode === 'longBreak' ? 'long' : 'short';
+    const breakMinutes = next ? getPhaseSeconds(next.mode, durations) / 60 : 0;
+    return {
+      title: 'Focus Session Complete',
+      body: `${phase.completedPomodoros + 1} of ${interval} sessions done. Your ${breakMinutes} minute ${breakLabel} break has started.`
+    };
+  }
+
+  return {
+    title: 'Break Time Over',
+    body: next
+      ? `Session ${next.completedPomodoros + 1} of ${interval} has started.`
+      : 'Your Pomodoro cycle is complete. Start the timer when you are ready for another.'
+  };
+};
+
+export default {
+  getPhaseSeconds,
+  getNextCycleStep,
+  getNextPhase,
+  advanceCycle,
+  getRemainingPhases,
+  describeCyclePosition,
+  getTimerNotificationContent,
+  getPhaseEndNotification
+};
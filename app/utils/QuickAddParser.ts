@@ -0,0 +1,308 @@
+import { addDays, addMonths, addWeeks, isBefore, startOfDay } from 'date-fns';
+
+/**
+ * Natural-language parser for the quick-add bar.
+ * Turns input like "Physics lab report due fri 5pm !high #Science" into task fields.
+ * Recognised tokens are removed from the title; everything else is kept as typed.
+ *
+ * Supported syntax:
+ * - Dates: today, tonight, tomorrow (tmr), in 3 days / 2 weeks / 1 month, next week,
+ *   on/due/by mon ... sun, next monday, a full day name ending the phrase, dec 5, 5 dec, 12/5
+ * - Times: 5pm, 5:30pm, 17:00, noon, midnight (optionally preceded by "at")
+ * - Priority: !high, !medium, !low (or !h, !m, !l)
+ * - Subject: #Science, #ComputerScience or #computer-science
+ */
+
+export type QuickAddPriority = 'low' | 'medium' | 'high';
+
+export type ParsedQuickAdd = {
+  title: string;
+  dueDate?: Date; // Includes the parsed time when one was given
+  dueTime?: string; // HH:mm
+  priority?: QuickAddPriority;
+  subject?: string;
+};
+
+type TokenMatch<T> = {
+  value: T;
+  length: number; // Number of tokens consumed
+};
+
+const WEEKDAYS = ['sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday'];
+const WEEKDAY_ABBREVIATIONS: Record<string, number> = {
+  sun: 0, mon: 1, tue: 2, tues: 2, wed: 3, thu: 4, thur: 4, thurs: 4, fri: 5, sat: 6
+};
+const MONTHS = ['january', 'february', 'march', 'april', 'may', 'june', 'july', 'august', 'september', 'october', 'november', 'december'];
+
+const PRIORITY_ALIASES: Record<string, QuickAddPriority> = {
+  high: 'high',
+  h: 'high',
+  medium: 'medium',
+  med: 'medium',
+  m: 'medium',
+  low: 'low',
+  l: 'low'
+};
+
+// Words that only introduce a date or time ("due fri", "at 5pm") and are dropped with it
+const CONNECTOR_WORDS = ['at', 'on', 'by', 'due'];
+
+// Words that make the weekday after them a date, abbreviated or not ("on fri", "due thurs")
+const WEEKDAY_MARKERS = ['on', 'by', 'due'];
+
+const normalizeToken = (token: string) => token.toLowerCase().replace(/[,.;]+$/, '');
+
+const normalizeName = (name: string) => name.toLowerCase().replace(/[^a-z0-9]/g, '');
+
+// Match "friday" to a day index, and "fri", "thurs", ... too when abbreviations are allowed
+const parseWeekday = (token: string, allowAbbreviation: boolean): number | null => {
+  const index = WEEKDAYS.indexOf(token);
+  if (index !== -1) return index;
+
+  const abbreviation = WEEKDAY_ABBREVIATIONS[token];
+  return allowAbbreviation && typeof abbreviation === 'number' ? abbreviation : null;
+};
+
+// Whether only times, priorities and subjects follow, as in "friday 5pm !high"
+const isEndOfPhrase = (tokens: string[], index: number): boolean => {
+  for (let i = index; i < tokens.length; i++) {
+    const token = tokens[i];
+    if (token.startsWith('!') || token.startsWith('#') || CONNECTOR_WORDS.includes(token)) continue;
+
+    const time = matchTime(tokens, i);
+    if (!time) return false;
+    i += time.length - 1;
+  }
+  return true;
+};
+
+// Match "dec", "december", "sept", ... to a month index
+const parseMonth = (token: string): number | null => {
+  if (token.length < 3) return null;
+  const index = MONTHS.findIndex(month => month.startsWith(token));
+  return index === -1 ? null : index;
+};
+
+// Build a date in the given month and day, rolling over to next year if it has already passed
+const resolveMonthDay = (month: number, day: number, now: Date): Date | null => {
+  if (day < 1 || day > 31) return null;
+
+  const date = new Date(now);
+  date.setMonth(month, day);
+  if (date.getMonth() !== month) return null; // e.g. Feb 30
+
+  if (isBefore(date, startOfDay(now))) {
+    date.setFullYear(date.getFullYear() + 1);
+  }
+  return date;
+};
+
+/**
+ * Try to read a date starting at the given token
+ * @param tokens Normalized tokens of the input
+ * @param index Position to start matching at
+ * @param now Reference date for relative expressions
+ */
+export const matchDate = (tokens: string[], index: number, now: Date): TokenMatch<Date> | null => {
+  const token = tokens[index];
+  const nextToken = tokens[index + 1];
+
+  if (token === 'today' || token === 'tonight') {
+    return { value: new Date(now), length: 1 };
+  }
+
+  if (token === 'tomorrow' || token === 'tmr' || token === 'tmrw') {
+    return { value: addDays(now, 1), length: 1 };
+  }
+
+  // "in 3 days", "in 2 weeks", "in a month"
+  if (token === 'in' && nextToken && tokens[index + 2]) {
+    const amount = nextToken === 'a' || nextToken === 'an' ? 1 : parseInt(nextToken, 10);
+    const unit = tokens[index + 2];
+
+    if (!isNaN(amount) && amount > 0 && /^\d*$|^an?$/.test(nextToken)) {
+      if (/^days?$/.test(unit)) return { value: addDays(now, amount), length: 3 };
+      if (/^weeks?$/.test(unit)) return { value: addWeeks(now, amount), length: 3 };
+      if (/^months?$/.test(unit)) return { value: addMonths(now, amount), length: 3 };
+    }
+  }
+
+  if (token === 'next' && nextToken) {
+    if (nextToken === 'week') return { value: addWeeks(now, 1), length: 2 };
+    if (nextToken === 'month') return { value: addMonths(now, 1), length: 2 };
+
+    // "next monday" is always the first Monday after today
+    const weekday = parseWeekday(nextToken, true);
+    if (weekday !== null) {
+      const daysAhead = (weekday - now.getDay() + 7) % 7 || 7;
+      return { value: addDays(now, daysAhead), length: 2 };
+    }
+  }
+
+  // A bare weekday is the upcoming one, including today. It has to follow "on", "by" or "due",
+  // or be a full day name ending the phrase, so "Study for SAT" keeps its title.
+  const afterMarker = index > 0 && WEEKDAY_MARKERS.includes(tokens[index - 1]);
+  const weekday = parseWeekday(token, afterMarker);
+  if (weekday !== null && (afterMarker || isEndOfPhrase(tokens, index + 1))) {
+    const daysAhead = (weekday - now.getDay() + 7) % 7;
+    return { value: addDays(now, daysAhead), length: 1 };
+  }
+
+  // "dec 5"
+  const month = parseMonth(token);
+  if (month !== null && nextToken && /^\d{1,2}(st|nd|rd|th)?$/.test(nextToken)) {
+    const date = resolveMonthDay(month, parseInt(nextToken, 10), now);
+    if (date) return { value: date, length: 2 };
+  }
+
+  // "5 dec"
+  if (/^\d{1,2}(st|nd|rd|th)?$/.test(token) && nextToken) {
+    const followingMonth = parseMonth(nextToken);
+    if (followingMonth !== null) {
+      const date = resolveMonthDay(followingMonth, parseInt(token, 10), now);
+      if (date) return { value: date, length: 2 };
+    }
+  }
+
+  // "12/5" (month/day)
+  const numericMatch = token.match(/^(\d{1,2})\/(\d{1,2})$/);
+  if (numericMatch) {
+    const date = resolveMonthDay(parseInt(numericMatch[1], 10) - 1, parseInt(numericMatch[2], 10), now);
+    if (date) return { value: date, length: 1 };
+  }
+
+  return null;
+};
+
+/**
+ * Try to read a time of day starting at the given token
+ * @param tokens Normalized tokens of the input
+ * @param index Position to start matching at
+ * @returns Time formatted as HH:mm
+ */
+export const matchTime = (tokens: string[], index: number): TokenMatch<string> | null => {
+  const token = tokens[index];
+  const formatTime = (hours: number, minutes: number) =>
+    `${hours < 10 ? '0' : ''}${hours}:${minutes < 10 ? '0' : ''}${minutes}`;
+
+  if (token === 'noon') return { value: '12:00', length: 1 };
+  if (token === 'midnight') return { value: '00:00', length: 1 };
+
+  // "5pm", "5:30pm", or "5 pm" spread over two tokens
+  const nextToken = tokens[index + 1];
+  const hasSeparateMeridiem = nextToken === 'am' || nextToken === 'pm';
+  const meridiemMatch = (hasSeparateMeridiem ? token + nextToken : token).match(/^(\d{1,2})(?::(\d{2}))?(am|pm)$/);
+  if (meridiemMatch) {
+    let hours = parseInt(meridiemMatch[1], 10);
+    const minutes = meridiemMatch[2] ? parseInt(meridiemMatch[2], 10) : 0;
+    if (hours < 1 || hours > 12 || minutes > 59) return null;
+
+    if (meridiemMatch[3] === 'pm' && hours !== 12) hours += 12;
+    if (meridiemMatch[3] === 'am' && hours === 12) hours = 0;
+    return { value: formatTime(hours, minutes), length: hasSeparateMeridiem ? 2 : 1 };
+  }
+
+  // "17:00"
+  const clockMatch = token.match(/^(\d{1,2}):(\d{2})$/);
+  if (clockMatch) {
+    const hours = parseInt(clockMatch[1], 10);
+    const minutes = parseInt(clockMatch[2], 10);
+    if (hours > 23 || minutes > 59) return null;
+    return { value: formatTime(hours, minutes), length: 1 };
+  }
+
+  return null;
+};
+
+/**
+ * Parse a quick-add phrase into task fields
+ * @param input Text typed by the user
+ * @param subjects Known subject names; #tags are matched against these ignoring case and spacing
+ * @param now Reference date for relative expressions (defaults to the current time)
+ */
+export const parseQuickAdd = (input: string, subjects: string[] = [], now: Date = new Date()): ParsedQuickAdd => {
+  const rawTokens = input.trim().split(/\s+/).filter(Boolean);
+  const tokens = rawTokens.map(normalizeToken);
+  const consumed = new Array(rawTokens.length).fill(false);
+  const result: ParsedQuickAdd = { title: '' };
+
+  let date: Date | undefined;
+
+  const consume = (start: number, length: number) => {
+    for (let i = start; i < start + length; i++) consumed[i] = true;
+
+    // Drop a connector word directly in front of the match ("due fri", "at 5pm")
+    if (start > 0 && !consumed[start - 1] && CONNECTOR_WORDS.includes(tokens[start - 1])) {
+      consumed[start - 1] = true;
+    }
+  };
+
+  for (let i = 0; i < tokens.length; i++) {
+    if (consumed[i]) continue;
+    const token = tokens[i];
+
+    if (token.startsWith('!') && !result.priority) {
+      const priority = PRIORITY_ALIASES[token.slice(1)];
+      if (priority) {
+        result.priority = priority;
+        consume(i, 1);
+        continue;
+      }
+    }
+
+    if (token.startsWith('#') && !result.subject) {
+      const tag = normalizeName(token.slice(1));
+      const subject = subjects.find(name => normalizeName(name) === tag);
+      if (tag && subject) {
+        result.subject = subject;
+        consume(i, 1);
+        continue;
+      }
+    }
+
+    if (!result.dueTime) {
+      const time = matchTime(tokens, i);
+      if (time) {
+        result.dueTime = time.value;
+        consume(i, time.length);
+        i += time.length - 1;
+        continue;
+      }
+    }
+
+    if (!date) {
+      const dateMatch = matchDate(tokens, i, now);
+      if (dateMatch) {
+        date = dateMatch.value;
+        consume(i, dateMatch.length);
+        i += dateMatch.length - 1;
+        continue;
+      }
+    }
+  }
+
+  if (result.dueTime) {
+    const [hours, minutes] = result.dueTime.split(':').map(Number);
+    const dueDate = new Date(date || now);
+    dueDate.setHours(hours, minutes, 0, 0);
+
+    // A time without a date that has already passed today means tomorrow
+    if (!date && isBefore(dueDate, now)) {
+      result.dueDate = addDays(dueDate, 1);
+    } else {
+      result.dueDate = dueDate;
+    }
+  } else if (date) {
+    result.dueDate = date;
+  }
+
+  result.title = rawTokens.filter((_, i) => !consumed[i]).join(' ');
+
+  return result;
+};
+
+export default {
+  parseQuickAdd,
+  matchDate,
+  matchTime
+};
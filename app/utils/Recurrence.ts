@@ -0,0 +1,183 @@
+import { addDays, addMonths, addWeeks, endOfDay, getDaysInMonth, parseISO, startOfWeek } from 'date-fns';
+
+/**
+ * Utility functions for recurring tasks.
+ * A recurrence rule is a small subset of iCalendar RRULE semantics that covers
+ * the repeat patterns students actually use (daily revision, weekly problem sets, ...)
+ */
+
+export type RecurrenceFrequency = 'daily' | 'weekdays' | 'weekly' | 'monthly';
+
+export type RecurrenceRule = {
+  frequency: RecurrenceFrequency;
+  interval?: number; // Repeat every N days / weeks / months (defaults to 1)
+  byWeekday?: number[]; // Weekly only: 0 = Sunday ... 6 = Saturday
+  byMonthDay?: number; // Monthly only: day of the month (1-31)
+  until?: string; // ISO date after which no more occurrences are generated
+  count?: number; // Total number of occurrences in the series
+  occurrence?: number; // 1-based index of this instance within the series
+};
+
+// Minimal task shape needed to generate the next occurrence
+type RecurringTask = {
+  id: string;
+  title: string;
+  dueDate: string;
+  completed: boolean;
+  archived: boolean;
+  createdAt: string;
+  progress?: number;
+  recurrence?: RecurrenceRule;
+  recurringFromId?: string;
+  [key: string]: any;
+};
+
+const WEEKDAY_LABELS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+/**
+ * Get the date of the occurrence that follows `from`
+ * @param rule Recurrence rule of the series
+ * @param from Due date of the current occurrence
+ * @returns Next due date, or null when the series has ended
+ */
+export const getNextOccurrenceDate = (rule: RecurrenceRule, from: Date): Date | null => {
+  const interval = Math.max(1, rule.interval || 1);
+  let next: Date;
+
+  switch (rule.frequency) {
+    case 'daily':
+      next = addDays(from, interval);
+      break;
+    case 'weekdays': {
+      next = addDays(from, 1);
+      while (next.getDay() === 0 || next.getDay() === 6) {
+        next = addDays(next, 1);
+      }
+      break;
+    }
+    case 'weekly': {
+      const weekdays = (rule.byWeekday && rule.byWeekday.length > 0)
+        ? [...rule.byWeekday].sort((a, b) => a - b)
+        : [from.getDay()];
+
+      // Look for a later day in the current week first
+      const laterThisWeek = weekdays.find(day => day > from.getDay());
+      if (laterThisWeek !== undefined) {
+        next = addDays(from, laterThisWeek - from.getDay());
+      } else {
+        // Otherwise jump ahead N weeks and take the first selected day
+        const weekStart = startOfWeek(addWeeks(from, interval));
+        next = addDays(weekStart, weekdays[0]);
+        next.setHours(from.getHours(), from.getMinutes(), from.getSeconds(), from.getMilliseconds());
+      }
+      break;
+    }
+    case 'monthly': {
+      const day = rule.byMonthDay || from.getDate();
+      next = addMonths(from, interval);
+      next.setDate(Math.min(day, getDaysInMonth(next)));
+      break;
+    }
+    default:
+      return null;
+  }
+
+  if (rule.until && next > endOfDay(parseISO(rule.until))) {
+    return null;
+  }
+
+  if (rule.count && (rule.occurrence || 1) >= rule.count) {
+    return null;
+  }
+
+  return next;
+};
+
+/**
+ * Build the next instance of a recurring task once the current one is completed
+ * @param task Task that is being completed
+ * @param tasks All current tasks, used to avoid generating the same instance twice
+ * @returns New task to add, or null if the task doesn't repeat or the series has ended
+ */
+export const createNextOccurrence = <T extends RecurringTask>(task: T, tasks: T[]): T | null => {
+  if (!task.recurrence || !task.dueDate) return null;
+
+  // An instance was already generated (e.g. the task was un-completed and completed again)
+  if (tasks.some(t => t.recurringFromId === task.id)) return null;
+
+  const nextDueDate = getNextOccurrenceDate(task.recurrence, parseISO(task.dueDate));
+  if (!nextDueDate) return null;
+
+  const now = new Date();
+
+  return {
+    ...task,
+    id: now.getTime().toString(),
+    dueDate: nextDueDate.toISOString(),
+    createdAt: now.toISOString(),
+    completed: false,
+    completedAt: undefined,
+    archived: false,
+    progress: 0,
+    actualMinutes: undefined, // Study time of the previous instance isn't this one's
+    sortKey: undefined,
+    lastModified: undefined,
+    history: [],
+    checklist: task.checklist?.map((item: { done: boolean }) => ({ ...item, done: false })),
+    recurringFromId: task.id,
+    recurrence: {
+      ...task.recurrence,
+      occurrence: (task.recurrence.occurrence || 1) + 1
+    }
+  };
+};
+
+/**
+ * Get a short human readable description of a recurrence rule
+ * @param rule Recurrence rule to describe
+ */
+export const describeRecurrence = (rule?: RecurrenceRule): string => {
+  if (!rule) return 'Does not repeat';
+
+  const interval = Math.max(1, rule.interval || 1);
+  let description: string;
+
+  switch (rule.frequency) {
+    case 'daily':
+      description = interval === 1 ? 'Every day' : `Every ${interval} days`;
+      break;
+    case 'weekdays':
+      description = 'Every weekday';
+      break;
+    case 'weekly': {
+      const days = (rule.byWeekday || []).slice().sort((a, b) => a - b).map(day => WEEKDAY_LABELS[day]);
+      description = interval === 1 ? 'Every week' : `Every ${interval} weeks`;
+      if (days.length > 0) {
+        description += ` on ${days.join(', ')}`;
+      }
+      break;
+    }
+    case 'monthly':
+      description = interval === 1 ? 'Every month' : `Every ${interval} months`;
+      if (rule.byMonthDay) {
+        description += ` on day ${rule.byMonthDay}`;
+      }
+      break;
+    default:
+      return 'Does not repeat';
+  }
+
+  if (rule.count) {
+    description += `, ${rule.count} times`;
+  } else if (rule.until) {
+    description += `, until ${parseISO(rule.until).toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' })}`;
+  }
+
+  return description;
+};
+
+export default {
+  getNextOccurrenceDate,
+  createNextOccurrence,
+  describeRecurrence
+};
@@ -0,0 +1,436 @@
+/**
+ * Utility functions for global search.
+ * Tasks, exams, resources and subjects are tokenized into an in-memory
+ * inverted index. Syncing the index only re-tokenizes items whose object
+ * changed since the last sync, so typing a query never rescans the data.
+ */
+
+export type SearchResultType = 'task' | 'exam' | 'resource' | 'subject';
+
+export type SearchField = {
+  label: string;
+  text: string;
+  weight: number; // How much a match in this field counts towards the score
+};
+
+export type SearchDocument = {
+  key: string; // "<type>:<id>"
+  type: SearchResultType;
+  id: string;
+  title: string;
+  subject?: string;
+  date?: string;
+  completed?: boolean;
+  fields: SearchField[]; // The title is always the first field
+};
+
+export type SearchIndex = {
+  documents: Map<string, SearchDocument>;
+  sources: Map<string, object>; // Item each document was built from, to detect changes
+  documentTokens: Map<string, string[]>;
+  postings: Map<string, Map<string, number>>; // Token -> document key -> best field weight
+};
+
+export type HighlightRange = {
+  start: number;
+  end: number;
+};
+
+export type HighlightPart = {
+  text: string;
+  highlighted: boolean;
+};
+
+export type SearchResult = {
+  document: SearchDocument;
+  score: number;
+  titleHighlights: HighlightRange[];
+  match?: { label: string; snippet: string; highlights: HighlightRange[] }; // Best match outside the title
+};
+
+export type SearchOptions = {
+  types?: SearchResultType[];
+  subject?: string;
+  limit?: number;
+};
+
+// Item shapes the index reads, kept loose as resources carry extra fields
+type SearchableTask = {
+  id: string;
+  title: string;
+  description?: string;
+  subject?: string;
+  dueDate?: string;
+  completed?: boolean;
+  history?: { changes: string }[];
+};
+
+type SearchableExam = {
+  id: string;
+  title: string;
+  description?: string;
+  subject?: string;
+  date?: string;
+  location?: string;
+  completed?: boolean;
+};
+
+type SearchableResource = {
+  id: string;
+  title: string;
+  description?: string;
+  subject?: string;
+  content?: string;
+};
+
+type SearchableSubject = {
+  id: string;
+  name: string;
+};
+
+type SearchableItem = SearchableTask | SearchableExam | SearchableResource | SearchableSubject;
+
+export type SearchCollections = {
+  tasks: SearchableTask[];
+  exams: SearchableExam[];
+  resources: SearchableResource[];
+  subjects: SearchableSubject[];
+};
+
+// Match quality multipliers
+const EXACT_MATCH = 1;
+const PREFIX_MATCH = 0.7;
+const SUBSTRING_MATCH = 0.4;
+
+// Shortest query term that can match inside a word
+const MIN_SUBSTRING_LENGTH = 3;
+
+// Characters of context shown around a match
+const SNIPPET_RADIUS = 40;
+
+const DEFAULT_LIMIT = 50;
+
+/**
+ * Split text into lowercase word tokens
+ * @param text Text to split
+ */
+export const tokenize = (text: string): string[] => {
+  return text.toLowerCase().split(/[^\p{L}\p{N}]+/u).filter(Boolean);
+};
+
+/**
+ * Create an empty search index
+ */
+export const createSearchIndex = (): SearchIndex => ({
+  documents: new Map(),
+  sources: new Map(),
+  documentTokens: new Map(),
+  postings: new Map()
+});
+
+const textField = (label: string, text: string | undefined, weight: number): SearchField[] => {
+  return text && text.trim() ? [{ label, text, weight }] : [];
+};
+
+const toDocument = (type: SearchResultType, item: SearchableItem): SearchDocument => {
+  const key = `${type}:${item.id}`;
+
+  switch (type) {
+    case 'task': {
+      const task = item as SearchableTask;
+      return {
+        key,
+        type,
+        id: task.id,
+        title: task.title,
+        subject: task.subject,
+        date: task.dueDate,
+        completed: task.completed,
+        fields: [
+          { label: 'Title', text: task.title, weight: 3 },
+          ...textField('Description', task.description, 1.5),
+          ...textField('Subject', task.subject, 1),
+          ...textField('History', task.history?.map(entry => entry.changes).join('\n'), 0.5)
+        ]
+      };
+    }
+    case 'exam': {
+      const exam = item as SearchableExam;
+      return {
+        key,
+        type,
+        id: exam.id,
+        title: exam.title,
+        subject: exam.subject,
+        date: exam.date,
+        completed: exam.completed,
+        fields: [
+          { label: 'Title', text: exam.title, weight: 3 },
+          ...textField('Location', exam.location, 1.5),
+          ...textField('Description', exam.description, 1),
+          ...textField('Subject', exam.subject, 1)
+        ]
+      };
+    }
+    case 'resource': {
+      const resource = item as SearchableResource;
+      return {
+        key,
+        type,
+        id: resource.id,
+        title: resource.title,
+        subject: resource.subject,
+        fields: [
+          { label: 'Title', text: resource.title, weight: 3 },
+          ...textField('Description', resource.description, 1.5),
+          ...textField('Note', resource.content, 1),
+          ...textField('Subject', resource.subject, 1)
+        ]
+      };
+    }
+    case 'subject':
+    default: {
+      const subject = item as SearchableSubject;
+      return {
+        key,
+        type,
+        id: subject.id,
+        title: subject.name,
+        subject: subject.name,
+        fields: [{ label: 'Title', text: subject.name, weight: 3 }]
+      };
+    }
+  }
+};
+
+const removeDocument = (index: SearchIndex, key: string) => {
+  (index.documentTokens.get(key) || []).forEach(token => {
+    const posting = index.postings.get(token);
+    if (!posting) return;
+
+    posting.delete(key);
+    if (posting.size === 0) {
+      index.postings.delete(token);
+    }
+  });
+
+  index.documents.delete(key);
+  index.sources.delete(key);
+  index.documentTokens.delete(key);
+};
+
+const addDocument = (index: SearchIndex, document: SearchDocument, source: object) => {
+  const weights = new Map<string, number>();
+
+  document.fields.forEach(field => {
+    tokenize(field.text).forEach(token => {
+      weights.set(token, Math.max(weights.get(token) || 0, field.weight));
+    });
+  });
+
+  weights.forEach((weight, token) => {
+    const posting = index.postings.get(token) || new Map<string, number>();
+    posting.set(document.key, weight);
+    index.postings.set(token, posting);
+  });
+
+  index.documents.set(document.key, document);
+  index.sources.set(document.key, source);
+  index.documentTokens.set(document.key, [...weights.keys()]);
+};
+
+/**
+ * Bring the index up to date with the current data.
+ * Only items whose object changed are re-tokenized, which is the case for
+ * items touched by a reducer action.
+ * @param index Index to update in place
+ * @param collections Current tasks, exams, resources and subjects
+ * @returns Number of documents added, updated or removed
+ */
+export const syncSearchIndex = (index: SearchIndex, collections: SearchCollections): number => {
+  let changed = 0;
+  const seen = new Set<string>();
+
+  const syncItems = (type: SearchResultType, items: SearchableItem[]) => {
+    items.forEach(item => {
+      const key = `${type}:${item.id}`;
+      seen.add(key);
+      if (index.sources.get(key) === item) return;
+
+      removeDocument(index, key);
+      addDocument(index, toDocument(type, item), item);
+      changed++;
+    });
+  };
+
+  syncItems('task', collections.tasks);
+  syncItems('exam', collections.exams);
+  syncItems('resource', collections.resources);
+  syncItems('subject', collections.subjects);
+
+  [...index.documents.keys()].forEach(key => {
+    if (!seen.has(key)) {
+      removeDocument(index, key);
+      changed++;
+    }
+  });
+
+  return changed;
+};
+
+/**
+ * Find where query terms occur in a piece of text
+ * @param text Text to search
+ * @param terms Lowercase query terms
+ * @returns Sorted, non-overlapping ranges
+ */
+export const getHighlightRanges = (text: string, terms: string[]): HighlightRange[] => {
+  const lowerText = text.toLowerCase();
+  const ranges: HighlightRange[] = [];
+
+  terms.forEach(term => {
+    let start = lowerText.indexOf(term);
+    while (start !== -1) {
+      ranges.push({ start, end: start + term.length });
+      start = lowerText.indexOf(term, start + term.length);
+    }
+  });
+
+  ranges.sort((a, b) => a.start - b.start);
+
+  // Merge overlapping ranges so each character is highlighted once
+  return ranges.reduce<HighlightRange[]>((merged, range) => {
+    const last = merged[merged.length - 1];
+    if (last && range.start <= last.end) {
+      last.end = Math.max(last.end, range.end);
+    } else {
+      merged.push({ ...range });
+    }
+    return merged;
+  }, []);
+};
+
+/**
+ * Split text into plain and highlighted parts for rendering
+ * @param text Text to split
+ * @param ranges Highlight ranges from getHighlightRanges
+ */
+export const splitHighlights = (text: string, ranges: HighlightRange[]): HighlightPart[] => {
+  const parts: HighlightPart[] = [];
+  let position = 0;
+
+  ranges.forEach(range => {
+    if (range.start > position) {
+      parts.push({ text: text.slice(position, range.start), highlighted: false });
+    }
+    parts.push({ text: text.slice(range.start, range.end), highlighted: true });
+    position = range.end;
+  });
+
+  if (position < text.length) {
+    parts.push({ text: text.slice(position), highlighted: false });
+  }
+
+  return parts;
+};
+
+// Cut a window of text around the first match
+const getSnippet = (text: string, terms: string[]) => {
+  const flatText = text.replace(/\s+/g, ' ');
+  const ranges = getHighlightRanges(flatText, terms);
+  if (ranges.length === 0) return null;
+
+  const start = Math.max(0, ranges[0].start - SNIPPET_RADIUS);
+  const end = Math.min(flatText.length, ranges[0].end + SNIPPET_RADIUS * 2);
+  const prefix = start > 0 ? '…' : '';
+  const suffix = end < flatText.length ? '…' : '';
+  const snippet = `${prefix}${flatText.slice(start, end)}${suffix}`;
+
+  return {
+    snippet,
+    highlights: ranges
+      .filter(range => range.start >= start && range.end <= end)
+      .map(range => ({ start: range.start - start + prefix.length, end: range.end - start + prefix.length }))
+  };
+};
+
+/**
+ * Search the index
+ * Every query term has to match a word in the document, either exactly, as
+ * the start of a word, or for longer terms anywhere inside a word.
+ * @param index Search index
+ * @param query Text typed by the user
+ * @param options Result types, subject and result limit
+ * @returns Results with the best match first
+ */
+export const searchIndex = (index: SearchIndex, query: string, options: SearchOptions = {}): SearchResult[] => {
+  const terms = [...new Set(tokenize(query))];
+  if (terms.length === 0) return [];
+
+  // Score of every term for each document
+  const termScores = terms.map(term => {
+    const scores = new Map<string, number>();
+
+    index.postings.forEach((posting, token) => {
+      let quality = 0;
+      if (token === term) quality = EXACT_MATCH;
+      else if (token.startsWith(term)) quality = PREFIX_MATCH;
+      else if (term.length >= MIN_SUBSTRING_LENGTH && token.includes(term)) quality = SUBSTRING_MATCH;
+      if (!quality) return;
+
+      posting.forEach((weight, key) => {
+        scores.set(key, Math.max(scores.get(key) || 0, weight * quality));
+      });
+    });
+
+    return scores;
+  });
+
+  const results: SearchResult[] = [];
+
+  termScores[0].forEach((_score, key) => {
+    // Documents have to match every term
+    if (!termScores.every(scores => scores.has(key))) return;
+
+    const document = index.documents.get(key) as SearchDocument;
+    if (options.types && !options.types.includes(document.type)) return;
+    if (options.subject && document.subject !== options.subject) return;
+
+    const score = termScores.reduce((sum, scores) => sum + (scores.get(key) as number), 0);
+
+    // Show where the query matched when the title doesn't explain it
+    const lowerTitle = document.title.toLowerCase();
+    let match: SearchResult['match'];
+    if (!terms.every(term => lowerTitle.includes(term))) {
+      const otherFields = document.fields.slice(1).sort((a, b) => b.weight - a.weight);
+      for (const field of otherFields) {
+        const snippet = getSnippet(field.text, terms);
+        if (snippet) {
+          match = { label: field.label, ...snippet };
+          break;
+        }
+      }
+    }
+
+    results.push({
+      document,
+      // Finished work ranks below open work with the same score
+      score: document.completed ? score * 0.8 : score,
+      titleHighlights: getHighlightRanges(document.title, terms),
+      match
+    });
+  });
+
+  return results
+    .sort((a, b) => b.score - a.score || a.document.title.localeCompare(b.document.title))
+    .slice(0, options.limit || DEFAULT_LIMIT);
+};
+
+export default {
+  tokenize,
+  createSearchIndex,
+  syncSearchIndex,
+  getHighlightRanges,
+  splitHighlights,
+  searchIndex
+};
@@ -0,0 +1,222 @@
+import { addMinutes, differenceInCalendarDays, format, parseISO, subMinutes } from 'date-fns';
+import { addFocusRating, EMPTY_FOCUS_RATING_STATS, FocusRatingStats } from './SessionReflection';
+
+/**
+ * Utility functions for the timer session history.
+ * Every session is kept in storage under the day it ended. When a session is
+ * logged by hand, edited or deleted, the study stats and streaks are rebuilt
+ * from the whole history rather than adjusted, so they always agree with it.
+ */
+
+// Same number of sessions RECORD_STUDY_SESSION keeps on stats
+export const MAX_RECENT_SESSIONS = 30;
+
+// Minimal session shape needed to rebuild the stats
+type HistorySession = {
+  id?: string;
+  timestamp: string; // When the session ended
+  duration: number; // Minutes studied
+  subject?: string;
+  taskId?: string;
+  manual?: boolean;
+  focusRating?: number;
+};
+
+// Minimal task shape needed to count completed tasks per subject
+type CountedTask = {
+  subject?: string;
+  completed: boolean;
+};
+
+export type SessionTotals<S extends HistorySession> = {
+  totalStudyTime: number;
+  sessionsCompleted: number;
+  pomodoroCompleted: number; // Sessions run on the timer, manual ones are left out
+  subjectDistribution: Record<string, number>;
+  productivityByHour: Record<string, number>;
+  dailySessionCount: Record<string, number>;
+  weeklyStudyTime: number[]; // Minutes by day of week, Sunday first
+  studyDays: Record<string, number>;
+  recentSessions: S[];
+  focusRatingStats: FocusRatingStats;
+};
+
+export type StreakTotals = {
+  current: number;
+  longest: number;
+  lastStudyDate: string | null;
+};
+
+export type ManualSessionInput = {
+  start: Date;
+  duration: number;
+  subject?: string;
+  taskId?: string;
+  notes?: string;
+};
+
+/**
+ * Sort sessions newest first
+ * @param sessions Sessions in any order
+ */
+export const sortSessions = <S extends HistorySession>(sessions: S[]): S[] => {
+  return [...sessions].sort((a, b) => parseISO(b.timestamp).getTime() - parseISO(a.timestamp).getTime());
+};
+
+/**
+ * Get the time a session started
+ * @param session Session to look at
+ */
+export const getSessionStart = (session: HistorySession): Date => {
+  return subMinutes(parseISO(session.timestamp), session.duration);
+};
+
+/**
+ * Build a session for study done away from the timer
+ * @param input When the session started, how long it ran and what it was for
+ * @param id Id for a new session, or the id of the session being edited
+ */
+export const createManualSession = (input: ManualSessionInput, id: string = Date.now().toString()) => {
+  return {
+    id,
+    timestamp: addMinutes(input.start, input.duration).toISOString(),
+    duration: input.duration,
+    subject: input.subject,
+    taskId: input.taskId,
+    isComplete: true,
+    manual: true,
+    notes: input.notes
+  };
+};
+
+/**
+ * Rebuild the study totals from the full session history.
+ * Sessions count towards the day and hour they ended, as when they are recorded.
+ * Completed tasks add one to their subject, matching TOGGLE_TASK_COMPLETION.
+ * @param sessions Every recorded session
+ * @param tasks All tasks
+ */
+export const rebuildSessionTotals = <S extends HistorySession>(
+  sessions: S[],
+  tasks: CountedTask[]
+): SessionTotals<S> => {
+  const sorted = sortSessions(sessions);
+  const subjectDistribution: Record<string, number> = {};
+  const productivityByHour: Record<string, number> = {};
+  const dailySessionCount: Record<string, number> = {};
+  const studyDays: Record<string, number> = {};
+  const weeklyStudyTime = [0, 0, 0, 0, 0, 0, 0];
+  let totalStudyTime = 0;
+  let pomodoroCompleted = 0;
+  let focusRatingStats = EMPTY_FOCUS_RATING_STATS;
+
+  sorted.forEach(session => {
+    const endedAt = parseISO(session.timestamp);
+    const day = format(endedAt, 'yyyy-MM-dd');
+    const hour = endedAt.getHours().toString();
+
+    totalStudyTime += session.duration;
+    studyDays[day] = (studyDays[day] || 0) + session.duration;
+    dailySessionCount[day] = (dailySessionCount[day] || 0) + 1;
+    productivityByHour[hour] = (productivityByHour[hour] || 0) + session.duration;
+    weeklyStudyTime[endedAt.getDay()] += session.duration;
+
+    if (session.subject) {
+      subjectDistribution[session.subject] = (subjectDistribution[session.subject] || 0) + session.duration;
+    }
+    if (!session.manual) {
+      pomodoroCompleted += 1;
+    }
+    if (session.focusRating) {
+      focusRatingStats = addFocusRating(focusRatingStats, session, session.focusRating);
+    }
+  });
+
+  tasks.forEach(task => {
+    if (task.completed && task.subject) {
+      subjectDistribution[task.subject] = (subjectDistribution[task.subject] || 0) + 1;
+    }
+  });
+
+  return {
+    totalStudyTime,
+    sessionsCompleted: sorted.length,
+    pomodoroCompleted,
+    subjectDistribution,
+    productivityByHour,
+    dailySessionCount,
+    weeklyStudyTime,
+    studyDays,
+    recentSessions: sorted.slice(0, MAX_RECENT_SESSIONS),
+    focusRatingStats
+  };
+};
+
+/**
+ * Rebuild the current and longest streak from the days studied.
+ * The current streak is still alive if the last study day was today or yesterday.
+ * @param studyDays Minutes studied, keyed by yyyy-MM-dd
+ * @param today Current date
+ */
+export const rebuildStreaks = (studyDays: Record<string, number>, today: Date = new Date()): StreakTotals => {
+  const days = Object.keys(studyDays).filter(day => studyDays[day] > 0).sort();
+  if (days.length === 0) {
+    return { current: 0, longest: 0, lastStudyDate: null };
+  }
+
+  let run = 0;
+  let longest = 0;
+  days.forEach((day, index) => {
+    const consecutive = index > 0 && differenceInCalendarDays(parseISO(day), parseISO(days[index - 1])) === 1;
+    run = consecutive ? run + 1 : 1;
+    longest = Math.max(longest, run);
+  });
+
+  const lastStudyDate = days[days.length - 1];
+  const daysSinceLast = differenceInCalendarDays(today, parseISO(lastStudyDate));
+
+  return {
+    current: daysSinceLast <= 1 ? run : 0,
+    longest,
+    lastStudyDate
+  };
+};
+
+/**
+ * Total minutes studied on or after a date
+ * @param studyDays Minutes studied, keyed by yyyy-MM-dd
+ * @param since First day to count
+ */
+export const getStudyTimeSince = (studyDays: Record<string, number>, since: Date): number => {
+  const sinceDay = format(since, 'yyyy-MM-dd');
+  return Object.entries(studyDays)
+    .filter(([day]) => day >= sinceDay)
+    .reduce((sum, [, minutes]) => sum + minutes, 0);
+};
+
+/**
+ * Get how each task's studied minutes change when a session is added, edited or deleted
+ * @param before Session before the change, undefined when adding
+ * @param after Session after the change, undefined when deleting
+ * @returns Minutes to add per task id, negative when time is taken away
+ */
+export const getTaskMinuteChanges = (before?: HistorySession, after?: HistorySession): Record<string, number> => {
+  const changes: Record<string, number> = {};
+  if (before?.taskId) {
+    changes[before.taskId] = (changes[before.taskId] || 0) - before.duration;
+  }
+  if (after?.taskId) {
+    changes[after.taskId] = (changes[after.taskId] || 0) + after.duration;
+  }
+  return changes;
+};
+
+export default {
+  sortSessions,
+  getSessionStart,
+  createManualSession,
+  rebuildSessionTotals,
+  rebuildStreaks,
+  getStudyTimeSince,
+  getTaskMinuteChanges
+};
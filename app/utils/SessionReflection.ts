@@ -0,0 +1,150 @@
+import { parseISO, subMinutes } from 'date-fns';
+
+/**
+ * Utility functions for reflecting on a finished focus session.
+ * After a session the user rates their focus from 1 to 5 and can note what
+ * they got done. Ratings are rolled up into averages per hour of day and per
+ * subject, notes go into the history of the task the session was for.
+ */
+
+export const FOCUS_RATINGS: { value: number; label: string }[] = [
+  { value: 1, label: 'Distracted' },
+  { value: 2, label: 'Scattered' },
+  { value: 3, label: 'Okay' },
+  { value: 4, label: 'Focused' },
+  { value: 5, label: 'Deep focus' }
+];
+
+// Progress bumps offered for the session's task, in percentage points
+export const PROGRESS_BUMPS = [0, 10, 20, 30];
+
+// Matches the bump a completed Pomodoro used to give its task
+export const DEFAULT_PROGRESS_BUMP = 20;
+
+export type SessionReflection = {
+  focusRating: number;
+  notes?: string;
+  progressBump: number;
+};
+
+type RatingBucket = {
+  total: number;
+  count: number;
+};
+
+export type FocusRatingStats = {
+  byHour: Record<string, RatingBucket>; // Keyed by hour of day, 0-23
+  bySubject: Record<string, RatingBucket>;
+};
+
+export type AverageFocus = RatingBucket & {
+  key: string;
+  average: number;
+};
+
+type TaskHistoryEntry = {
+  timestamp: string;
+  changes: string;
+  progress?: number;
+  completed?: boolean;
+  notes?: string;
+  focusRating?: number;
+};
+
+// Minimal task shape needed to record a reflection
+type ReflectedTask = {
+  progress?: number;
+  completed: boolean;
+  history?: TaskHistoryEntry[];
+};
+
+// Minimal session shape needed to roll up a rating
+type RatedSession = {
+  timestamp: string; // When the session ended
+  duration: number; // Minutes focused
+  subject?: string;
+};
+
+const NO_SUBJECT = 'No subject';
+
+export const EMPTY_FOCUS_RATING_STATS: FocusRatingStats = {
+  byHour: {},
+  bySubject: {}
+};
+
+const addToBucket = (buckets: Record<string, RatingBucket>, key: string, rating: number) => {
+  const bucket = buckets[key] || { total: 0, count: 0 };
+  buckets[key] = { total: bucket.total + rating, count: bucket.count + 1 };
+};
+
+/**
+ * Roll a focus rating into the averages, counted towards the hour the session started
+ * @param stats Current totals, empty totals are used when missing
+ * @param session Session that was rated
+ * @param rating Focus rating from 1 to 5
+ * @returns Updated totals
+ */
+export const addFocusRating = (
+  stats: FocusRatingStats | undefined,
+  session: RatedSession,
+  rating: number
+): FocusRatingStats => {
+  const current = stats || EMPTY_FOCUS_RATING_STATS;
+  const byHour = { ...current.byHour };
+  const bySubject = { ...current.bySubject };
+
+  addToBucket(byHour, subMinutes(parseISO(session.timestamp), session.duration).getHours().toString(), rating);
+  addToBucket(bySubject, session.subject || NO_SUBJECT, rating);
+
+  return { byHour, bySubject };
+};
+
+/**
+ * Get average focus ratings, best first
+ * @param buckets Totals by hour or by subject
+ */
+export const getAverageFocus = (buckets: Record<string, RatingBucket>): AverageFocus[] => {
+  return Object.entries(buckets)
+    .filter(([, bucket]) => bucket.count > 0)
+    .map(([key, bucket]) => ({ key, ...bucket, average: bucket.total / bucket.count }))
+    .sort((a, b) => b.average - a.average);
+};
+
+/**
+ * Build the task updates for a session reflection, adding a history entry with the notes
+ * @param task Task the session was for
+ * @param reflection The user's reflection
+ * @param minutes Length of the session
+ * @param now Current time
+ */
+export const getReflectionTaskUpdates = (
+  task: ReflectedTask,
+  reflection: SessionReflection,
+  minutes: number,
+  now: Date = new Date()
+): { progress?: number; lastModified: string; history: TaskHistoryEntry[] } => {
+  const timestamp = now.toISOString();
+  const progress = !task.completed && reflection.progressBump > 0
+    ? Math.min(100, (task.progress || 0) + reflection.progressBump)
+    : undefined;
+
+  const historyEntry: TaskHistoryEntry = {
+    timestamp,
+    changes: `Reflected on a ${minutes} min session`,
+    progress: progress ?? task.progress,
+    notes: reflection.notes,
+    focusRating: reflection.focusRating
+  };
+
+  return {
+    ...(progress !== undefined ? { progress } : {}),
+    lastModified: timestamp,
+    history: [...(task.history || []), historyEntry].slice(-10) // Keep only last 10 entries
+  };
+};
+
+export default {
+  addFocusRating,
+  getAverageFocus,
+  getReflectionTaskUpdates
+};
@@ -0,0 +1,248 @@
+import { differenceInCalendarDays, endOfWeek, isPast, isToday, parseISO } from 'date-fns';
+import { isTaskBlocked } from './TaskDependencies';
+
+/**
+ * Query language for smart lists.
+ * A query is a space separated list of terms that must all match (AND).
+ * Comma separated values inside one term are alternatives (OR), and a leading
+ * "-" negates a term.
+ *
+ * Terms:
+ * - subject:Math, subject:"Computer Science"
+ * - priority:high, priority:high,medium
+ * - due:today | tomorrow | overdue | week | none | <3d | <=3d | >7d | >=7d
+ * - progress:>50, progress:<=25, progress:0
+ * - is:open | completed | archived | blocked | recurring
+ * - text:essay, "lab report" or any bare word (matches title and description)
+ *
+ * Archived tasks are left out unless the query mentions is:archived.
+ *
+ * Example: "high-priority Math tasks due in the next 3 days"
+ *   subject:Math priority:high due:<=3d is:open
+ */
+
+export type SmartList = {
+  id: string;
+  name: string;
+  query: string;
+  pinned: boolean; // Pinned lists show up as chips in TasksScreen and on the Dashboard
+  createdAt: string;
+};
+
+export type SmartListField = 'subject' | 'priority' | 'due' | 'progress' | 'is' | 'text';
+
+export type SmartListClause = {
+  field: SmartListField;
+  values: string[];
+  negated: boolean;
+};
+
+export type ParsedSmartListQuery = {
+  clauses: SmartListClause[];
+  errors: string[];
+};
+
+// Minimal task shape the query language can evaluate
+type QueryableTask = {
+  id: string;
+  title: string;
+  description?: string;
+  subject?: string;
+  priority?: string;
+  dueDate?: string;
+  completed: boolean;
+  archived: boolean;
+  progress?: number;
+  recurrence?: unknown;
+  blockedBy?: string[];
+};
+
+const FIELDS: SmartListField[] = ['subject', 'priority', 'due', 'progress', 'is', 'text'];
+const PRIORITIES = ['low', 'medium', 'high'];
+const DUE_KEYWORDS = ['today', 'tomorrow', 'overdue', 'week', 'none'];
+const STATUSES = ['open', 'completed', 'archived', 'blocked', 'recurring'];
+
+const DUE_RANGE_PATTERN = /^(<=|>=|<|>)(\d+)d$/;
+const PROGRESS_PATTERN = /^(<=|>=|<|>|=)?(\d{1,3})$/;
+
+// Matches: optional "-", optional "field:", then a quoted or bare value
+const TERM_PATTERN = /(-?)(?:([a-zA-Z]+):)?(?:"([^"]*)"|(\S+))/g;
+
+const compare = (value: number, operator: string, target: number) => {
+  switch (operator) {
+    case '<':
+      return value < target;
+    case '<=':
+      return value <= target;
+    case '>':
+      return value > target;
+    case '>=':
+      return value >= target;
+    default:
+      return value === target;
+  }
+};
+
+// Check a single value of a term, returning an error message if it is invalid
+const validateValue = (field: SmartListField, value: string): string | null => {
+  switch (field) {
+    case 'priority':
+      return PRIORITIES.includes(value) ? null : `Unknown priority "${value}"`;
+    case 'due':
+      return DUE_KEYWORDS.includes(value) || DUE_RANGE_PATTERN.test(value) ? null : `Unknown due range "${value}"`;
+    case 'progress': {
+      const match = value.match(PROGRESS_PATTERN);
+      return match && parseInt(match[2], 10) <= 100 ? null : `Invalid progress "${value}"`;
+    }
+    case 'is':
+      return STATUSES.includes(value) ? null : `Unknown status "${value}"`;
+    default:
+      return value ? null : `Missing value for ${field}:`;
+  }
+};
+
+/**
+ * Parse a query string into clauses
+ * Invalid terms are reported in `errors` and left out of the clauses.
+ * @param query Query typed by the user
+ */
+export const parseSmartListQuery = (query: string): ParsedSmartListQuery => {
+  const clauses: SmartListClause[] = [];
+  const errors: string[] = [];
+
+  for (const match of query.matchAll(TERM_PATTERN)) {
+    const [, negation, rawField, quotedValue, bareValue] = match;
+    const field = (rawField ? rawField.toLowerCase() : 'text') as SmartListField;
+
+    if (!FIELDS.includes(field)) {
+      errors.push(`Unknown filter "${rawField}:"`);
+      continue;
+    }
+
+    // Text and subject values keep their spaces when quoted; other fields are case-insensitive keywords
+    const rawValue = quotedValue !== undefined ? quotedValue : bareValue;
+    const values = (field === 'text' ? [rawValue] : rawValue.split(','))
+      .map(value => value.trim())
+      .map(value => (field === 'subject' || field === 'text' ? value : value.toLowerCase()))
+      .filter(Boolean);
+
+    if (values.length === 0) {
+      errors.push(`Missing value for ${field}:`);
+      continue;
+    }
+
+    const valueErrors = values.map(value => validateValue(field, value)).filter((error): error is string => !!error);
+    if (valueErrors.length > 0) {
+      errors.push(...valueErrors);
+      continue;
+    }
+
+    clauses.push({ field, values, negated: negation === '-' });
+  }
+
+  return { clauses, errors };
+};
+
+// Check whether a task matches one value of a clause
+const matchesValue = <T extends QueryableTask>(
+  task: T,
+  field: SmartListField,
+  value: string,
+  tasks: T[],
+  now: Date
+): boolean => {
+  switch (field) {
+    case 'subject':
+      return (task.subject || '').toLowerCase() === value.toLowerCase();
+    case 'priority':
+      return task.priority === value;
+    case 'due': {
+      if (value === 'none') return !task.dueDate;
+      if (!task.dueDate) return false;
+
+      const dueDate = parseISO(task.dueDate);
+      const daysAway = differenceInCalendarDays(dueDate, now);
+
+      switch (value) {
+        case 'today':
+          return isToday(dueDate);
+        case 'tomorrow':
+          return daysAway === 1;
+        case 'overdue':
+          return isPast(dueDate) && !isToday(dueDate);
+        case 'week':
+          return daysAway >= 0 && dueDate <= endOfWeek(now);
+        default: {
+          // Ranges only look forward, overdue tasks never match "<3d"
+          const [, operator, days] = value.match(DUE_RANGE_PATTERN)!;
+          return daysAway >= 0 && compare(daysAway, operator, parseInt(days, 10));
+        }
+      }
+    }
+    case 'progress': {
+      const [, operator = '=', target] = value.match(PROGRESS_PATTERN)!;
+      return compare(task.progress || 0, operator, parseInt(target, 10));
+    }
+    case 'is':
+      switch (value) {
+        case 'open':
+          return !task.completed;
+        case 'completed':
+          return task.completed;
+        case 'archived':
+          return task.archived;
+        case 'blocked':
+          return isTaskBlocked(task, tasks);
+        case 'recurring':
+          return !!task.recurrence;
+        default:
+          return false;
+      }
+    case 'text': {
+      const needle = value.toLowerCase();
+      return task.title.toLowerCase().includes(needle) ||
+        (task.description || '').toLowerCase().includes(needle);
+    }
+    default:
+      return false;
+  }
+};
+
+/**
+ * Check whether a task matches a parsed query
+ * @param task Task to check
+ * @param parsed Parsed query
+ * @param tasks All current tasks, needed to resolve dependencies for is:blocked
+ * @param now Reference date for due ranges
+ */
+export const matchesSmartListQuery = <T extends QueryableTask>(
+  task: T,
+  parsed: ParsedSmartListQuery,
+  tasks: T[],
+  now: Date = new Date()
+): boolean => {
+  const mentionsArchived = parsed.clauses.some(clause => clause.field === 'is' && clause.values.includes('archived'));
+  if (task.archived && !mentionsArchived) return false;
+
+  return parsed.clauses.every(clause => {
+    const matches = clause.values.some(value => matchesValue(task, clause.field, value, tasks, now));
+    return clause.negated ? !matches : matches;
+  });
+};
+
+/**
+ * Get the tasks matching a query string
+ * @param tasks All current tasks
+ * @param query Query string
+ * @param now Reference date for due ranges
+ */
+export const filterTasksByQuery = <T extends QueryableTask>(tasks: T[], query: string, now: Date = new Date()): T[] => {
+  const parsed = parseSmartListQuery(query);
+  return tasks.filter(task => matchesSmartListQuery(task, parsed, tasks, now));
+};
+
+export default {
+  parseSmartListQuery,
+  matchesSmartListQuery,
+  filterTasksByQuery
+};
@@ -0,0 +1,154 @@
+import { addDays, addHours, format, nextMonday, parseISO, setHours, setMinutes, startOfDay } from 'date-fns';
+
+/**
+ * Utility functions for snoozing tasks.
+ * Snoozing moves a task's due date and time and records the deferral in the
+ * task history, so tasks that keep getting put off can be spotted.
+ */
+
+export type SnoozeOption = 'laterToday' | 'tomorrow' | 'nextWeek' | 'pickDate';
+
+export const SNOOZE_OPTIONS: { key: SnoozeOption; label: string; icon: string }[] = [
+  { key: 'laterToday', label: 'Later Today', icon: 'time-outline' },
+  { key: 'tomorrow', label: 'Tomorrow', icon: 'sunny-outline' },
+  { key: 'nextWeek', label: 'Next Week', icon: 'calendar-outline' },
+  { key: 'pickDate', label: 'Pick a Date', icon: 'calendar-number-outline' }
+];
+
+type TaskHistoryEntry = {
+  timestamp: string;
+  changes: string;
+  progress?: number;
+  completed?: boolean;
+  deferredTo?: string; // Set on entries recording a snooze
+};
+
+// Minimal task shape needed to snooze a task
+type SnoozableTask = {
+  dueDate: string;
+  dueTime?: string;
+  completed: boolean;
+  archived?: boolean;
+  progress?: number;
+  history?: TaskHistoryEntry[];
+};
+
+// Task fields changed by snoozing
+export type SnoozeUpdates = {
+  dueDate: string;
+  dueTime: string;
+  lastModified: string;
+  history: TaskHistoryEntry[];
+};
+
+// Hours "later today" pushes a task back
+const LATER_TODAY_HOURS = 3;
+
+// Time used when the task has no due time of its own
+const DEFAULT_SNOOZE_TIME = '09:00';
+
+// Latest hour "later today" can land on before rolling over to tomorrow
+const LAST_SNOOZE_HOUR = 22;
+
+// Deferrals after which a task counts as chronically deferred
+export const CHRONIC_DEFERRAL_COUNT = 3;
+
+const atTime = (date: Date, time: string): Date => {
+  const [hours, minutes] = time.split(':').map(Number);
+  return setMinutes(setHours(startOfDay(date), hours), minutes);
+};
+
+/**
+ * Work out when a snoozed task becomes due
+ * @param option Snooze option
+ * @param task Task being snoozed, its due time is kept for whole-day snoozes
+ * @param now Current time
+ * @param pickedDate Date chosen by the user for "pickDate"
+ * @returns The new due date and time
+ */
+export const getSnoozeTarget = (
+  option: SnoozeOption,
+  task: Pick<SnoozableTask, 'dueTime'>,
+  now: Date = new Date(),
+  pickedDate?: Date
+): Date => {
+  const time = task.dueTime || DEFAULT_SNOOZE_TIME;
+
+  switch (option) {
+    case 'laterToday': {
+      // Round up to the next half hour
+      const target = addHours(now, LATER_TODAY_HOURS);
+      target.setMinutes(Math.ceil(target.getMinutes() / 30) * 30, 0, 0);
+
+      if (target.getHours() >= LAST_SNOOZE_HOUR || startOfDay(target) > startOfDay(now)) {
+        return atTime(addDays(now, 1), DEFAULT_SNOOZE_TIME);
+      }
+      return target;
+    }
+    case 'tomorrow':
+      return atTime(addDays(now, 1), time);
+    case 'nextWeek':
+      return atTime(nextMonday(now), time);
+    case 'pickDate':
+    default:
+      return atTime(pickedDate || addDays(now, 1), time);
+  }
+};
+
+/**
+ * Build the updates that snooze a task until a new time
+ * @param task Task to snooze
+ * @param target New due date and time
+ * @param now Time of the snooze
+ */
+export const getSnoozeUpdates = (task: SnoozableTask, target: Date, now: Date = new Date()): SnoozeUpdates => {
+  const timestamp = now.toISOString();
+  const historyEntry: TaskHistoryEntry = {
+    timestamp,
+    changes: `Snoozed until ${format(target, 'EEE, MMM d h:mm a')}`,
+    progress: task.progress,
+    deferredTo: target.toISOString()
+  };
+
+  return {
+    dueDate: target.toISOString(),
+    dueTime: format(target, 'HH:mm'),
+    lastModified: timestamp,
+    history: [...(task.history || []), historyEntry].slice(-10) // Keep only last 10 entries
+  };
+};
+
+/**
+ * Count how often a task has been snoozed
+ * @param task Task to check
+ */
+export const getDeferralCount = (task: Pick<SnoozableTask, 'history'>): number => {
+  return (task.history || []).filter(entry => entry.deferredTo).length;
+};
+
+/**
+ * Find open tasks that keep getting snoozed
+ * @param tasks All tasks
+ * @param minDeferrals Deferrals needed to count as chronic
+ * @returns Tasks with their deferral count, most deferred first
+ */
+export const getChronicallyDeferredTasks = <T extends SnoozableTask>(
+  tasks: T[],
+  minDeferrals: number = CHRONIC_DEFERRAL_COUNT
+): { task: T; deferrals: number; lastDeferredAt?: string }[] => {
+  return tasks
+    .filter(task => !task.completed && !task.archived)
+    .map(task => {
+      const deferrals = (task.history || []).filter(entry => entry.deferredTo);
+      return { task, deferrals: deferrals.length, lastDeferredAt: deferrals[deferrals.length - 1]?.timestamp };
+    })
+    .filter(item => item.deferrals >= minDeferrals)
+    .sort((a, b) => b.deferrals - a.deferrals || parseISO(a.task.dueDate).getTime() - parseISO(b.task.dueDate).getTime());
+};
+
+export default {
+  getSnoozeTarget,
+  getSnoozeUpdates,
+  getDeferralCount,
+  getChronicallyDeferredTasks
+};
@@ -1,5 +1,6 @@
 import AsyncStorage from '@react-native-async-storage/async-storage';
 import { format } from 'date-fns';
+import { Interruption } from './Interruptions';
 
 // Import types from their own definitions to avoid circular imports
 type TimerSession = {
@@ -9,6 +10,11 @@ type TimerSession = {
   subject?: string;
   taskId?: string;
   isComplete: boolean;
+  interruptions?: Interruption[];
+  pausedSeconds?: number;
+  focusRating?: number;
+  notes?: string;
+  manual?: boolean;
 };
 
 // Only import basic types and not the full context to avoid circular imports
@@ -65,6 +71,22 @@ export const loadTimerSessionsForDate = async (date: Date = new Date()): Promise
   }
 };
 
+/**
+ * Load every timer session that was saved, on any date.
+ * Errors are passed on, as an empty list would wipe the stats rebuilt from it.
+ * Sessions saved without an id are given their timestamp as id.
+ */
+export const loadAllTimerSessions = async (): Promise<TimerSession[]> => {
+  const keys = await AsyncStorage.getAllKeys();
+  const sessionKeys = keys.filter(key => /^sessions_\d{4}-\d{2}-\d{2}$/.test(key));
+  const entries = await AsyncStorage.multiGet(sessionKeys);
+
+  return entries.flatMap(([, sessionsData]) => {
+    const sessions: TimerSession[] = sessionsData ? JSON.parse(sessionsData) : [];
+    return sessions.map(session => ({ ...session, id: session.id || session.timestamp }));
+  });
+};
+
 /**
  * Update timer session count for today
  * @param count Number of sessions completed
@@ -144,6 +166,50 @@ export const addTimerSession = async (session: TimerSession): Promise<void> => {
   }
 };
 
+/**
+ * Update a timer session that was already saved, e.g. to add a reflection
+ * @param session Timer session with its id and updated fields
+ */
+export const updateTimerSession = async (session: TimerSession): Promise<void> => {
+  try {
+    const sessionsKey = `sessions_${format(new Date(session.timestamp), 'yyyy-MM-dd')}`;
+    const existingSessionsData = await AsyncStorage.getItem(sessionsKey);
+    if (!existingSessionsData) return;
+
+    const existingSessions: TimerSession[] = JSON.parse(existingSessionsData);
+    const updatedSessions = existingSessions.map(existing =>
+      existing.id === session.id ? { ...existing, ...session } : existing
+    );
+    await AsyncStorage.setItem(sessionsKey, JSON.stringify(updatedSessions));
+  } catch (error) {
+    console.error('Error updating timer session:', error);
+  }
+};
+
+/**
+ * Remove a timer session from the day it was saved under.
+ * Errors are passed on, so an edit doesn't save the session again next to the old copy.
+ * @param session Timer session to remove
+ */
+export const removeTimerSession = async (session: TimerSession): Promise<void> => {
+  try {
+    const date = format(new Date(session.timestamp), 'yyyy-MM-dd');
+    const sessionsKey = `sessions_${date}`;
+    const existingSessionsData = await AsyncStorage.getItem(sessionsKey);
+    if (!existingSessionsData) return;
+
+    const sessionId = session.id || session.timestamp;
+    const existingSessions: TimerSession[] = JSON.parse(existingSessionsData);
+    const remainingSessions = existingSessions.filter(existing => (existing.id || existing.timestamp) !== sessionId);
+    await AsyncStorage.setItem(sessionsKey, JSON.stringify(remainingSessions));
+
+    await updateSessionCount(date);
+  } catch (error) {
+    console.error('Error removing timer session:', error);
+    throw error;
+  }
+};
+
 /**
  * Update session count for a specific date
  * @param date Date string in yyyy-MM-dd format
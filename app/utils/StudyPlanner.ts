@@ -0,0 +1,407 @@
+import { addDays, addMinutes, format, parseISO, startOfDay } from 'date-fns';
+import { isTaskBlocked } from './TaskDependencies';
+
+/**
+ * Utility functions for the automatic study planner.
+ * Open tasks are spread over the coming days as Pomodoro blocks, earliest
+ * deadline first, inside the study hours the user has left free.
+ */
+
+// A recurring period of the day that must stay free, e.g. classes or dinner
+export type BlockedPeriod = {
+  id: string;
+  label: string;
+  start: string; // HH:mm
+  end: string; // HH:mm, may be earlier than start for periods that run past midnight
+};
+
+export type PlanBlock = {
+  id: string;
+  taskId: string;
+  title: string;
+  subject?: string;
+  date: string; // yyyy-MM-dd
+  startTime: string; // HH:mm
+  minutes: number;
+  pinned: boolean; // Pinned blocks are kept as they are when the plan is rebuilt
+};
+
+export type StudyPlan = {
+  generatedAt: string;
+  signature: string; // Snapshot of the inputs the plan was built from
+  blocks: PlanBlock[];
+  skipped: string[]; // "taskId@yyyy-MM-dd" pairs the user removed from the plan
+};
+
+export type PlannerOptions = {
+  pomodoroLength: number;
+  shortBreakLength: number;
+  dailyGoalMinutes: number;
+  dayStart: string; // HH:mm
+  dayEnd: string; // HH:mm
+  blockedHours: BlockedPeriod[];
+  days: number; // How many days ahead to plan, including today
+};
+
+type TaskPriority = 'low' | 'medium' | 'high';
+
+// Minimal shapes of the data the planner reads
+type PlannerTask = {
+  id: string;
+  title: string;
+  subject?: string;
+  dueDate: string;
+  dueTime?: string;
+  priority?: TaskPriority;
+  progress?: number;
+  completed: boolean;
+  archived: boolean;
+  estimatedMinutes?: number;
+  blockedBy?: string[];
+};
+
+type PlannerExam = {
+  id: string;
+  date: string;
+  startTime?: string;
+  endTime?: string;
+  subject?: string;
+  completed: boolean;
+};
+
+type Interval = { start: number; end: number }; // Minutes from midnight
+
+export const DEFAULT_PLANNER_DAY_START = '08:00';
+export const DEFAULT_PLANNER_DAY_END = '22:00';
+export const DEFAULT_PLANNER_DAYS = 7;
+
+// Work assumed for a task that has no estimate yet
+const DEFAULT_ESTIMATES: Record<TaskPriority, number> = {
+  high: 100,
+  medium: 75,
+  low: 50
+};
+
+const PRIORITY_WEIGHTS: Record<TaskPriority, number> = {
+  high: 3,
+  medium: 2,
+  low: 1
+};
+
+// Spread work out so one task does not take over a whole day unless it is due
+const MAX_BLOCKS_PER_TASK_PER_DAY = 4;
+
+// Tasks for a subject with an exam coming up are planned as if due the day before the exam
+const EXAM_PREP_DAYS = 1;
+
+const toMinutes = (time: string): number => {
+  const [hours, minutes] = time.split(':').map(Number);
+  return (hours || 0) * 60 + (minutes || 0);
+};
+
+const fromMinutes = (minutes: number): string => {
+  const hours = Math.floor(minutes / 60);
+  const mins = minutes % 60;
+  return `${hours < 10 ? '0' : ''}${hours}:${mins < 10 ? '0' : ''}${mins}`;
+};
+
+const getSkipKey = (taskId: string, dateKey: string) => `${taskId}@${dateKey}`;
+
+/**
+ * Get the minutes of work a task is expected to take in total
+ * @param task Task to estimate
+ */
+export const getTaskEstimateMinutes = (task: PlannerTask): number => {
+  return task.estimatedMinutes && task.estimatedMinutes > 0
+    ? task.estimatedMinutes
+    : DEFAULT_ESTIMATES[task.priority || 'medium'];
+};
+
+/**
+ * Get the minutes of work left on a task, based on its progress
+ * @param task Task to check
+ */
+export const getRemainingMinutes = (task: PlannerTask): number => {
+  const progress = Math.min(100, Math.max(0, task.progress || 0));
+  return Math.ceil(getTaskEstimateMinutes(task) * (1 - progress / 100));
+};
+
+/**
+ * Get the date and time a block starts
+ * @param block Plan block
+ */
+export const getBlockStart = (block: PlanBlock): Date => {
+  const start = parseISO(block.date);
+  start.setHours(Math.floor(toMinutes(block.startTime) / 60), toMinutes(block.startTime) % 60, 0, 0);
+  return start;
+};
+
+/**
+ * Build a string that changes whenever anything the plan depends on changes
+ * @param tasks All tasks
+ * @param exams All exams
+ * @param options Planner options
+ * @param now Current date, so a new day also triggers a rebuild
+ */
+export const getPlanSignature = (
+  tasks: PlannerTask[],
+  exams: PlannerExam[],
+  options: PlannerOptions,
+  now: Date = new Date()
+): string => {
+  return JSON.stringify({
+    day: format(now, 'yyyy-MM-dd'),
+    tasks: tasks
+      .filter(task => !task.completed && !task.archived)
+      .map(task => [task.id, task.title, task.subject, task.dueDate, task.dueTime, task.priority, task.progress, task.estimatedMinutes, task.blockedBy]),
+    exams: exams
+      .filter(exam => !exam.completed)
+      .map(exam => [exam.id, exam.date, exam.startTime, exam.endTime, exam.subject]),
+    options
+  });
+};
+
+// When a task effectively has to be done, taking exams for its subject into account
+const getEffectiveDeadline = (task: PlannerTask, exams: PlannerExam[], now: Date): number => {
+  let deadline = Infinity;
+
+  if (task.dueDate) {
+    const dueDate = parseISO(task.dueDate);
+    deadline = task.dueTime
+      ? dueDate.setHours(Math.floor(toMinutes(task.dueTime) / 60), toMinutes(task.dueTime) % 60, 0, 0)
+      : addDays(startOfDay(dueDate), 1).getTime() - 1;
+  }
+
+  exams
+    .filter(exam => !exam.completed && exam.subject && exam.subject === task.subject)
+    .forEach(exam => {
+      const examDate = startOfDay(parseISO(exam.date));
+      if (examDate.getTime() >= startOfDay(now).getTime()) {
+        deadline = Math.min(deadline, addDays(examDate, -EXAM_PREP_DAYS).getTime());
+      }
+    });
+
+  return deadline;
+};
+
+// Busy intervals of a single day from blocked hours, timed exams and pinned blocks
+const getBusyIntervals = (
+  dateKey: string,
+  exams: PlannerExam[],
+  pinnedBlocks: PlanBlock[],
+  options: PlannerOptions
+): Interval[] => {
+  const busy: Interval[] = [];
+
+  options.blockedHours.forEach(period => {
+    const start = toMinutes(period.start);
+    const end = toMinutes(period.end);
+    if (end > start) {
+      busy.push({ start, end });
+    } else {
+      // Runs past midnight
+      busy.push({ start, end: 24 * 60 }, { start: 0, end });
+    }
+  });
+
+  exams
+    .filter(exam => exam.startTime && format(parseISO(exam.date), 'yyyy-MM-dd') === dateKey)
+    .forEach(exam => {
+      const start = toMinutes(exam.startTime as string);
+      const end = exam.endTime ? toMinutes(exam.endTime) : start + 60;
+      busy.push({ start, end: Math.max(end, start + 1) });
+    });
+
+  pinnedBlocks
+    .filter(block => block.date === dateKey)
+    .forEach(block => {
+      const start = toMinutes(block.startTime);
+      busy.push({ start, end: start + block.minutes + options.shortBreakLength });
+    });
+
+  return busy.sort((a, b) => a.start - b.start);
+};
+
+// First start time from which a block of the given length fits between busy intervals
+const findFreeSlot = (from: number, length: number, busy: Interval[], dayEnd: number): number | null => {
+  let start = from;
+  let moved = true;
+
+  while (moved) {
+    moved = false;
+    for (const interval of busy) {
+      if (start < interval.end && start + length > interval.start) {
+        start = interval.end;
+        moved = true;
+      }
+    }
+  }
+
+  return start + length <= dayEnd ? start : null;
+};
+
+/**
+ * Generate a study plan of Pomodoro blocks for the coming days
+ * @param tasks All tasks, only open and unblocked ones are planned
+ * @param exams All exams, used to bring work forward and keep exam times free
+ * @param options Planner options
+ * @param previousPlan Plan being rebuilt, its pinned blocks and skipped days are kept
+ * @param now Current date and time
+ */
+export const generateStudyPlan = (
+  tasks: PlannerTask[],
+  exams: PlannerExam[],
+  options: PlannerOptions,
+  previousPlan: StudyPlan | null = null,
+  now: Date = new Date()
+): StudyPlan => {
+  const today = startOfDay(now);
+  const todayKey = format(today, 'yyyy-MM-dd');
+  const blockLength = Math.max(5, options.pomodoroLength);
+
+  const openTasks = tasks.filter(task => !task.completed && !task.archived && !isTaskBlocked(task, tasks));
+  const openTaskIds = new Set(openTasks.map(task => task.id));
+
+  // Keep pinned blocks from today onwards for tasks that are still open
+  const pinnedBlocks = (previousPlan?.blocks || []).filter(
+    block => block.pinned && block.date >= todayKey && openTaskIds.has(block.taskId)
+  );
+  const skipped = (previousPlan?.skipped || []).filter(key => key.split('@')[1] >= todayKey);
+
+  // Work left per task once pinned blocks are counted
+  const remaining = new Map<string, number>();
+  openTasks.forEach(task => {
+    const pinnedMinutes = pinnedBlocks
+      .filter(block => block.taskId === task.id)
+      .reduce((sum, block) => sum + block.minutes, 0);
+    remaining.set(task.id, Math.max(0, getRemainingMinutes(task) - pinnedMinutes));
+  });
+
+  const deadlines = new Map(openTasks.map(task => [task.id, getEffectiveDeadline(task, exams, now)]));
+  const queue = [...openTasks].sort((a, b) =>
+    (deadlines.get(a.id) as number) - (deadlines.get(b.id) as number) ||
+    PRIORITY_WEIGHTS[b.priority || 'medium'] - PRIORITY_WEIGHTS[a.priority || 'medium']
+  );
+
+  const dayStart = toMinutes(options.dayStart);
+  const dayEnd = toMinutes(options.dayEnd);
+  const blocks: PlanBlock[] = [];
+
+  for (let offset = 0; offset < options.days; offset++) {
+    const day = addDays(today, offset);
+    const dateKey = format(day, 'yyyy-MM-dd');
+    const dayDeadline = addDays(day, 1).getTime();
+
+    const busy = getBusyIntervals(dateKey, exams, pinnedBlocks, options);
+    let capacity = options.dailyGoalMinutes - pinnedBlocks
+      .filter(block => block.date === dateKey)
+      .reduce((sum, block) => sum + block.minutes, 0);
+
+    // Today only plans from the next five minutes onwards
+    let cursor = offset === 0
+      ? Math.max(dayStart, Math.ceil((now.getHours() * 60 + now.getMinutes()) / 5) * 5)
+      : dayStart;
+
+    const blocksPerTask = new Map<string, number>();
+
+    while (capacity >= blockLength) {
+      const task = queue.find(candidate =>
+        (remaining.get(candidate.id) as number) > 0 &&
+        !skipped.includes(getSkipKey(candidate.id, dateKey)) &&
+        ((blocksPerTask.get(candidate.id) || 0) < MAX_BLOCKS_PER_TASK_PER_DAY ||
+          (deadlines.get(candidate.id) as number) <= dayDeadline)
+      );
+      if (!task) break;
+
+      const start = findFreeSlot(cursor, blockLength, busy, dayEnd);
+      if (start === null) break;
+
+      blocks.push({
+        id: `${task.id}-${dateKey}-${fromMinutes(start)}`,
+        taskId: task.id,
+        title: task.title,
+        subject: task.subject,
+        date: dateKey,
+        startTime: fromMinutes(start),
+        minutes: blockLength,
+        pinned: false
+      });
+
+      remaining.set(task.id, (remaining.get(task.id) as number) - blockLength);
+      blocksPerTask.set(task.id, (blocksPerTask.get(task.id) || 0) + 1);
+      capacity -= blockLength;
+      cursor = start + blockLength + options.shortBreakLength;
+    }
+  }
+
+  return {
+    generatedAt: now.toISOString(),
+    signature: getPlanSignature(tasks, exams, options, now),
+    blocks: [...pinnedBlocks, ...blocks].sort((a, b) => getBlockStart(a).getTime() - getBlockStart(b).getTime()),
+    skipped
+  };
+};
+
+/**
+ * Remove a block from the plan and keep its task off that day when the plan is rebuilt
+ * @param plan Current plan
+ * @param blockId Block to remove
+ */
+export const skipPlanBlock = (plan: StudyPlan, blockId: string): StudyPlan => {
+  const block = plan.blocks.find(b => b.id === blockId);
+  if (!block) return plan;
+
+  const skipKey = getSkipKey(block.taskId, block.date);
+  return {
+    ...plan,
+    blocks: plan.blocks.filter(b => b.id !== blockId),
+    skipped: plan.skipped.includes(skipKey) ? plan.skipped : [...plan.skipped, skipKey]
+  };
+};
+
+/**
+ * Move a block to a new start time, pinning it so rebuilding the plan keeps it there
+ * @param plan Current plan
+ * @param blockId Block to move
+ * @param date New date (yyyy-MM-dd)
+ * @param startTime New start time (HH:mm)
+ */
+export const movePlanBlock = (plan: StudyPlan, blockId: string, date: string, startTime: string): StudyPlan => {
+  const blocks = plan.blocks
+    .map(block => (block.id === blockId ? { ...block, date, startTime, pinned: true } : block))
+    .sort((a, b) => getBlockStart(a).getTime() - getBlockStart(b).getTime());
+
+  return { ...plan, blocks };
+};
+
+/**
+ * Get the planned minutes per day
+ * @param plan Current plan
+ */
+export const getPlannedMinutesByDay = (plan: StudyPlan): Record<string, number> => {
+  return plan.blocks.reduce((totals, block) => {
+    totals[block.date] = (totals[block.date] || 0) + block.minutes;
+    return totals;
+  }, {} as Record<string, number>);
+};
+
+/**
+ * Add minutes to an HH:mm time, used to show when a block ends
+ * @param time Start time (HH:mm)
+ * @param minutes Minutes to add
+ */
+export const addMinutesToTime = (time: string, minutes: number): string => {
+  return format(addMinutes(new Date(2000, 0, 1, 0, toMinutes(time)), minutes), 'HH:mm');
+};
+
+export default {
+  getTaskEstimateMinutes,
+  getRemainingMinutes,
+  getBlockStart,
+  getPlanSignature,
+  generateStudyPlan,
+  skipPlanBlock,
+  movePlanBlock,
+  getPlannedMinutesByDay,
+  addMinutesToTime
+};
@@ -0,0 +1,159 @@
+/**
+ * Utility functions for the Kanban board view of tasks.
+ * Columns are derived from task fields rather than stored, so moving a card
+ * between columns is just a task update.
+ */
+
+export type BoardGrouping = 'status' | 'subject';
+
+export type TaskStatus = 'notStarted' | 'inProgress' | 'done';
+
+export type BoardColumn<T> = {
+  key: string;
+  title: string;
+  tasks: T[];
+};
+
+type TaskHistoryEntry = {
+  timestamp: string;
+  changes: string;
+  progress?: number;
+  completed?: boolean;
+};
+
+// Minimal task shape needed to place a task on the board
+type BoardTask = {
+  id: string;
+  subject?: string;
+  completed: boolean;
+  progress?: number;
+  history?: TaskHistoryEntry[];
+};
+
+// Task fields changed by moving a card
+export type BoardMoveUpdates = {
+  subject?: string;
+  completed?: boolean;
+  completedAt?: string;
+  progress?: number;
+  lastModified: string;
+  history: TaskHistoryEntry[];
+};
+
+export const STATUS_COLUMNS: { key: TaskStatus; title: string }[] = [
+  { key: 'notStarted', title: 'Not Started' },
+  { key: 'inProgress', title: 'In Progress' },
+  { key: 'done', title: 'Done' }
+];
+
+// Progress given to a task that is moved to "In Progress" without any progress yet
+const DEFAULT_IN_PROGRESS = 25;
+
+// Column key for tasks without a subject
+const NO_SUBJECT_KEY = 'Other';
+
+/**
+ * Get the board status of a task
+ * @param task Task to check
+ */
+export const getTaskStatus = (task: BoardTask): TaskStatus => {
+  if (task.completed) return 'done';
+  if (task.progress && task.progress > 0) return 'inProgress';
+  return 'notStarted';
+};
+
+/**
+ * Split tasks into board columns
+ * @param tasks Tasks to show on the board
+ * @param grouping Whether columns are statuses or subjects
+ * @param subjects Known subject names, each gets a column even when empty
+ */
+export const getBoardColumns = <T extends BoardTask>(
+  tasks: T[],
+  grouping: BoardGrouping,
+  subjects: string[] = []
+): BoardColumn<T>[] => {
+  if (grouping === 'status') {
+    return STATUS_COLUMNS.map(column => ({
+      ...column,
+      tasks: tasks.filter(task => getTaskStatus(task) === column.key)
+    }));
+  }
+
+  // Known subjects first, then any subject only found on tasks, then tasks without a subject
+  const subjectKeys = [...subjects];
+  tasks.forEach(task => {
+    if (task.subject && !subjectKeys.includes(task.subject)) {
+      subjectKeys.push(task.subject);
+    }
+  });
+  if (!subjectKeys.includes(NO_SUBJECT_KEY)) {
+    subjectKeys.push(NO_SUBJECT_KEY);
+  }
+
+  return subjectKeys.map(subject => ({
+    key: subject,
+    title: subject,
+    tasks: tasks.filter(task => (task.subject || NO_SUBJECT_KEY) === subject)
+  }));
+};
+
+/**
+ * Build the task updates for moving a card to another column, including a history entry
+ * @param task Task being moved
+ * @param grouping Current board grouping
+ * @param columnKey Key of the column the card was dropped on
+ * @param columnTitle Title of that column, used in the history entry
+ * @returns Updates to apply, or null if the card stays where it is
+ */
+export const getColumnMoveUpdates = (
+  task: BoardTask,
+  grouping: BoardGrouping,
+  columnKey: string,
+  columnTitle: string
+): BoardMoveUpdates | null => {
+  const now = new Date().toISOString();
+  let updates: Omit<BoardMoveUpdates, 'lastModified' | 'history'>;
+
+  if (grouping === 'status') {
+    if (getTaskStatus(task) === columnKey) return null;
+
+    switch (columnKey as TaskStatus) {
+      case 'notStarted':
+        updates = { completed: false, completedAt: undefined, progress: 0 };
+        break;
+      case 'inProgress': {
+        const progress = task.progress && task.progress > 0 && task.progress < 100 ? task.progress : DEFAULT_IN_PROGRESS;
+        updates = { completed: false, completedAt: undefined, progress };
+        break;
+      }
+      case 'done':
+        updates = { completed: true, completedAt: now, progress: 100 };
+        break;
+      default:
+        return null;
+    }
+  } else {
+    if ((task.subject || NO_SUBJECT_KEY) === columnKey) return null;
+    updates = { subject: columnKey === NO_SUBJECT_KEY ? '' : columnKey };
+  }
+
+  const historyEntry: TaskHistoryEntry = {
+    timestamp: now,
+    changes: `Moved to ${columnTitle} on the board`,
+    progress: updates.progress ?? task.progress,
+    completed: updates.completed !== undefined && updates.completed !== task.completed ? updates.completed : undefined
+  };
+
+  return {
+    ...updates,
+    lastModified: now,
+    history: [...(task.history || []), historyEntry].slice(-10) // Keep only last 10 entries
+  };
+};
+
+export default {
+  getTaskStatus,
+  getBoardColumns,
+  getColumnMoveUpdates
+};
@@ -0,0 +1,93 @@
+/**
+ * Utility functions for task dependencies.
+ * A task lists the ids of its prerequisites in `blockedBy`; it is blocked while
+ * any of those prerequisites still exists and is not completed.
+ */
+
+// Minimal task shape needed to resolve dependencies
+type DependentTask = {
+  id: string;
+  title: string;
+  completed: boolean;
+  archived: boolean;
+  blockedBy?: string[];
+};
+
+/**
+ * Get the prerequisites that are still open for a task
+ * @param task Task to check
+ * @param tasks All current tasks
+ */
+export const getBlockingTasks = <T extends DependentTask>(task: T, tasks: T[]): T[] => {
+  if (!task.blockedBy || task.blockedBy.length === 0) return [];
+
+  return tasks.filter(t => task.blockedBy!.includes(t.id) && !t.completed);
+};
+
+/**
+ * Check whether a task is blocked by an unfinished prerequisite
+ * @param task Task to check
+ * @param tasks All current tasks
+ */
+export const isTaskBlocked = <T extends DependentTask>(task: T, tasks: T[]): boolean => {
+  return !task.completed && getBlockingTasks(task, tasks).length > 0;
+};
+
+/**
+ * Check whether giving a task the proposed prerequisites would create a dependency cycle
+ * @param taskId Task whose dependencies are being edited
+ * @param blockedBy Proposed prerequisite ids
+ * @param tasks All current tasks
+ * @returns The title chain of the cycle (e.g. ['A', 'B', 'A']), or null if there is none
+ */
+export const findDependencyCycle = <T extends DependentTask>(
+  taskId: string,
+  blockedBy: string[],
+  tasks: T[]
+): string[] | null => {
+  const tasksById = new Map(tasks.map(t => [t.id, t]));
+  const getPrerequisites = (id: string) => (id === taskId ? blockedBy : tasksById.get(id)?.blockedBy || []);
+  const getTitle = (id: string) => tasksById.get(id)?.title || id;
+
+  // Depth-first search from the task through its prerequisites, looking for a path back to it
+  const visited = new Set<string>();
+  const search = (id: string, path: string[]): string[] | null => {
+    for (const prerequisiteId of getPrerequisites(id)) {
+      if (prerequisiteId === taskId) {
+        return [...path, prerequisiteId];
+      }
+      if (visited.has(prerequisiteId)) continue;
+      visited.add(prerequisiteId);
+
+      const cycle = search(prerequisiteId, [...path, prerequisiteId]);
+      if (cycle) return cycle;
+    }
+    return null;
+  };
+
+  const cycle = search(taskId, [taskId]);
+  return cycle ? cycle.map(getTitle) : null;
+};
+
+/**
+ * Get the tasks that become actionable once a prerequisite is completed
+ * @param completedTaskId Task that is being completed
+ * @param tasks All tasks before the completion is applied
+ */
+export const getTasksUnblockedBy = <T extends DependentTask>(completedTaskId: string, tasks: T[]): T[] => {
+  const tasksAfterCompletion = tasks.map(t => (t.id === completedTaskId ? { ...t, completed: true } : t));
+
+  return tasks.filter(task =>
+    !task.completed &&
+    !task.archived &&
+    task.blockedBy?.includes(completedTaskId) &&
+    !isTaskBlocked(task, tasksAfterCompletion)
+  );
+};
+
+export default {
+  getBlockingTasks,
+  isTaskBlocked,
+  findDependencyCycle,
+  getTasksUnblockedBy
+};
@@ -0,0 +1,133 @@
+import { parseISO } from 'date-fns';
+
+/**
+ * Utility functions for ordering tasks.
+ * Manual order is kept in a fractional sort key on each task, so moving a task
+ * only has to update that one task. Tasks that were never moved fall back to
+ * their creation time, which puts new tasks at the end of the manual order.
+ */
+
+export type TaskSortMode = 'manual' | 'dueDate' | 'priority' | 'created' | 'subject' | 'progress';
+
+export const TASK_SORT_MODES: { key: TaskSortMode; label: string }[] = [
+  { key: 'subject', label: 'Subject' },
+  { key: 'manual', label: 'Manual' },
+  { key: 'dueDate', label: 'Due Date' },
+  { key: 'priority', label: 'Priority' },
+  { key: 'created', label: 'Created' },
+  { key: 'progress', label: 'Progress' }
+];
+
+// Sort mode for filters the user hasn't picked one for, matches the grouped list
+export const DEFAULT_SORT_MODE: TaskSortMode = 'subject';
+
+// Gap between keys when a list has to be renumbered
+const SORT_KEY_STEP = 1000;
+
+// Smallest gap left between neighbours before the list is renumbered
+const MIN_SORT_KEY_GAP = 1e-6;
+
+const PRIORITY_RANK: Record<string, number> = { high: 0, medium: 1, low: 2 };
+
+// Minimal task shape needed to order tasks
+type OrderableTask = {
+  id: string;
+  dueDate: string;
+  createdAt: string;
+  subject?: string;
+  priority?: 'low' | 'medium' | 'high';
+  progress?: number;
+  sortKey?: number;
+};
+
+/**
+ * Get the manual order key of a task
+ * @param task Task to check
+ */
+export const getSortKey = (task: OrderableTask): number => {
+  return task.sortKey ?? parseISO(task.createdAt).getTime();
+};
+
+const byManualOrder = (a: OrderableTask, b: OrderableTask) => getSortKey(a) - getSortKey(b);
+
+const byDueDate = (a: OrderableTask, b: OrderableTask) => {
+  return parseISO(a.dueDate).getTime() - parseISO(b.dueDate).getTime();
+};
+
+/**
+ * Sort tasks for display, ties fall back to the manual order
+ * @param tasks Tasks to sort
+ * @param mode Sort mode
+ * @returns A sorted copy of the tasks
+ */
+export const sortTasks = <T extends OrderableTask>(tasks: T[], mode: TaskSortMode): T[] => {
+  const sorted = [...tasks];
+
+  switch (mode) {
+    case 'dueDate':
+      return sorted.sort((a, b) => byDueDate(a, b) || byManualOrder(a, b));
+    case 'priority':
+      return sorted.sort((a, b) =>
+        (PRIORITY_RANK[a.priority || ''] ?? 3) - (PRIORITY_RANK[b.priority || ''] ?? 3) ||
+        byDueDate(a, b) ||
+        byManualOrder(a, b)
+      );
+    case 'created':
+      // Newest first
+      return sorted.sort((a, b) => parseISO(b.createdAt).getTime() - parseISO(a.createdAt).getTime());
+    case 'subject':
+      return sorted.sort((a, b) => (a.subject || '').localeCompare(b.subject || '') || byManualOrder(a, b));
+    case 'progress':
+      // Furthest along first
+      return sorted.sort((a, b) => (b.progress || 0) - (a.progress || 0) || byDueDate(a, b));
+    case 'manual':
+    default:
+      return sorted.sort(byManualOrder);
+  }
+};
+
+/**
+ * Work out the new sort keys after a task was dragged to a new position.
+ * Usually only the moved task gets a key halfway between its new neighbours,
+ * when there is no room left between them the whole list is renumbered.
+ * @param orderedTasks Tasks in their new order, including the moved task
+ * @param movedId Id of the task that was moved
+ * @returns New sort keys by task id
+ */
+export const getReorderSortKeys = (orderedTasks: OrderableTask[], movedId: string): Record<string, number> => {
+  const index = orderedTasks.findIndex(task => task.id === movedId);
+  if (index === -1) return {};
+
+  const previous = orderedTasks[index - 1];
+  const next = orderedTasks[index + 1];
+
+  let sortKey: number;
+  if (previous && next) {
+    sortKey = (getSortKey(previous) + getSortKey(next)) / 2;
+  } else if (previous) {
+    sortKey = getSortKey(previous) + SORT_KEY_STEP;
+  } else if (next) {
+    sortKey = getSortKey(next) - SORT_KEY_STEP;
+  } else {
+    return {};
+  }
+
+  const hasRoom = (!previous || sortKey - getSortKey(previous) > MIN_SORT_KEY_GAP) &&
+    (!next || getSortKey(next) - sortKey > MIN_SORT_KEY_GAP);
+  if (hasRoom) {
+    return { [movedId]: sortKey };
+  }
+
+  // Renumber the list from its lowest key, keeping it roughly in place among tasks outside the list
+  const start = Math.min(...orderedTasks.filter(task => task.id !== movedId).map(getSortKey));
+  return orderedTasks.reduce<Record<string, number>>((keys, task, position) => {
+    keys[task.id] = start + position * SORT_KEY_STEP;
+    return keys;
+  }, {});
+};
+
+export default {
+  getSortKey,
+  sortTasks,
+  getReorderSortKeys
+};
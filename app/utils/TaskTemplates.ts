@@ -0,0 +1,110 @@
+import { addDays, parseISO, startOfDay } from 'date-fns';
+
+/**
+ * Utility functions for task templates.
+ * A template is a reusable set of tasks whose due dates are stored as day
+ * offsets from an anchor date, such as the date of an exam.
+ */
+
+export type TemplatePriority = 'low' | 'medium' | 'high';
+
+export type TemplateItem = {
+  id: string;
+  title: string;
+  description?: string;
+  offsetDays: number; // Days relative to the anchor date, negative is before it
+  dueTime?: string; // HH:mm
+  priority: TemplatePriority;
+  estimatedMinutes?: number;
+};
+
+export type TaskTemplate = {
+  id: string;
+  name: string;
+  subject?: string; // Subject given to every task, can be overridden when applying
+  items: TemplateItem[];
+  createdAt: string;
+};
+
+// Task fields produced by applying a template, ready for addTask
+export type TemplateTaskInput = {
+  title: string;
+  description: string;
+  subject: string;
+  priority: TemplatePriority;
+  dueDate: string;
+  dueTime?: string;
+  estimatedMinutes?: number;
+};
+
+export type ApplyTemplateOptions = {
+  subject?: string; // Overrides the template subject, e.g. the subject of an exam
+  titleSuffix?: string; // Appended to every title, e.g. " (Unit 3)"
+};
+
+// Starting point offered when no templates exist yet
+export const EXAMPLE_TEMPLATE: Omit<TaskTemplate, 'id' | 'createdAt'> = {
+  name: 'Unit Study Plan',
+  items: [
+    { id: 'read', title: 'Read chapter', offsetDays: -10, priority: 'medium', estimatedMinutes: 60 },
+    { id: 'exercises', title: 'Do exercises', offsetDays: -7, priority: 'medium', estimatedMinutes: 90 },
+    { id: 'notes', title: 'Review notes', offsetDays: -3, priority: 'high', estimatedMinutes: 45 },
+    { id: 'practice', title: 'Practice test', offsetDays: -1, priority: 'high', estimatedMinutes: 60 }
+  ]
+};
+
+/**
+ * Create an empty template item
+ * @param offsetDays Day offset for the new item
+ */
+export const createTemplateItem = (offsetDays: number = 0): TemplateItem => ({
+  id: `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+  title: '',
+  offsetDays,
+  priority: 'medium'
+});
+
+/**
+ * Describe a day offset, e.g. "3 days before" or "On the day"
+ * @param offsetDays Days relative to the anchor date
+ */
+export const describeOffset = (offsetDays: number): string => {
+  if (offsetDays === 0) return 'On the day';
+
+  const days = Math.abs(offsetDays);
+  return `${days} ${days === 1 ? 'day' : 'days'} ${offsetDays < 0 ? 'before' : 'after'}`;
+};
+
+/**
+ * Build the tasks a template creates for an anchor date
+ * @param template Template to apply
+ * @param anchorDate Date the offsets are relative to, as a Date or ISO string
+ * @param options Subject override and title suffix
+ * @returns Task fields in due date order, items without a title are skipped
+ */
+export const applyTemplate = (
+  template: TaskTemplate,
+  anchorDate: Date | string,
+  options: ApplyTemplateOptions = {}
+): TemplateTaskInput[] => {
+  const anchor = startOfDay(typeof anchorDate === 'string' ? parseISO(anchorDate) : anchorDate);
+
+  return template.items
+    .filter(item => item.title.trim())
+    .sort((a, b) => a.offsetDays - b.offsetDays)
+    .map(item => ({
+      title: `${item.title.trim()}${options.titleSuffix || ''}`,
+      description: item.description || '',
+      subject: options.subject ?? template.subject ?? '',
+      priority: item.priority,
+      dueDate: addDays(anchor, item.offsetDays).toISOString(),
+      dueTime: item.dueTime,
+      estimatedMinutes: item.estimatedMinutes
+    }));
+};
+
+export default {
+  createTemplateItem,
+  describeOffset,
+  applyTemplate
+};
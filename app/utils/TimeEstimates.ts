@@ -0,0 +1,137 @@
+/**
+ * Utility functions for task time estimates.
+ * Actual minutes are rolled up on each task as study sessions are recorded, and
+ * added up again from the whole session history when the app loads, so estimates
+ * can be compared with the time really spent.
+ */
+
+// Minimal task shape needed to compare estimates with actual time
+type EstimatedTask = {
+  subject?: string;
+  completed: boolean;
+  estimatedMinutes?: number;
+  actualMinutes?: number;
+};
+
+// Minimal session shape needed to add up study time per task
+type TaskSession = {
+  taskId?: string;
+  duration: number; // Minutes studied
+};
+
+export type EstimateAccuracy = {
+  subject: string;
+  taskCount: number;
+  estimatedMinutes: number;
+  actualMinutes: number;
+  ratio: number; // Actual time divided by estimated time, above 1 means under-estimated
+  accuracy: number; // 0-100, how close individual estimates were on average
+};
+
+export const ESTIMATE_PRESETS = [15, 30, 45, 60, 90, 120];
+
+// Estimates within this fraction of the actual time count as on target
+const ON_TARGET_MARGIN = 0.1;
+
+// Subject name used for tasks without one
+const NO_SUBJECT = 'Other';
+
+/**
+ * Format minutes as a short duration, e.g. "45m" or "1h 30m"
+ * @param minutes Minutes to format
+ */
+export const formatMinutes = (minutes: number): string => {
+  const rounded = Math.round(minutes);
+  if (rounded < 60) return `${rounded}m`;
+
+  const hours = Math.floor(rounded / 60);
+  const mins = rounded % 60;
+  return mins > 0 ? `${hours}h ${mins}m` : `${hours}h`;
+};
+
+/**
+ * Add up the recorded study time of each task
+ * @param sessions Every recorded study session
+ * @returns Minutes by task id, tasks without sessions are left out
+ */
+export const getActualMinutesByTask = (sessions: TaskSession[]): Record<string, number> => {
+  return sessions.reduce<Record<string, number>>((minutesByTask, session) => {
+    if (session.taskId) {
+      minutesByTask[session.taskId] = (minutesByTask[session.taskId] || 0) + session.duration;
+    }
+    return minutesByTask;
+  }, {});
+};
+
+/**
+ * Get the share of the estimate already spent on a task
+ * @param task Task to check
+ * @returns Percentage, can go above 100, or undefined if the task has no estimate
+ */
+export const getEstimateUsage = (task: EstimatedTask): number | undefined => {
+  if (!task.estimatedMinutes) return undefined;
+  return Math.round(((task.actualMinutes || 0) / task.estimatedMinutes) * 100);
+};
+
+/**
+ * Work out how well each subject's tasks were estimated.
+ * Only completed tasks with both an estimate and recorded study time count.
+ * @param tasks All tasks
+ * @returns Accuracy per subject, subjects with the most tasks first
+ */
+export const getEstimateAccuracyBySubject = (tasks: EstimatedTask[]): EstimateAccuracy[] => {
+  const groups: Record<string, EstimatedTask[]> = {};
+
+  tasks
+    .filter(task => task.completed && task.estimatedMinutes && task.actualMinutes)
+    .forEach(task => {
+      const subject = task.subject || NO_SUBJECT;
+      groups[subject] = [...(groups[subject] || []), task];
+    });
+
+  return Object.entries(groups)
+    .map(([subject, subjectTasks]) => {
+      const estimatedMinutes = subjectTasks.reduce((sum, task) => sum + (task.estimatedMinutes || 0), 0);
+      const actualMinutes = subjectTasks.reduce((sum, task) => sum + (task.actualMinutes || 0), 0);
+
+      // Average error relative to the actual time, so a 30m estimate for a 60m task is 50% off
+      const averageError = subjectTasks.reduce((sum, task) => {
+        const actual = task.actualMinutes as number;
+        return sum + Math.abs(actual - (task.estimatedMinutes as number)) / actual;
+      }, 0) / subjectTasks.length;
+
+      return {
+        subject,
+        taskCount: subjectTasks.length,
+        estimatedMinutes,
+        actualMinutes,
+        ratio: actualMinutes / estimatedMinutes,
+        accuracy: Math.max(0, Math.round((1 - averageError) * 100))
+      };
+    })
+    .sort((a, b) => b.taskCount - a.taskCount || a.subject.localeCompare(b.subject));
+};
+
+/**
+ * Describe whether estimates tend to be too low or too high
+ * @param ratio Actual time divided by estimated time
+ */
+export const describeEstimateBias = (ratio: number): string => {
+  if (Math.abs(ratio - 1) <= ON_TARGET_MARGIN) {
+    return 'Estimates are on target';
+  }
+
+  if (ratio > 1) {
+    return `Takes ${Math.round((ratio - 1) * 100)}% longer than estimated`;
+  }
+
+  return `Takes ${Math.round((1 - ratio) * 100)}% less time than estimated`;
+};
+
+export default {
+  formatMinutes,
+  getActualMinutesByTask,
+  getEstimateUsage,
+  getEstimateAccuracyBySubject,
+  describeEstimateBias
+};
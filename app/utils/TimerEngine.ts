@@ -0,0 +1,170 @@
+/**
+ * Timer state machine for countdown timers.
+ * A run is idle until started, then running, paused or completed. While running
+ * only its end time is kept and the time left is read off the clock, so a late
+ * or skipped tick, or a few minutes in the background, can't make it drift.
+ * Every transition takes the current time, so the same run gives the same answer
+ * on the timer screen and in the background task. The time left is kept to the
+ * millisecond and only rounded to whole seconds for display, so pausing and
+ * resuming never adds time back.
+ */
+
+export type TimerStatus = 'idle' | 'running' | 'paused' | 'completed';
+
+export type TimerRun = {
+  status: TimerStatus;
+  endTime: number | null; // When the run reaches zero, kept once completed and null otherwise
+  remainingMs: number; // Milliseconds left when the run was last started or paused
+};
+
+// Timer fields as they are saved with the timer state
+export type SavedTimerFields = {
+  endTime: number | null;
+  timeLeft: number; // Seconds shown on the timer
+  remainingMs?: number; // Missing from timer states saved before it was kept
+  isRunning: boolean;
+};
+
+/**
+ * Seconds left until an end time, rounded up so a fresh 25 minute run shows 25:00
+ * @param endTime End time in milliseconds
+ * @param now Current time in milliseconds
+ */
+export const getSecondsUntil = (endTime: number, now: number = Date.now()): number => {
+  return Math.max(0, Math.ceil((endTime - now) / 1000));
+};
+
+/**
+ * Create a run that hasn't been started yet
+ * @param seconds Length of the run
+ */
+export const createTimerRun = (seconds: number): TimerRun => {
+  return { status: 'idle', endTime: null, remainingMs: seconds * 1000 };
+};
+
+/**
+ * Get the milliseconds a run has left
+ * @param run Run to look at
+ * @param now Current time in milliseconds
+ */
+export const getRemainingMs = (run: TimerRun, now: number = Date.now()): number => {
+  switch (run.status) {
+    case 'running':
+      return run.endTime === null ? run.remainingMs : Math.max(0, run.endTime - now);
+    case 'completed':
+      return 0;
+    default:
+      return run.remainingMs;
+  }
+};
+
+/**
+ * Get the seconds a run has left, rounded up for display
+ * @param run Run to look at
+ * @param now Current time in milliseconds
+ */
+export const getTimeLeft = (run: TimerRun, now: number = Date.now()): number => {
+  return Math.ceil(getRemainingMs(run, now) / 1000);
+};
+
+/**
+ * Mark a running run as completed once its end time has passed
+ * @param run Run to check
+ * @param now Current time in milliseconds
+ */
+export const settleTimerRun = (run: TimerRun, now: number = Date.now()): TimerRun => {
+  if (run.status !== 'running' || run.endTime === null || run.endTime > now) return run;
+  return { status: 'completed', endTime: run.endTime, remainingMs: 0 };
+};
+
+/**
+ * Start an idle run or resume a paused one, it ends the time it had left from now
+ * @param run Run to start
+ * @param now Current time in milliseconds
+ */
+export const startTimerRun = (run: TimerRun, now: number = Date.now()): TimerRun => {
+  if (run.status !== 'idle' && run.status !== 'paused') return run;
+  if (run.remainingMs <= 0) {
+    return { status: 'completed', endTime: now, remainingMs: 0 };
+  }
+  return { status: 'running', endTime: now + run.remainingMs, remainingMs: run.remainingMs };
+};
+
+/**
+ * Pause a running run, keeping the time it had left.
+ * A run paused after its end time has completed instead.
+ * @param run Run to pause
+ * @param now Current time in milliseconds
+ */
+export const pauseTimerRun = (run: TimerRun, now: number = Date.now()): TimerRun => {
+  const settled = settleTimerRun(run, now);
+  if (settled.status !== 'running') return settled;
+  return { status: 'paused', endTime: null, remainingMs: getRemainingMs(settled, now) };
+};
+
+/**
+ * Pick a paused run up where it left off, unless the timer has been set to another time since
+ * @param paused Run as it was last paused, if any
+ * @param seconds Seconds the timer shows now
+ */
+export const resumeTimerRun = (paused: TimerRun | null, seconds: number): TimerRun => {
+  return paused && paused.status === 'paused' && getTimeLeft(paused) === seconds ? paused : createTimerRun(seconds);
+};
+
+/**
+ * Rebuild a run from the saved timer state, settling it against the current time
+ * @param saved Timer fields as they were saved
+ * @param now Current time in milliseconds
+ */
+export const restoreTimerRun = (saved: SavedTimerFields, now: number = Date.now()): TimerRun => {
+  const remainingMs = saved.remainingMs ?? saved.timeLeft * 1000;
+  if (saved.isRunning && saved.endTime !== null) {
+    return settleTimerRun({ status: 'running', endTime: saved.endTime, remainingMs }, now);
+  }
+  // The background task saves a run that reached zero as stopped with its end time kept
+  if (remainingMs <= 0 && saved.endTime !== null && saved.endTime <= now) {
+    return { status: 'completed', endTime: saved.endTime, remainingMs: 0 };
+  }
+  if (remainingMs > 0) {
+    return { status: 'paused', endTime: null, remainingMs };
+  }
+  return createTimerRun(0);
+};
+
+/**
+ * Get the fields saved with the timer state for a run
+ * @param run Run to save
+ * @param now Current time in milliseconds
+ */
+export const getSavedTimerFields = (run: TimerRun, now: number = Date.now()): SavedTimerFields => {
+  return {
+    endTime: run.status === 'running' || run.status === 'completed' ? run.endTime : null,
+    timeLeft: getTimeLeft(run, now),
+    remainingMs: getRemainingMs(run, now),
+    isRunning: run.status === 'running'
+  };
+};
+
+/**
+ * Notification sent when a countdown ends
+ * @param mode Timer mode that ends
+ */
+export const getTimerCompletionNotification = (mode: string): { title: string; body: string } => {
+  return mode === 'pomodoro'
+    ? { title: 'Focus Session Complete', body: 'Great job! Your focus session is complete.' }
+    : { title: 'Break Time Over', body: 'Break time is over. Ready to focus again?' };
+};
+
+export default {
+  getSecondsUntil,
+  createTimerRun,
+  getRemainingMs,
+  getTimeLeft,
+  settleTimerRun,
+  startTimerRun,
+  pauseTimerRun,
+  resumeTimerRun,
+  restoreTimerRun,
+  getSavedTimerFields,
+  getTimerCompletionNotification
+};
@@ -0,0 +1,81 @@
+import { AmbientMix } from './AmbientSounds';
+
+/**
+ * Utility functions for named timer profiles.
+ * A profile bundles the four timer durations under a name. When no profile is
+ * active the timer falls back to the durations in the global settings, and a
+ * subject can name a profile that is loaded whenever one of its tasks is picked.
+ */
+
+export type TimerDurations = {
+  pomodoroLength: number;
+  shortBreakLength: number;
+  longBreakLength: number;
+  longBreakInterval: number;
+};
+
+export type TimerProfile = TimerDurations & {
+  id: string;
+  name: string;
+  ambientMix?: AmbientMix; // Sounds for its focus sessions, the global mix is used without one
+};
+
+// Profiles offered before the user has made any of their own
+export const DEFAULT_TIMER_PROFILES: TimerProfile[] = [
+  { id: 'deep-work', name: 'Deep work', pomodoroLength: 50, shortBreakLength: 10, longBreakLength: 30, longBreakInterval: 3 },
+  { id: 'reading', name: 'Reading', pomodoroLength: 25, shortBreakLength: 5, longBreakLength: 15, longBreakInterval: 4 },
+  { id: 'exam-cram', name: 'Exam cram', pomodoroLength: 90, shortBreakLength: 20, longBreakLength: 30, longBreakInterval: 2 }
+];
+
+// Minimal subject shape needed to look up its profile
+type ProfileSubject = {
+  name: string;
+  timerProfileId?: string;
+};
+
+/**
+ * Get the durations the timer should use
+ * @param settings Global timer settings
+ * @param profile Active profile, the global settings are used without one
+ */
+export const getTimerDurations = (settings: TimerDurations, profile?: TimerProfile | null): TimerDurations => {
+  const source = profile || settings;
+  return {
+    pomodoroLength: source.pomodoroLength,
+    shortBreakLength: source.shortBreakLength,
+    longBreakLength: source.longBreakLength,
+    longBreakInterval: source.longBreakInterval
+  };
+};
+
+/**
+ * Find the default profile bound to a subject
+ * @param profiles All timer profiles
+ * @param subjects All subjects
+ * @param subjectName Subject of the selected task
+ * @returns The bound profile, or undefined if the subject has none
+ */
+export const getSubjectProfile = (
+  profiles: TimerProfile[],
+  subjects: ProfileSubject[],
+  subjectName?: string
+): TimerProfile | undefined => {
+  if (!subjectName) return undefined;
+  const subject = subjects.find(s => s.name === subjectName);
+  if (!subject?.timerProfileId) return undefined;
+  return profiles.find(profile => profile.id === subject.timerProfileId);
+};
+
+/**
+ * Short focus/break summary of a profile, e.g. "50/10"
+ * @param profile Profile to describe
+ */
+export const formatProfileSummary = (profile: TimerDurations): string => {
+  return `${profile.pomodoroLength}/${profile.shortBreakLength}`;
+};
+
+export default {
+  getTimerDurations,
+  getSubjectProfile,
+  formatProfileSummary
+};